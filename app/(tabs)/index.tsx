@@ -23,6 +23,8 @@ import { RootState } from '../../app/store';
 import useNetworkStatus from '../../hooks/useNetworkStatus';
 import i18n from '../../i18n';
 import dashboardService from '../../services/dashboardService';
+import notificationService from '../../services/notificationService';
+import receivableService, { buildAgingReport, OpenReceivable } from '../../services/receivableService';
 import AddCategoryModal from '../categories/add';
 import AddWarehouseModal from '../warehouses/add';
 
@@ -36,6 +38,7 @@ const iconMap = {
   canceled: { name: 'x-circle', color: '#F44336', bg: '#ffebee' },
   pending: { name: 'clock', color: '#9E9E9E', bg: '#f5f5f5' },
   sale: { name: 'dollar-sign', color: '#10b981', bg: '#ecfdf5' },
+  adjustment: { name: 'sliders', color: '#8b5cf6', bg: '#f5f3ff' },
 };
 
 const MAX_RECENT_ACTIVITY = 10;
@@ -64,6 +67,8 @@ export default function HomeScreen() {
     todaySalesTotal: 0,
     threshold: 0,
   });
+  const [receivables, setReceivables] = useState<OpenReceivable[]>([]);
+  const [expiringCount, setExpiringCount] = useState<number>(0);
   const [refreshing, setRefreshing] = useState(false);
 
   const [, setSummaryError] = useState<string | null>(null);
@@ -181,16 +186,45 @@ export default function HomeScreen() {
     }
   }, [t, isConnected, offlineErrorShown]);
 
+  // Served from the cache when offline; also keeps overdue reminders in step
+  const fetchReceivables = useCallback(async (force = false) => {
+    try {
+      // A background refresh may drop sales settled elsewhere, so reminders follow it too
+      const onUpdate = (fresh: OpenReceivable[]) => {
+        setReceivables(fresh);
+        notificationService.syncOverdueReminders(fresh);
+      };
+      const data = await receivableService.getOpenReceivables({ force, onUpdate });
+      setReceivables(Array.isArray(data) ? data : []);
+      if (isConnected) notificationService.syncOverdueReminders(data);
+    } catch {
+      // Card keeps its last value
+    }
+  }, [isConnected]);
+
+  // Lots expiring within 30 days, listed in full on the expiring-soon screen
+  const fetchExpiring = useCallback(async () => {
+    if (!isConnected) return;
+    try {
+      const data = await dashboardService.getExpiringSoon(30);
+      setExpiringCount(Array.isArray(data) ? data.length : 0);
+    } catch {
+      // Card keeps its last value
+    }
+  }, [isConnected]);
+
     useEffect(() => {
     if (!token) return; // Stop if not logged in yet
     fetchSummaryData();
     fetchRecentActivity();
-  }, [token, isConnected, fetchRecentActivity, fetchSummaryData]);
+    fetchReceivables();
+    fetchExpiring();
+  }, [token, isConnected, fetchRecentActivity, fetchSummaryData, fetchReceivables, fetchExpiring]);
 
   const onRefresh = async () => {
     try {
       setRefreshing(true);
-      await Promise.all([fetchSummaryData(), fetchRecentActivity()]);
+      await Promise.all([fetchSummaryData(), fetchRecentActivity(), fetchReceivables(true), fetchExpiring()]);
     } catch{
       // if (__DEV__) console.error('Dashboard refresh failed:', error);
     } finally {
@@ -210,6 +244,8 @@ export default function HomeScreen() {
     }
   };
 
+  const aging = buildAgingReport(receivables);
+
   const summaryCards = [
     {
       title: t('dashboard.totalProducts'),
@@ -339,6 +375,46 @@ export default function HomeScreen() {
               ))}
             </View>
 
+            {/* Overdue Credit (admins, opens the aging report) */}
+            {(userRole === 'admin' || userRole === 'superadmin') && (
+              <TouchableOpacity
+                style={[styles.overdueCard, { backgroundColor: aging.overdue > 0 ? '#ef4444' : '#64748b' }]}
+                onPress={() => router.push('/receivables')}
+                activeOpacity={0.8}
+              >
+                <View style={styles.cardIconContainer}>
+                  <Feather name="clock" size={20} color="#fff" />
+                </View>
+                <View style={{ flex: 1, marginLeft: 12 }}>
+                  <Text style={[styles.cardTitle, { color: '#fff' }]}>{t('dashboard.overdueCredit')}</Text>
+                  <Text style={[styles.cardCount, { color: '#fff' }]}>ETB {aging.overdue.toLocaleString()}</Text>
+                  <Text style={styles.overdueSubtext}>
+                    {t('dashboard.overdueSales', { count: aging.overdueCount })}
+                  </Text>
+                </View>
+                <Feather name="chevron-right" size={22} color="#fff" />
+              </TouchableOpacity>
+            )}
+
+            {/* Expiring Soon (batch-tracked stock, shown once there's something to act on) */}
+            {expiringCount > 0 && (
+              <TouchableOpacity
+                style={[styles.overdueCard, { backgroundColor: '#d97706' }]}
+                onPress={() => router.push('/expiring')}
+                activeOpacity={0.8}
+              >
+                <View style={styles.cardIconContainer}>
+                  <Feather name="calendar" size={20} color="#fff" />
+                </View>
+                <View style={{ flex: 1, marginLeft: 12 }}>
+                  <Text style={[styles.cardTitle, { color: '#fff' }]}>{t('dashboard.expiringSoon')}</Text>
+                  <Text style={[styles.cardCount, { color: '#fff' }]}>{expiringCount}</Text>
+                  <Text style={styles.overdueSubtext}>{t('dashboard.expiringSoonHint')}</Text>
+                </View>
+                <Feather name="chevron-right" size={22} color="#fff" />
+              </TouchableOpacity>
+            )}
+
             {/* Low Stock Threshold */}
             <View style={styles.thresholdContainer}>
               <Text style={styles.thresholdLabel}>{t('dashboard.lowStockThreshold')}</Text>
@@ -494,6 +570,12 @@ const styles = StyleSheet.create({
   },
   cardTitle: { fontSize: 12, fontWeight: '600', marginBottom: 4, opacity: 0.9 },
   cardCount: { fontSize: 20, fontWeight: '700' },
+  overdueCard: {
+    flexDirection: 'row', alignItems: 'center', padding: 16, borderRadius: 12, marginTop: -8, marginBottom: 24,
+    shadowColor: '#000', shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1, shadowRadius: 4, elevation: 2,
+  },
+  overdueSubtext: { fontSize: 12, color: '#fff', opacity: 0.9, marginTop: 2 },
   sectionTitle: { fontSize: 16, fontWeight: '600', color: '#1e293b', marginBottom: 12 },
   actionsRow: {
     flexDirection: 'row', justifyContent: 'space-between', marginBottom: 24,
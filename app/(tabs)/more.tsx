@@ -36,6 +36,18 @@ useEffect(() => {
         onPress: () => router.push('/warehouses'),
         adminOnly: false,
       },
+      {
+        title: t('more.customers'),
+        icon: 'users',
+        onPress: () => router.push('/customers'),
+        adminOnly: false,
+      },
+      {
+        title: t('more.priceLists'),
+        icon: 'tag',
+        onPress: () => router.push('/price-lists'),
+        adminOnly: true,
+      },
       {
         title: t('more.categories'),
         icon: 'list',
@@ -48,6 +60,36 @@ useEffect(() => {
         onPress: () => router.push('/expenses'),
         adminOnly: true,
       },
+      {
+        title: t('more.receivables'),
+        icon: 'clock',
+        onPress: () => router.push('/receivables'),
+        adminOnly: true,
+      },
+      {
+        title: t('more.suppliers'),
+        icon: 'truck',
+        onPress: () => router.push('/suppliers'),
+        adminOnly: true,
+      },
+      {
+        title: t('more.purchases'),
+        icon: 'shopping-bag',
+        onPress: () => router.push('/purchases'),
+        adminOnly: true,
+      },
+      {
+        title: t('more.stocktake'),
+        icon: 'clipboard',
+        onPress: () => router.push('/stocktake'),
+        adminOnly: false,
+      },
+      {
+        title: t('more.expiring'),
+        icon: 'calendar',
+        onPress: () => router.push('/expiring'),
+        adminOnly: false,
+      },
       {
         title: t('more.reports'),
         icon: 'bar-chart-2',
@@ -1,6 +1,6 @@
 import categoryService from '@/services/categoryService';
 import warehouseService from '@/services/warehouseService';
-import { Feather } from '@expo/vector-icons';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
 import { router } from 'expo-router';
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
@@ -23,8 +23,21 @@ import {
 } from 'react-native';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../app/store';
+import BarcodeScannerModal from '../../components/BarcodeScannerModal';
+import PendingSyncList from '../../components/PendingSyncList';
 import useNetworkStatus from '../../hooks/useNetworkStatus';
-import productService from '../../services/productService';
+import exportService, { askSpreadsheetFormat, exportDate } from '../../services/exportService';
+import productService, {
+  expandVariants,
+  ProductVariant,
+  reorderRuleFor,
+  StockRow,
+  stockIn,
+  stockRows,
+  totalStock,
+  VariantAttribute,
+  variantLabel,
+} from '../../services/productService';
 
 type Product = {
   _id: string;
@@ -36,14 +49,18 @@ type Product = {
     name: string;
   };
   unit: string;
-  warehouse: {
+  stock?: StockRow[];
+  warehouse?: {
     _id: string;
     name: string;
   };
   image?: string;
+  barcode?: string;
   buyingPrice?: number;
   sellingPrice?: number;
   createdAt?: string;
+  variantAttributes?: VariantAttribute[];
+  variants?: ProductVariant[];
 };
 
 type SortOption = {
@@ -85,6 +102,8 @@ export default function ProductsPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const [showSort, setShowSort] = useState(false);
+  const [scannerVisible, setScannerVisible] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
   const userRole = useSelector((state: RootState) => state.auth.user?.role);
   const { t } = useTranslation();
 
@@ -109,6 +128,7 @@ export default function ProductsPage() {
 
   // Offline alert shown state - only once per offline event
   const [offlineErrorShown, setOfflineErrorShown] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   const SORT_OPTIONS = useMemo<SortOption[]>(
     () => [
@@ -139,21 +159,22 @@ export default function ProductsPage() {
   }, [isConnected, offlineErrorShown, t]);
 
   // Fetch initial warehouses and categories
+  // Served from the local cache when offline
   const fetchInitialData = useCallback(async () => {
-    if (!isConnected) {
-      setLoading(false);
-      return;
-    }
     if (isFetchingInitialDataRef.current) return;
     isFetchingInitialDataRef.current = true;
 
     try {
       const [warehouses, categories] = await Promise.all([
-        warehouseService.getAllWarehouses(),
-        categoryService.getAllCategories(),
+        warehouseService.getAllWarehouses({ onUpdate: setWarehouseList }),
+        categoryService.getAllCategories({ onUpdate: setCategoryList }),
       ]);
       setWarehouseList(warehouses);
       setCategoryList(categories);
+      // Keep the full list cached so search and filters still work offline
+      if (isConnected) productService.getProductList().catch(() => {});
+    } catch {
+      // Nothing cached yet and no connection: the offline banner explains the empty lists
     } finally {
       isFetchingInitialDataRef.current = false;
     }
@@ -177,12 +198,7 @@ export default function ProductsPage() {
 
   // Stable fetchProducts - FOLLOWING SALES PAGE PATTERN
   const fetchProducts = useCallback(
-    async (page = 1, limit = 50) => {
-      if (!isConnected) {
-        setLoading(false);
-        setRefreshing(false);
-        return;
-      }
+    async (page = 1, limit = 50, force = false) => {
       if (isFetchingProductsRef.current) return;
       isFetchingProductsRef.current = true;
 
@@ -202,6 +218,13 @@ export default function ProductsPage() {
               ? (debouncedParams.sortOption?.value as 'name' | 'quantity' | 'createdAt')
               : 'createdAt',
             sortOrder: debouncedParams.sortOption?.order ?? 'desc',
+          }, {
+            force,
+            // A stale page was shown first; swap in the fresh one when it arrives
+            onUpdate: (fresh) => {
+              setProducts(fresh.products);
+              setPagination({ page, limit, total: fresh.total, totalPages: fresh.totalPages });
+            },
           });
 
         setProducts(newProducts);
@@ -214,15 +237,72 @@ export default function ProductsPage() {
         isFetchingProductsRef.current = false;
       }
     },
-    [debouncedParams, isConnected] // Remove refreshing from dependencies
+    [debouncedParams] // Remove refreshing from dependencies
   );
 
+  // Every product matching the current search, filters and sort; variants get a row each
+  const handleExport = async () => {
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+    setExporting(true);
+    try {
+      const { products: matching } = await productService.getAllProducts({
+        page: 1,
+        limit: Math.max(pagination.total, 1),
+        search: debouncedParams.searchQuery,
+        warehouse: debouncedParams.filters.warehouse,
+        category: debouncedParams.filters.category,
+        stockStatus: debouncedParams.filters.stockStatus as 'in' | 'low' | 'out',
+        sortField: validSortFields.includes(debouncedParams.sortOption?.value as any)
+          ? (debouncedParams.sortOption?.value as 'name' | 'quantity' | 'createdAt')
+          : 'createdAt',
+        sortOrder: debouncedParams.sortOption?.order ?? 'desc',
+      });
+      const items: Product[] = expandVariants(matching);
+      await exportService.shareSpreadsheet(
+        `products-${exportDate(new Date())}`,
+        [
+          {
+            name: t('export.products'),
+            rows: items.map(p => ({
+              [t('export.name')]: p.name,
+              [t('export.brand')]: p.brand ?? '',
+              [t('export.category')]: p.category?.name ?? '',
+              [t('export.barcode')]: p.barcode ?? '',
+              [t('export.unit')]: p.unit ?? '',
+              [t('export.buyingPrice')]: p.buyingPrice ?? '',
+              [t('export.sellingPrice')]: p.sellingPrice ?? '',
+              [t('export.quantity')]: totalStock(p),
+            })),
+          },
+          {
+            name: t('export.stockByWarehouse'),
+            rows: items.flatMap(p =>
+              stockRows(p).map(row => ({
+                [t('export.name')]: p.name,
+                [t('export.brand')]: p.brand ?? '',
+                [t('export.warehouse')]: row.warehouse?.name ?? '',
+                [t('export.quantity')]: row.quantity,
+                [t('export.unit')]: p.unit ?? '',
+              }))
+            ),
+          },
+        ],
+        format
+      );
+    } catch (err) {
+      Alert.alert(t('export.failed'), err instanceof Error ? err.message : undefined);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // ✅ FIXED: Use the same pattern as sales page
   // Fetch products on screen focus
   useEffect(() => {
     fetchInitialData();
     fetchProducts(1);
-  }, [fetchInitialData, fetchProducts]);
+  }, [fetchInitialData, fetchProducts, isConnected]);
 
   // Refetch when page changes
   useEffect(() => {
@@ -233,13 +313,48 @@ export default function ProductsPage() {
   // Pull-to-refresh handler
   const onRefresh = async () => {
     setRefreshing(true);
-    await fetchProducts(1);
+    await fetchProducts(1, pagination.limit, true);
   };
 
   const handleSearch = () => {
     setSearchQuery(pendingSearch);
   };
 
+  // Narrow the list to the scanned product in every warehouse, or offer to create it
+  const handleScanned = async (code: string) => {
+    setScannerVisible(false);
+    try {
+      const matches = await productService.findByBarcode(code);
+      if (matches.length === 0) {
+        const canAdd = userRole === 'admin' || userRole === 'superadmin';
+        Alert.alert(
+          t('scanner.notFoundTitle'),
+          t('scanner.notFoundMessage', { code }),
+          canAdd
+            ? [
+                { text: t('common.cancel'), style: 'cancel' },
+                {
+                  text: t('addProduct.addProduct'),
+                  onPress: () => router.push({ pathname: '/products/add', params: { barcode: code } }),
+                },
+              ]
+            : undefined
+        );
+        return;
+      }
+      // A variant SKU opens that variant rather than searching for its code
+      if (matches.length === 1 && matches[0].parent) {
+        router.push({ pathname: '/products/[id]', params: { id: matches[0]._id } });
+        return;
+      }
+      setFilters({ category: '', warehouse: '', stockStatus: '' });
+      setPendingSearch(code);
+      setSearchQuery(code);
+    } catch {
+      Alert.alert(t('products.error'), t('products.failedToLoad'));
+    }
+  };
+
   const applyFilters = () => {
     setFilters(pendingFilters);
     setShowFilters(false);
@@ -287,6 +402,34 @@ export default function ProductsPage() {
               <Feather name="sliders" size={20} color="#6366f1" />
               <Text style={styles.filterButtonText}>{t('products.sort')}</Text>
             </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.sortButton}
+              onPress={() => setScannerVisible(true)}
+              accessibilityLabel={t('scanner.scan')}
+            >
+              <MaterialIcons name="qr-code-scanner" size={20} color="#6366f1" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.sortButton}
+              onPress={handleExport}
+              disabled={exporting}
+              accessibilityLabel={t('export.export')}
+            >
+              {exporting ? (
+                <ActivityIndicator size="small" color="#6366f1" />
+              ) : (
+                <Feather name="download" size={20} color="#6366f1" />
+              )}
+            </TouchableOpacity>
+            {(userRole === 'admin' || userRole === 'superadmin') && (
+              <TouchableOpacity
+                style={styles.sortButton}
+                onPress={() => router.push('/products/bulk-price')}
+                accessibilityLabel={t('bulkPrice.title')}
+              >
+                <Feather name="trending-up" size={20} color="#6366f1" />
+              </TouchableOpacity>
+            )}
           </View>
         </View>
 
@@ -381,6 +524,7 @@ export default function ProductsPage() {
             keyExtractor={(item) => item._id}
             onRefresh={onRefresh}
             refreshing={refreshing}
+            ListHeaderComponent={<PendingSyncList kind="productEdit" />}
             ListEmptyComponent={
               error ? (
                 <View style={styles.emptyState}>
@@ -396,123 +540,191 @@ export default function ProductsPage() {
                 </View>
               )
             }
-            renderItem={({ item }) => (
-              <View
-                style={[
-                  styles.card,
-                  item.quantity === 0
-                    ? styles.outOfStock
-                    : item.quantity <= 5
-                      ? styles.lowStock
-                      : {},
-                ]}
-              >
-                <TouchableOpacity onPress={() => setPreviewImageUrl(item.image ?? null)}>
-                  <Image
-                    source={getImageSource(item.image)}
-                    style={styles.image}
-                    defaultSource={require('../../assets/images/placeholder-image.png')}
-                  />
-                </TouchableOpacity>
-                <View style={styles.info}>
-                  <View style={styles.infoHeader}>
-                    <Text style={styles.name} numberOfLines={1} ellipsizeMode="tail">
-                      {item.name}
-                    </Text>
-                    <View style={styles.stockIndicator}>
-                      <View
-                        style={[
-                          styles.stockDot,
-                          item.quantity === 0
-                            ? { backgroundColor: '#ef4444' }
-                            : item.quantity <= 5
-                              ? { backgroundColor: '#f59e0b' }
-                              : { backgroundColor: '#10b981' },
-                        ]}
-                      />
-                      <Text
-                        style={[
-                          styles.stockText,
-                          item.quantity === 0
-                            ? { color: '#ef4444' }
-                            : item.quantity <= 5
-                              ? { color: '#f59e0b' }
-                              : { color: '#10b981' },
-                        ]}
-                      >
-                        {item.quantity === 0
-                          ? t('products.outOfStock')
-                          : item.quantity <= 5
-                            ? t('products.lowStock')
-                            : t('products.inStock')}
+            renderItem={({ item }) => {
+              // Stock in the filtered warehouse, otherwise across all warehouses
+              const quantity = filters.warehouse ? stockIn(item, filters.warehouse) : totalStock(item);
+              const rows = stockRows(item);
+              const lowAt = reorderRuleFor(item, filters.warehouse || undefined).minQuantity ?? 5;
+              return (
+                <View
+                  style={[
+                    styles.card,
+                    quantity === 0
+                      ? styles.outOfStock
+                      : quantity <= lowAt
+                        ? styles.lowStock
+                        : {},
+                  ]}
+                >
+                  <TouchableOpacity onPress={() => setPreviewImageUrl(item.image ?? null)}>
+                    <Image
+                      source={getImageSource(item.image)}
+                      style={styles.image}
+                      defaultSource={require('../../assets/images/placeholder-image.png')}
+                    />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={styles.info}
+                    activeOpacity={0.7}
+                    onPress={() => router.push({ pathname: '/products/[id]', params: { id: item._id } })}
+                  >
+                    <View style={styles.infoHeader}>
+                      <Text style={styles.name} numberOfLines={1} ellipsizeMode="tail">
+                        {item.name}
                       </Text>
+                      <View style={styles.stockIndicator}>
+                        <View
+                          style={[
+                            styles.stockDot,
+                            quantity === 0
+                              ? { backgroundColor: '#ef4444' }
+                              : quantity <= lowAt
+                                ? { backgroundColor: '#f59e0b' }
+                                : { backgroundColor: '#10b981' },
+                          ]}
+                        />
+                        <Text
+                          style={[
+                            styles.stockText,
+                            quantity === 0
+                              ? { color: '#ef4444' }
+                              : quantity <= lowAt
+                                ? { color: '#f59e0b' }
+                                : { color: '#10b981' },
+                          ]}
+                        >
+                          {quantity === 0
+                            ? t('products.outOfStock')
+                            : quantity <= lowAt
+                              ? t('products.lowStock')
+                              : t('products.inStock')}
+                        </Text>
+                      </View>
                     </View>
-                  </View>
-                  <Text style={styles.meta}>
-                    {item.brand} • {item.category?.name || t('products.unknownCategory')}
-                  </Text>
-                  <Text style={styles.meta}>{item.warehouse?.name || t('products.unknownWarehouse')}</Text>
-                  <View style={styles.quantityRow}>
-                    <Text style={styles.quantity}>
-                      <Text style={styles.bold}>{item.quantity}</Text> {item.unit}
+                    <Text style={styles.meta}>
+                      {item.brand} • {item.category?.name || t('products.unknownCategory')}
                     </Text>
-                  </View>
-                  <View style={styles.priceContainer}>
-                    <View style={styles.priceRow}>
-                      <Text style={styles.priceLabel}>{t('products.buyingPrice')}:</Text>
-                      <Text style={styles.priceValue}>
-                        ETB {item.buyingPrice?.toLocaleString() ?? '-'}
+                    <Text style={styles.meta} numberOfLines={2}>
+                      {rows.length > 0
+                        ? rows.map(row => `${row.warehouse.name}: ${row.quantity}`).join(' • ')
+                        : t('products.unknownWarehouse')}
+                    </Text>
+                    {item.barcode ? (
+                      <Text style={styles.meta}>
+                        {t('products.barcode')}: {item.barcode}
                       </Text>
-                    </View>
-                    <View style={styles.priceRow}>
-                      <Text style={styles.priceLabel}>{t('products.sellingPrice')}:</Text>
-                      <Text style={[styles.priceValue, styles.sellingPrice]}>
-                        ETB {item.sellingPrice?.toLocaleString() ?? '-'}
+                    ) : null}
+                    <View style={styles.quantityRow}>
+                      <Text style={styles.quantity}>
+                        <Text style={styles.bold}>{quantity}</Text> {item.unit}
                       </Text>
                     </View>
-                  </View>
-                </View>
+                    <View style={styles.priceContainer}>
+                      <View style={styles.priceRow}>
+                        <Text style={styles.priceLabel}>{t('products.buyingPrice')}:</Text>
+                        <Text style={styles.priceValue}>
+                          ETB {item.buyingPrice?.toLocaleString() ?? '-'}
+                        </Text>
+                      </View>
+                      <View style={styles.priceRow}>
+                        <Text style={styles.priceLabel}>{t('products.sellingPrice')}:</Text>
+                        <Text style={[styles.priceValue, styles.sellingPrice]}>
+                          ETB {item.sellingPrice?.toLocaleString() ?? '-'}
+                        </Text>
+                      </View>
+                    </View>
+                    {item.variants && item.variants.length > 0 && (
+                      <>
+                        <TouchableOpacity
+                          style={styles.variantToggle}
+                          onPress={() => setExpandedId(expandedId === item._id ? null : item._id)}
+                        >
+                          <Feather name="layers" size={14} color="#6d28d9" />
+                          <Text style={styles.variantToggleText}>
+                            {t('products.variantCount', { count: item.variants.length })}
+                          </Text>
+                          <Feather name={expandedId === item._id ? 'chevron-up' : 'chevron-down'} size={14} color="#6d28d9" />
+                        </TouchableOpacity>
+                        {expandedId === item._id &&
+                          item.variants.map(variant => (
+                            <TouchableOpacity
+                              key={variant._id}
+                              style={styles.variantRow}
+                              onPress={() => router.push({ pathname: '/products/[id]', params: { id: variant._id as string } })}
+                            >
+                              <Text style={styles.variantName} numberOfLines={1}>
+                                {variantLabel(variant.attributes, item.variantAttributes)}
+                              </Text>
+                              <Text style={styles.variantMeta}>
+                                {filters.warehouse ? stockIn(variant, filters.warehouse) : totalStock(variant)} {item.unit}
+                              </Text>
+                              <Text style={styles.variantMeta}>
+                                ETB {(variant.sellingPrice ?? item.sellingPrice)?.toLocaleString() ?? '-'}
+                              </Text>
+                            </TouchableOpacity>
+                          ))}
+                      </>
+                    )}
+                  </TouchableOpacity>
 
-                <View style={styles.actions}>
-                  {(userRole === 'admin' || userRole === 'superadmin') && (
-                    <>
-                      <TouchableOpacity
-                        style={styles.iconBtn}
-                        onPress={() => router.push(`/products/edit/${item._id}`)}
-                      >
-                        <Feather name="edit" size={18} color="#6366f1" />
-                      </TouchableOpacity>
-                      <TouchableOpacity
-                        style={styles.iconBtn}
-                        onPress={() => {
-                          Alert.alert(
-                            t('products.delete'),
-                            t('products.confirmDelete'),
-                            [
-                              { text: t('products.cancel'), style: 'cancel' },
-                              {
-                                text: t('products.delete'),
-                                style: 'destructive',
-                                onPress: async () => {
-                                  try {
-                                    await productService.deleteProduct(item._id);
-                                    fetchProducts();
-                                  } catch {
-                                    Alert.alert(t('products.error'), t('products.failedToLoad'));
-                                  }
+                  <View style={styles.actions}>
+                    {(userRole === 'admin' || userRole === 'superadmin') && (
+                      <>
+                        <TouchableOpacity
+                          style={styles.iconBtn}
+                          onPress={() => router.push(`/products/edit/${item._id}`)}
+                        >
+                          <Feather name="edit" size={18} color="#6366f1" />
+                        </TouchableOpacity>
+                        {item.variants && item.variants.length > 0 ? (
+                          <TouchableOpacity
+                            style={styles.iconBtn}
+                            onPress={() => router.push({ pathname: '/products/variants/[id]', params: { id: item._id } })}
+                            accessibilityLabel={t('variants.title')}
+                          >
+                            <Feather name="layers" size={18} color="#8b5cf6" />
+                          </TouchableOpacity>
+                        ) : (
+                          <TouchableOpacity
+                            style={styles.iconBtn}
+                            onPress={() => router.push({ pathname: '/products/adjust/[id]', params: { id: item._id } })}
+                            accessibilityLabel={t('adjustments.title')}
+                          >
+                            <Feather name="sliders" size={18} color="#8b5cf6" />
+                          </TouchableOpacity>
+                        )}
+                        <TouchableOpacity
+                          style={styles.iconBtn}
+                          onPress={() => {
+                            Alert.alert(
+                              t('products.delete'),
+                              t('products.confirmDelete'),
+                              [
+                                { text: t('products.cancel'), style: 'cancel' },
+                                {
+                                  text: t('products.delete'),
+                                  style: 'destructive',
+                                  onPress: async () => {
+                                    try {
+                                      await productService.deleteProduct(item._id);
+                                      fetchProducts();
+                                    } catch {
+                                      Alert.alert(t('products.error'), t('products.failedToLoad'));
+                                    }
+                                  },
                                 },
-                              },
-                            ]
-                          );
-                        }}
-                      >
-                        <Feather name="trash-2" size={18} color="#ef4444" />
-                      </TouchableOpacity>
-                    </>
-                  )}
+                              ]
+                            );
+                          }}
+                        >
+                          <Feather name="trash-2" size={18} color="#ef4444" />
+                        </TouchableOpacity>
+                      </>
+                    )}
+                  </View>
                 </View>
-              </View>
-            )}
+              );
+            }}
           />
           <View style={styles.paginationRow}>
             <TouchableOpacity
@@ -765,6 +977,12 @@ export default function ProductsPage() {
             </ScrollView>
           </View>
         </Modal>
+
+        <BarcodeScannerModal
+          visible={scannerVisible}
+          onScanned={handleScanned}
+          onClose={() => setScannerVisible(false)}
+        />
       </View>
       )}
     </SafeAreaView>
@@ -964,6 +1182,34 @@ paginationButtonText: {
   quantityRow: {
     marginTop: 8,
   },
+  variantToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginTop: 8,
+  },
+  variantToggleText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  variantRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 6,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  variantName: {
+    flex: 1,
+    fontSize: 13,
+    color: '#1e293b',
+  },
+  variantMeta: {
+    fontSize: 12,
+    color: '#64748b',
+  },
   quantity: {
     fontSize: 14,
     color: '#1e293b',
@@ -20,24 +20,32 @@ import {
 } from 'react-native';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../app/store';
+import PendingSyncList from '../../components/PendingSyncList';
 import useNetworkStatus from '../../hooks/useNetworkStatus';
-import saleService from '../../services/saleService';
+import exportService, { askSpreadsheetFormat, exportDate } from '../../services/exportService';
+import receiptService from '../../services/receiptService';
+import saleService, {
+  getSaleLines,
+  getSaleTotals,
+  hasSaleReturns,
+  SaleLineView,
+  summarizePayments,
+} from '../../services/saleService';
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Order of the list on screen; exports follow it so the file reads the same way
+const LIST_SORT = { sortField: 'date', sortOrder: 'desc' } as const;
+
 type SaleItem = {
   id: string;
+  receiptNumber: string;
   product: string;
   image: string | null;
-  unit: string;
-  brand: string;
-  category: string;
+  lines: SaleLineView[];
   customer: string;
   salesperson: string;
-  qty: number;
-  price: number;
   totalAmount: number;
-  unitPrice: number;
   amountPaid: number;
   amountDue: number;
   paymentStatus: string;
@@ -46,6 +54,7 @@ type SaleItem = {
   formattedDate: string;
   status: string;
   dueDate: string;
+  raw: any; // API sale, used to render the receipt
 };
 
 type Filters = {
@@ -82,12 +91,14 @@ export default function SalesPage() {
   const [error, setError] = useState<string | null>(null);
 
   const [deletingId, setDeletingId] = useState<string | null>(null);
+  const [receiptId, setReceiptId] = useState<string | null>(null);
   const userRole = useSelector((state: RootState) => state.auth.user?.role);
 
   const isFetchingRef = useRef(false);
 
   // Offline alert shown once per offline event
   const [offlineErrorShown, setOfflineErrorShown] = useState(false);
+  const [exporting, setExporting] = useState(false);
 
   // Debounce and reset pagination when filters/search change
   const [debouncedParams, setDebouncedParams] = useState({
@@ -137,32 +148,36 @@ export default function SalesPage() {
           paymentChannel: debouncedParams.filters.paymentChannel,
           startDate: debouncedParams.filters.startDate,
           endDate: debouncedParams.filters.endDate,
-          sortField: 'date',
-          sortOrder: 'desc',
+          ...LIST_SORT,
         });
 
-        const formatted: SaleItem[] = raw.map((sale: any) => ({
-          id: sale._id,
-          product: sale.product?.name || t('sales.unknown'),
-          image: sale.product?.image || null,
-          unit: sale.product?.unit || '',
-          brand: sale.product?.brand || '',
-          category: sale.product?.category?.name || '',
-          customer: sale.customerName,
-          salesperson: sale.salesPerson?.name || t('sales.unknown'),
-          qty: sale.quantity,
-          price: sale.price,
-          unitPrice: sale.price / sale.quantity,
-          totalAmount: sale.price,
-          amountPaid: sale.amountPaid,
-          amountDue: sale.amountDue,
-          paymentStatus: sale.paymentStatus,
-          paymentChannel: sale.paymentChannel || '',
-          date: new Date(sale.date),
-          formattedDate: new Date(sale.date).toLocaleDateString(),
-          status: sale.status.charAt(0).toUpperCase() + sale.status.slice(1),
-          dueDate: sale.dueDate ? new Date(sale.dueDate).toLocaleDateString() : t('sales.na'),
-        }));
+        const formatted: SaleItem[] = raw.map((sale: any) => {
+          const lines = getSaleLines(sale);
+          const first = lines[0]?.product;
+          const payment = summarizePayments(sale);
+          return {
+            id: sale._id,
+            receiptNumber: sale.receiptNumber || '',
+            product:
+              lines.length > 1
+                ? t('sales.productAndMore', { name: first?.name || t('sales.unknown'), count: lines.length - 1 })
+                : first?.name || t('sales.unknown'),
+            image: first?.image || null,
+            lines,
+            customer: sale.customerName,
+            salesperson: sale.salesPerson?.name || t('sales.unknown'),
+            totalAmount: payment.total,
+            amountPaid: payment.amountPaid,
+            amountDue: payment.amountDue,
+            paymentStatus: payment.paymentStatus,
+            paymentChannel: sale.paymentChannel || '',
+            date: new Date(sale.date),
+            formattedDate: new Date(sale.date).toLocaleDateString(),
+            status: sale.status.charAt(0).toUpperCase() + sale.status.slice(1),
+            dueDate: sale.dueDate ? new Date(sale.dueDate).toLocaleDateString() : t('sales.na'),
+            raw: sale,
+          };
+        });
 
         setSales(formatted);
         setPagination({ page, limit, total, totalPages });
@@ -210,32 +225,9 @@ export default function SalesPage() {
     );
   };
 
-  const handleFullPayment = (saleId: string, totalAmount: number) => {
-    Alert.alert(
-      t('sales.markAsPaid'),
-      t('sales.confirmMarkAsPaid'),
-      [
-        { text: t('sales.cancel'), style: 'cancel' },
-        {
-          text: t('sales.confirm'),
-          style: 'default',
-          onPress: async () => {
-            try {
-              await saleService.markAsPaid(saleId, {
-                amountPaid: totalAmount,
-                amountDue: 0,
-                paymentStatus: 'paid',
-                paymentDate: new Date().toISOString(),
-              } as any);
-              Alert.alert(t('sales.success'), t('sales.paymentRecorded'));
-              fetchSales(pagination.page);
-            } catch {
-              Alert.alert(t('sales.error'), t('sales.failedToUpdatePayment'));
-            }
-          },
-        },
-      ]
-    );
+  // Payment history and installments live on the sale detail screen
+  const openSaleDetail = (saleId: string) => {
+    router.push({ pathname: '/sales/[id]', params: { id: saleId } });
   };
 
   const applyFilters = () => {
@@ -251,6 +243,76 @@ export default function SalesPage() {
     setShowFilters(false);
   };
 
+  // All sales matching the search and filters: one sheet of sales, one of their lines
+  const handleExport = async () => {
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+    setExporting(true);
+    try {
+      const { sales: matching } = await saleService.getAllSales({
+        page: 1,
+        limit: Math.max(pagination.total, 1),
+        search: debouncedParams.searchQuery,
+        status: debouncedParams.filters.status,
+        paymentStatus: debouncedParams.filters.paymentStatus,
+        paymentChannel: debouncedParams.filters.paymentChannel,
+        startDate: debouncedParams.filters.startDate,
+        endDate: debouncedParams.filters.endDate,
+        ...LIST_SORT,
+      });
+      await exportService.shareSpreadsheet(
+        `sales-${exportDate(new Date())}`,
+        [
+          {
+            name: t('export.sales'),
+            rows: matching.map((sale: any) => {
+              const totals = getSaleTotals(sale);
+              const payment = summarizePayments(sale);
+              return {
+                [t('export.receiptNo')]: sale.receiptNumber ?? '',
+                [t('export.date')]: exportDate(sale.date),
+                [t('export.customer')]: sale.customerName ?? '',
+                [t('export.salesperson')]: sale.salesPerson?.name ?? '',
+                [t('export.status')]: sale.status ?? '',
+                [t('export.paymentStatus')]: payment.paymentStatus,
+                [t('export.paymentChannel')]: sale.paymentChannel ?? '',
+                [t('export.subtotal')]: totals.subtotal,
+                [t('export.discount')]: totals.discount,
+                [t('export.tax')]: totals.tax,
+                [t('export.total')]: payment.total,
+                [t('export.amountPaid')]: payment.amountPaid,
+                [t('export.amountDue')]: payment.amountDue,
+                [t('export.dueDate')]: exportDate(sale.dueDate),
+              };
+            }),
+          },
+          {
+            name: t('export.saleLines'),
+            rows: matching.flatMap((sale: any) =>
+              getSaleLines(sale).map(line => ({
+                [t('export.receiptNo')]: sale.receiptNumber ?? '',
+                [t('export.date')]: exportDate(sale.date),
+                [t('export.product')]: `${line.product?.name ?? ''} ${line.product?.brand ?? ''}`.trim(),
+                [t('export.warehouse')]: line.warehouse?.name ?? '',
+                [t('export.quantity')]: line.quantity,
+                [t('export.unit')]: line.unit ?? '',
+                [t('export.unitPrice')]: line.unitPrice,
+                [t('export.discount')]: line.discountType === 'percent' ? `${line.discount}%` : line.discount,
+                [t('export.taxRate')]: line.taxRate,
+                [t('export.amount')]: line.amount,
+              }))
+            ),
+          },
+        ],
+        format
+      );
+    } catch (err) {
+      Alert.alert(t('export.failed'), err instanceof Error ? err.message : undefined);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   // Clear filters handler
   const clearFilters = () => {
     setFilters({ status: '', paymentStatus: '', paymentChannel: '', startDate: '', endDate: '' });
@@ -278,6 +340,25 @@ export default function SalesPage() {
     setTempEndDate(null);
   };
 
+  const handleReceipt = (item: SaleItem) => {
+    const run = async (action: 'share' | 'print') => {
+      setReceiptId(item.id);
+      try {
+        if (action === 'share') await receiptService.shareReceipt(item.raw);
+        else await receiptService.printReceipt(item.raw);
+      } catch {
+        Alert.alert(t('sales.error'), t('receipt.failed'));
+      } finally {
+        setReceiptId(null);
+      }
+    };
+    Alert.alert(t('receipt.title'), `${t('receipt.receiptNo')}: ${item.receiptNumber || item.id}`, [
+      { text: t('receipt.share'), onPress: () => run('share') },
+      { text: t('receipt.print'), onPress: () => run('print') },
+      { text: t('common.cancel'), style: 'cancel' },
+    ]);
+  };
+
   const handleEdit = (id: string) => {
     router.push(`/sales/edit/${id}`);
   };
@@ -350,10 +431,24 @@ return (
       {/* Header */}
       <View style={styles.header}>
         <Text style={styles.headerTitle}>{t('sales.title')}</Text>
-        <TouchableOpacity style={styles.filterBtn} onPress={() => setShowFilters(true)}>
-          <Feather name="filter" size={20} color="#6366f1" />
-          <Text style={styles.filterBtnText}>{t('sales.filters')}</Text>
-        </TouchableOpacity>
+        <View style={styles.headerActions}>
+          <TouchableOpacity
+            style={styles.filterBtn}
+            onPress={handleExport}
+            disabled={exporting || !isConnected}
+            accessibilityLabel={t('export.export')}
+          >
+            {exporting ? (
+              <ActivityIndicator size="small" color="#6366f1" />
+            ) : (
+              <Feather name="download" size={20} color="#6366f1" />
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.filterBtn} onPress={() => setShowFilters(true)}>
+            <Feather name="filter" size={20} color="#6366f1" />
+            <Text style={styles.filterBtnText}>{t('sales.filters')}</Text>
+          </TouchableOpacity>
+        </View>
       </View>
 
       {/* Search Bar */}
@@ -442,6 +537,7 @@ return (
         refreshing={loading}
         onRefresh={() => fetchSales(pagination.page)}
         contentContainerStyle={styles.listContent}
+        ListHeaderComponent={<PendingSyncList kind="sale" />}
         ListEmptyComponent={
           error ? (
             <View style={styles.emptyState}>
@@ -473,7 +569,7 @@ return (
             ]}
           >
             {/* Card Header */}
-            <View style={styles.cardHeader}>
+            <TouchableOpacity style={styles.cardHeader} onPress={() => openSaleDetail(item.id)} activeOpacity={0.7}>
               <Image
                 source={getImageSource(item.image)}
                 style={styles.image}
@@ -482,6 +578,11 @@ return (
               <View style={{ flex: 1 }}>
                 <Text style={styles.productName}>{item.product}</Text>
                 <Text style={styles.customerName}>{item.customer}</Text>
+                {item.receiptNumber ? (
+                  <Text style={styles.receiptNumber}>
+                    {t('sales.receiptNo')}: {item.receiptNumber}
+                  </Text>
+                ) : null}
               </View>
               <View style={{ alignItems: 'flex-end' }}>
                 <Text style={styles.statusBadge}>{item.status}</Text>
@@ -510,15 +611,23 @@ return (
                   </Text>
                 </View>
               </View>
-            </View>
-
-            {/* Sale Details */}
+            </TouchableOpacity>
+
+            {/* Sale Lines */}
+            {item.lines.map((line, index) => (
+              <View key={`${item.id}-${index}`} style={styles.saleRow}>
+                <Text style={[styles.saleLabel, { flex: 1 }]} numberOfLines={1}>
+                  {line.product?.name || t('sales.unknown')} {line.product?.brand || ''}
+                </Text>
+                <Text style={styles.saleValue}>
+                  {line.quantity} {line.unit || line.product?.unit || ''} × ETB {line.unitPrice}
+                  {line.discount > 0 ? ` − ${line.discount}${line.discountType === 'percent' ? '%' : ''}` : ''}
+                </Text>
+              </View>
+            ))}
             <View style={styles.detailsRow}>
               <Text style={styles.detailText}>
-                {t('sales.qty')}: {item.qty} {item.unit}
-              </Text>
-              <Text style={styles.detailText}>
-                {t('sales.unitPrice')}: ETB {item.unitPrice}
+                {t('sales.items')}: {item.lines.length}
               </Text>
               <Text style={styles.detailText}>
                 {t('sales.total')}: ETB {item.totalAmount}
@@ -574,10 +683,23 @@ return (
 
             {/* Actions */}
             <View style={[styles.detailsRow, { marginTop: 8, justifyContent: 'flex-end', alignItems: 'center' }]}>
+              {/* Receipt: share or print, for every role */}
+              <TouchableOpacity
+                onPress={() => handleReceipt(item)}
+                style={{ marginRight: 16 }}
+                disabled={receiptId === item.id}
+              >
+                {receiptId === item.id ? (
+                  <ActivityIndicator size="small" color="#6d28d9" />
+                ) : (
+                  <Feather name="file-text" size={18} color="#6d28d9" />
+                )}
+              </TouchableOpacity>
+
               {(userRole === 'admin' || userRole === 'superadmin') && (
                 <>
-                  {/* Edit: disabled if status is 'rejected' */}
-                  {item.status.toLowerCase() !== 'rejected' && (
+                  {/* Edit: disabled if status is 'rejected' or items were returned */}
+                  {item.status.toLowerCase() !== 'rejected' && !hasSaleReturns(item.raw) && (
                     <TouchableOpacity onPress={() => handleEdit(item.id)} style={{ marginRight: 16 }}>
                       <Feather name="edit-3" size={18} color="#3b82f6" />
                     </TouchableOpacity>
@@ -602,10 +724,10 @@ return (
                 (userRole === 'admin' || userRole === 'superadmin') && (
                   <TouchableOpacity
                     style={styles.paidButton}
-                    onPress={() => handleFullPayment(item.id, item.totalAmount)}
+                    onPress={() => openSaleDetail(item.id)}
                   >
-                    <Feather name="check-circle" size={16} color="#fff" />
-                    <Text style={styles.paidButtonText}>{t('sales.paidFully')}</Text>
+                    <Feather name="plus-circle" size={16} color="#fff" />
+                    <Text style={styles.paidButtonText}>{t('payments.recordPayment')}</Text>
                   </TouchableOpacity>
                 )}
 
@@ -1125,6 +1247,11 @@ paginationButtonText: {
     fontWeight: '700',
     color: '#1e293b',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   filterBtn: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -1198,6 +1325,11 @@ paginationButtonText: {
     fontSize: 14,
     color: '#64748b',
   },
+  receiptNumber: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 2,
+  },
   statusBadge: {
     fontSize: 12,
     fontWeight: '700',
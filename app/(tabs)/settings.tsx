@@ -64,6 +64,7 @@ export default function SettingsScreen() {
             title: t('settings.businessManagement'),
             items: [
               { icon: 'users', label: t('settings.manageUsers'), onPress: () => router.push('/settings/manage-users') },
+              { icon: 'percent', label: t('settings.taxSettings'), onPress: () => router.push('/settings/tax') },
               ...(isSuperAdmin
                 ? [
                     { icon: 'briefcase', label: t('settings.manageBusinesses'), onPress: () => router.push('/settings/manage-businesses') },
@@ -81,6 +82,12 @@ export default function SettingsScreen() {
           },
         ]
       : []),
+    {
+      title: t('settings.offlineSync'),
+      items: [
+        { icon: 'refresh-cw', label: t('settings.syncQueue'), onPress: () => router.push('/settings/sync-queue') },
+      ],
+    },
     {
       title: t('settings.preferences'),
       items: [
@@ -1,3 +1,4 @@
+import exportService, { askSpreadsheetFormat } from "@/services/exportService";
 import reportService from "@/services/salesreportService";
 import { Ionicons } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
@@ -36,6 +37,8 @@ export default function SalesReportScreen() {
 
   const [tempDate, setTempDate] = useState({ from: "", to: "" });
   const [sales, setSales] = useState<any[]>([]);
+  // Items taken back in the period: { date, customerName, productName, quantity, amount, settlement, restock }
+  const [returns, setReturns] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
   const [exporting, setExporting] = useState(false);
   const [showDatePicker, setShowDatePicker] = useState<{ from: boolean; to: boolean }>({ from: false, to: false });
@@ -44,8 +47,9 @@ export default function SalesReportScreen() {
 const fetchSales = async () => {
   setLoading(true);
   try {
-    const { sales } = await reportService.getSalesReport(filters);
+    const { sales, returns } = await reportService.getSalesReport(filters);
     setSales(sales);
+    setReturns(Array.isArray(returns) ? returns : []);
   } catch {
     Alert.alert("Error", "Failed to fetch sales report");
   } finally {
@@ -53,6 +57,12 @@ const fetchSales = async () => {
   }
 };
 
+  // Rows carry the discount and tax included in their total; older sales have neither
+  const salesTotal = sales.reduce((sum, item) => sum + parseFloat(item.total), 0);
+  const discountTotal = sales.reduce((sum, item) => sum + (parseFloat(item.discount) || 0), 0);
+  const taxTotal = sales.reduce((sum, item) => sum + (parseFloat(item.tax) || 0), 0);
+  const returnsTotal = returns.reduce((sum, item) => sum + parseFloat(item.amount), 0);
+
   const exportPDF = async () => {
     if (sales.length === 0) {
       Alert.alert("No Data", "Please generate a report first");
@@ -95,6 +105,8 @@ const fetchSales = async () => {
                 <th>Product</th>
                 <th>Qty</th>
                 <th>Unit Price</th>
+                <th>Discount</th>
+                <th>Tax</th>
                 <th>Total</th>
                 <th>Status</th>
                 <th>Method</th>
@@ -106,6 +118,8 @@ const fetchSales = async () => {
                   <td>${s.productName}</td>
                   <td>${s.quantity}</td>
                   <td>Birr ${parseFloat(s.unitPrice).toFixed(2)}</td>
+                  <td>Birr ${(parseFloat(s.discount) || 0).toFixed(2)}</td>
+                  <td>Birr ${(parseFloat(s.tax) || 0).toFixed(2)}</td>
                   <td>Birr ${parseFloat(s.total).toFixed(2)}</td>
                   <td><span style="color: ${s.paymentStatus === 'Paid' ? '#28a745' : '#dc3545'}">${s.paymentStatus}</span></td>
                   <td>${s.paymentChannel}</td>
@@ -113,10 +127,48 @@ const fetchSales = async () => {
               `).join("")}
               <tr class="total-row">
                 <td colspan="5" style="text-align: right;">Grand Total:</td>
-                <td>Birr ${sales.reduce((sum, item) => sum + parseFloat(item.total), 0).toFixed(2)}</td>
+                <td>Birr ${discountTotal.toFixed(2)}</td>
+                <td>Birr ${taxTotal.toFixed(2)}</td>
+                <td>Birr ${salesTotal.toFixed(2)}</td>
                 <td colspan="2"></td>
               </tr>
             </table>
+
+            ${returns.length > 0 ? `
+            <h3 style="margin-top: 30px; color: #2c3e50;">Returns</h3>
+            <table>
+              <tr>
+                <th>Date</th>
+                <th>Customer</th>
+                <th>Product</th>
+                <th>Qty</th>
+                <th>Amount</th>
+                <th>Settled As</th>
+                <th>Stock</th>
+              </tr>
+              ${returns.map((r) => `
+                <tr>
+                  <td>${r.date}</td>
+                  <td>${r.customerName}</td>
+                  <td>${r.productName}</td>
+                  <td>${r.quantity}</td>
+                  <td>Birr -${parseFloat(r.amount).toFixed(2)}</td>
+                  <td>${r.settlement === 'refund' ? 'Refund' : 'Credit'}</td>
+                  <td>${r.restock ? 'Restocked' : 'Damaged'}</td>
+                </tr>
+              `).join("")}
+              <tr class="total-row">
+                <td colspan="4" style="text-align: right;">Total Returns:</td>
+                <td>Birr -${returnsTotal.toFixed(2)}</td>
+                <td colspan="2"></td>
+              </tr>
+              <tr class="total-row">
+                <td colspan="4" style="text-align: right;">Net Sales:</td>
+                <td>Birr ${(salesTotal - returnsTotal).toFixed(2)}</td>
+                <td colspan="2"></td>
+              </tr>
+            </table>
+            ` : ''}
             
             <div class="footer">
               <p>Generated by <strong>Ease Stock</strong> on ${new Date().toLocaleDateString()} | Total Records: ${sales.length}</p>
@@ -136,6 +188,67 @@ const fetchSales = async () => {
     }
   };
 
+  const exportSpreadsheet = async () => {
+    if (sales.length === 0) {
+      Alert.alert("No Data", "Please generate a report first");
+      return;
+    }
+
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+
+    setExporting(true);
+    try {
+      const period = `${filters.from || 'N/A'} to ${filters.to || 'N/A'}`;
+      await exportService.shareSpreadsheet(`sales-report-${Date.now()}`, [
+        {
+          name: "Sales",
+          rows: sales.map((s) => ({
+            Date: s.date,
+            Customer: s.customerName,
+            Product: s.productName,
+            Qty: Number(s.quantity) || 0,
+            "Unit Price": parseFloat(s.unitPrice) || 0,
+            Discount: parseFloat(s.discount) || 0,
+            Tax: parseFloat(s.tax) || 0,
+            Total: parseFloat(s.total) || 0,
+            Status: s.paymentStatus,
+            Method: s.paymentChannel,
+          })),
+        },
+        {
+          name: "Returns",
+          rows: returns.map((r) => ({
+            Date: r.date,
+            Customer: r.customerName,
+            Product: r.productName,
+            Qty: Number(r.quantity) || 0,
+            Amount: -(parseFloat(r.amount) || 0),
+            "Settled As": r.settlement === 'refund' ? 'Refund' : 'Credit',
+            Stock: r.restock ? 'Restocked' : 'Damaged',
+          })),
+        },
+        {
+          name: "Summary",
+          rows: [
+            { Item: "Period", Value: period },
+            { Item: "Customer", Value: filters.customer || 'All Customers' },
+            { Item: "Product", Value: filters.product || 'All Products' },
+            { Item: "Discounts", Value: discountTotal },
+            { Item: "Tax", Value: taxTotal },
+            { Item: "Gross Sales", Value: salesTotal },
+            { Item: "Total Returns", Value: -returnsTotal },
+            { Item: "Net Sales", Value: salesTotal - returnsTotal },
+          ],
+        },
+      ], format);
+    } catch {
+      Alert.alert("Error", "Failed to export spreadsheet");
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const toggleFilter = (filter: keyof typeof filters) => {
     if (typeof filters[filter] === 'boolean') {
       setFilters({ ...filters, [filter]: !filters[filter] });
@@ -193,10 +306,32 @@ const fetchSales = async () => {
         <Text style={styles.productText}>{item.productName} × {item.quantity}</Text>
         <Text style={styles.totalText}>${parseFloat(item.total).toFixed(2)}</Text>
       </View>
+      {(parseFloat(item.discount) > 0 || parseFloat(item.tax) > 0) && (
+        <Text style={styles.channelText}>
+          Discount ${(parseFloat(item.discount) || 0).toFixed(2)} · Tax ${(parseFloat(item.tax) || 0).toFixed(2)}
+        </Text>
+      )}
       <Text style={styles.channelText}>Paid via {item.paymentChannel}</Text>
     </View>
   );
 
+  const renderReturnItem = ({ item }: { item: any }) => (
+    <View style={[styles.salesItem, styles.returnItem]}>
+      <View style={styles.salesItemHeader}>
+        <Text style={styles.dateText}>{item.date}</Text>
+        <Text style={[styles.statusBadge, { backgroundColor: '#fff3cd' }]}>
+          {item.settlement === 'refund' ? 'Refund' : 'Credit'}
+        </Text>
+      </View>
+      <Text style={styles.customerText}>{item.customerName}</Text>
+      <View style={styles.salesItemDetails}>
+        <Text style={styles.productText}>{item.productName} × {item.quantity}</Text>
+        <Text style={[styles.totalText, styles.returnText]}>-${parseFloat(item.amount).toFixed(2)}</Text>
+      </View>
+      <Text style={styles.channelText}>Returned · {item.restock ? 'restocked' : 'damaged'}</Text>
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <View style={styles.container}>
@@ -313,6 +448,21 @@ const fetchSales = async () => {
               </>
             )}
           </TouchableOpacity>
+
+          <TouchableOpacity 
+            style={[styles.button, styles.spreadsheetButton, (exporting || sales.length === 0) && styles.disabledButton]}
+            onPress={exportSpreadsheet}
+            disabled={exporting || sales.length === 0}
+          >
+            {exporting ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <>
+                <Ionicons name="grid" size={20} color="#fff" />
+                <Text style={styles.buttonText}>Excel / CSV</Text>
+              </>
+            )}
+          </TouchableOpacity>
         </View>
 
         {sales.length > 0 && (
@@ -320,10 +470,15 @@ const fetchSales = async () => {
             <Text style={styles.resultsTitle}>
               Results ({sales.length} records)
             </Text>
+            {returns.length > 0 && (
+              <Text style={styles.returnsSummary}>
+                {returns.length} returns · -${returnsTotal.toFixed(2)} · Net ${(salesTotal - returnsTotal).toFixed(2)}
+              </Text>
+            )}
             <FlatList
-              data={sales}
+              data={[...sales, ...returns.map((r) => ({ ...r, isReturn: true }))]}
               keyExtractor={(item, idx) => idx.toString()}
-              renderItem={renderSalesItem}
+              renderItem={({ item }) => (item.isReturn ? renderReturnItem({ item }) : renderSalesItem({ item }))}
               style={styles.list}
               showsVerticalScrollIndicator={false}
             />
@@ -516,6 +671,9 @@ const styles = StyleSheet.create({
   exportButton: { 
     backgroundColor: '#27ae60' 
   },
+  spreadsheetButton: {
+    backgroundColor: '#16a085'
+  },
   disabledButton: {
     backgroundColor: '#cccccc',
     opacity: 0.7,
@@ -594,6 +752,18 @@ const styles = StyleSheet.create({
     color: '#888', 
     fontStyle: 'italic' 
   },
+  returnItem: {
+    borderLeftColor: '#f39c12',
+  },
+  returnText: {
+    color: '#e67e22',
+  },
+  returnsSummary: {
+    fontSize: 14,
+    color: '#e67e22',
+    marginTop: -10,
+    marginBottom: 15,
+  },
   modalOverlay: { 
     flex: 1, 
     justifyContent: 'center', 
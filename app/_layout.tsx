@@ -2,6 +2,8 @@ import { Slot, useRouter } from 'expo-router';
 import React, { useEffect, useState } from 'react';
 import { Text } from 'react-native'; // ⬅️ needed for rendering fallback strings
 import { Provider, useSelector } from 'react-redux';
+import notificationService from '../services/notificationService';
+import outboxService from '../services/outboxService';
 import { RootState, store } from './store';
 
 function AuthGate({ children }: { children: React.ReactNode }) {
@@ -19,6 +21,16 @@ function AuthGate({ children }: { children: React.ReactNode }) {
     }
   }, [isReady, accessToken, router]);
 
+  // Replay writes queued while offline once signed in and connected
+  useEffect(() => {
+    if (accessToken) {
+      outboxService.startAutoSync();
+    } else {
+      outboxService.stopAutoSync();
+      notificationService.clearOverdueReminders();
+    }
+  }, [accessToken]);
+
   // ⬅️ Guard against raw strings/numbers
   if (typeof children === 'string' || typeof children === 'number') {
     return <Text>{children}</Text>;
@@ -51,18 +51,8 @@ export default function CategoriesPage() {
   const [error, setError] = useState<string | null>(null);
   const isFetchingRef = useRef(false);
 
-  // Offline alert shown once per offline event
-  const [offlineErrorShown, setOfflineErrorShown] = useState(false);
-
+  // Served from the local cache when offline
   const fetchCategories = useCallback(async () => {
-    if (!isConnected) {
-      setError(t('common.offlineMessage') || 'No internet connection');
-      if (!offlineErrorShown) {
-        setOfflineErrorShown(true);
-      }
-      return;
-    }
-    setOfflineErrorShown(false);
     if (isFetchingRef.current) return;
     isFetchingRef.current = true;
     setError(null);
@@ -84,11 +74,12 @@ export default function CategoriesPage() {
     } finally {
       isFetchingRef.current = false;
     }
-  }, [t, isConnected, offlineErrorShown]);
+  }, [t]);
 
+  // Refetch on reconnect to replace cached data
   useEffect(() => {
     fetchCategories();
-  }, [fetchCategories]);
+  }, [fetchCategories, isConnected]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -0,0 +1,324 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import customerService, { CustomerLedger, LedgerEntry } from '@/services/customerService';
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+// Debits add to what the customer owes; a refund is a debit that pays back a return's credit
+const ENTRY_KINDS: Record<LedgerEntry['type'], { label: string; icon: 'shopping-cart' | 'dollar-sign' | 'corner-up-left'; debit: boolean }> = {
+  sale: { label: 'customers.ledgerSale', icon: 'shopping-cart', debit: true },
+  payment: { label: 'customers.ledgerPayment', icon: 'dollar-sign', debit: false },
+  return: { label: 'customers.ledgerReturn', icon: 'corner-up-left', debit: false },
+  refund: { label: 'customers.ledgerRefund', icon: 'dollar-sign', debit: true },
+};
+
+// Customer statement: sales on credit, payments received, returns and the running balance
+export default function CustomerLedgerScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [ledger, setLedger] = useState<CustomerLedger | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLedger = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await customerService.getCustomerLedger(id);
+      setLedger(data);
+    } catch {
+      setError(t('customers.ledgerLoadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchLedger();
+  }, [id, fetchLedger]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchLedger();
+    setRefreshing(false);
+  };
+
+  // Newest first on screen; the running balance comes from the server
+  const entries = [...(ledger?.entries ?? [])].reverse();
+  const customer = ledger?.customer;
+
+  const renderEntry = ({ item }: { item: LedgerEntry }) => {
+    const entry = ENTRY_KINDS[item.type] ?? ENTRY_KINDS.payment;
+    return (
+      <View style={styles.entry}>
+        <View style={[styles.entryIcon, entry.debit ? styles.saleIcon : styles.paymentIcon]}>
+          <Feather name={entry.icon} size={16} color={entry.debit ? '#6d28d9' : '#10b981'} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.entryTitle}>
+            {t(entry.label)}
+            {item.receiptNumber ? ` #${item.receiptNumber}` : ''}
+          </Text>
+          <Text style={styles.entryDate}>
+            {formatDate(item.date)}
+            {item.method ? ` · ${item.method}` : ''}
+          </Text>
+        </View>
+        <View style={styles.entryAmounts}>
+          <Text style={[styles.entryAmount, entry.debit ? styles.debit : styles.credit]}>
+            {entry.debit ? '+' : '-'}ETB {item.amount.toFixed(2)}
+          </Text>
+          <Text style={styles.entryBalance}>
+            {t('customers.balance')}: ETB {item.balance.toFixed(2)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/customers')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {customer?.name ?? t('customers.ledgerTitle')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={item => item._id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+          ListHeaderComponent={
+            <>
+              {error && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              )}
+              {customer && (
+                <View style={styles.infoCard}>
+                  {!!customer.phone && (
+                    <View style={styles.infoRow}>
+                      <Feather name="phone" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{customer.phone}</Text>
+                    </View>
+                  )}
+                  {!!customer.address && (
+                    <View style={styles.infoRow}>
+                      <Feather name="map-pin" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{customer.address}</Text>
+                    </View>
+                  )}
+                  <View style={styles.infoRow}>
+                    <Feather name="credit-card" size={14} color="#64748b" />
+                    <Text style={styles.infoText}>
+                      {t('customers.creditLimit')}:{' '}
+                      {customer.creditLimit ? `ETB ${customer.creditLimit.toFixed(2)}` : t('customers.noLimit')}
+                    </Text>
+                  </View>
+                </View>
+              )}
+              {ledger && (
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('customers.totalSales')}</Text>
+                    <Text style={styles.summaryValue}>ETB {ledger.totalSales.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('customers.totalPaid')}</Text>
+                    <Text style={[styles.summaryValue, styles.credit]}>ETB {ledger.totalPaid.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('customers.outstanding')}</Text>
+                    <Text style={[styles.summaryValue, ledger.outstanding > 0 && styles.debit]}>
+                      ETB {ledger.outstanding.toFixed(2)}
+                    </Text>
+                  </View>
+                </View>
+              )}
+              <Text style={styles.sectionTitle}>{t('customers.ledgerTitle')}</Text>
+            </>
+          }
+          ListEmptyComponent={
+            !error ? <Text style={styles.emptyText}>{t('customers.noLedgerEntries')}</Text> : null
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  infoCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    gap: 6,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#475569',
+    marginLeft: 8,
+    flex: 1,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  saleIcon: {
+    backgroundColor: '#f5f3ff',
+  },
+  paymentIcon: {
+    backgroundColor: '#ecfdf5',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  entryDate: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+  },
+  entryAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  debit: {
+    color: '#ef4444',
+  },
+  credit: {
+    color: '#10b981',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
@@ -0,0 +1,109 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import CustomerForm from '@/components/CustomerForm';
+import customerService, { CustomerData } from '@/services/customerService';
+
+export default function EditCustomerScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [initialValues, setInitialValues] = useState<CustomerData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const fetchCustomer = async () => {
+      try {
+        const customer = await customerService.getCustomerById(id);
+        setInitialValues({
+          name: customer.name,
+          phone: customer.phone,
+          address: customer.address,
+          creditLimit: customer.creditLimit,
+          priceList: typeof customer.priceList === 'object' ? customer.priceList?._id ?? null : customer.priceList ?? null,
+        });
+      } catch {
+        Alert.alert(t('customers.errorTitle'), t('customers.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (id) fetchCustomer();
+  }, [id, t]);
+
+  const handleSubmit = async (data: CustomerData) => {
+    try {
+      await customerService.updateCustomer(id, data);
+      Alert.alert(t('customers.successTitle'), t('customers.updated'));
+      router.replace('/customers');
+    } catch {
+      Alert.alert(t('customers.errorTitle'), t('customers.saveFailed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/customers')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('customers.editTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          <CustomerForm initialValues={initialValues} submitLabel={t('customers.update')} onSubmit={handleSubmit} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+});
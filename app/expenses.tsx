@@ -19,7 +19,9 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
+import PendingSyncList from '../components/PendingSyncList';
 import useNetworkStatus from '../hooks/useNetworkStatus'; // Adjust path if needed
+import exportService, { askSpreadsheetFormat, exportDate } from '../services/exportService';
 
 interface Expense {
   id?: string;
@@ -122,6 +124,33 @@ export default function ExpensesPage() {
 
   const totalExpenses = filteredExpenses.reduce((sum, expense) => sum + Number(expense.amount), 0);
 
+  // Exports what the list shows, search and filters included
+  const handleExport = async () => {
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+    try {
+      await exportService.shareSpreadsheet(
+        `expenses-${exportDate(new Date())}`,
+        [
+          {
+            name: t('export.expenses'),
+            rows: filteredExpenses.map(expense => ({
+              [t('export.date')]: exportDate(expense.date),
+              [t('export.category')]: expense.category,
+              [t('export.description')]: expense.description ?? '',
+              [t('export.paymentMethod')]: expense.paymentMethod,
+              [t('export.receipt')]: expense.receipt ? t('export.yes') : t('export.no'),
+              [t('export.amount')]: Number(expense.amount) || 0,
+            })),
+          },
+        ],
+        format
+      );
+    } catch (err) {
+      Alert.alert(t('export.failed'), err instanceof Error ? err.message : undefined);
+    }
+  };
+
   // Delete with confirmation
   const handleDeleteExpense = (id: string) => {
     Alert.alert(
@@ -194,9 +223,19 @@ export default function ExpensesPage() {
 
           <Text style={styles.title}>{t('expenses.title')}</Text>
 
-          <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)} activeOpacity={0.7}>
-            <Feather name="filter" size={20} color="#6366f1" />
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              style={styles.filterButton}
+              onPress={handleExport}
+              activeOpacity={0.7}
+              accessibilityLabel={t('export.export')}
+            >
+              <Feather name="download" size={20} color="#6366f1" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.filterButton} onPress={() => setShowFilters(true)} activeOpacity={0.7}>
+              <Feather name="filter" size={20} color="#6366f1" />
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Summary */}
@@ -275,6 +314,7 @@ export default function ExpensesPage() {
             data={filteredExpenses}
             keyExtractor={(item) => item.id || item._id || Math.random().toString()}
             contentContainerStyle={styles.listContent}
+            ListHeaderComponent={<PendingSyncList kind="expense" />}
             refreshControl={
               <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6366f1']} tintColor="#6366f1" />
             }
@@ -647,6 +687,10 @@ const styles = StyleSheet.create({
     color: '#1e293b',
     fontFamily: Platform.OS === 'ios' ? 'System' : 'Roboto',
   },
+  headerActions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
   filterButton: {
     padding: 8,
     borderRadius: 20,
@@ -1,4 +1,5 @@
 import expenseService from '@/services/expenseService';
+import outboxService from '@/services/outboxService';
 import { Feather } from '@expo/vector-icons';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -102,7 +103,7 @@ export default function AddExpenseScreen() {
 
     try {
       setLoading(true);
-      await expenseService.addExpense({
+      const result = await expenseService.addExpense({
         amount: Number(amount),
         description,
         category,
@@ -110,7 +111,11 @@ export default function AddExpenseScreen() {
         date: date.toISOString().split('T')[0],
         receipt,
       });
-      Alert.alert(t('expense.successTitle'), t('expense.successMessage'));
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+      } else {
+        Alert.alert(t('expense.successTitle'), t('expense.successMessage'));
+      }
       router.replace('/expenses');
     } catch {
       Alert.alert(t('expense.errorTitle'), t('expense.errorAddExpense'));
@@ -0,0 +1,289 @@
+import { Feather } from '@expo/vector-icons';
+import { differenceInCalendarDays } from 'date-fns';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import useNetworkStatus from '../hooks/useNetworkStatus';
+import dashboardService, { ExpiringBatch } from '../services/dashboardService';
+import { isExpired } from '../services/productService';
+
+const WINDOWS = [7, 30, 90];
+
+// Lots expiring within the chosen window, earliest first, so they can be sold or pulled in time
+export default function ExpiringPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isConnected } = useNetworkStatus();
+
+  const [days, setDays] = useState<number>(30);
+  const [batches, setBatches] = useState<ExpiringBatch[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isFetchingRef = useRef(false);
+
+  const fetchBatches = useCallback(async () => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+    setError(null);
+    try {
+      const data = await dashboardService.getExpiringSoon(days);
+      setBatches(Array.isArray(data) ? data : []);
+    } catch {
+      setError(t('batches.loadFailed'));
+    } finally {
+      setLoading(false);
+      isFetchingRef.current = false;
+    }
+  }, [days, t]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches, isConnected]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchBatches();
+    setRefreshing(false);
+  };
+
+  const renderBatch = ({ item }: { item: ExpiringBatch }) => {
+    const expired = isExpired(item.expiryDate);
+    const daysLeft = differenceInCalendarDays(new Date(item.expiryDate), new Date());
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => router.push({ pathname: '/products/[id]', params: { id: item.product._id } })}
+      >
+        <View style={styles.cardHeader}>
+          <Feather name="calendar" size={18} color={expired ? '#ef4444' : '#d97706'} style={{ marginRight: 10 }} />
+          <Text style={styles.productName} numberOfLines={1}>
+            {item.product.name} {item.product.brand ?? ''}
+          </Text>
+          <Text style={styles.quantity}>
+            {item.quantity} {item.product.unit ?? ''}
+          </Text>
+        </View>
+        <Text style={styles.detail}>
+          {t('batches.lotInWarehouse', { batch: item.batchNumber, warehouse: item.warehouse?.name ?? '-' })}
+        </Text>
+        <Text style={[styles.expiry, { color: expired ? '#ef4444' : '#d97706' }]}>
+          {expired
+            ? t('batches.expiredOn', { date: new Date(item.expiryDate).toLocaleDateString() })
+            : t('batches.expiresIn', { count: daysLeft, date: new Date(item.expiryDate).toLocaleDateString() })}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {isConnected === false && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t('common.offlineMessage')}</Text>
+          </View>
+        )}
+
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.back()} activeOpacity={0.7}>
+            <Feather name="arrow-left" size={24} color="#1e293b" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('batches.expiringTitle')}</Text>
+          <View style={styles.headerRightPlaceholder} />
+        </View>
+
+        <View style={styles.windowRow}>
+          {WINDOWS.map(window => (
+            <TouchableOpacity
+              key={window}
+              style={[styles.windowChip, days === window && styles.windowChipSelected]}
+              onPress={() => {
+                setLoading(true);
+                setDays(window);
+              }}
+            >
+              <Text style={[styles.windowText, days === window && styles.windowTextSelected]}>
+                {t('batches.withinDays', { count: window })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6d28d9" />
+          </View>
+        ) : (
+          <FlatList
+            data={batches}
+            keyExtractor={item => item._id}
+            renderItem={renderBatch}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+            }
+            ListHeaderComponent={
+              error ? (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              ) : null
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Feather name="check-circle" size={48} color="#e2e8f0" />
+                <Text style={styles.emptyText}>{t('batches.noneExpiring')}</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    paddingTop: Platform.OS === 'android' ? 25 : 0,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  offlineBanner: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginVertical: 6,
+    borderRadius: 4,
+  },
+  offlineText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#1e293b',
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerRightPlaceholder: { width: 40 },
+  windowRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  windowChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  windowChipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  windowText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  windowTextSelected: {
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  productName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  quantity: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  expiry: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+  },
+});
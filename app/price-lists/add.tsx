@@ -0,0 +1,71 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import PriceListForm from '@/components/PriceListForm';
+import priceListService, { PriceListData } from '@/services/priceListService';
+
+export default function AddPriceListScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const handleSubmit = async (data: PriceListData) => {
+    try {
+      await priceListService.addPriceList(data);
+      Alert.alert(t('priceLists.successTitle'), t('priceLists.created'));
+      router.replace('/price-lists');
+    } catch {
+      Alert.alert(t('priceLists.errorTitle'), t('priceLists.saveFailed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/price-lists')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('priceLists.addTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <PriceListForm submitLabel={t('priceLists.create')} onSubmit={handleSubmit} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+});
@@ -0,0 +1,263 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import priceListService, { PriceOverride } from '@/services/priceListService';
+
+const WINDOWS = [7, 30, 90];
+
+// Sale lines charged at something other than the customer's list price, newest first
+export default function PriceOverridesScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [days, setDays] = useState<number>(30);
+  const [overrides, setOverrides] = useState<PriceOverride[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOverrides = useCallback(async () => {
+    setError(null);
+    try {
+      const from = new Date();
+      from.setDate(from.getDate() - days);
+      setOverrides(await priceListService.getOverrides({ from: from.toISOString() }));
+    } catch {
+      setError(t('priceLists.overridesLoadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, t]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchOverrides();
+  }, [fetchOverrides]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchOverrides();
+    setRefreshing(false);
+  };
+
+  const renderItem = ({ item }: { item: PriceOverride }) => {
+    const saleId = typeof item.sale === 'string' ? item.sale : item.sale._id;
+    const receiptNumber = typeof item.sale === 'string' ? undefined : item.sale.receiptNumber;
+    const change = item.listPrice ? ((item.unitPrice - item.listPrice) / item.listPrice) * 100 : 0;
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => router.push({ pathname: '/sales/[id]', params: { id: saleId } })}
+      >
+        <View style={styles.cardHeader}>
+          <Text style={styles.productName} numberOfLines={1}>
+            {item.product.name} {item.product.brand ?? ''}
+          </Text>
+          <Text style={[styles.change, change < 0 ? styles.changeDown : styles.changeUp]}>
+            {change > 0 ? '+' : ''}
+            {change.toFixed(1)}%
+          </Text>
+        </View>
+        <Text style={styles.prices}>
+          {t('priceLists.overridePrices', {
+            list: item.listPrice.toFixed(2),
+            charged: item.unitPrice.toFixed(2),
+            unit: item.unit ?? item.product.unit ?? '',
+          })}
+        </Text>
+        <Text style={styles.meta}>
+          {[
+            receiptNumber ? `#${receiptNumber}` : null,
+            item.priceList?.name,
+            item.customer?.name,
+          ]
+            .filter(Boolean)
+            .join(' · ')}
+        </Text>
+        <Text style={styles.meta}>
+          {new Date(item.date).toLocaleString()}
+          {item.user?.name ? ` · ${t('priceLists.changedBy', { name: item.user.name })}` : ''}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/price-lists')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('priceLists.overridesTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <View style={styles.chipRow}>
+        {WINDOWS.map(window => (
+          <TouchableOpacity
+            key={window}
+            style={[styles.chip, days === window && styles.chipSelected]}
+            onPress={() => setDays(window)}
+          >
+            <Text style={[styles.chipText, days === window && styles.chipTextSelected]}>
+              {t('priceLists.lastDays', { count: window })}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {loading && !refreshing ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={overrides}
+          keyExtractor={item => item._id}
+          renderItem={renderItem}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="check-circle" size={48} color="#e2e8f0" />
+              <Text style={styles.emptyText}>{t('priceLists.noOverrides')}</Text>
+            </View>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingTop: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  listContent: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 4,
+  },
+  productName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  change: {
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  changeDown: {
+    color: '#dc2626',
+  },
+  changeUp: {
+    color: '#16a34a',
+  },
+  prices: {
+    fontSize: 14,
+    color: '#475569',
+    marginBottom: 4,
+  },
+  meta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+});
@@ -0,0 +1,671 @@
+import { Feather } from '@expo/vector-icons';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import priceService, { PriceChange } from '@/services/priceService';
+import productService, { Batch, isExpired, stockRows, totalStock, variantLabel } from '@/services/productService';
+import stockMovementService, {
+  MovementLedger,
+  MovementType,
+  MovementWithBalance,
+  withRunningBalance,
+} from '@/services/stockMovementService';
+import { RootState } from '../store';
+
+type RangePreset = '7' | '30' | '90' | 'all' | 'custom';
+
+const PRESETS: RangePreset[] = ['7', '30', '90', 'all'];
+
+const movementIcons: Record<MovementType, keyof typeof Feather.glyphMap> = {
+  initial: 'flag',
+  sale: 'shopping-cart',
+  sale_edit: 'edit-3',
+  transfer_in: 'log-in',
+  transfer_out: 'log-out',
+  receipt: 'download',
+  adjustment: 'sliders',
+  import: 'upload',
+  edit: 'edit',
+};
+
+const toDateParam = (date: Date) => date.toISOString().split('T')[0];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+// Product detail: every stock movement with the running balance, filterable by date
+export default function ProductDetailScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
+  const isAdmin = userRole === 'admin' || userRole === 'superadmin';
+
+  const [product, setProduct] = useState<any>(null);
+  const [ledger, setLedger] = useState<MovementLedger | null>(null);
+  const [priceHistory, setPriceHistory] = useState<PriceChange[]>([]);
+  const [showAllPrices, setShowAllPrices] = useState<boolean>(false);
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [from, setFrom] = useState<Date>(daysAgo(30));
+  const [to, setTo] = useState<Date>(new Date());
+  const [picker, setPicker] = useState<'from' | 'to' | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(
+    () => (preset === 'all' ? {} : { from: toDateParam(from), to: toDateParam(to) }),
+    [preset, from, to]
+  );
+
+  const fetchLedger = useCallback(async (force = false) => {
+    setError(null);
+    try {
+      const [prod, data, prices] = await Promise.all([
+        productService.getProductById(id, { force }),
+        stockMovementService.getProductMovements(id, range, { force, onUpdate: setLedger }),
+        // Buying prices are for admins only
+        isAdmin ? priceService.getPriceHistory(id, { force }).catch(() => []) : Promise.resolve([]),
+      ]);
+      setProduct(prod);
+      setLedger(data);
+      setPriceHistory(Array.isArray(prices) ? prices : []);
+    } catch {
+      setError(t('movements.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, range, isAdmin, t]);
+
+  useEffect(() => {
+    if (id) fetchLedger();
+  }, [id, fetchLedger]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchLedger(true);
+    setRefreshing(false);
+  };
+
+  const selectPreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'all' && value !== 'custom') {
+      setFrom(daysAgo(Number(value)));
+      setTo(new Date());
+    }
+  };
+
+  const handleDateChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    const target = picker;
+    setPicker(null);
+    if (event.type === 'dismissed' || !selectedDate || !target) return;
+    setPreset('custom');
+    if (target === 'from') setFrom(selectedDate);
+    else setTo(selectedDate);
+  };
+
+  // Newest first on screen; balances are computed oldest first
+  const entries = useMemo(() => (ledger ? withRunningBalance(ledger).reverse() : []), [ledger]);
+  const totalIn = entries.reduce((sum, e) => sum + (e.change > 0 ? e.change : 0), 0);
+  const totalOut = entries.reduce((sum, e) => sum + (e.change < 0 ? -e.change : 0), 0);
+  const opening = ledger?.openingBalance ?? 0;
+  const closing = entries.length > 0 ? entries[0].balance : opening;
+
+  const openSource = (item: MovementWithBalance) => {
+    const source = item.source;
+    if (!source) return;
+    switch (source.kind) {
+      case 'sale':
+        router.push({ pathname: '/sales/[id]', params: { id: source.id } });
+        break;
+      case 'transfer':
+        if (isAdmin) router.push({ pathname: '/transfers/edit/[id]', params: { id: source.id } });
+        break;
+      case 'goodsReceipt':
+        if (source.purchaseOrder) router.push({ pathname: '/purchases/[id]', params: { id: source.purchaseOrder } });
+        else router.push('/purchases');
+        break;
+      case 'adjustment':
+        router.push({ pathname: '/products/adjust/[id]', params: { id } });
+        break;
+      default:
+        break;
+    }
+  };
+
+  const renderEntry = ({ item }: { item: MovementWithBalance }) => {
+    const isIn = item.change > 0;
+    const hasLink = !!item.source && item.source.kind !== 'import' && item.source.kind !== 'product';
+    return (
+      <TouchableOpacity style={styles.entry} onPress={() => openSource(item)} disabled={!hasLink} activeOpacity={0.8}>
+        <View style={[styles.entryIcon, isIn ? styles.inIcon : styles.outIcon]}>
+          <Feather
+            name={movementIcons[item.type] ?? 'activity'}
+            size={16}
+            color={isIn ? '#10b981' : '#ef4444'}
+          />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.entryTitle}>
+            {t(`movements.type_${item.type}`)}
+            {item.source?.number ? ` #${item.source.number}` : ''}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {new Date(item.date).toLocaleString()}
+          </Text>
+          <Text style={styles.entryMeta}>
+            {[item.warehouse?.name, item.user?.name].filter(Boolean).join(' · ')}
+          </Text>
+          {!!item.note && <Text style={styles.entryNote}>{item.note}</Text>}
+        </View>
+        <View style={styles.entryAmounts}>
+          <Text style={[styles.entryChange, isIn ? styles.increase : styles.decrease]}>
+            {isIn ? '+' : ''}
+            {item.change}
+          </Text>
+          <Text style={styles.entryBalance}>
+            {t('movements.balance')}: {item.balance}
+          </Text>
+          {hasLink && <Feather name="chevron-right" size={16} color="#94a3b8" />}
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {product?.name ?? t('movements.title')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={item => item._id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+          ListHeaderComponent={
+            <>
+              {error && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              )}
+              {product && (
+                <View style={styles.infoCard}>
+                  <View style={styles.infoRow}>
+                    <Feather name="package" size={14} color="#64748b" />
+                    <Text style={styles.infoText}>
+                      {t('movements.inStock')}: <Text style={styles.bold}>{totalStock(product)}</Text>{' '}
+                      {product.unit ?? ''}
+                    </Text>
+                  </View>
+                  {stockRows(product).map(row => (
+                    <View key={row.warehouse._id} style={styles.infoRow}>
+                      <Feather name="archive" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>
+                        {row.warehouse.name}: <Text style={styles.bold}>{row.quantity}</Text>
+                      </Text>
+                    </View>
+                  ))}
+                  {!!product.attributes && (
+                    <View style={styles.infoRow}>
+                      <Feather name="tag" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{variantLabel(product.attributes)}</Text>
+                    </View>
+                  )}
+                  {product.variants?.map((variant: any) => (
+                    <TouchableOpacity
+                      key={variant._id}
+                      style={styles.infoRow}
+                      onPress={() => router.push({ pathname: '/products/[id]', params: { id: variant._id } })}
+                    >
+                      <Feather name="layers" size={14} color="#6d28d9" />
+                      <Text style={[styles.infoText, styles.variantLink]}>
+                        {variantLabel(variant.attributes, product.variantAttributes)}: {totalStock(variant)}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                  {/* Lots on hand, earliest expiry first */}
+                  {product.trackBatches &&
+                    (product.batches ?? [])
+                      .filter((batch: Batch) => Number(batch.quantity) > 0)
+                      .sort((a: Batch, b: Batch) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime())
+                      .map((batch: Batch) => (
+                        <View key={batch._id ?? batch.batchNumber} style={styles.infoRow}>
+                          <Feather name="calendar" size={14} color={isExpired(batch.expiryDate) ? '#ef4444' : '#64748b'} />
+                          <Text style={[styles.infoText, isExpired(batch.expiryDate) && styles.expiredText]}>
+                            {t('batches.lotRow', {
+                              batch: batch.batchNumber,
+                              date: new Date(batch.expiryDate).toLocaleDateString(),
+                              quantity: batch.quantity,
+                              warehouse: typeof batch.warehouse === 'string' ? '' : batch.warehouse.name,
+                            })}
+                          </Text>
+                        </View>
+                      ))}
+                  {!!product.barcode && (
+                    <View style={styles.infoRow}>
+                      <Feather name="hash" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{product.barcode}</Text>
+                    </View>
+                  )}
+                  {isAdmin && (
+                    <View style={styles.infoActions}>
+                      {product.variants?.length > 0 ? (
+                        <TouchableOpacity
+                          style={styles.infoButton}
+                          onPress={() => router.push({ pathname: '/products/variants/[id]', params: { id } })}
+                        >
+                          <Feather name="layers" size={16} color="#6d28d9" />
+                          <Text style={styles.infoButtonText}>{t('variants.title')}</Text>
+                        </TouchableOpacity>
+                      ) : (
+                        <TouchableOpacity
+                          style={styles.infoButton}
+                          onPress={() => router.push({ pathname: '/products/adjust/[id]', params: { id } })}
+                        >
+                          <Feather name="sliders" size={16} color="#6d28d9" />
+                          <Text style={styles.infoButtonText}>{t('adjustments.title')}</Text>
+                        </TouchableOpacity>
+                      )}
+                      <TouchableOpacity
+                        style={styles.infoButton}
+                        onPress={() =>
+                          // A variant's SKU and prices are edited with its siblings on the parent
+                          product.parent
+                            ? router.push({
+                                pathname: '/products/variants/[id]',
+                                params: { id: typeof product.parent === 'string' ? product.parent : product.parent._id },
+                              })
+                            : router.push({ pathname: '/products/edit/[id]', params: { id } })
+                        }
+                      >
+                        <Feather name="edit" size={16} color="#6d28d9" />
+                        <Text style={styles.infoButtonText}>{t('movements.editProduct')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {isAdmin && priceHistory.length > 0 && (
+                <View style={styles.infoCard}>
+                  <Text style={styles.sectionTitle}>{t('priceHistory.title')}</Text>
+                  {(showAllPrices ? priceHistory : priceHistory.slice(0, 5)).map(change => (
+                    <View key={change._id} style={styles.priceRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.priceField}>
+                          {t(`priceHistory.${change.field}`)} · {t(`priceHistory.source_${change.source}`)}
+                        </Text>
+                        <Text style={styles.entryMeta}>
+                          {[new Date(change.date).toLocaleDateString(), change.user?.name, change.note]
+                            .filter(Boolean)
+                            .join(' · ')}
+                        </Text>
+                      </View>
+                      <Text style={styles.priceChange}>
+                        {change.oldPrice !== null ? `${change.oldPrice.toFixed(2)} → ` : ''}
+                        {change.newPrice.toFixed(2)}
+                      </Text>
+                    </View>
+                  ))}
+                  {priceHistory.length > 5 && (
+                    <TouchableOpacity onPress={() => setShowAllPrices(prev => !prev)}>
+                      <Text style={styles.showMore}>
+                        {showAllPrices ? t('priceHistory.showLess') : t('priceHistory.showAll', { count: priceHistory.length })}
+                      </Text>
+                    </TouchableOpacity>
+                  )}
+                </View>
+              )}
+
+              <View style={styles.presetRow}>
+                {PRESETS.map(option => (
+                  <TouchableOpacity
+                    key={option}
+                    style={[styles.presetChip, preset === option && styles.presetChipSelected]}
+                    onPress={() => selectPreset(option)}
+                  >
+                    <Text style={[styles.presetText, preset === option && styles.presetTextSelected]}>
+                      {option === 'all' ? t('movements.allTime') : t('movements.lastDays', { count: Number(option) })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              {preset !== 'all' && (
+                <View style={styles.dateRow}>
+                  <TouchableOpacity style={styles.dateButton} onPress={() => setPicker('from')}>
+                    <Feather name="calendar" size={14} color="#6d28d9" />
+                    <Text style={styles.dateText}>{from.toLocaleDateString()}</Text>
+                  </TouchableOpacity>
+                  <Feather name="arrow-right" size={16} color="#94a3b8" />
+                  <TouchableOpacity style={styles.dateButton} onPress={() => setPicker('to')}>
+                    <Feather name="calendar" size={14} color="#6d28d9" />
+                    <Text style={styles.dateText}>{to.toLocaleDateString()}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+              {picker && (
+                <DateTimePicker
+                  value={picker === 'from' ? from : to}
+                  mode="date"
+                  display="default"
+                  maximumDate={new Date()}
+                  onChange={handleDateChange}
+                />
+              )}
+
+              {ledger && (
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('movements.opening')}</Text>
+                    <Text style={styles.summaryValue}>{opening}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('movements.in')}</Text>
+                    <Text style={[styles.summaryValue, styles.increase]}>+{totalIn}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('movements.out')}</Text>
+                    <Text style={[styles.summaryValue, styles.decrease]}>-{totalOut}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('movements.closing')}</Text>
+                    <Text style={styles.summaryValue}>{closing}</Text>
+                  </View>
+                </View>
+              )}
+              <Text style={styles.sectionTitle}>{t('movements.title')}</Text>
+            </>
+          }
+          ListEmptyComponent={!error ? <Text style={styles.emptyText}>{t('movements.noMovements')}</Text> : null}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  infoCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#475569',
+    marginLeft: 8,
+  },
+  bold: {
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  variantLink: {
+    color: '#6d28d9',
+  },
+  infoActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 8,
+  },
+  infoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  expiredText: {
+    color: '#ef4444',
+  },
+  infoButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 10,
+  },
+  presetChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+  },
+  presetChipSelected: {
+    backgroundColor: '#6d28d9',
+  },
+  presetText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  presetTextSelected: {
+    color: '#fff',
+  },
+  dateRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dateButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+  },
+  dateText: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 10,
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  priceRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  priceField: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  priceChange: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  showMore: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+    marginTop: 8,
+    textAlign: 'center',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 20,
+  },
+  entry: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  inIcon: {
+    backgroundColor: '#ecfdf5',
+  },
+  outIcon: {
+    backgroundColor: '#fef2f2',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  entryNote: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 4,
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+    marginLeft: 8,
+  },
+  entryChange: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  increase: {
+    color: '#10b981',
+  },
+  decrease: {
+    color: '#ef4444',
+  },
+});
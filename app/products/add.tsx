@@ -1,3 +1,6 @@
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import BatchFields, { toExpiryDate } from '@/components/BatchFields';
+import UnitConversionsEditor, { parseConversionDrafts, UnitConversionDraft } from '@/components/UnitConversionsEditor';
 import { UNITS } from '@/constants/units';
 import categoryService from '@/services/categoryService';
 import productService from '@/services/productService';
@@ -6,7 +9,7 @@ import { Feather, MaterialIcons } from '@expo/vector-icons';
 import * as ImageManipulator from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useRouter } from 'expo-router';
+import { useLocalSearchParams, useRouter } from 'expo-router';
 import React, { useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
@@ -17,6 +20,7 @@ import {
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -37,18 +41,28 @@ interface Warehouse {
 const AddProductScreen = () => {
   const router = useRouter();
   const { t } = useTranslation();
+  // Set when coming from an unknown scan on the products tab
+  const params = useLocalSearchParams<{ barcode?: string }>();
 
   const [categories, setCategories] = useState<Category[]>([]);
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
 
   const [buyingPrice, setBuyingPrice] = useState<string>('');
   const [sellingPrice, setSellingPrice] = useState<string>('');
+  const [taxRate, setTaxRate] = useState<string>('');
   const [name, setName] = useState<string>('');
   const [quantity, setQuantity] = useState<string>('');
   const [category, setCategory] = useState<string>('');
   const [warehouse, setWarehouse] = useState<string>('');
   const [unit, setUnit] = useState(UNITS[0].value);
   const [brand, setBrand] = useState<string>('');
+  const [conversions, setConversions] = useState<UnitConversionDraft[]>([]);
+  const [barcode, setBarcode] = useState<string>(params.barcode ?? '');
+  const [hasVariants, setHasVariants] = useState<boolean>(false);
+  const [trackBatches, setTrackBatches] = useState<boolean>(false);
+  const [batchNumber, setBatchNumber] = useState<string>('');
+  const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+  const [scannerVisible, setScannerVisible] = useState<boolean>(false);
   const [thumbnail, setThumbnail] = useState<string>('');
   const [imagePreview, setImagePreview] = useState<string>('');
   const [zoomVisible, setZoomVisible] = useState<boolean>(false);
@@ -109,7 +123,8 @@ useEffect(() => {
     if (isSubmitting) return; // prevent double taps
     setIsSubmitting(true);
 
-    if (!name || !category || !warehouse || !quantity || !unit) {
+    // Variants get their own SKU and stock once they're defined
+    if (!name || !category || !unit || (!hasVariants && (!warehouse || !quantity))) {
       return Alert.alert(t('addProduct.validationTitle'), t('addProduct.validationMessage'));
     }
 
@@ -119,6 +134,19 @@ useEffect(() => {
     if (sellingPrice && isNaN(Number(sellingPrice))) {
       return Alert.alert(t('addProduct.errorTitle'), t('addProduct.invalidSellingPrice'));
     }
+    if (taxRate && (isNaN(Number(taxRate)) || Number(taxRate) < 0 || Number(taxRate) > 100)) {
+      return Alert.alert(t('addProduct.errorTitle'), t('tax.invalidRate'));
+    }
+    // Opening stock of a batch-tracked product is its first lot
+    const openingBatch = trackBatches && !hasVariants && Number(quantity) > 0;
+    if (openingBatch && (!batchNumber.trim() || !expiryDate)) {
+      setIsSubmitting(false);
+      return Alert.alert(t('addProduct.validationTitle'), t('batches.batchRequired'));
+    }
+    const parsedConversions = parseConversionDrafts(conversions, unit);
+    if (parsedConversions.error) {
+      return Alert.alert(t('addProduct.errorTitle'), t(parsedConversions.error));
+    }
 
     try {
       let imageUrl: string | null = null;
@@ -140,16 +168,26 @@ useEffect(() => {
       const payload = {
         name,
         category,
-        warehouse,
         unit,
-        quantity: Number(quantity),
+        stock: hasVariants ? [] : [{ warehouse, quantity: Number(quantity) }], // opening stock; other warehouses get rows via transfers and receipts
         brand,
+        barcode: hasVariants ? null : barcode.trim() || null,
         buyingPrice: buyingPrice ? Number(buyingPrice) : null,
         sellingPrice: sellingPrice ? Number(sellingPrice) : null,
+        taxRate: taxRate.trim() ? Number(taxRate) : null,
         image: imageUrl,
+        unitConversions: parsedConversions.conversions,
+        trackBatches,
+        batches: openingBatch && expiryDate
+          ? [{ batchNumber: batchNumber.trim(), expiryDate: toExpiryDate(expiryDate), warehouse, quantity: Number(quantity) }]
+          : [],
       };
 
-      await productService.addProduct(payload);
+      const created = await productService.addProduct(payload);
+      if (hasVariants && created?._id) {
+        router.replace({ pathname: '/products/variants/[id]', params: { id: created._id } });
+        return;
+      }
       Alert.alert(t('addProduct.successTitle'), t('addProduct.successMessage'));
       router.replace('/products');
     } catch {
@@ -254,7 +292,36 @@ useEffect(() => {
     )}
   </View>
 
+  {/* Variants toggle */}
+  <View style={styles.switchRow}>
+    <View style={{ flex: 1 }}>
+      <Text style={styles.inputLabel}>{t('addProduct.hasVariants')}</Text>
+      <Text style={styles.switchHint}>{t('addProduct.hasVariantsHint')}</Text>
+    </View>
+    <Switch
+      value={hasVariants}
+      onValueChange={setHasVariants}
+      trackColor={{ false: '#cbd5e1', true: '#c4b5fd' }}
+      thumbColor={hasVariants ? '#6d28d9' : '#f4f3f4'}
+    />
+  </View>
+
+  {/* Batch and expiry tracking toggle */}
+  <View style={styles.switchRow}>
+    <View style={{ flex: 1 }}>
+      <Text style={styles.inputLabel}>{t('batches.trackBatches')}</Text>
+      <Text style={styles.switchHint}>{t('batches.trackBatchesHint')}</Text>
+    </View>
+    <Switch
+      value={trackBatches}
+      onValueChange={setTrackBatches}
+      trackColor={{ false: '#cbd5e1', true: '#c4b5fd' }}
+      thumbColor={trackBatches ? '#6d28d9' : '#f4f3f4'}
+    />
+  </View>
+
   {/* Warehouse Dropdown */}
+  {!hasVariants && (
   <View style={styles.inputContainer}>
   <Text style={styles.inputLabel}>{t('addProduct.warehouse')}*</Text>
   {warehouses.length === 0 ? (
@@ -284,11 +351,12 @@ useEffect(() => {
       />
     )}
   </View>
+  )}
 
   {/* Unit and quantity Row */}
   <View style={styles.row}>
     {/* Unit Dropdown */}
-    <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
+    <View style={[styles.inputContainer, { flex: 1 }, !hasVariants && { marginRight: 12 }]}>
       <Text style={styles.inputLabel}>{t('addProduct.unit')}*</Text>
       <Dropdown
         style={styles.dropdown}
@@ -308,6 +376,7 @@ useEffect(() => {
     </View>
 
     {/* quantity Input */}
+    {!hasVariants && (
     <View style={[styles.inputContainer, { flex: 1 }]}>
       <Text style={styles.inputLabel}>{t('addProduct.quantity')}*</Text>
       <TextInput
@@ -319,8 +388,19 @@ useEffect(() => {
         onChangeText={setQuantity}
       />
     </View>
+    )}
   </View>
 
+  {/* Opening lot */}
+  {trackBatches && !hasVariants && (
+    <BatchFields
+      batchNumber={batchNumber}
+      expiryDate={expiryDate}
+      onChangeBatchNumber={setBatchNumber}
+      onChangeExpiryDate={setExpiryDate}
+    />
+  )}
+
   {/* Price Row */}
   <View style={styles.row}>
     {/* Buying Price */}
@@ -356,6 +436,22 @@ useEffect(() => {
     </View>
   </View>
 
+  {/* Tax rate; blank follows the business rate */}
+  <View style={styles.inputContainer}>
+    <Text style={styles.inputLabel}>{t('tax.productRate')}</Text>
+    <TextInput
+      style={styles.input}
+      placeholder={t('tax.productRatePlaceholder')}
+      placeholderTextColor="#94a3b8"
+      keyboardType="numeric"
+      value={taxRate}
+      onChangeText={setTaxRate}
+    />
+  </View>
+
+  {/* Other units, e.g. carton = 24 pcs */}
+  <UnitConversionsEditor baseUnit={unit} value={conversions} onChange={setConversions} />
+
   {/* Brand Input */}
   <View style={styles.inputContainer}>
     <Text style={styles.inputLabel}>{t('addProduct.brand')}</Text>
@@ -367,6 +463,27 @@ useEffect(() => {
       onChangeText={setBrand}
     />
   </View>
+
+  {/* Barcode / SKU Input */}
+  {!hasVariants && (
+  <View style={styles.inputContainer}>
+    <Text style={styles.inputLabel}>{t('addProduct.barcode')}</Text>
+    <View style={styles.barcodeRow}>
+      <TextInput
+        style={[styles.input, { flex: 1 }]}
+        placeholder={t('addProduct.barcodePlaceholder')}
+        placeholderTextColor="#94a3b8"
+        autoCapitalize="none"
+        autoCorrect={false}
+        value={barcode}
+        onChangeText={setBarcode}
+      />
+      <TouchableOpacity style={styles.scanButton} onPress={() => setScannerVisible(true)}>
+        <MaterialIcons name="qr-code-scanner" size={24} color="#fff" />
+      </TouchableOpacity>
+    </View>
+  </View>
+  )}
 </View>
 
         {/* Save Button */}
@@ -403,6 +520,15 @@ useEffect(() => {
           </TouchableOpacity>
         </View>
       </Modal>
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        onScanned={(code) => {
+          setBarcode(code);
+          setScannerVisible(false);
+        }}
+        onClose={() => setScannerVisible(false)}
+      />
     </View>
   );
 };
@@ -516,6 +642,27 @@ priceInputContainer: {
     color: '#475569',
     marginBottom: 8,
   },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: -4,
+  },
+  barcodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scanButton: {
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 14,
+  },
   input: {
     backgroundColor: '#f8fafc',
     borderRadius: 12,
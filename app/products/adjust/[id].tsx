@@ -0,0 +1,600 @@
+import { Feather } from '@expo/vector-icons';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { isOnline } from '@/services/networkService';
+import outboxService from '@/services/outboxService';
+import productService, { stockIn, stockRows } from '@/services/productService';
+import stockAdjustmentService, {
+  ADJUSTMENT_REASONS,
+  AdjustmentReason,
+  adjustmentChange,
+  StockAdjustment,
+} from '@/services/stockAdjustmentService';
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+const reasonIcons: Record<AdjustmentReason, keyof typeof Feather.glyphMap> = {
+  damaged: 'alert-triangle',
+  expired: 'calendar',
+  lost: 'help-circle',
+  found: 'plus-circle',
+  count_correction: 'check-square',
+};
+
+// Stock corrections with a reason, optional photo and the product's adjustment history
+export default function AdjustStockScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+  const initialWarehouse = Array.isArray(params.warehouseId) ? params.warehouseId[0] : (params.warehouseId as string) ?? '';
+
+  const [product, setProduct] = useState<any>(null);
+  const [history, setHistory] = useState<StockAdjustment[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [reason, setReason] = useState<AdjustmentReason | null>(null);
+  const [amount, setAmount] = useState<string>('');
+  const [note, setNote] = useState<string>('');
+  const [photo, setPhoto] = useState<string>('');
+  const [warehouseId, setWarehouseId] = useState<string>(initialWarehouse);
+  const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+
+  const fetchData = useCallback(async (force = false) => {
+    try {
+      const [prod, adjustments] = await Promise.all([
+        productService.getProductById(id, { force }),
+        stockAdjustmentService.getAdjustments(id, { force, onUpdate: setHistory }),
+      ]);
+      setProduct(prod);
+      setHistory(Array.isArray(adjustments) ? adjustments : []);
+    } catch {
+      Alert.alert(t('adjustments.errorTitle'), t('adjustments.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchData();
+  }, [id, fetchData]);
+
+  const rows = useMemo(() => (product ? stockRows(product) : []), [product]);
+
+  // Default to the first stock row when opened without a warehouse
+  useEffect(() => {
+    if (!warehouseId && rows.length > 0) setWarehouseId(rows[0].warehouse._id);
+  }, [warehouseId, rows]);
+
+  const currentQuantity = product && warehouseId ? stockIn(product, warehouseId) : 0;
+  const parsedAmount = parseFloat(amount);
+  const change = reason && !isNaN(parsedAmount) ? adjustmentChange(reason, parsedAmount, currentQuantity) : 0;
+  const newQuantity = currentQuantity + change;
+
+  const pickPhoto = async (fromCamera: boolean) => {
+    try {
+      const permission = fromCamera
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        return Alert.alert(t('editProduct.permissionDeniedTitle'), t('editProduct.permissionDeniedMessage'));
+      }
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        quality: 0.8,
+      };
+      const result = fromCamera
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync(options);
+      if (!result.canceled && result.assets.length > 0) {
+        setPhoto(result.assets[0].uri);
+      }
+    } catch {
+      Alert.alert(t('adjustments.errorTitle'), t('editProduct.errorImageSelection'));
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (isSubmitting) return;
+    if (!warehouseId) {
+      return Alert.alert(t('adjustments.errorTitle'), t('adjustments.warehouseRequired'));
+    }
+    if (!reason) {
+      return Alert.alert(t('adjustments.errorTitle'), t('adjustments.reasonRequired'));
+    }
+    if (isNaN(parsedAmount) || parsedAmount < 0 || (reason !== 'count_correction' && parsedAmount === 0)) {
+      return Alert.alert(t('adjustments.errorTitle'), t('adjustments.invalidQuantity'));
+    }
+    if (change === 0) {
+      return Alert.alert(t('adjustments.errorTitle'), t('adjustments.noChange'));
+    }
+    if (newQuantity < 0) {
+      return Alert.alert(t('adjustments.errorTitle'), t('adjustments.belowZero'));
+    }
+    // Photos must be uploaded, so they can't go through the offline queue
+    if (photo && !isOnline()) {
+      return Alert.alert(t('adjustments.errorTitle'), t('sync.imageNeedsConnection'));
+    }
+
+    setIsSubmitting(true);
+    try {
+      let photoUrl: string | undefined;
+      if (photo) {
+        const manipulated = await ImageManipulator.manipulateAsync(photo, [{ resize: { width: 800 } }], {
+          compress: 0.5,
+          format: ImageManipulator.SaveFormat.JPEG,
+        });
+        photoUrl = (await productService.uploadImage(manipulated.uri)) ?? undefined;
+      }
+
+      const result = await stockAdjustmentService.createAdjustment({
+        product: id,
+        warehouse: warehouseId,
+        reason,
+        change,
+        note: note.trim(),
+        photo: photoUrl,
+        date: new Date().toISOString(),
+      });
+
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+        router.back();
+        return;
+      }
+      Alert.alert(t('adjustments.successTitle'), t('adjustments.saved'));
+      setReason(null);
+      setAmount('');
+      setNote('');
+      setPhoto('');
+      await fetchData(true);
+    } catch {
+      Alert.alert(t('adjustments.errorTitle'), t('adjustments.saveFailed'));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const amountLabel =
+    reason === 'count_correction'
+      ? t('adjustments.countedQuantity')
+      : reason === 'found'
+        ? t('adjustments.quantityToAdd')
+        : t('adjustments.quantityToRemove');
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('adjustments.title')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6d28d9" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          <View style={styles.productCard}>
+            <Text style={styles.productName}>
+              {product?.name} {product?.brand ?? ''}
+            </Text>
+            {rows.length > 1 ? (
+              <View style={styles.warehouseRow}>
+                {rows.map(row => (
+                  <TouchableOpacity
+                    key={row.warehouse._id}
+                    style={[styles.reasonChip, warehouseId === row.warehouse._id && styles.reasonChipSelected]}
+                    onPress={() => setWarehouseId(row.warehouse._id)}
+                  >
+                    <Feather name="archive" size={14} color={warehouseId === row.warehouse._id ? '#fff' : '#6d28d9'} />
+                    <Text style={[styles.reasonText, warehouseId === row.warehouse._id && styles.reasonTextSelected]}>
+                      {row.warehouse.name}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            ) : (
+              <Text style={styles.productMeta}>{rows[0]?.warehouse.name ?? ''}</Text>
+            )}
+            <Text style={styles.currentQuantity}>
+              {t('adjustments.currentQuantity')}: <Text style={styles.bold}>{currentQuantity}</Text> {product?.unit ?? ''}
+            </Text>
+          </View>
+
+          <View style={styles.formCard}>
+            <Text style={styles.inputLabel}>{t('adjustments.reason')}*</Text>
+            <View style={styles.reasonGrid}>
+              {ADJUSTMENT_REASONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.reasonChip, reason === option && styles.reasonChipSelected]}
+                  onPress={() => setReason(option)}
+                >
+                  <Feather
+                    name={reasonIcons[option]}
+                    size={16}
+                    color={reason === option ? '#fff' : '#6d28d9'}
+                  />
+                  <Text style={[styles.reasonText, reason === option && styles.reasonTextSelected]}>
+                    {t(`adjustments.reason_${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+
+            {reason && (
+              <View style={styles.inputContainer}>
+                <Text style={styles.inputLabel}>{amountLabel}*</Text>
+                <TextInput
+                  style={styles.input}
+                  placeholder="0"
+                  placeholderTextColor="#94a3b8"
+                  keyboardType="numeric"
+                  value={amount}
+                  onChangeText={text => {
+                    if (decimalPattern.test(text)) setAmount(text);
+                  }}
+                />
+                {amount !== '' && (
+                  <Text style={[styles.preview, newQuantity < 0 && styles.previewError]}>
+                    {t('adjustments.newQuantity', {
+                      change: `${change > 0 ? '+' : ''}${change}`,
+                      quantity: newQuantity,
+                    })}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>{t('adjustments.note')}</Text>
+              <TextInput
+                style={[styles.input, styles.multiline]}
+                placeholder={t('adjustments.notePlaceholder')}
+                placeholderTextColor="#94a3b8"
+                value={note}
+                onChangeText={setNote}
+                multiline
+              />
+            </View>
+
+            <Text style={styles.inputLabel}>{t('adjustments.photo')}</Text>
+            {photo ? (
+              <View style={styles.photoPreview}>
+                <Image source={{ uri: photo }} style={styles.photo} />
+                <TouchableOpacity style={styles.removePhoto} onPress={() => setPhoto('')}>
+                  <Feather name="x" size={18} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            ) : (
+              <View style={styles.photoButtons}>
+                <TouchableOpacity style={styles.photoButton} onPress={() => pickPhoto(true)}>
+                  <Feather name="camera" size={18} color="#6d28d9" />
+                  <Text style={styles.photoButtonText}>{t('adjustments.takePhoto')}</Text>
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.photoButton} onPress={() => pickPhoto(false)}>
+                  <Feather name="image" size={18} color="#6d28d9" />
+                  <Text style={styles.photoButtonText}>{t('adjustments.choosePhoto')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={styles.saveButton}
+              onPress={handleSubmit}
+              disabled={isSubmitting}
+              activeOpacity={0.9}
+            >
+              {isSubmitting ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Feather name="check-circle" size={20} color="#fff" />
+              )}
+              <Text style={styles.saveButtonText}>{t('adjustments.save')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.sectionTitle}>{t('adjustments.history')}</Text>
+          {history.length === 0 ? (
+            <Text style={styles.emptyText}>{t('adjustments.noHistory')}</Text>
+          ) : (
+            history.map(item => (
+              <View key={item._id} style={styles.historyItem}>
+                <View style={styles.historyIcon}>
+                  <Feather name={reasonIcons[item.reason] ?? 'sliders'} size={16} color="#6d28d9" />
+                </View>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.historyTitle}>{t(`adjustments.reason_${item.reason}`)}</Text>
+                  <Text style={styles.historyMeta}>
+                    {new Date(item.createdAt ?? item.date).toLocaleString()}
+                    {item.createdBy?.name ? ` · ${item.createdBy.name}` : ''}
+                    {typeof item.warehouse === 'object' && item.warehouse?.name ? ` · ${item.warehouse.name}` : ''}
+                  </Text>
+                  {!!item.note && <Text style={styles.historyNote}>{item.note}</Text>}
+                  {!!item.photo && <Image source={{ uri: item.photo }} style={styles.historyPhoto} />}
+                </View>
+                <View style={{ alignItems: 'flex-end' }}>
+                  <Text style={[styles.historyChange, item.change < 0 ? styles.decrease : styles.increase]}>
+                    {item.change > 0 ? '+' : ''}
+                    {item.change}
+                  </Text>
+                  <Text style={styles.historyMeta}>
+                    {item.quantityBefore} → {item.quantityAfter}
+                  </Text>
+                </View>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  productCard: {
+    backgroundColor: '#f5f3ff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  productName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  productMeta: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  warehouseRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  currentQuantity: {
+    fontSize: 15,
+    color: '#475569',
+    marginTop: 8,
+  },
+  bold: {
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  formCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  reasonGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  reasonChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  reasonChipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  reasonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  reasonTextSelected: {
+    color: '#fff',
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  preview: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  previewError: {
+    color: '#ef4444',
+  },
+  photoButtons: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  photoButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderRadius: 12,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  photoButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  photoPreview: {
+    alignSelf: 'flex-start',
+    marginBottom: 16,
+  },
+  photo: {
+    width: 140,
+    height: 140,
+    borderRadius: 12,
+  },
+  removePhoto: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    borderRadius: 14,
+    padding: 4,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  historyItem: {
+    flexDirection: 'row',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  historyIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#f5f3ff',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  historyTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  historyMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  historyNote: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 4,
+  },
+  historyPhoto: {
+    width: 80,
+    height: 80,
+    borderRadius: 8,
+    marginTop: 6,
+  },
+  historyChange: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  increase: {
+    color: '#10b981',
+  },
+  decrease: {
+    color: '#ef4444',
+  },
+});
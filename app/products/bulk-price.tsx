@@ -0,0 +1,526 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Dropdown } from 'react-native-element-dropdown';
+
+import useNetworkStatus from '@/hooks/useNetworkStatus';
+import categoryService from '@/services/categoryService';
+import priceService, {
+  BulkPricePreview,
+  BulkPriceProduct,
+  BulkPriceRule,
+  filterForBulkPrice,
+  PriceField,
+  PriceRounding,
+  previewBulkPrices,
+} from '@/services/priceService';
+import productService, { variantLabel } from '@/services/productService';
+import warehouseService from '@/services/warehouseService';
+
+const MODES: BulkPriceRule['mode'][] = ['set', 'percent', 'amount'];
+const ROUNDING_STEPS = [0, 0.5, 1, 5, 10];
+const ROUNDING_MODES: PriceRounding['mode'][] = ['nearest', 'up', 'down'];
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Change the selling or buying price of many products at once, with a preview before saving
+export default function BulkPriceScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isConnected } = useNetworkStatus();
+  const offline = isConnected === false;
+
+  const [products, setProducts] = useState<BulkPriceProduct[]>([]);
+  const [categories, setCategories] = useState<{ _id: string; name: string }[]>([]);
+  const [warehouses, setWarehouses] = useState<{ _id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const [category, setCategory] = useState<string>('');
+  const [brand, setBrand] = useState<string>('');
+  const [warehouse, setWarehouse] = useState<string>('');
+  const [field, setField] = useState<PriceField>('sellingPrice');
+  const [mode, setMode] = useState<BulkPriceRule['mode']>('percent');
+  const [direction, setDirection] = useState<BulkPriceRule['direction']>('increase');
+  const [value, setValue] = useState<string>('');
+  const [rounding, setRounding] = useState<PriceRounding>({ step: 0, mode: 'nearest' });
+  const [note, setNote] = useState<string>('');
+  // Preview rows the user unticked
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+
+  // New prices are worked out from the current ones, so skip the cache whenever online
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [list, cats, whs] = await Promise.all([
+        productService.getProductList(undefined, { force: true }),
+        categoryService.getAllCategories(),
+        warehouseService.getAllWarehouses(),
+      ]);
+      setProducts(Array.isArray(list) ? list : []);
+      setCategories(Array.isArray(cats) ? cats : []);
+      setWarehouses(Array.isArray(whs) ? whs : []);
+    } catch {
+      Alert.alert(t('bulkPrice.errorTitle'), t('bulkPrice.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  // Prices loaded offline came from the cache; reload them once the connection is back
+  const loadedOffline = useRef(false);
+  useEffect(() => {
+    if (offline) {
+      loadedOffline.current = true;
+    } else if (isConnected && loadedOffline.current) {
+      loadedOffline.current = false;
+      load();
+    }
+  }, [offline, isConnected, load]);
+
+  const brands = useMemo(
+    () =>
+      Array.from(new Set(products.map(p => (p.brand ?? '').trim()).filter(Boolean))).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [products]
+  );
+
+  const selected = useMemo(
+    () => filterForBulkPrice(products, { category, brand, warehouse }),
+    [products, category, brand, warehouse]
+  );
+
+  const amount = parseFloat(value);
+  const preview = useMemo<BulkPricePreview[]>(
+    () =>
+      isNaN(amount)
+        ? []
+        : previewBulkPrices(selected, { field, mode, direction, value: amount, rounding }),
+    [selected, field, mode, direction, amount, rounding]
+  );
+
+  // A new filter or rule starts with every row ticked again
+  useEffect(() => {
+    setExcluded(new Set());
+  }, [category, brand, warehouse, field, mode, direction, value, rounding]);
+
+  const toApply = preview.filter(row => !excluded.has(row.product._id));
+
+  const toggleRow = (id: string) =>
+    setExcluded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const handleApply = () => {
+    if (offline) {
+      Alert.alert(t('bulkPrice.errorTitle'), t('bulkPrice.needsConnection'));
+      return;
+    }
+    if (isNaN(amount) || (mode === 'set' && amount <= 0)) {
+      Alert.alert(t('bulkPrice.errorTitle'), t('bulkPrice.invalidValue'));
+      return;
+    }
+    if (toApply.length === 0) {
+      Alert.alert(t('bulkPrice.errorTitle'), t('bulkPrice.nothingToChange'));
+      return;
+    }
+    Alert.alert(t('bulkPrice.confirmTitle'), t('bulkPrice.confirmMessage', { count: toApply.length }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('bulkPrice.apply'),
+        onPress: async () => {
+          setSaving(true);
+          try {
+            const { updated } = await priceService.bulkUpdatePrices(
+              field,
+              toApply.map(row => ({ product: row.product._id, price: row.newPrice })),
+              note.trim() || undefined
+            );
+            Alert.alert(t('bulkPrice.successTitle'), t('bulkPrice.updated', { count: updated ?? toApply.length }));
+            router.back();
+          } catch {
+            Alert.alert(t('bulkPrice.errorTitle'), t('bulkPrice.saveFailed'));
+          } finally {
+            setSaving(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const chip = (label: string, active: boolean, onPress: () => void) => (
+    <TouchableOpacity key={label} style={[styles.chip, active && styles.chipSelected]} onPress={onPress}>
+      <Text style={[styles.chipText, active && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const dropdown = (
+    data: { label: string; value: string }[],
+    current: string,
+    onChange: (value: string) => void,
+    placeholder: string
+  ) => (
+    <Dropdown
+      style={styles.dropdown}
+      placeholderStyle={styles.placeholderStyle}
+      selectedTextStyle={styles.selectedTextStyle}
+      data={[{ label: placeholder, value: '' }, ...data]}
+      search={data.length > 8}
+      labelField="label"
+      valueField="value"
+      placeholder={placeholder}
+      searchPlaceholder={t('common.search')}
+      value={current}
+      onChange={item => onChange(item.value)}
+    />
+  );
+
+  const renderRow = ({ item }: { item: BulkPricePreview }) => {
+    const ticked = !excluded.has(item.product._id);
+    return (
+      <TouchableOpacity style={styles.previewRow} onPress={() => toggleRow(item.product._id)} activeOpacity={0.7}>
+        <Feather name={ticked ? 'check-square' : 'square'} size={20} color={ticked ? '#6d28d9' : '#94a3b8'} />
+        <View style={{ flex: 1 }}>
+          <Text style={[styles.productName, !ticked && styles.muted]} numberOfLines={1}>
+            {item.product.name} {item.product.brand ?? ''}
+          </Text>
+          {!!item.product.attributes && (
+            <Text style={styles.detail}>{variantLabel(item.product.attributes)}</Text>
+          )}
+        </View>
+        <View style={{ alignItems: 'flex-end' }}>
+          <Text style={styles.oldPrice}>ETB {item.oldPrice.toFixed(2)}</Text>
+          <Text style={[styles.newPrice, !ticked && styles.muted]}>ETB {item.newPrice.toFixed(2)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('bulkPrice.title')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={preview}
+          keyExtractor={item => item.product._id}
+          renderItem={renderRow}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListHeaderComponent={
+            <>
+              {/* Which products */}
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('bulkPrice.products')}</Text>
+                {dropdown(categories.map(c => ({ label: c.name, value: c._id })), category, setCategory, t('bulkPrice.allCategories'))}
+                {dropdown(brands.map(b => ({ label: b, value: b })), brand, setBrand, t('bulkPrice.allBrands'))}
+                {dropdown(warehouses.map(w => ({ label: w.name, value: w._id })), warehouse, setWarehouse, t('bulkPrice.allWarehouses'))}
+                <Text style={styles.hint}>{t('bulkPrice.selectedCount', { count: selected.length })}</Text>
+              </View>
+
+              {/* How the price changes */}
+              <View style={styles.card}>
+                <Text style={styles.sectionTitle}>{t('bulkPrice.change')}</Text>
+                <View style={styles.chipRow}>
+                  {chip(t('bulkPrice.sellingPrice'), field === 'sellingPrice', () => setField('sellingPrice'))}
+                  {chip(t('bulkPrice.buyingPrice'), field === 'buyingPrice', () => setField('buyingPrice'))}
+                </View>
+                <View style={styles.chipRow}>
+                  {MODES.map(option => chip(t(`bulkPrice.mode_${option}`), mode === option, () => setMode(option)))}
+                </View>
+                {mode !== 'set' && (
+                  <View style={styles.chipRow}>
+                    {chip(t('bulkPrice.increase'), direction === 'increase', () => setDirection('increase'))}
+                    {chip(t('bulkPrice.decrease'), direction === 'decrease', () => setDirection('decrease'))}
+                  </View>
+                )}
+                <View style={styles.valueRow}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="0"
+                    placeholderTextColor="#94a3b8"
+                    keyboardType="numeric"
+                    value={value}
+                    onChangeText={text => {
+                      if (decimalPattern.test(text)) setValue(text);
+                    }}
+                  />
+                  <Text style={styles.valueUnit}>{mode === 'percent' ? '%' : 'ETB'}</Text>
+                </View>
+
+                <Text style={styles.label}>{t('bulkPrice.rounding')}</Text>
+                <View style={styles.chipRow}>
+                  {ROUNDING_STEPS.map(step =>
+                    chip(step === 0 ? t('bulkPrice.noRounding') : String(step), rounding.step === step, () =>
+                      setRounding(prev => ({ ...prev, step }))
+                    )
+                  )}
+                </View>
+                {rounding.step > 0 && (
+                  <View style={styles.chipRow}>
+                    {ROUNDING_MODES.map(option =>
+                      chip(t(`bulkPrice.round_${option}`), rounding.mode === option, () =>
+                        setRounding(prev => ({ ...prev, mode: option }))
+                      )
+                    )}
+                  </View>
+                )}
+
+                <TextInput
+                  style={[styles.input, styles.noteInput]}
+                  placeholder={t('bulkPrice.notePlaceholder')}
+                  placeholderTextColor="#94a3b8"
+                  value={note}
+                  onChangeText={setNote}
+                />
+              </View>
+
+              <View style={styles.previewHeader}>
+                <Text style={styles.sectionTitle}>{t('bulkPrice.preview')}</Text>
+                <Text style={styles.hint}>
+                  {t('bulkPrice.previewCount', { count: toApply.length, total: preview.length })}
+                </Text>
+              </View>
+            </>
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {value.trim() === '' ? t('bulkPrice.enterValue') : t('bulkPrice.noChanges')}
+            </Text>
+          }
+          ListFooterComponent={
+            <>
+              {offline && <Text style={styles.offlineText}>{t('bulkPrice.needsConnection')}</Text>}
+              <TouchableOpacity
+                style={[styles.saveButton, (saving || offline || toApply.length === 0) && styles.saveButtonDisabled]}
+                onPress={handleApply}
+                disabled={saving || offline || toApply.length === 0}
+                activeOpacity={0.9}
+              >
+                {saving ? <ActivityIndicator size="small" color="#fff" /> : <Feather name="check-circle" size={20} color="#fff" />}
+                <Text style={styles.saveButtonText}>{t('bulkPrice.applyCount', { count: toApply.length })}</Text>
+              </TouchableOpacity>
+            </>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    gap: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+  },
+  offlineText: {
+    fontSize: 13,
+    color: '#b91c1c',
+    textAlign: 'center',
+    marginTop: 12,
+  },
+  dropdown: {
+    height: 48,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  placeholderStyle: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  selectedTextStyle: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  valueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  valueUnit: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#475569',
+    width: 40,
+  },
+  noteInput: {
+    flex: 0,
+  },
+  previewHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  detail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  muted: {
+    color: '#94a3b8',
+  },
+  oldPrice: {
+    fontSize: 12,
+    color: '#94a3b8',
+    textDecorationLine: 'line-through',
+  },
+  newPrice: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#94a3b8',
+    marginVertical: 24,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 16,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#c4b5fd',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -1,13 +1,22 @@
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import ReorderRulesEditor, { parseReorderDraft, ReorderDraft, toReorderDraft } from '@/components/ReorderRulesEditor';
+import UnitConversionsEditor, {
+  parseConversionDrafts,
+  toConversionDrafts,
+  UnitConversionDraft,
+} from '@/components/UnitConversionsEditor';
 import { UNITS } from '@/constants/units';
 import categoryService from '@/services/categoryService';
-import productService from '@/services/productService';
-import warehouseService from '@/services/warehouseService';
+import { isOnline } from '@/services/networkService';
+import outboxService from '@/services/outboxService';
+import productService, { StockRow, stockRows } from '@/services/productService';
 import { Feather, MaterialIcons } from '@expo/vector-icons';
 import * as ImageManipulator from 'expo-image-manipulator';
 import * as ImagePicker from 'expo-image-picker';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useFocusEffect } from '@react-navigation/native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useEffect, useMemo, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   ActivityIndicator,
@@ -17,6 +26,7 @@ import {
   Platform,
   ScrollView,
   StyleSheet,
+  Switch,
   Text,
   TextInput,
   TouchableOpacity,
@@ -24,12 +34,16 @@ import {
 } from 'react-native';
 import { Dropdown } from 'react-native-element-dropdown';
 
-interface Category {
-  _id: string;
-  name: string;
-}
+// What this screen edits, to tell whether someone else saved the product since it was loaded.
+// Not `updatedAt`: sales, transfers and adjustments bump it without touching these fields.
+const editedFields = (prod: any) =>
+  JSON.stringify([
+    prod?.name, prod?.category?._id, prod?.unit, prod?.brand, prod?.barcode, prod?.image,
+    prod?.buyingPrice, prod?.sellingPrice, prod?.taxRate, prod?.unitConversions, prod?.trackBatches,
+    prod?.minQuantity, prod?.reorderQuantity, prod?.leadTimeDays, prod?.reorderRules,
+  ]);
 
-interface Warehouse {
+interface Category {
   _id: string;
   name: string;
 }
@@ -40,23 +54,48 @@ const EditProductScreen = () => {
   const { t } = useTranslation();
 
   const [categories, setCategories] = useState<Category[]>([]);
-  const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [imageLoading, setImageLoading] = useState<boolean>(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [name, setName] = useState<string>('');
   const [category, setCategory] = useState<string>('');
-  const [warehouse, setWarehouse] = useState<string>('');
   const [unit, setUnit] = useState<string>(UNITS[0].value);
-  const [quantity, setQuantity] = useState<string>('');
+  const [stock, setStock] = useState<StockRow[]>([]);
+  const [variantCount, setVariantCount] = useState<number>(0);
+  const [trackBatches, setTrackBatches] = useState<boolean>(false);
+  const [reorder, setReorder] = useState<ReorderDraft>({ minQuantity: '', reorderQuantity: '', leadTimeDays: '', rules: [] });
   const [brand, setBrand] = useState<string>('');
+  const [conversions, setConversions] = useState<UnitConversionDraft[]>([]);
+  const [barcode, setBarcode] = useState<string>('');
+  const [scannerVisible, setScannerVisible] = useState<boolean>(false);
   const [thumbnail, setThumbnail] = useState<string>('');
   const [imagePreview, setImagePreview] = useState<string>('');
   const [zoomVisible, setZoomVisible] = useState<boolean>(false);
   const [buyingPrice, setBuyingPrice] = useState<string>('');
   const [sellingPrice, setSellingPrice] = useState<string>('');
+  const [taxRate, setTaxRate] = useState<string>('');
   const selectedCategory = categories.find(c => c._id === category);
-  const selectedWarehouse = warehouses.find(w => w._id === warehouse);
+  // The product as the form was filled from it
+  const loadedRef = useRef<any>(null);
+
+  const fillForm = useCallback((prod: any) => {
+    loadedRef.current = prod;
+    setName(prod.name || '');
+    setCategory(prod.category?._id || '');
+    setUnit(prod.unit || UNITS[0].value);
+    setStock(stockRows(prod));
+    setVariantCount(prod.variants?.length ?? 0);
+    setTrackBatches(!!prod.trackBatches);
+    setReorder(toReorderDraft(prod, stockRows(prod)));
+    setBrand(prod.brand || '');
+    setBarcode(prod.barcode || '');
+    setThumbnail(prod.image || '');
+    setImagePreview(prod.image || '');
+    setBuyingPrice(prod.buyingPrice ? String(prod.buyingPrice) : '');
+    setSellingPrice(prod.sellingPrice ? String(prod.sellingPrice) : '');
+    setTaxRate(prod.taxRate !== undefined && prod.taxRate !== null ? String(prod.taxRate) : '');
+    setConversions(toConversionDrafts(prod.unitConversions));
+  }, []);
 
 
   useEffect(() => {
@@ -69,24 +108,14 @@ const EditProductScreen = () => {
           return;
         }
 
-        const [prod, cats, whs] = await Promise.all([
-          productService.getProductById(productId),
+        // The form is saved back whole, so start from the server's copy rather than the cache when online
+        const [prod, cats] = await Promise.all([
+          productService.getProductById(productId, { force: true }),
           categoryService.getAllCategories(),
-          warehouseService.getAllWarehouses(),
         ]);
 
-        setName(prod.name || '');
-        setCategory(prod.category?._id || '');
-        setWarehouse(prod.warehouse?._id || '');
-        setUnit(prod.unit || UNITS[0].value);
-        setQuantity(String(prod.quantity ?? ''));
-        setBrand(prod.brand || '');
-        setThumbnail(prod.image || '');
-        setImagePreview(prod.image || '');
-        setBuyingPrice(prod.buyingPrice ? String(prod.buyingPrice) : '');
-        setSellingPrice(prod.sellingPrice ? String(prod.sellingPrice) : '');
+        fillForm(prod);
         setCategories(cats || []);
-        setWarehouses(whs || []);
       } catch {
         Alert.alert(t('editProduct.errorTitle'), t('editProduct.errorLoading'));
       } finally {
@@ -95,7 +124,19 @@ const EditProductScreen = () => {
     };
 
     fetchInitialData();
-  }, [id, t]);
+  }, [id, t, fillForm]);
+
+  // Pick up the stock levels again after returning from a stock adjustment
+  useFocusEffect(
+    useCallback(() => {
+      const productId = Array.isArray(id) ? id[0] : id;
+      if (!productId) return;
+      productService
+        .getProductById(productId)
+        .then(prod => setStock(stockRows(prod)))
+        .catch(() => {});
+    }, [id])
+  );
 
   const handleImagePick = async () => {
     try {
@@ -124,12 +165,12 @@ const EditProductScreen = () => {
     }
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = async (overwrite = false) => {
     if (isSubmitting) return; // Prevent multiple submissions
 
     setIsSubmitting(true); // Disable the button while submitting
 
-    if (!name || !category || !warehouse || !quantity || !unit) {
+    if (!name || !category || !unit) {
       setIsSubmitting(false); // Re-enable the button
       return Alert.alert(t('editProduct.validationTitle'), t('editProduct.validationMessage'));
     }
@@ -144,6 +185,36 @@ const EditProductScreen = () => {
       return Alert.alert(t('editProduct.errorTitle'), t('editProduct.invalidSellingPrice'));
     }
 
+    if (taxRate && (isNaN(Number(taxRate)) || Number(taxRate) < 0 || Number(taxRate) > 100)) {
+      setIsSubmitting(false); // Re-enable the button
+      return Alert.alert(t('editProduct.errorTitle'), t('tax.invalidRate'));
+    }
+
+    const parsedConversions = parseConversionDrafts(conversions, unit);
+    if (parsedConversions.error) {
+      setIsSubmitting(false); // Re-enable the button
+      return Alert.alert(t('editProduct.errorTitle'), t(parsedConversions.error));
+    }
+
+    // New images must be uploaded, so they can't go through the offline queue
+    if (thumbnail && !thumbnail.startsWith('http') && !isOnline()) {
+      setIsSubmitting(false); // Re-enable the button
+      return Alert.alert(t('editProduct.errorTitle'), t('sync.imageNeedsConnection'));
+    }
+
+    // Someone may have saved the product since the form was filled; don't silently undo their changes
+    if (!overwrite && isOnline()) {
+      const latest = await productService.getProductById(id as string, { force: true }).catch(() => null);
+      if (latest && editedFields(latest) !== editedFields(loadedRef.current)) {
+        setIsSubmitting(false); // Re-enable the button
+        return Alert.alert(t('editProduct.changedTitle'), t('editProduct.changedMessage'), [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('editProduct.reload'), onPress: () => fillForm(latest) },
+          { text: t('editProduct.saveAnyway'), style: 'destructive', onPress: () => handleSubmit(true) },
+        ]);
+      }
+    }
+
     try {
       let imageUrl: string | null = null;
 
@@ -163,7 +234,7 @@ const EditProductScreen = () => {
           imageUrl = thumbnail;
         }
       }
-      if (!selectedCategory || !selectedWarehouse) {
+      if (!selectedCategory) {
         setIsSubmitting(false); // Re-enable the button
         Alert.alert(t('editProduct.errorTitle'), t('editProduct.invalidCategoryOrWarehouse'));
         return;
@@ -172,17 +243,24 @@ const EditProductScreen = () => {
       const payload = {
         name,
         category: selectedCategory,
-        warehouse: selectedWarehouse,
         unit,
-        quantity: Number(quantity),
         brand,
+        barcode: barcode.trim(),
         buyingPrice: buyingPrice ? Number(buyingPrice) : undefined,
         sellingPrice: sellingPrice ? Number(sellingPrice) : undefined,
+        taxRate: taxRate.trim() ? Number(taxRate) : null,
+        unitConversions: parsedConversions.conversions,
+        trackBatches,
+        ...parseReorderDraft(reorder),
         ...(imageUrl ? { image: imageUrl } : {}),
       };
 
-      await productService.editProduct(id as string, payload);
-      Alert.alert(t('editProduct.successTitle'), t('editProduct.successMessage'));
+      const result = await productService.editProduct(id as string, payload);
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+      } else {
+        Alert.alert(t('editProduct.successTitle'), t('editProduct.successMessage'));
+      }
       router.replace('/products');
     } catch {
       setIsSubmitting(false); // Re-enable the button
@@ -195,9 +273,6 @@ const EditProductScreen = () => {
     return categories.map(cat => ({ label: cat.name, value: cat._id }));
   }, [categories]);
 
-  const warehouseDropdown = useMemo(() => {
-    return warehouses.map(w => ({ label: w.name, value: w._id }));
-  }, [warehouses]);
 
   if (loading) {
     return (
@@ -305,60 +380,82 @@ const EditProductScreen = () => {
             />
           </View>
 
-          {/* Warehouse Dropdown */}
+          {/* Unit */}
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('editProduct.warehouse')}*</Text>
+            <Text style={styles.inputLabel}>{t('editProduct.unit')}*</Text>
             <Dropdown
               style={styles.dropdown}
               placeholderStyle={styles.placeholderStyle}
               selectedTextStyle={styles.selectedTextStyle}
-              inputSearchStyle={styles.inputSearchStyle}
               iconStyle={styles.iconStyle}
-              data={warehouseDropdown}
-              search
-              maxHeight={300}
+              data={UNITS}
               labelField="label"
               valueField="value"
-              placeholder={t('editProduct.selectWarehouse')}
-              searchPlaceholder={t('editProduct.search')}
-              value={warehouse}
-              onChange={item => setWarehouse(item.value)}
-              renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="archive" size={20} color="#64748b" />}
+              placeholder={t('editProduct.selectUnit')}
+              value={unit}
+              onChange={item => setUnit(item.value)}
+              renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="divide-square" size={20} color="#64748b" />}
             />
           </View>
 
-          {/* Unit and Quantity Row */}
-          <View style={styles.row}>
-            <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>{t('editProduct.unit')}*</Text>
-              <Dropdown
-                style={styles.dropdown}
-                placeholderStyle={styles.placeholderStyle}
-                selectedTextStyle={styles.selectedTextStyle}
-                iconStyle={styles.iconStyle}
-                data={UNITS}
-                labelField="label"
-                valueField="value"
-                placeholder={t('editProduct.selectUnit')}
-                value={unit}
-                onChange={item => setUnit(item.value)}
-                renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="divide-square" size={20} color="#64748b" />}
-              />
-            </View>
+          {/* Stock only changes through adjustments, transfers and receipts so every change is recorded */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('editProduct.stockByWarehouse')}</Text>
+            {stock.length === 0 ? (
+              <Text style={styles.noStockText}>{t('editProduct.noStock')}</Text>
+            ) : variantCount > 0 ? (
+              // Stock is held by the variants, so it's adjusted on each of them
+              stock.map(row => (
+                <View key={row.warehouse._id} style={styles.quantityButton}>
+                  <Text style={styles.stockWarehouse}>{row.warehouse.name}</Text>
+                  <Text style={styles.quantityValue}>{row.quantity}</Text>
+                </View>
+              ))
+            ) : (
+              stock.map(row => (
+                <TouchableOpacity
+                  key={row.warehouse._id}
+                  style={styles.quantityButton}
+                  onPress={() =>
+                    router.push({
+                      pathname: '/products/adjust/[id]',
+                      params: { id: id as string, warehouseId: row.warehouse._id },
+                    })
+                  }
+                >
+                  <Text style={styles.stockWarehouse}>{row.warehouse.name}</Text>
+                  <Text style={styles.quantityValue}>{row.quantity}</Text>
+                  <Feather name="sliders" size={18} color="#6d28d9" />
+                </TouchableOpacity>
+              ))
+            )}
+          </View>
 
-            <View style={[styles.inputContainer, { flex: 1 }]}>
-              <Text style={styles.inputLabel}>{t('editProduct.quantity')}*</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="0"
-                placeholderTextColor="#94a3b8"
-                keyboardType="numeric"
-                value={quantity}
-                onChangeText={setQuantity}
-              />
+          {/* Stock already on hand has no lot and is sold after the lots; new stock needs one */}
+          <View style={styles.switchRow}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.inputLabel}>{t('batches.trackBatches')}</Text>
+              <Text style={styles.switchHint}>{t('batches.trackBatchesHint')}</Text>
             </View>
+            <Switch
+              value={trackBatches}
+              onValueChange={setTrackBatches}
+              trackColor={{ false: '#cbd5e1', true: '#c4b5fd' }}
+              thumbColor={trackBatches ? '#6d28d9' : '#f4f3f4'}
+            />
           </View>
 
+          <TouchableOpacity
+            style={styles.variantsButton}
+            onPress={() => router.push({ pathname: '/products/variants/[id]', params: { id: id as string } })}
+          >
+            <Feather name="layers" size={18} color="#6d28d9" />
+            <Text style={styles.variantsButtonText}>
+              {variantCount > 0 ? t('editProduct.manageVariants', { count: variantCount }) : t('editProduct.addVariants')}
+            </Text>
+            <Feather name="chevron-right" size={18} color="#6d28d9" />
+          </TouchableOpacity>
+
           {/* Price Row */}
           <View style={styles.row}>
             <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
@@ -392,6 +489,25 @@ const EditProductScreen = () => {
             </View>
           </View>
 
+          {/* Tax rate; blank follows the business rate */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('tax.productRate')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder={t('tax.productRatePlaceholder')}
+              placeholderTextColor="#94a3b8"
+              keyboardType="numeric"
+              value={taxRate}
+              onChangeText={setTaxRate}
+            />
+          </View>
+
+          {/* Other units, e.g. carton = 24 pcs */}
+          <UnitConversionsEditor baseUnit={unit} value={conversions} onChange={setConversions} />
+
+          {/* Minimum, reorder quantity and lead time feed the reorder suggestions */}
+          <ReorderRulesEditor value={reorder} onChange={setReorder} />
+
           {/* Brand Input */}
           <View style={styles.inputContainer}>
             <Text style={styles.inputLabel}>{t('editProduct.brand')}</Text>
@@ -403,12 +519,31 @@ const EditProductScreen = () => {
               onChangeText={setBrand}
             />
           </View>
+
+          {/* Barcode / SKU Input */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('editProduct.barcode')}</Text>
+            <View style={styles.barcodeRow}>
+              <TextInput
+                style={[styles.input, { flex: 1 }]}
+                placeholder={t('editProduct.barcodePlaceholder')}
+                placeholderTextColor="#94a3b8"
+                autoCapitalize="none"
+                autoCorrect={false}
+                value={barcode}
+                onChangeText={setBarcode}
+              />
+              <TouchableOpacity style={styles.scanButton} onPress={() => setScannerVisible(true)}>
+                <MaterialIcons name="qr-code-scanner" size={24} color="#fff" />
+              </TouchableOpacity>
+            </View>
+          </View>
         </View>
 
         {/* Save Button */}
         <TouchableOpacity
           style={styles.saveButton}
-          onPress={handleSubmit}
+          onPress={() => handleSubmit()}
           activeOpacity={0.9}
           disabled={isSubmitting} // Disable the button
         >
@@ -438,6 +573,15 @@ const EditProductScreen = () => {
           </TouchableOpacity>
         </View>
       </Modal>
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        onScanned={(code) => {
+          setBarcode(code);
+          setScannerVisible(false);
+        }}
+        onClose={() => setScannerVisible(false)}
+      />
     </View>
   );
 };
@@ -553,6 +697,67 @@ priceInputContainer: {
     color: '#475569',
     marginBottom: 8,
   },
+  quantityButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 8,
+    backgroundColor: '#f5f3ff',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  variantsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#f5f3ff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 16,
+  },
+  variantsButtonText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 16,
+  },
+  switchHint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: -4,
+  },
+  stockWarehouse: {
+    flex: 1,
+    fontSize: 15,
+    color: '#475569',
+  },
+  noStockText: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  quantityValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  barcodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  scanButton: {
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 14,
+  },
   input: {
     backgroundColor: '#f8fafc',
     borderRadius: 12,
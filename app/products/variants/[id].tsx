@@ -0,0 +1,540 @@
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import productService, {
+  totalStock,
+  VariantAttribute,
+  variantCombinations,
+  variantLabel,
+} from '@/services/productService';
+
+const MAX_ATTRIBUTES = 3;
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Attribute being edited; values are typed comma-separated
+interface AttributeDraft {
+  name: string;
+  values: string;
+}
+
+interface VariantDraft {
+  key: string;
+  _id?: string;
+  attributes: Record<string, string>;
+  barcode: string;
+  buyingPrice: string;
+  sellingPrice: string;
+  stock: number;
+}
+
+const parseAttributes = (drafts: AttributeDraft[]): VariantAttribute[] =>
+  drafts.map(d => ({
+    name: d.name.trim(),
+    values: Array.from(new Set(d.values.split(',').map(v => v.trim()).filter(Boolean))),
+  }));
+
+const comboKey = (attributes: Record<string, string>, order: VariantAttribute[]) =>
+  order.map(a => `${a.name}=${attributes[a.name] ?? ''}`).join('|');
+
+const priceText = (value?: number | null) => (value !== undefined && value !== null ? String(value) : '');
+
+// Attribute definitions and per-variant SKU and prices of a parent product
+export default function ProductVariantsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [product, setProduct] = useState<any>(null);
+  const [attributes, setAttributes] = useState<AttributeDraft[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [scanningKey, setScanningKey] = useState<string | null>(null);
+
+  const loadProduct = useCallback(async () => {
+    try {
+      const prod = await productService.getProductById(id, { force: true });
+      setProduct(prod);
+      const defined: VariantAttribute[] = prod.variantAttributes ?? [];
+      setAttributes(
+        defined.length > 0
+          ? defined.map(a => ({ name: a.name, values: a.values.join(', ') }))
+          : [{ name: '', values: '' }]
+      );
+      setVariants(
+        (prod.variants ?? []).map((v: any) => ({
+          key: v._id ?? comboKey(v.attributes, defined),
+          _id: v._id,
+          attributes: v.attributes ?? {},
+          barcode: v.barcode ?? '',
+          buyingPrice: priceText(v.buyingPrice),
+          sellingPrice: priceText(v.sellingPrice),
+          stock: totalStock(v),
+        }))
+      );
+    } catch {
+      Alert.alert(t('variants.errorTitle'), t('variants.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) loadProduct();
+  }, [id, loadProduct]);
+
+  const updateAttribute = (index: number, field: keyof AttributeDraft, value: string) => {
+    setAttributes(prev => prev.map((a, i) => (i === index ? { ...a, [field]: value } : a)));
+  };
+
+  const updateVariant = (key: string, field: 'barcode' | 'buyingPrice' | 'sellingPrice', value: string) => {
+    setVariants(prev => prev.map(v => (v.key === key ? { ...v, [field]: value } : v)));
+  };
+
+  const validAttributes = () => {
+    const parsed = parseAttributes(attributes);
+    const names = parsed.map(a => a.name.toLowerCase());
+    if (parsed.length === 0 || parsed.some(a => !a.name || a.values.length === 0)) {
+      Alert.alert(t('variants.errorTitle'), t('variants.attributeIncomplete'));
+      return null;
+    }
+    if (new Set(names).size !== names.length) {
+      Alert.alert(t('variants.errorTitle'), t('variants.attributeDuplicate'));
+      return null;
+    }
+    return parsed;
+  };
+
+  // Add a row for every combination not yet listed; existing rows keep their SKU and prices
+  const handleGenerate = () => {
+    const parsed = validAttributes();
+    if (!parsed) return;
+    const existing = new Set(variants.map(v => comboKey(v.attributes, parsed)));
+    const added = variantCombinations(parsed)
+      .filter(combo => !existing.has(comboKey(combo, parsed)))
+      .map(combo => ({
+        key: `new-${comboKey(combo, parsed)}`,
+        attributes: combo,
+        barcode: '',
+        buyingPrice: priceText(product?.buyingPrice),
+        sellingPrice: priceText(product?.sellingPrice),
+        stock: 0,
+      }));
+    if (added.length === 0) {
+      Alert.alert(t('variants.infoTitle'), t('variants.nothingToGenerate'));
+      return;
+    }
+    setVariants(prev => [...prev, ...added]);
+  };
+
+  const handleRemove = (variant: VariantDraft) => {
+    // Stock has to be moved or adjusted out first so no quantity disappears unrecorded
+    if (variant.stock > 0) {
+      Alert.alert(t('variants.errorTitle'), t('variants.removeWithStock'));
+      return;
+    }
+    setVariants(prev => prev.filter(v => v.key !== variant.key));
+  };
+
+  const handleSave = async () => {
+    if (saving) return;
+    const parsed = validAttributes();
+    if (!parsed) return;
+    if (variants.length === 0) {
+      Alert.alert(t('variants.errorTitle'), t('variants.noVariants'));
+      return;
+    }
+    const outside = variants.find(v =>
+      parsed.some(a => !a.values.includes(v.attributes[a.name])) ||
+      Object.keys(v.attributes).some(name => !parsed.some(a => a.name === name))
+    );
+    if (outside) {
+      Alert.alert(
+        t('variants.errorTitle'),
+        t('variants.variantOutsideAttributes', { variant: variantLabel(outside.attributes) })
+      );
+      return;
+    }
+    const skus = variants.map(v => v.barcode.trim()).filter(Boolean);
+    if (new Set(skus).size !== skus.length) {
+      Alert.alert(t('variants.errorTitle'), t('variants.duplicateSku'));
+      return;
+    }
+    if (variants.some(v => (v.buyingPrice && isNaN(Number(v.buyingPrice))) || (v.sellingPrice && isNaN(Number(v.sellingPrice))))) {
+      Alert.alert(t('variants.errorTitle'), t('variants.invalidPrice'));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await productService.saveVariants(id, {
+        variantAttributes: parsed,
+        variants: variants.map(v => ({
+          ...(v._id ? { _id: v._id } : {}),
+          attributes: v.attributes,
+          barcode: v.barcode.trim() || null,
+          buyingPrice: v.buyingPrice ? Number(v.buyingPrice) : null,
+          sellingPrice: v.sellingPrice ? Number(v.sellingPrice) : null,
+        })),
+      });
+      Alert.alert(t('variants.successTitle'), t('variants.saved'));
+      await loadProduct();
+    } catch (err: any) {
+      Alert.alert(t('variants.errorTitle'), err?.message || t('variants.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const order = parseAttributes(attributes);
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('variants.title')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6d28d9" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          <View style={styles.productCard}>
+            <Text style={styles.productName}>
+              {product?.name} {product?.brand ?? ''}
+            </Text>
+            <Text style={styles.productMeta}>{t('variants.subtitle')}</Text>
+          </View>
+
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>{t('variants.attributes')}</Text>
+            {attributes.map((attribute, index) => (
+              <View key={index} style={styles.attributeRow}>
+                <View style={{ flex: 1, gap: 8 }}>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={t('variants.attributeNamePlaceholder')}
+                    placeholderTextColor="#94a3b8"
+                    value={attribute.name}
+                    onChangeText={text => updateAttribute(index, 'name', text)}
+                  />
+                  <TextInput
+                    style={styles.input}
+                    placeholder={t('variants.attributeValuesPlaceholder')}
+                    placeholderTextColor="#94a3b8"
+                    value={attribute.values}
+                    onChangeText={text => updateAttribute(index, 'values', text)}
+                  />
+                </View>
+                {attributes.length > 1 && (
+                  <TouchableOpacity
+                    style={styles.iconButton}
+                    onPress={() => setAttributes(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Feather name="trash-2" size={18} color="#ef4444" />
+                  </TouchableOpacity>
+                )}
+              </View>
+            ))}
+            <View style={styles.buttonRow}>
+              {attributes.length < MAX_ATTRIBUTES && (
+                <TouchableOpacity
+                  style={styles.secondaryButton}
+                  onPress={() => setAttributes(prev => [...prev, { name: '', values: '' }])}
+                >
+                  <Feather name="plus" size={16} color="#6d28d9" />
+                  <Text style={styles.secondaryButtonText}>{t('variants.addAttribute')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleGenerate}>
+                <Feather name="layers" size={16} color="#6d28d9" />
+                <Text style={styles.secondaryButtonText}>{t('variants.generate')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+
+          <Text style={styles.listTitle}>{t('variants.variantCount', { count: variants.length })}</Text>
+          {variants.length === 0 ? (
+            <Text style={styles.emptyText}>{t('variants.noVariantsHint')}</Text>
+          ) : (
+            variants.map(variant => (
+              <View key={variant.key} style={styles.card}>
+                <View style={styles.variantHeader}>
+                  <Text style={styles.variantLabel}>{variantLabel(variant.attributes, order)}</Text>
+                  <Text style={styles.variantStock}>{t('variants.inStock', { count: variant.stock })}</Text>
+                  {variant._id && (
+                    <TouchableOpacity
+                      style={styles.iconButton}
+                      onPress={() => router.push({ pathname: '/products/[id]', params: { id: variant._id as string } })}
+                    >
+                      <Feather name="activity" size={18} color="#6d28d9" />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.iconButton} onPress={() => handleRemove(variant)}>
+                    <Feather name="trash-2" size={18} color="#ef4444" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.skuRow}>
+                  <TextInput
+                    style={[styles.input, { flex: 1 }]}
+                    placeholder={t('variants.skuPlaceholder')}
+                    placeholderTextColor="#94a3b8"
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    value={variant.barcode}
+                    onChangeText={text => updateVariant(variant.key, 'barcode', text)}
+                  />
+                  <TouchableOpacity style={styles.scanButton} onPress={() => setScanningKey(variant.key)}>
+                    <MaterialIcons name="qr-code-scanner" size={22} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+                <View style={styles.priceRow}>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.inputLabel}>{t('variants.buyingPrice')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0.00"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={variant.buyingPrice}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) updateVariant(variant.key, 'buyingPrice', text);
+                      }}
+                    />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={styles.inputLabel}>{t('variants.sellingPrice')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0.00"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={variant.sellingPrice}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) updateVariant(variant.key, 'sellingPrice', text);
+                      }}
+                    />
+                  </View>
+                </View>
+              </View>
+            ))
+          )}
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} disabled={saving} activeOpacity={0.9}>
+            {saving ? (
+              <ActivityIndicator size="small" color="#fff" />
+            ) : (
+              <Feather name="check-circle" size={20} color="#fff" />
+            )}
+            <Text style={styles.saveButtonText}>{t('variants.save')}</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      )}
+
+      <BarcodeScannerModal
+        visible={scanningKey !== null}
+        onScanned={code => {
+          if (scanningKey) updateVariant(scanningKey, 'barcode', code);
+          setScanningKey(null);
+        }}
+        onClose={() => setScanningKey(null)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  productCard: {
+    backgroundColor: '#f5f3ff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+  },
+  productName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  productMeta: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 12,
+  },
+  attributeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingBottom: 12,
+    marginBottom: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 6,
+  },
+  iconButton: {
+    padding: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 14,
+    paddingVertical: 10,
+    borderRadius: 12,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  secondaryButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  listTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginVertical: 12,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    marginVertical: 20,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  variantLabel: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  variantStock: {
+    fontSize: 13,
+    color: '#64748b',
+    marginRight: 4,
+  },
+  skuRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 10,
+  },
+  scanButton: {
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 12,
+  },
+  priceRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,438 @@
+import { Feather } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import PendingSyncList from '../components/PendingSyncList';
+import useNetworkStatus from '../hooks/useNetworkStatus';
+import purchaseService, { GoodsReceipt, PurchaseOrder, PurchaseOrderStatus } from '../services/purchaseService';
+
+type PurchaseTab = 'orders' | 'receipts';
+
+const refName = (ref: { name: string } | string | undefined) => (ref && typeof ref !== 'string' ? ref.name : '');
+
+const statusColors: Record<PurchaseOrderStatus, { bg: string; text: string }> = {
+  ordered: { bg: '#eff6ff', text: '#2563eb' },
+  partially_received: { bg: '#fffbeb', text: '#d97706' },
+  received: { bg: '#ecfdf5', text: '#059669' },
+  cancelled: { bg: '#f1f5f9', text: '#64748b' },
+};
+
+export default function PurchasesPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isConnected } = useNetworkStatus();
+
+  const [tab, setTab] = useState<PurchaseTab>('orders');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Avoid concurrent fetches
+  const isFetchingRef = useRef(false);
+
+  // Served from the local cache when offline
+  const fetchPurchases = useCallback(async (force = false) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+    setError(null);
+    try {
+      setLoading(true);
+      const [orderData, receiptData] = await Promise.all([
+        purchaseService.getPurchaseOrders(undefined, { force, onUpdate: data => setOrders(data?.orders ?? []) }),
+        purchaseService.getGoodsReceipts(undefined, { force, onUpdate: data => setReceipts(data?.receipts ?? []) }),
+      ]);
+      setOrders(Array.isArray(orderData?.orders) ? orderData.orders : []);
+      setReceipts(Array.isArray(receiptData?.receipts) ? receiptData.receipts : []);
+    } catch {
+      setError(t('purchases.errorLoading'));
+    } finally {
+      setLoading(false);
+      isFetchingRef.current = false;
+    }
+  }, [t]);
+
+  // Refetch on reconnect to replace cached data
+  useEffect(() => {
+    fetchPurchases();
+  }, [fetchPurchases, isConnected]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchPurchases(true);
+    setRefreshing(false);
+  };
+
+  const renderOrder = ({ item }: { item: PurchaseOrder }) => {
+    const colors = statusColors[item.status] ?? statusColors.ordered;
+    return (
+      <TouchableOpacity
+        style={styles.card}
+        activeOpacity={0.8}
+        onPress={() => router.push({ pathname: '/purchases/[id]', params: { id: item._id } })}
+      >
+        <View style={styles.cardHeader}>
+          <Feather name="file-text" size={20} color="#6d28d9" style={styles.cardIcon} />
+          <Text style={styles.number}>{item.orderNumber}</Text>
+          <View style={[styles.statusBadge, { backgroundColor: colors.bg }]}>
+            <Text style={[styles.statusText, { color: colors.text }]}>{t(`purchases.status_${item.status}`)}</Text>
+          </View>
+        </View>
+        <View style={styles.detailRow}>
+          <Feather name="truck" size={14} color="#64748b" />
+          <Text style={styles.detail}>{refName(item.supplier)}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Feather name="archive" size={14} color="#64748b" />
+          <Text style={styles.detail}>{refName(item.warehouse)}</Text>
+        </View>
+        <View style={styles.cardFooter}>
+          <Text style={styles.date}>{new Date(item.date).toLocaleDateString()}</Text>
+          <Text style={styles.amount}>ETB {(item.totalAmount ?? 0).toFixed(2)}</Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderReceipt = ({ item }: { item: GoodsReceipt }) => {
+    const unpaid = (item.totalAmount ?? 0) - (item.amountPaid ?? 0);
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Feather name="download" size={20} color="#6d28d9" style={styles.cardIcon} />
+          <Text style={styles.number}>{item.grnNumber}</Text>
+          {!!item.purchaseOrder && typeof item.purchaseOrder !== 'string' && (
+            <Text style={styles.orderRef}>{item.purchaseOrder.orderNumber}</Text>
+          )}
+        </View>
+        <View style={styles.detailRow}>
+          <Feather name="truck" size={14} color="#64748b" />
+          <Text style={styles.detail}>{refName(item.supplier)}</Text>
+        </View>
+        <View style={styles.detailRow}>
+          <Feather name="archive" size={14} color="#64748b" />
+          <Text style={styles.detail}>
+            {refName(item.warehouse)} · {t('purchases.itemCount', { count: item.items?.length ?? 0 })}
+          </Text>
+        </View>
+        <View style={styles.cardFooter}>
+          <Text style={styles.date}>{new Date(item.date).toLocaleDateString()}</Text>
+          <View style={{ alignItems: 'flex-end' }}>
+            <Text style={styles.amount}>ETB {(item.totalAmount ?? 0).toFixed(2)}</Text>
+            {unpaid > 0 && (
+              <Text style={styles.unpaid}>
+                {t('purchases.unpaid')}: ETB {unpaid.toFixed(2)}
+              </Text>
+            )}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const isOrders = tab === 'orders';
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {isConnected === false && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t('common.offlineMessage')}</Text>
+          </View>
+        )}
+
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/more')} activeOpacity={0.7}>
+            <Feather name="arrow-left" size={24} color="#1e293b" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('purchases.title')}</Text>
+          <TouchableOpacity
+            style={styles.backButton}
+            onPress={() => router.push('/purchases/reorder')}
+            activeOpacity={0.7}
+            accessibilityLabel={t('reorder.title')}
+          >
+            <Feather name="trending-down" size={24} color="#6d28d9" />
+          </TouchableOpacity>
+        </View>
+
+        {/* Orders / goods received */}
+        <View style={styles.segment}>
+          {(['orders', 'receipts'] as PurchaseTab[]).map(option => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.segmentOption, tab === option && styles.segmentSelected]}
+              onPress={() => setTab(option)}
+            >
+              <Text style={[styles.segmentText, tab === option && styles.segmentTextSelected]}>
+                {t(`purchases.${option}`)}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6d28d9" />
+            <Text style={styles.loadingText}>{t('purchases.loading')}</Text>
+          </View>
+        ) : isOrders ? (
+          <FlatList
+            data={orders}
+            keyExtractor={item => item._id}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Feather name="file-text" size={48} color="#e2e8f0" />
+                <Text style={styles.emptyText}>{t('purchases.noOrders')}</Text>
+              </View>
+            }
+            renderItem={renderOrder}
+          />
+        ) : (
+          <FlatList
+            data={receipts}
+            keyExtractor={item => item._id}
+            contentContainerStyle={styles.listContent}
+            ListHeaderComponent={<PendingSyncList kind="goodsReceipt" />}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Feather name="download" size={48} color="#e2e8f0" />
+                <Text style={styles.emptyText}>{t('purchases.noReceipts')}</Text>
+              </View>
+            }
+            renderItem={renderReceipt}
+          />
+        )}
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => router.push(isOrders ? '/purchases/add' : '/purchases/receive')}
+          activeOpacity={0.8}
+          accessibilityLabel={isOrders ? t('purchases.newOrder') : t('purchases.receiveTitle')}
+        >
+          <Feather name={isOrders ? 'plus' : 'download'} size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    paddingTop: Platform.OS === 'android' ? 25 : 0,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  offlineBanner: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginVertical: 6,
+    borderRadius: 4,
+  },
+  offlineText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1e293b',
+    textAlign: 'center',
+    flex: 1,
+  },
+  segment: {
+    flexDirection: 'row',
+    backgroundColor: '#f1f5f9',
+    borderRadius: 12,
+    padding: 4,
+    marginBottom: 16,
+  },
+  segmentOption: {
+    flex: 1,
+    paddingVertical: 10,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  segmentSelected: {
+    backgroundColor: '#fff',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 4,
+    elevation: 1,
+  },
+  segmentText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#64748b',
+  },
+  segmentTextSelected: {
+    color: '#6d28d9',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#64748b',
+    fontSize: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardIcon: {
+    marginRight: 12,
+  },
+  number: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    flex: 1,
+  },
+  orderRef: {
+    fontSize: 13,
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#64748b',
+    marginLeft: 8,
+    flex: 1,
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  date: {
+    fontSize: 13,
+    color: '#94a3b8',
+  },
+  amount: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  unpaid: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 2,
+  },
+  addButton: {
+    position: 'absolute',
+    bottom: 30,
+    right: 20,
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#6d28d9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#6d28d9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+  },
+});
@@ -0,0 +1,388 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import purchaseService, { GoodsReceipt, PurchaseOrder } from '@/services/purchaseService';
+import { RootState } from '../store';
+
+const refName = (ref: { name: string } | string | undefined) => (ref && typeof ref !== 'string' ? ref.name : '');
+
+// Purchase order: ordered vs received per line and the deliveries booked against it
+export default function PurchaseOrderScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
+  const isAdmin = userRole === 'admin' || userRole === 'superadmin';
+
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [receipts, setReceipts] = useState<GoodsReceipt[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrder = useCallback(async (force = false) => {
+    setError(null);
+    try {
+      const [orderData, receiptData] = await Promise.all([
+        purchaseService.getPurchaseOrderById(id),
+        purchaseService.getGoodsReceipts({ purchaseOrder: id }, { force }),
+      ]);
+      setOrder(orderData);
+      setReceipts(Array.isArray(receiptData?.receipts) ? receiptData.receipts : []);
+    } catch {
+      setError(t('purchases.orderLoadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchOrder();
+  }, [id, fetchOrder]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchOrder(true);
+    setRefreshing(false);
+  };
+
+  const handleCancel = () => {
+    if (!order) return;
+    Alert.alert(t('purchases.cancelOrderTitle'), t('purchases.cancelOrderMessage', { number: order.orderNumber }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('purchases.cancelOrder'),
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await purchaseService.cancelPurchaseOrder(order._id);
+            await fetchOrder(true);
+          } catch {
+            Alert.alert(t('purchases.errorTitle'), t('purchases.cancelFailed'));
+          }
+        },
+      },
+    ]);
+  };
+
+  const isOpen = order?.status === 'ordered' || order?.status === 'partially_received';
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/purchases')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{order?.orderNumber ?? t('purchases.orderTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6d28d9" />
+        </View>
+      ) : error || !order ? (
+        <View style={styles.loadingContainer}>
+          <Text style={styles.errorText}>{error ?? t('purchases.orderLoadFailed')}</Text>
+        </View>
+      ) : (
+        <ScrollView
+          contentContainerStyle={styles.scrollContainer}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+        >
+          <View style={styles.card}>
+            <View style={styles.infoRow}>
+              <Feather name="truck" size={16} color="#64748b" />
+              <Text style={styles.infoText}>{refName(order.supplier)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Feather name="archive" size={16} color="#64748b" />
+              <Text style={styles.infoText}>{refName(order.warehouse)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Feather name="calendar" size={16} color="#64748b" />
+              <Text style={styles.infoText}>{new Date(order.date).toLocaleDateString()}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Feather name="info" size={16} color="#64748b" />
+              <Text style={styles.infoText}>{t(`purchases.status_${order.status}`)}</Text>
+            </View>
+            {!!order.note && <Text style={styles.note}>{order.note}</Text>}
+          </View>
+
+          <Text style={styles.sectionTitle}>{t('sale.items')}</Text>
+          <View style={styles.card}>
+            {order.items.map((item, index) => {
+              const received = item.receivedQuantity || 0;
+              const progress = item.quantity > 0 ? Math.min(received / item.quantity, 1) : 0;
+              return (
+                <View key={item.product?._id ?? index} style={[styles.line, index > 0 && styles.lineBorder]}>
+                  <View style={styles.lineHeader}>
+                    <Text style={styles.productName} numberOfLines={1}>
+                      {item.product?.name ?? ''} {item.product?.brand ?? ''}
+                    </Text>
+                    <Text style={styles.lineTotal}>ETB {(item.quantity * item.buyingPrice).toFixed(2)}</Text>
+                  </View>
+                  <Text style={styles.lineDetail}>
+                    {t('purchases.receivedOfOrdered', {
+                      received,
+                      ordered: `${item.quantity} ${item.unit ?? item.product?.unit ?? ''}`.trim(),
+                    })}{' '}
+                    × ETB{' '}
+                    {item.buyingPrice.toFixed(2)}
+                  </Text>
+                  <View style={styles.progressTrack}>
+                    <View style={[styles.progressFill, { width: `${progress * 100}%` }]} />
+                  </View>
+                </View>
+              );
+            })}
+            <View style={styles.totalRow}>
+              <Text style={styles.totalLabel}>{t('sales.total')}</Text>
+              <Text style={styles.totalValue}>ETB {(order.totalAmount ?? 0).toFixed(2)}</Text>
+            </View>
+          </View>
+
+          {isAdmin && isOpen && (
+            <View style={styles.actions}>
+              <TouchableOpacity
+                style={styles.primaryButton}
+                onPress={() => router.push({ pathname: '/purchases/receive', params: { orderId: order._id } })}
+              >
+                <Feather name="download" size={18} color="#fff" />
+                <Text style={styles.primaryButtonText}>{t('purchases.receiveGoods')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.secondaryButton} onPress={handleCancel}>
+                <Feather name="x-circle" size={18} color="#ef4444" />
+                <Text style={styles.secondaryButtonText}>{t('purchases.cancelOrder')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+
+          <Text style={styles.sectionTitle}>{t('purchases.receipts')}</Text>
+          {receipts.length === 0 ? (
+            <Text style={styles.emptyText}>{t('purchases.noReceipts')}</Text>
+          ) : (
+            receipts.map(receipt => (
+              <View key={receipt._id} style={styles.receipt}>
+                <View style={{ flex: 1 }}>
+                  <Text style={styles.receiptNumber}>{receipt.grnNumber}</Text>
+                  <Text style={styles.lineDetail}>
+                    {new Date(receipt.date).toLocaleDateString()}
+                    {receipt.receivedBy?.name ? ` · ${receipt.receivedBy.name}` : ''}
+                  </Text>
+                </View>
+                <Text style={styles.lineTotal}>ETB {(receipt.totalAmount ?? 0).toFixed(2)}</Text>
+              </View>
+            ))
+          )}
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  infoText: {
+    fontSize: 15,
+    color: '#334155',
+    marginLeft: 10,
+  },
+  note: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 6,
+    fontStyle: 'italic',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  line: {
+    paddingVertical: 10,
+  },
+  lineBorder: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  lineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  productName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+    marginRight: 8,
+  },
+  lineDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  lineTotal: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f1f5f9',
+    marginTop: 8,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#10b981',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingTop: 10,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 20,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 14,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  secondaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+  },
+  secondaryButtonText: {
+    color: '#ef4444',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  receipt: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    marginBottom: 8,
+  },
+  receiptNumber: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+});
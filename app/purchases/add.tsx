@@ -0,0 +1,83 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, Platform, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import PurchaseForm, { PurchaseFormValues } from '@/components/PurchaseForm';
+import purchaseService from '@/services/purchaseService';
+
+export default function AddPurchaseOrderScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const handleSubmit = async (values: PurchaseFormValues) => {
+    try {
+      await purchaseService.createPurchaseOrder({
+        supplier: values.supplier,
+        warehouse: values.warehouse,
+        items: values.lines.map(line => ({
+          product: line.product._id,
+          quantity: line.quantity,
+          buyingPrice: line.buyingPrice,
+          unit: line.unit,
+          unitFactor: line.unitFactor,
+        })),
+        date: new Date().toISOString(),
+        note: values.note || undefined,
+      });
+      Alert.alert(t('purchases.successTitle'), t('purchases.orderCreated'));
+      router.replace('/purchases');
+    } catch {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.orderFailed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/purchases')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('purchases.newOrder')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        <PurchaseForm mode="order" submitLabel={t('purchases.createOrder')} onSubmit={handleSubmit} />
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+});
@@ -0,0 +1,184 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import PurchaseForm, { PurchaseFormValues } from '@/components/PurchaseForm';
+import outboxService from '@/services/outboxService';
+import purchaseService, { PurchaseOrder, remainingToReceive } from '@/services/purchaseService';
+
+const refId = (ref: { _id: string } | string) => (typeof ref === 'string' ? ref : ref._id);
+
+// Goods-received note; with an orderId it receives what is still outstanding on that order
+export default function ReceiveGoodsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const orderId = Array.isArray(params.orderId) ? params.orderId[0] : (params.orderId as string) ?? '';
+
+  const [order, setOrder] = useState<PurchaseOrder | null>(null);
+  const [initialValues, setInitialValues] = useState<Partial<PurchaseFormValues> | undefined>(undefined);
+  const [loading, setLoading] = useState<boolean>(!!orderId);
+
+  useEffect(() => {
+    if (!orderId) return;
+    const loadOrder = async () => {
+      try {
+        const data = await purchaseService.getPurchaseOrderById(orderId);
+        setOrder(data);
+        setInitialValues({
+          supplier: refId(data.supplier),
+          warehouse: refId(data.warehouse),
+          lines: remainingToReceive(data).map(item => ({
+            key: `${item.product?._id ?? item.product}-${orderId}`,
+            product: item.product,
+            quantity: item.remaining,
+            buyingPrice: item.buyingPrice,
+            unit: item.unit,
+            unitFactor: item.unitFactor,
+          })),
+        });
+      } catch {
+        Alert.alert(t('purchases.errorTitle'), t('purchases.orderLoadFailed'));
+        router.back();
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadOrder();
+  }, [orderId, router, t]);
+
+  const handleBack = () => {
+    if (orderId) router.replace({ pathname: '/purchases/[id]', params: { id: orderId } });
+    else router.replace('/purchases');
+  };
+
+  const handleSubmit = async (values: PurchaseFormValues) => {
+    try {
+      const result = await purchaseService.receiveGoods({
+        purchaseOrder: order?._id,
+        supplier: values.supplier,
+        warehouse: values.warehouse,
+        items: values.lines.map(line => ({
+          product: line.product._id,
+          quantity: line.quantity,
+          buyingPrice: line.buyingPrice,
+          unit: line.unit,
+          unitFactor: line.unitFactor,
+          batchNumber: line.batchNumber,
+          expiryDate: line.expiryDate,
+        })),
+        date: new Date().toISOString(),
+        amountPaid: values.amountPaid,
+        paymentChannel: values.amountPaid > 0 ? values.paymentChannel : undefined,
+        note: values.note || undefined,
+      });
+
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+      } else {
+        Alert.alert(t('purchases.successTitle'), t('purchases.goodsReceived'));
+      }
+      handleBack();
+    } catch {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.receiveFailed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={handleBack}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('purchases.receiveTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6d28d9" />
+        </View>
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          {order && (
+            <View style={styles.orderBanner}>
+              <Feather name="file-text" size={18} color="#6d28d9" />
+              <Text style={styles.orderBannerText}>
+                {t('purchases.receivingAgainst', { number: order.orderNumber })}
+              </Text>
+            </View>
+          )}
+          <PurchaseForm
+            mode="receipt"
+            initialValues={initialValues}
+            lockParties={!!order}
+            submitLabel={t('purchases.confirmReceipt')}
+            onSubmit={handleSubmit}
+          />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  orderBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#f5f3ff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 16,
+  },
+  orderBannerText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+});
@@ -0,0 +1,468 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Dropdown } from 'react-native-element-dropdown';
+
+import dashboardService from '@/services/dashboardService';
+import productService from '@/services/productService';
+import reorderService, { buildReorderSuggestions, ReorderSuggestion, SalesVelocity } from '@/services/reorderService';
+import supplierService, { Supplier } from '@/services/supplierService';
+import warehouseService from '@/services/warehouseService';
+
+const WINDOWS = [30, 60, 90];
+
+// What to buy from current stock, recent sales and lead time; quantities can be adjusted before exporting
+export default function ReorderSuggestionsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+
+  const [warehouses, setWarehouses] = useState<{ _id: string; name: string }[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [warehouseId, setWarehouseId] = useState<string>('');
+  const [supplierId, setSupplierId] = useState<string>('');
+  const [days, setDays] = useState<number>(30);
+  const [leadTime, setLeadTime] = useState<string>('7');
+  const [products, setProducts] = useState<any[]>([]);
+  const [velocity, setVelocity] = useState<SalesVelocity[]>([]);
+  const [threshold, setThreshold] = useState<number>(5);
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [exporting, setExporting] = useState<'pdf' | 'excel' | null>(null);
+
+  useEffect(() => {
+    const loadPickers = async () => {
+      try {
+        const [whs, sups] = await Promise.all([warehouseService.getAllWarehouses(), supplierService.getAllSuppliers()]);
+        setWarehouses(Array.isArray(whs) ? whs : []);
+        setSuppliers(Array.isArray(sups) ? sups : []);
+      } catch {
+        // Pickers stay empty; suggestions still cover all warehouses
+      }
+    };
+    loadPickers();
+  }, []);
+
+  const loadData = useCallback(async (force = false) => {
+    try {
+      const [list, sold, settings] = await Promise.all([
+        productService.getProductList(undefined, { force }),
+        reorderService.getSalesVelocity(days, undefined, { force }),
+        dashboardService.getThreshold(),
+      ]);
+      setProducts(Array.isArray(list) ? list : []);
+      setVelocity(Array.isArray(sold) ? sold : []);
+      setThreshold(settings?.threshold || 5);
+    } catch {
+      Alert.alert(t('purchases.errorTitle'), t('reorder.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [days, t]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await loadData(true);
+    setRefreshing(false);
+  };
+
+  const suggestions = useMemo(
+    () =>
+      buildReorderSuggestions(products, velocity, {
+        days,
+        leadTimeDays: Number(leadTime) || 0,
+        threshold,
+        warehouseId: warehouseId || undefined,
+      }),
+    [products, velocity, days, leadTime, threshold, warehouseId]
+  );
+
+  // Suggested quantities with the user's edits; lines set to 0 are left off the export
+  const toOrder = useMemo(
+    () =>
+      suggestions
+        .map(s => (quantities[s.key] !== undefined ? { ...s, suggestedQuantity: Number(quantities[s.key]) || 0 } : s))
+        .filter(s => s.suggestedQuantity > 0),
+    [suggestions, quantities]
+  );
+
+  const handleExport = async (format: 'pdf' | 'excel') => {
+    if (toOrder.length === 0) {
+      Alert.alert(t('purchases.errorTitle'), t('reorder.nothingToExport'));
+      return;
+    }
+    setExporting(format);
+    try {
+      const meta = {
+        supplierName: suppliers.find(s => s._id === supplierId)?.name,
+        warehouseName: warehouses.find(w => w._id === warehouseId)?.name,
+      };
+      if (format === 'pdf') await reorderService.shareSuggestionsPdf(toOrder, meta);
+      else await reorderService.shareSuggestionsExcel(toOrder, meta);
+    } catch {
+      Alert.alert(t('purchases.errorTitle'), t('reorder.exportFailed'));
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const renderSuggestion = ({ item }: { item: ReorderSuggestion }) => (
+    <View style={styles.card}>
+      <View style={styles.cardHeader}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.productName} numberOfLines={1}>
+            {item.product.name} {item.product.brand ?? ''}
+          </Text>
+          <Text style={styles.detail}>{item.warehouse.name}</Text>
+        </View>
+        <View style={styles.quantityBox}>
+          <TextInput
+            style={styles.quantityInput}
+            keyboardType="numeric"
+            value={quantities[item.key] ?? String(item.suggestedQuantity)}
+            onChangeText={text => {
+              if (/^\d*\.?\d{0,2}$/.test(text)) setQuantities(prev => ({ ...prev, [item.key]: text }));
+            }}
+          />
+          <Text style={styles.unit}>{item.product.unit ?? ''}</Text>
+        </View>
+      </View>
+      <Text style={styles.detail}>
+        {t('reorder.stockLine', { stock: item.stock, min: item.minQuantity, point: item.reorderPoint })}
+      </Text>
+      <Text style={styles.detail}>
+        {t('reorder.salesLine', { rate: item.dailySales.toFixed(2), lead: item.leadTimeDays })}
+      </Text>
+      <Text style={[styles.cover, item.daysOfCover !== null && item.daysOfCover < item.leadTimeDays && styles.coverUrgent]}>
+        {item.daysOfCover === null
+          ? t('reorder.noRecentSales')
+          : t('reorder.daysOfCover', { count: Math.floor(item.daysOfCover) })}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('reorder.title')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#6d28d9" />
+        </View>
+      ) : (
+        <FlatList
+          data={suggestions}
+          keyExtractor={item => item.key}
+          renderItem={renderSuggestion}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+          ListHeaderComponent={
+            <View>
+              <View style={styles.row}>
+                <Dropdown
+                  style={[styles.dropdown, { flex: 1 }]}
+                  placeholderStyle={styles.placeholderStyle}
+                  selectedTextStyle={styles.selectedTextStyle}
+                  data={[{ label: t('reorder.allWarehouses'), value: '' }, ...warehouses.map(w => ({ label: w.name, value: w._id }))]}
+                  labelField="label"
+                  valueField="value"
+                  placeholder={t('reorder.allWarehouses')}
+                  value={warehouseId}
+                  onChange={item => setWarehouseId(item.value)}
+                />
+                <Dropdown
+                  style={[styles.dropdown, { flex: 1 }]}
+                  placeholderStyle={styles.placeholderStyle}
+                  selectedTextStyle={styles.selectedTextStyle}
+                  data={suppliers.map(s => ({ label: s.name, value: s._id }))}
+                  search
+                  labelField="label"
+                  valueField="value"
+                  placeholder={t('reorder.supplierOptional')}
+                  searchPlaceholder={t('reorder.search')}
+                  value={supplierId}
+                  onChange={item => setSupplierId(item.value)}
+                />
+              </View>
+
+              <View style={styles.row}>
+                {WINDOWS.map(window => (
+                  <TouchableOpacity
+                    key={window}
+                    style={[styles.chip, days === window && styles.chipSelected]}
+                    onPress={() => setDays(window)}
+                  >
+                    <Text style={[styles.chipText, days === window && styles.chipTextSelected]}>
+                      {t('reorder.salesWindow', { count: window })}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+                <View style={styles.leadTime}>
+                  <Text style={styles.leadTimeLabel}>{t('reorder.leadTime')}</Text>
+                  <TextInput
+                    style={styles.leadTimeInput}
+                    keyboardType="numeric"
+                    value={leadTime}
+                    onChangeText={text => {
+                      if (/^\d{0,3}$/.test(text)) setLeadTime(text);
+                    }}
+                  />
+                </View>
+              </View>
+              <Text style={styles.hint}>{t('reorder.hint')}</Text>
+            </View>
+          }
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="check-circle" size={48} color="#e2e8f0" />
+              <Text style={styles.emptyText}>{t('reorder.nothingToReorder')}</Text>
+            </View>
+          }
+        />
+      )}
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.exportButton, exporting !== null && { opacity: 0.6 }]}
+          onPress={() => handleExport('pdf')}
+          disabled={exporting !== null}
+        >
+          {exporting === 'pdf' ? <ActivityIndicator size="small" color="#fff" /> : <Feather name="file-text" size={18} color="#fff" />}
+          <Text style={styles.exportButtonText}>{t('reorder.exportPdf')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.exportButton, styles.excelButton, exporting !== null && { opacity: 0.6 }]}
+          onPress={() => handleExport('excel')}
+          disabled={exporting !== null}
+        >
+          {exporting === 'excel' ? <ActivityIndicator size="small" color="#fff" /> : <Feather name="grid" size={18} color="#fff" />}
+          <Text style={styles.exportButtonText}>{t('reorder.exportExcel')}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 24,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  dropdown: {
+    height: 48,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  placeholderStyle: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  selectedTextStyle: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  leadTime: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  leadTimeLabel: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  leadTimeInput: {
+    width: 48,
+    height: 36,
+    backgroundColor: '#fff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    textAlign: 'center',
+    color: '#1e293b',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 14,
+    marginBottom: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  detail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  quantityBox: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  quantityInput: {
+    width: 72,
+    height: 40,
+    backgroundColor: '#f5f3ff',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+    textAlign: 'center',
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  unit: {
+    fontSize: 13,
+    color: '#64748b',
+  },
+  cover: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#d97706',
+    marginTop: 4,
+  },
+  coverUrgent: {
+    color: '#ef4444',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 20,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+    textAlign: 'center',
+  },
+  footer: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  exportButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 14,
+  },
+  excelButton: {
+    backgroundColor: '#059669',
+  },
+  exportButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+});
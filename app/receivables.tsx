@@ -0,0 +1,385 @@
+import { Feather } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  FlatList,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import useNetworkStatus from '../hooks/useNetworkStatus';
+import receivableService, {
+  AGING_BUCKETS,
+  AgingBucket,
+  buildAgingReport,
+  CustomerAging,
+  OpenReceivable,
+} from '../services/receivableService';
+
+const BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: '#10b981',
+  days1to30: '#f59e0b',
+  days31to60: '#f97316',
+  days61to90: '#ef4444',
+  over90: '#b91c1c',
+};
+
+// Accounts-receivable aging: open credit grouped by customer and days past due
+export default function ReceivablesPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isConnected } = useNetworkStatus();
+
+  const [sales, setSales] = useState<OpenReceivable[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [bucketFilter, setBucketFilter] = useState<AgingBucket | null>(null);
+
+  const isFetchingRef = useRef(false);
+
+  const fetchReceivables = useCallback(async (force = false) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+    setError(null);
+    try {
+      const data = await receivableService.getOpenReceivables({ force, onUpdate: setSales });
+      setSales(Array.isArray(data) ? data : []);
+    } catch {
+      setError(t('receivables.loadFailed'));
+    } finally {
+      setLoading(false);
+      isFetchingRef.current = false;
+    }
+  }, [t]);
+
+  useEffect(() => {
+    fetchReceivables();
+  }, [fetchReceivables, isConnected]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchReceivables(true);
+    setRefreshing(false);
+  };
+
+  const report = useMemo(() => buildAgingReport(sales), [sales]);
+  const customers = bucketFilter
+    ? report.customers.filter(c => c.buckets[bucketFilter] > 0)
+    : report.customers;
+
+  const renderCustomer = ({ item }: { item: CustomerAging }) => (
+    <TouchableOpacity
+      style={styles.card}
+      activeOpacity={item.customerId ? 0.8 : 1}
+      disabled={!item.customerId}
+      onPress={() => item.customerId && router.push({ pathname: '/customers/[id]', params: { id: item.customerId } })}
+    >
+      <View style={styles.cardHeader}>
+        <Feather name="user" size={18} color="#6d28d9" style={{ marginRight: 10 }} />
+        <Text style={styles.customerName} numberOfLines={1}>{item.customerName}</Text>
+        <Text style={styles.customerTotal}>ETB {item.total.toFixed(2)}</Text>
+      </View>
+      {item.overdue > 0 && (
+        <Text style={styles.overdueText}>
+          {t('receivables.overdueAmount', { amount: item.overdue.toFixed(2) })}
+        </Text>
+      )}
+      <View style={styles.bucketRow}>
+        {AGING_BUCKETS.map(bucket => (
+          <View key={bucket} style={styles.bucketCell}>
+            <Text style={styles.bucketCellLabel}>{t(`receivables.${bucket}`)}</Text>
+            <Text
+              style={[
+                styles.bucketCellValue,
+                item.buckets[bucket] > 0 && { color: BUCKET_COLORS[bucket] },
+              ]}
+            >
+              {item.buckets[bucket] > 0 ? item.buckets[bucket].toFixed(2) : '-'}
+            </Text>
+          </View>
+        ))}
+      </View>
+      <Text style={styles.salesCount}>{t('receivables.openSales', { count: item.sales.length })}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {isConnected === false && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t('common.offlineMessage')}</Text>
+          </View>
+        )}
+
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/more')} activeOpacity={0.7}>
+            <Feather name="arrow-left" size={24} color="#1e293b" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('receivables.title')}</Text>
+          <View style={styles.headerRightPlaceholder} />
+        </View>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6d28d9" />
+          </View>
+        ) : (
+          <FlatList
+            data={customers}
+            keyExtractor={item => item.key}
+            renderItem={renderCustomer}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+            }
+            ListHeaderComponent={
+              <>
+                {error && (
+                  <View style={styles.errorContainer}>
+                    <Text style={styles.errorText}>{error}</Text>
+                  </View>
+                )}
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('receivables.totalOutstanding')}</Text>
+                    <Text style={styles.summaryValue}>ETB {report.total.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('receivables.totalOverdue')}</Text>
+                    <Text style={[styles.summaryValue, report.overdue > 0 && { color: '#ef4444' }]}>
+                      ETB {report.overdue.toFixed(2)}
+                    </Text>
+                  </View>
+                </View>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.bucketChips}>
+                  {AGING_BUCKETS.map(bucket => {
+                    const selected = bucketFilter === bucket;
+                    return (
+                      <TouchableOpacity
+                        key={bucket}
+                        style={[
+                          styles.bucketChip,
+                          { borderColor: BUCKET_COLORS[bucket] },
+                          selected && { backgroundColor: BUCKET_COLORS[bucket] },
+                        ]}
+                        onPress={() => setBucketFilter(selected ? null : bucket)}
+                        activeOpacity={0.8}
+                      >
+                        <Text style={[styles.bucketChipLabel, selected && styles.bucketChipSelected]}>
+                          {t(`receivables.${bucket}`)}
+                        </Text>
+                        <Text
+                          style={[
+                            styles.bucketChipValue,
+                            { color: BUCKET_COLORS[bucket] },
+                            selected && styles.bucketChipSelected,
+                          ]}
+                        >
+                          ETB {report.totals[bucket].toFixed(2)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </ScrollView>
+              </>
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Feather name="check-circle" size={48} color="#e2e8f0" />
+                <Text style={styles.emptyText}>{t('receivables.noReceivables')}</Text>
+              </View>
+            }
+          />
+        )}
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    paddingTop: Platform.OS === 'android' ? 25 : 0,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  offlineBanner: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginVertical: 6,
+    borderRadius: 4,
+  },
+  offlineText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 22,
+    fontWeight: '800',
+    color: '#1e293b',
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerRightPlaceholder: { width: 40 },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    paddingBottom: 40,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 12,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 6,
+    elevation: 2,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  bucketChips: {
+    gap: 8,
+    paddingBottom: 16,
+  },
+  bucketChip: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    backgroundColor: '#fff',
+  },
+  bucketChipLabel: {
+    fontSize: 12,
+    color: '#475569',
+    fontWeight: '600',
+  },
+  bucketChipValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    marginTop: 2,
+  },
+  bucketChipSelected: {
+    color: '#fff',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  customerName: {
+    flex: 1,
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  customerTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  overdueText: {
+    fontSize: 13,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginTop: 4,
+  },
+  bucketRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  bucketCell: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bucketCellLabel: {
+    fontSize: 10,
+    color: '#94a3b8',
+    marginBottom: 2,
+  },
+  bucketCellValue: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#cbd5e1',
+  },
+  salesCount: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 10,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+  },
+});
@@ -1,5 +1,23 @@
-import { fetchMonthlySummary, fetchYearlyTrends, getAvailableYears } from '@/services/reportService';
+import {
+  fetchGrossProfit,
+  fetchMonthlySummary,
+  fetchYearlyTrends,
+  getAvailableYears,
+  GrossProfitGroup,
+  GrossProfitReport,
+  GrossProfitRow,
+  marginPercent
+} from '@/services/reportService';
+import exportService, { askSpreadsheetFormat } from '@/services/exportService';
+import stockValuationService, {
+  CostingMethod,
+  groupValuation,
+  StockValuation,
+  valuationTotal,
+  ValuationGrouping
+} from '@/services/stockValuationService';
 import { Feather, MaterialIcons } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
 import * as FileSystem from 'expo-file-system';
 import * as Print from 'expo-print';
 import { useRouter } from 'expo-router';
@@ -11,6 +29,7 @@ import {
   Alert,
   Dimensions,
   Modal,
+  Platform,
   RefreshControl,
   SafeAreaView,
   ScrollView,
@@ -24,7 +43,8 @@ import { Dropdown } from 'react-native-element-dropdown';
 
 import useNetworkStatus from '../hooks/useNetworkStatus';
 import categoryService from '../services/categoryService';
-import dashboardService from '../services/dashboardService';
+import dashboardService, { ExpiringBatch } from '../services/dashboardService';
+import priceService, { PriceChange, priceOn } from '../services/priceService';
 
 // Constants
 const CHART_CONFIG = {
@@ -55,16 +75,46 @@ interface StockItem {
 }
 
 
+type ExportType =
+  | 'financial'
+  | 'financialSheet'
+  | 'grossProfit'
+  | 'lowStock'
+  | 'outOfStock'
+  | 'expired'
+  | 'valuationPdf'
+  | 'valuationExcel';
+
+const COSTING_METHODS: { key: CostingMethod; label: string }[] = [
+  { key: 'fifo', label: 'valuation.method_fifo' },
+  { key: 'average', label: 'valuation.method_average' },
+];
+
+const VALUATION_GROUPS: { key: ValuationGrouping; label: string }[] = [
+  { key: 'warehouse', label: 'valuation.by_warehouse' },
+  { key: 'category', label: 'valuation.by_category' },
+];
+
+const PROFIT_GROUPS: { key: GrossProfitGroup; label: string }[] = [
+  { key: 'byProduct', label: 'reports.byProduct' },
+  { key: 'byCategory', label: 'reports.byCategory' },
+  { key: 'byWarehouse', label: 'reports.byWarehouse' },
+  { key: 'bySalesperson', label: 'reports.bySalesperson' },
+];
+
 const MONTHS = ['ALL', 'Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
 const SCREEN_WIDTH = Dimensions.get('window').width - 32;
 
+// Income is sales before returns; `returns` is the value of items taken back in the period
 interface Trend {
   income: number;
   expense: number;
+  returns?: number;
 }
 
 interface ReportData {
   income?: number;
+  returns?: number;
   expense?: number;
   lowStockItems?: any[];
   outOfStockItems?: any[];
@@ -143,16 +193,24 @@ export default function ReportsScreen() {
   const [years, setYears] = useState<number[]>([]);
   const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState<number>(0);
-  const [exportType, setExportType] = useState<'financial' | 'lowStock' | 'outOfStock' | null>(null);
+  const [exportType, setExportType] = useState<ExportType | null>(null);
   const [categoryModalVisible, setCategoryModalVisible] = useState(false);
   const [categories, setCategories] = useState<{ label: string; value: string }[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
 
   const [reportData, setReportData] = useState<ReportData | null>(null);
+  const [grossProfit, setGrossProfit] = useState<GrossProfitReport | null>(null);
+  const [profitGroup, setProfitGroup] = useState<GrossProfitGroup>('byProduct');
+  const [valuation, setValuation] = useState<StockValuation | null>(null);
+  const [valuationDate, setValuationDate] = useState<Date>(new Date());
+  const [costingMethod, setCostingMethod] = useState<CostingMethod>('fifo');
+  const [valuationGroup, setValuationGroup] = useState<ValuationGrouping>('warehouse');
+  const [valuationLoading, setValuationLoading] = useState(false);
+  const [showValuationPicker, setShowValuationPicker] = useState(false);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [initialLoad, setInitialLoad] = useState(true);
-  const [yearlyTotals, setYearlyTotals] = useState({ income: 0, expense: 0, profit: 0 });
+  const [yearlyTotals, setYearlyTotals] = useState({ income: 0, returns: 0, expense: 0, profit: 0 });
   const [, setError] = useState<string | null>(null);
   const [offlineErrorShown, setOfflineErrorShown] = useState(false);
 
@@ -182,12 +240,14 @@ export default function ReportsScreen() {
         const trendData = await fetchYearlyTrends(selectedYear);
 // In the loadReport function, update the reduce calls:
         const yearlyIncome = trendData.reduce((sum: number, month: Trend) => sum + month.income, 0);
+        const yearlyReturns = trendData.reduce((sum: number, month: Trend) => sum + (month.returns ?? 0), 0);
         const yearlyExpense = trendData.reduce((sum: number, month: Trend) => sum + month.expense, 0);
 
         setYearlyTotals({
           income: yearlyIncome,
+          returns: yearlyReturns,
           expense: yearlyExpense,
-          profit: yearlyIncome - yearlyExpense
+          profit: yearlyIncome - yearlyReturns - yearlyExpense
         });
 
         setReportData({ monthlyTrends: trendData });
@@ -200,6 +260,8 @@ export default function ReportsScreen() {
           monthlyTrends: trendData
         });
       }
+
+      setGrossProfit(await fetchGrossProfit(selectedYear, selectedMonth === 0 ? undefined : selectedMonth - 1));
     } catch {
       setError(t('reports.errorLoading'));
     } finally {
@@ -243,14 +305,34 @@ export default function ReportsScreen() {
     }
   }, [initialLoad, loadReport]);
 
+  // Valuation has its own date, independent of the year/month above
+  const loadValuation = useCallback(async () => {
+    if (!isConnected) return;
+    setValuationLoading(true);
+    try {
+      setValuation(await stockValuationService.getStockValuation(valuationDate, costingMethod));
+    } catch {
+      setValuation(null);
+      setError(t('valuation.loadFailed'));
+    } finally {
+      setValuationLoading(false);
+    }
+  }, [valuationDate, costingMethod, isConnected, t]);
+
+  useEffect(() => {
+    loadValuation();
+  }, [loadValuation]);
+
   const onRefresh = () => {
     setRefreshing(true);
     loadReport();
+    loadValuation();
   };
 
   const isLoading = loading || (!reportData && initialLoad);
 
-  const income = selectedMonth === 0 ? yearlyTotals.income : reportData?.income || 0;
+  const returns = selectedMonth === 0 ? yearlyTotals.returns : reportData?.returns || 0;
+  const income = (selectedMonth === 0 ? yearlyTotals.income : reportData?.income || 0) - returns;
   const expense = selectedMonth === 0 ? yearlyTotals.expense : reportData?.expense || 0;
   const profit = income - expense;
   const profitPercentage = useMemo(() => 
@@ -258,6 +340,25 @@ export default function ReportsScreen() {
     [income, profit]
   );
 
+  // Gross profit comes from the cost captured on each sale line, net of returns
+  const revenue = grossProfit?.totals.revenue ?? 0;
+  const cogs = grossProfit?.totals.cost ?? 0;
+  const grossProfitValue = revenue - cogs;
+  const grossMargin = marginPercent(revenue, cogs).toFixed(1);
+  const profitRows = useMemo(
+    () =>
+      [...(grossProfit?.[profitGroup] ?? [])].sort(
+        (a, b) => (b.revenue - b.cost) - (a.revenue - a.cost)
+      ),
+    [grossProfit, profitGroup]
+  );
+
+  const stockValue = valuationTotal(valuation?.rows ?? []);
+  const valuationRows = useMemo(
+    () => groupValuation(valuation?.rows ?? [], valuationGroup),
+    [valuation, valuationGroup]
+  );
+
 const generateFinancialReportHTML = () => `
     <html>
       <head>
@@ -273,6 +374,8 @@ const generateFinancialReportHTML = () => `
           .income { background: linear-gradient(135deg, #16a34a, #22c55e); }
           .expenses { background: linear-gradient(135deg, #dc2626, #ef4444); }
           .profit { background: linear-gradient(135deg, #4f46e5, #6366f1); }
+          .cogs { background: linear-gradient(135deg, #d97706, #f59e0b); }
+          .gross { background: linear-gradient(135deg, #0d9488, #14b8a6); }
           .card h3 { margin: 0 0 8px; font-size: 16px; }
           .card p { font-size: 18px; font-weight: bold; margin: 0; }
           .footer { text-align: center; margin-top: 40px; font-size: 12px; color: #94a3b8; }
@@ -290,6 +393,7 @@ const generateFinancialReportHTML = () => `
           <div class="card income">
             <h3>${t('reports.income')}</h3>
             <p>ETB ${income.toLocaleString()}</p>
+            ${returns > 0 ? `<small>${t('reports.afterReturns', { amount: returns.toLocaleString() })}</small>` : ''}
           </div>
           <div class="card expenses">
             <h3>${t('reports.expenses')}</h3>
@@ -300,11 +404,96 @@ const generateFinancialReportHTML = () => `
             <p>ETB ${profit.toLocaleString()} (${profitPercentage}%)</p>
           </div>
         </div>
+        <div class="cards">
+          <div class="card cogs">
+            <h3>${t('reports.cogs')}</h3>
+            <p>ETB ${cogs.toLocaleString()}</p>
+          </div>
+          <div class="card gross">
+            <h3>${t('reports.grossProfit')}</h3>
+            <p>ETB ${grossProfitValue.toLocaleString()} (${grossMargin}%)</p>
+          </div>
+        </div>
         <div class="footer">Generated by Ease Stock</div>
       </body>
     </html>
   `;
 
+  // Revenue, cost and margin for each grouping the on-screen report offers
+  const generateGrossProfitReportHTML = (report: GrossProfitReport | null) => {
+    const table = (rows: GrossProfitRow[]) => `
+      <table>
+        <thead>
+          <tr>
+            <th>${t('common.name')}</th>
+            <th class="num">${t('common.quantity')}</th>
+            <th class="num">${t('reports.revenue')}</th>
+            <th class="num">${t('reports.cogs')}</th>
+            <th class="num">${t('reports.grossProfit')}</th>
+            <th class="num">${t('reports.margin')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${rows.map(row => `
+            <tr>
+              <td>${row.name || '-'}</td>
+              <td class="num">${row.quantity.toLocaleString()}</td>
+              <td class="num">ETB ${row.revenue.toLocaleString()}</td>
+              <td class="num">ETB ${row.cost.toLocaleString()}</td>
+              <td class="num">ETB ${(row.revenue - row.cost).toLocaleString()}</td>
+              <td class="num">${marginPercent(row.revenue, row.cost).toFixed(1)}%</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `;
+
+    return `
+      <html>
+        <head>
+          <link href="https://fonts.googleapis.com/css2?family=Poppins:wght@600;700&display=swap" rel="stylesheet">
+          <style>
+            body { font-family: Arial, sans-serif; padding: 20px; color: #1e293b; }
+            .brand { font-family: 'Poppins', sans-serif; font-size: 22px; font-weight: 700; color: #0d9488; }
+            .header { display: flex; justify-content: space-between; align-items: center; }
+            h1 { color: #0d9488; margin-bottom: 4px; }
+            .date { font-size: 12px; color: #64748b; }
+            .summary { margin-top: 16px; font-size: 14px; }
+            table { width: 100%; border-collapse: collapse; margin-top: 12px; font-size: 12px; }
+            th, td { padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+            th { background-color: #f1f5f9; }
+            .num { text-align: right; }
+            .category-title { background-color: #e2e8f0; padding: 8px; font-weight: bold; margin-top: 20px; }
+            .footer { text-align: center; margin-top: 40px; font-size: 12px; color: #94a3b8; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <div>
+              <h1>${t('reports.grossProfitReport')}</h1>
+              <div class="date">${selectedMonth === 0 ? selectedYear : `${MONTHS[selectedMonth]} ${selectedYear}`}</div>
+            </div>
+            <div class="brand">Ease Stock</div>
+          </div>
+          <div class="summary">
+            ${t('reports.revenue')}: <b>ETB ${revenue.toLocaleString()}</b> ·
+            ${t('reports.cogs')}: <b>ETB ${cogs.toLocaleString()}</b> ·
+            ${t('reports.grossProfit')}: <b>ETB ${grossProfitValue.toLocaleString()}</b> (${grossMargin}%)
+          </div>
+          ${
+            report && report.byProduct.length > 0
+              ? PROFIT_GROUPS.map(group => `
+                  <div class="category-title">${t(group.label)}</div>
+                  ${table(report[group.key])}
+                `).join('')
+              : `<p style="text-align:center; margin-top:40px;">${t('reports.noProfitData')}</p>`
+          }
+          <div class="footer">Generated by Ease Stock</div>
+        </body>
+      </html>
+    `;
+  };
+
   const generateStockReportHTML = (type: 'lowStock' | 'outOfStock', items: StockItem[]) => {
     const grouped = items.reduce((acc: Record<string, StockItem[]>, item) => {
       const cat = item.category?.name || t('common.uncategorized');
@@ -370,13 +559,96 @@ const generateFinancialReportHTML = () => `
     `;
   };
 
+  // Lots past their expiry with what they cost, for write-off or return to the supplier.
+  // Each lot is costed at the buying price in effect on its expiry date, not today's.
+  const generateExpiredReportHTML = (items: ExpiringBatch[], histories: Map<string, PriceChange[]>) => {
+    const grouped = items.reduce((acc: Record<string, ExpiringBatch[]>, item) => {
+      const warehouse = item.warehouse?.name || '-';
+      if (!acc[warehouse]) acc[warehouse] = [];
+      acc[warehouse].push(item);
+      return acc;
+    }, {});
+    const costOf = (item: ExpiringBatch) =>
+      (item.quantity || 0) *
+      priceOn(histories.get(item.product?._id) ?? [], 'buyingPrice', item.expiryDate, item.product?.buyingPrice || 0);
+    const totalCost = items.reduce((sum, item) => sum + costOf(item), 0);
+
+    return `
+      <html>
+        <head>
+          <link href="https://fonts.googleapis.com/css2?family=Poppins:wght@600;700&display=swap" rel="stylesheet">
+          <style>
+            body { font-family: Arial, sans-serif; padding: 20px; color: #1e293b; }
+            .brand { font-family: 'Poppins', sans-serif; font-size: 22px; font-weight: 700; color: #b91c1c; }
+            .header { display: flex; justify-content: space-between; align-items: center; }
+            h1 { color: #b91c1c; margin-bottom: 4px; }
+            .date { font-size: 12px; color: #64748b; }
+            table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+            th, td { padding: 10px; border-bottom: 1px solid #e5e7eb; text-align: left; }
+            th { background-color: #f1f5f9; }
+            .category-title { background-color: #e2e8f0; padding: 8px; font-weight: bold; margin-top: 20px; }
+            .total { text-align: right; font-weight: bold; margin-top: 16px; }
+            .footer { text-align: center; margin-top: 40px; font-size: 12px; color: #94a3b8; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            <div>
+              <h1>${t('reports.expiredReport')}</h1>
+              <div class="date">${new Date().toLocaleDateString()}</div>
+            </div>
+            <div class="brand">Ease Stock</div>
+          </div>
+          ${
+            Object.keys(grouped).length > 0
+              ? Object.entries(grouped)
+                  .map(([warehouse, lots]) => `
+                  <div class="category-title">${warehouse}</div>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>${t('common.name')}</th>
+                        <th>${t('batches.batchNumber')}</th>
+                        <th>${t('batches.expiryDate')}</th>
+                        <th>${t('common.quantity')}</th>
+                        <th>${t('reports.costValue')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      ${lots.map(item => `
+                        <tr>
+                          <td>${item.product?.name || '-'} ${item.product?.brand || ''}</td>
+                          <td>${item.batchNumber}</td>
+                          <td>${new Date(item.expiryDate).toLocaleDateString()}</td>
+                          <td>${item.quantity} ${item.product?.unit || ''}</td>
+                          <td>ETB ${costOf(item).toLocaleString()}</td>
+                        </tr>
+                      `).join('')}
+                    </tbody>
+                  </table>
+                `).join('')
+              : `<p style="text-align:center; margin-top:40px;">${t('reports.noItemsFound')}</p>`
+          }
+          <div class="total">${t('reports.totalCostValue')}: ETB ${totalCost.toLocaleString()}</div>
+          <div class="footer">Generated by Ease Stock</div>
+        </body>
+      </html>
+    `;
+  };
+
   // ====== EXPORT HANDLER ======
-  const handleExport = async (type: 'financial' | 'lowStock' | 'outOfStock', categoryId?: string) => {
+  const handleExport = async (type: Exclude<ExportType, 'financialSheet' | 'valuationPdf' | 'valuationExcel'>, categoryId?: string) => {
     setExportType(type);
     try {
       let html = '';
       if (type === 'financial') {
         html = generateFinancialReportHTML();
+      } else if (type === 'grossProfit') {
+        html = generateGrossProfitReportHTML(grossProfit);
+      } else if (type === 'expired') {
+        const lots = await dashboardService.getExpired();
+        const histories = await priceService.getPriceHistories(lots.map(lot => lot.product?._id).filter(Boolean));
+        html = generateExpiredReportHTML(lots, histories);
       } else {
         let items = type === 'lowStock'
           ? await dashboardService.getLowStock()
@@ -404,6 +676,79 @@ const generateFinancialReportHTML = () => `
     }
   };
 
+  // The financial summary as a spreadsheet: totals, the year's months and gross profit per grouping
+  const handleFinancialSpreadsheet = async () => {
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+    setExportType('financialSheet');
+    try {
+      const period = selectedMonth === 0 ? `${selectedYear}` : `${MONTHS[selectedMonth]} ${selectedYear}`;
+      const summary = [
+        [t('reports.income'), income],
+        [t('export.returns'), returns],
+        [t('reports.expenses'), expense],
+        [t('reports.profit'), profit],
+        [t('reports.revenue'), revenue],
+        [t('reports.cogs'), cogs],
+        [t('reports.grossProfit'), grossProfitValue],
+        [t('reports.margin'), Number(grossMargin)],
+      ].map(([item, amount]) => ({ [t('export.period')]: period, [t('export.item')]: item, [t('export.amount')]: amount }));
+
+      const months = (reportData?.monthlyTrends ?? []).map((m, i) => ({
+        [t('export.month')]: `${MONTHS[i + 1]} ${selectedYear}`,
+        [t('reports.income')]: m.income,
+        [t('export.returns')]: m.returns ?? 0,
+        [t('reports.expenses')]: m.expense,
+        [t('reports.profit')]: m.income - (m.returns ?? 0) - m.expense,
+      }));
+
+      const profitSheets = PROFIT_GROUPS.map(group => ({
+        name: `${t('reports.grossProfit')} - ${t(group.label)}`,
+        rows: (grossProfit?.[group.key] ?? []).map(row => ({
+          [t('export.name')]: row.name || '-',
+          [t('export.quantity')]: row.quantity,
+          [t('reports.revenue')]: row.revenue,
+          [t('reports.cogs')]: row.cost,
+          [t('reports.grossProfit')]: row.revenue - row.cost,
+          [t('reports.margin')]: Number(marginPercent(row.revenue, row.cost).toFixed(1)),
+        })),
+      }));
+
+      await exportService.shareSpreadsheet(
+        `financial_report_${selectedYear}_${MONTHS[selectedMonth]}`,
+        [
+          { name: t('reports.financialReport'), rows: summary },
+          { name: t('reports.monthlyTrendsFor', { year: selectedYear }), rows: months },
+          ...profitSheets,
+        ],
+        format
+      );
+    } catch {
+      Alert.alert(t('reports.errorExporting'));
+    } finally {
+      setExportType(null);
+    }
+  };
+
+  const handleValuationExport = async (type: 'valuationPdf' | 'valuationExcel') => {
+    if (!valuation?.rows.length) {
+      Alert.alert(t('valuation.noStock'));
+      return;
+    }
+    setExportType(type);
+    try {
+      if (type === 'valuationPdf') {
+        await stockValuationService.shareValuationPdf(valuation, valuationGroup);
+      } else {
+        await stockValuationService.shareValuationExcel(valuation);
+      }
+    } catch {
+      Alert.alert(t('reports.errorExporting'));
+    } finally {
+      setExportType(null);
+    }
+  };
+
   // ====== CATEGORY MODAL TRIGGER ======
   const openCategoryModal = async (type: 'lowStock' | 'outOfStock') => {
     try {
@@ -506,6 +851,7 @@ const generateFinancialReportHTML = () => `
                 label={t('reports.income')}
                 value={`ETB ${income.toLocaleString()}`}
                 color="#16a34a"
+                additionalText={returns > 0 ? ` ${t('reports.afterReturns', { amount: returns.toLocaleString() })}` : undefined}
               />
               
               <SummaryCard
@@ -524,6 +870,197 @@ const generateFinancialReportHTML = () => `
               />
             </View>
 
+            {/* Gross Profit */}
+            <Text style={styles.sectionTitle} accessibilityRole="header">
+              {t('reports.grossProfit')}
+            </Text>
+            <View style={styles.cardsRow} accessibilityLabel="Gross profit summary">
+              <SummaryCard
+                icon={<Feather name="package" size={16} color="#d97706" />}
+                label={t('reports.cogs')}
+                value={`ETB ${cogs.toLocaleString()}`}
+                color="#d97706"
+              />
+
+              <SummaryCard
+                icon={<Feather name="percent" size={16} color="#0d9488" />}
+                label={t('reports.grossProfit')}
+                value={`ETB ${grossProfitValue.toLocaleString()}`}
+                color={grossProfitValue >= 0 ? '#0d9488' : '#dc2626'}
+                additionalText={` (${grossMargin}%)`}
+              />
+            </View>
+
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.monthScroll}
+              contentContainerStyle={styles.monthScrollContent}
+              accessibilityLabel="Gross profit grouping"
+            >
+              {PROFIT_GROUPS.map(group => (
+                <TouchableOpacity
+                  key={group.key}
+                  style={[styles.monthBtn, profitGroup === group.key && styles.activeBtn]}
+                  onPress={() => setProfitGroup(group.key)}
+                  accessibilityState={{ selected: profitGroup === group.key }}
+                >
+                  <Text style={[styles.monthText, profitGroup === group.key && styles.activeText]}>
+                    {t(group.label)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {profitRows.length > 0 ? (
+              <View style={styles.profitList}>
+                {profitRows.map(row => {
+                  const rowProfit = row.revenue - row.cost;
+                  return (
+                    <View key={row._id} style={styles.profitRow}>
+                      <View style={{ flex: 1 }}>
+                        <Text style={styles.profitName} numberOfLines={1}>{row.name || '-'}</Text>
+                        <Text style={styles.profitMeta}>
+                          {t('reports.revenue')} ETB {row.revenue.toLocaleString()} · {t('reports.cogs')} ETB {row.cost.toLocaleString()}
+                        </Text>
+                      </View>
+                      <View style={{ alignItems: 'flex-end' }}>
+                        <Text style={[styles.profitValue, { color: rowProfit >= 0 ? '#0d9488' : '#dc2626' }]}>
+                          ETB {rowProfit.toLocaleString()}
+                        </Text>
+                        <Text style={styles.profitMeta}>{marginPercent(row.revenue, row.cost).toFixed(1)}%</Text>
+                      </View>
+                    </View>
+                  );
+                })}
+              </View>
+            ) : (
+              <View style={styles.noDataContainer}>
+                <Feather name="percent" size={40} color="#94a3b8" />
+                <Text style={styles.noDataText}>{t('reports.noProfitData')}</Text>
+              </View>
+            )}
+
+            {/* Stock Valuation */}
+            <Text style={styles.sectionTitle} accessibilityRole="header">
+              {t('valuation.title')}
+            </Text>
+            <View style={styles.valuationControls}>
+              {COSTING_METHODS.map(method => (
+                <TouchableOpacity
+                  key={method.key}
+                  style={[styles.monthBtn, costingMethod === method.key && styles.activeBtn]}
+                  onPress={() => setCostingMethod(method.key)}
+                  accessibilityState={{ selected: costingMethod === method.key }}
+                >
+                  <Text style={[styles.monthText, costingMethod === method.key && styles.activeText]}>
+                    {t(method.label)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+              <TouchableOpacity
+                style={styles.valuationDateBtn}
+                onPress={() => setShowValuationPicker(true)}
+                accessibilityLabel={t('valuation.asOf', { date: valuationDate.toLocaleDateString() })}
+              >
+                <Feather name="calendar" size={14} color="#4f46e5" />
+                <Text style={styles.valuationDateText}>{valuationDate.toLocaleDateString()}</Text>
+              </TouchableOpacity>
+            </View>
+
+            {showValuationPicker &&
+              (Platform.OS === 'ios' ? (
+                <Modal transparent animationType="slide">
+                  <View style={styles.dateModalContainer}>
+                    <View style={styles.dateModalContent}>
+                      <DateTimePicker
+                        value={valuationDate}
+                        mode="date"
+                        display="spinner"
+                        maximumDate={new Date()}
+                        onChange={(event, date) => {
+                          if (date) setValuationDate(date);
+                        }}
+                      />
+                      <TouchableOpacity onPress={() => setShowValuationPicker(false)} style={styles.dateDoneButton}>
+                        <Text style={styles.dateDoneText}>{t('valuation.done')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  </View>
+                </Modal>
+              ) : (
+                <DateTimePicker
+                  value={valuationDate}
+                  mode="date"
+                  display="calendar"
+                  maximumDate={new Date()}
+                  onChange={(event, date) => {
+                    setShowValuationPicker(false);
+                    if (date) setValuationDate(date);
+                  }}
+                />
+              ))}
+
+            <View style={styles.cardsRow} accessibilityLabel="Stock valuation summary">
+              <SummaryCard
+                icon={<Feather name="layers" size={16} color="#0f766e" />}
+                label={t('valuation.totalValue')}
+                value={valuationLoading ? '…' : `ETB ${stockValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}`}
+                color="#0f766e"
+              />
+            </View>
+
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.monthScroll}
+              contentContainerStyle={styles.monthScrollContent}
+              accessibilityLabel="Stock valuation grouping"
+            >
+              {VALUATION_GROUPS.map(group => (
+                <TouchableOpacity
+                  key={group.key}
+                  style={[styles.monthBtn, valuationGroup === group.key && styles.activeBtn]}
+                  onPress={() => setValuationGroup(group.key)}
+                  accessibilityState={{ selected: valuationGroup === group.key }}
+                >
+                  <Text style={[styles.monthText, valuationGroup === group.key && styles.activeText]}>
+                    {t(group.label)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+
+            {valuationRows.length > 0 ? (
+              <View style={styles.profitList}>
+                {valuationRows.map(group => (
+                  <View key={group.key} style={styles.profitRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.profitName} numberOfLines={1}>{group.name}</Text>
+                      <Text style={styles.profitMeta}>
+                        {t('valuation.productCount', { count: group.rows.length })}
+                      </Text>
+                    </View>
+                    <View style={{ alignItems: 'flex-end' }}>
+                      <Text style={[styles.profitValue, { color: '#0f766e' }]}>
+                        ETB {group.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                      </Text>
+                      <Text style={styles.profitMeta}>
+                        {stockValue ? ((group.value / stockValue) * 100).toFixed(1) : '0.0'}%
+                      </Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <View style={styles.noDataContainer}>
+                <Feather name="layers" size={40} color="#94a3b8" />
+                <Text style={styles.noDataText}>
+                  {valuationLoading ? t('valuation.loading') : t('valuation.noStock')}
+                </Text>
+              </View>
+            )}
+
             {/* Monthly Trends Chart */}
             {reportData?.monthlyTrends ? (
               <>
@@ -536,7 +1073,7 @@ const generateFinancialReportHTML = () => `
                       labels: reportData.monthlyTrends.map((_, i) => MONTHS[i + 1]),
                       datasets: [
                         {
-                          data: reportData.monthlyTrends.map(m => m.income),
+                          data: reportData.monthlyTrends.map(m => m.income - (m.returns ?? 0)),
                           color: () => '#16a34a',
                           strokeWidth: 2,
                         },
@@ -586,6 +1123,26 @@ const generateFinancialReportHTML = () => `
                 onPress={() => handleExport('financial')}
               />
 
+              <ExportCard
+                type="financialSheet"
+                title={t('export.financialSheet')}
+                subtitle={t('export.financialSheetSubtitle')}
+                icon={<Feather name="grid" size={24} color="#4338ca" />}
+                color="#4338ca"
+                loading={exportType === 'financialSheet'}
+                onPress={handleFinancialSpreadsheet}
+              />
+
+              <ExportCard
+                type="grossProfit"
+                title={t('reports.grossProfitReport')}
+                subtitle={t('reports.grossProfitReportSubtitle')}
+                icon={<Feather name="percent" size={24} color="#0d9488" />}
+                color="#0d9488"
+                loading={exportType === 'grossProfit'}
+                onPress={() => handleExport('grossProfit')}
+              />
+
               <ExportCard
                 type="lowStock"
                 title={t('reports.lowStock')}
@@ -605,6 +1162,36 @@ const generateFinancialReportHTML = () => `
                 loading={exportType === 'outOfStock'}
                 onPress={() => openCategoryModal('outOfStock')}
               />
+
+              <ExportCard
+                type="valuationPdf"
+                title={t('valuation.exportPdf')}
+                subtitle={t('valuation.exportSubtitle', { date: valuationDate.toLocaleDateString() })}
+                icon={<Feather name="layers" size={24} color="#0f766e" />}
+                color="#0f766e"
+                loading={exportType === 'valuationPdf'}
+                onPress={() => handleValuationExport('valuationPdf')}
+              />
+
+              <ExportCard
+                type="valuationExcel"
+                title={t('valuation.exportExcel')}
+                subtitle={t('valuation.exportSubtitle', { date: valuationDate.toLocaleDateString() })}
+                icon={<Feather name="grid" size={24} color="#15803d" />}
+                color="#15803d"
+                loading={exportType === 'valuationExcel'}
+                onPress={() => handleValuationExport('valuationExcel')}
+              />
+
+              <ExportCard
+                type="expired"
+                title={t('reports.expiredStock')}
+                subtitle={t('reports.expiredStockSubtitle')}
+                icon={<Feather name="calendar" size={24} color="#b91c1c" />}
+                color="#b91c1c"
+                loading={exportType === 'expired'}
+                onPress={() => handleExport('expired')}
+              />
             </View>
             <Modal
               visible={categoryModalVisible}
@@ -832,6 +1419,82 @@ const styles = StyleSheet.create({
     color: '#64748b',
     fontSize: 16,
   },
+  profitList: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    marginBottom: 24,
+    elevation: 1,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 3,
+  },
+  profitRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  profitName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  profitMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  profitValue: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  valuationControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  valuationDateBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#c7d2fe',
+    backgroundColor: '#eef2ff',
+  },
+  valuationDateText: {
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  dateModalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0,0,0,0.4)',
+  },
+  dateModalContent: {
+    backgroundColor: '#fff',
+    padding: 16,
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+  },
+  dateDoneButton: {
+    alignSelf: 'flex-end',
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+  },
+  dateDoneText: {
+    color: '#4f46e5',
+    fontWeight: '600',
+    fontSize: 16,
+  },
   exportGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
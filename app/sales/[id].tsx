@@ -0,0 +1,568 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  RefreshControl,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import RecordPaymentModal from '@/components/RecordPaymentModal';
+import saleService, {
+  getSaleLines,
+  getSaleTotals,
+  PaymentData,
+  returnedQuantities,
+  SalePayment,
+  SaleReturn,
+  summarizePayments,
+} from '@/services/saleService';
+import { RootState } from '../store';
+
+const STATUS_COLORS: Record<string, string> = {
+  paid: '#10b981',
+  partial: '#f59e0b',
+  credit: '#ef4444',
+};
+
+const personName = (person: SalePayment['recordedBy']) =>
+  typeof person === 'object' && person ? person.name ?? '' : '';
+
+// Sale detail with the payment timeline: record installments, reverse mistakes and return items
+export default function SaleDetailScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
+  const isAdmin = userRole === 'admin' || userRole === 'superadmin';
+
+  const [sale, setSale] = useState<any>(null);
+  const [payments, setPayments] = useState<SalePayment[]>([]);
+  const [returns, setReturns] = useState<SaleReturn[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [showPaymentModal, setShowPaymentModal] = useState<boolean>(false);
+  const [reversingId, setReversingId] = useState<string | null>(null);
+
+  const fetchSale = useCallback(async () => {
+    try {
+      const [saleData, history, returnHistory] = await Promise.all([
+        saleService.getSaleById(id),
+        saleService.getPayments(id),
+        saleService.getReturns(id),
+      ]);
+      setSale(saleData);
+      setPayments(Array.isArray(history) ? history : []);
+      setReturns(Array.isArray(returnHistory) ? returnHistory : []);
+    } catch {
+      Alert.alert(t('payments.errorTitle'), t('payments.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchSale();
+  }, [id, fetchSale]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchSale();
+    setRefreshing(false);
+  };
+
+  const handleRecordPayment = async (payment: PaymentData) => {
+    try {
+      await saleService.recordPayment(id, payment);
+      setShowPaymentModal(false);
+      Alert.alert(t('payments.successTitle'), t('sales.paymentRecorded'));
+      await fetchSale();
+    } catch {
+      Alert.alert(t('payments.errorTitle'), t('sales.failedToUpdatePayment'));
+    }
+  };
+
+  const handleReverse = (payment: SalePayment) => {
+    Alert.alert(
+      t('payments.reverseTitle'),
+      t('payments.reverseMessage', { amount: payment.amount.toFixed(2) }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('payments.reverse'),
+          style: 'destructive',
+          onPress: async () => {
+            setReversingId(payment._id);
+            try {
+              await saleService.reversePayment(id, payment._id);
+              await fetchSale();
+            } catch {
+              Alert.alert(t('payments.errorTitle'), t('payments.reverseFailed'));
+            } finally {
+              setReversingId(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6d28d9" />
+      </View>
+    );
+  }
+
+  const lines = sale ? getSaleLines(sale) : [];
+  const summary = summarizePayments(sale, payments, returns);
+  const totals = sale ? getSaleTotals(sale) : null;
+  const statusColor = STATUS_COLORS[summary.paymentStatus];
+  const canRecord =
+    isAdmin && summary.amountDue > 0 && sale && String(sale.status).toLowerCase() !== 'rejected';
+  // Only approved sales moved stock, so only they can take items back
+  const returned = returnedQuantities(returns);
+  const canReturn =
+    isAdmin &&
+    sale &&
+    String(sale.status).toLowerCase() === 'approved' &&
+    lines.some((line, index) => line.quantity - (returned.get(index) ?? 0) > 0);
+  // Newest first on screen
+  const timeline = [...payments].reverse();
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/sales')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {sale?.receiptNumber ? `${t('sales.receiptNo')} ${sale.receiptNumber}` : t('payments.saleTitle')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <ScrollView
+        contentContainerStyle={styles.scrollContainer}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+        }
+      >
+        {sale && (
+          <>
+            {/* Sale summary */}
+            <View style={styles.card}>
+              <View style={styles.rowBetween}>
+                <Text style={styles.customerName}>{sale.customerName}</Text>
+                <View style={[styles.statusBadge, { borderColor: statusColor, backgroundColor: `${statusColor}20` }]}>
+                  <Text style={[styles.statusText, { color: statusColor }]}>
+                    {t(`sales.paymentStatus.${summary.paymentStatus}`)}
+                  </Text>
+                </View>
+              </View>
+              <Text style={styles.muted}>
+                {t('sales.date')}: {new Date(sale.date).toLocaleDateString()}
+                {sale.dueDate ? ` · ${t('sales.dueDate')}: ${new Date(sale.dueDate).toLocaleDateString()}` : ''}
+              </Text>
+
+              {lines.map((line, index) => (
+                <View key={index} style={styles.lineRow}>
+                  <Text style={styles.lineName} numberOfLines={1}>
+                    {line.product?.name || t('sales.unknown')}
+                  </Text>
+                  <Text style={styles.lineValue}>
+                    {line.quantity} × {line.unitPrice.toFixed(2)} = {line.lineTotal.toFixed(2)}
+                  </Text>
+                  {(returned.get(index) ?? 0) > 0 && (
+                    <Text style={styles.returnedText}>
+                      {t('returns.returnedCount', { count: returned.get(index) })}
+                    </Text>
+                  )}
+                </View>
+              ))}
+
+              <View style={styles.totals}>
+                {totals && (totals.discount > 0 || totals.tax > 0) && (
+                  <>
+                    <View style={styles.rowBetween}>
+                      <Text style={styles.totalLabel}>{t('tax.subtotal')}</Text>
+                      <Text style={styles.totalValue}>ETB {totals.subtotal.toFixed(2)}</Text>
+                    </View>
+                    {totals.discount > 0 && (
+                      <View style={styles.rowBetween}>
+                        <Text style={styles.totalLabel}>{t('tax.discount')}</Text>
+                        <Text style={styles.totalValue}>− ETB {totals.discount.toFixed(2)}</Text>
+                      </View>
+                    )}
+                    {totals.tax > 0 && (
+                      <View style={styles.rowBetween}>
+                        <Text style={styles.totalLabel}>
+                          {sale.pricesIncludeTax ? t('tax.taxIncluded') : t('tax.tax')}
+                        </Text>
+                        <Text style={styles.totalValue}>ETB {totals.tax.toFixed(2)}</Text>
+                      </View>
+                    )}
+                  </>
+                )}
+                <View style={styles.rowBetween}>
+                  <Text style={styles.totalLabel}>{t('sales.total')}</Text>
+                  <Text style={styles.totalValue}>ETB {summary.total.toFixed(2)}</Text>
+                </View>
+                {summary.returned > 0 && (
+                  <View style={styles.rowBetween}>
+                    <Text style={styles.totalLabel}>{t('returns.returned')}</Text>
+                    <Text style={[styles.totalValue, { color: '#f59e0b' }]}>ETB {summary.returned.toFixed(2)}</Text>
+                  </View>
+                )}
+                <View style={styles.rowBetween}>
+                  <Text style={styles.totalLabel}>{t('sales.paid')}</Text>
+                  <Text style={[styles.totalValue, { color: '#10b981' }]}>ETB {summary.amountPaid.toFixed(2)}</Text>
+                </View>
+                <View style={styles.rowBetween}>
+                  <Text style={styles.totalLabel}>{t('sales.due')}</Text>
+                  <Text style={[styles.totalValue, summary.amountDue > 0 && { color: '#ef4444' }]}>
+                    ETB {summary.amountDue.toFixed(2)}
+                  </Text>
+                </View>
+              </View>
+              {summary.total > 0 && (
+                <View style={styles.progressBar}>
+                  <View
+                    style={{
+                      width: `${Math.min((summary.amountPaid / summary.total) * 100, 100)}%`,
+                      height: 6,
+                      backgroundColor: statusColor,
+                      borderRadius: 4,
+                    }}
+                  />
+                </View>
+              )}
+            </View>
+
+            {canRecord && (
+              <TouchableOpacity style={styles.recordButton} onPress={() => setShowPaymentModal(true)}>
+                <Feather name="plus-circle" size={18} color="#fff" />
+                <Text style={styles.recordButtonText}>{t('payments.recordPayment')}</Text>
+              </TouchableOpacity>
+            )}
+
+            {canReturn && (
+              <TouchableOpacity
+                style={[styles.recordButton, styles.returnButton]}
+                onPress={() => router.push({ pathname: '/sales/return/[id]', params: { id } })}
+              >
+                <Feather name="corner-up-left" size={18} color="#6d28d9" />
+                <Text style={[styles.recordButtonText, styles.returnButtonText]}>{t('returns.returnItems')}</Text>
+              </TouchableOpacity>
+            )}
+
+            {/* Returns, newest first */}
+            {returns.length > 0 && (
+              <>
+                <Text style={styles.sectionTitle}>{t('returns.history')}</Text>
+                {[...returns].reverse().map(saleReturn => (
+                  <View key={saleReturn._id} style={styles.paymentItem}>
+                    <View style={[styles.paymentIcon, { backgroundColor: '#fffbeb' }]}>
+                      <Feather name="corner-up-left" size={16} color="#f59e0b" />
+                    </View>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.paymentAmount}>ETB {saleReturn.amount.toFixed(2)}</Text>
+                      <Text style={styles.muted}>
+                        {new Date(saleReturn.date).toLocaleDateString()} · {t(`returns.${saleReturn.settlement}`)}
+                        {saleReturn.refundChannel ? ` · ${t(`sales.paymentChannel.${saleReturn.refundChannel}`)}` : ''}
+                        {personName(saleReturn.createdBy) ? ` · ${personName(saleReturn.createdBy)}` : ''}
+                      </Text>
+                      {saleReturn.items.map((item, index) => (
+                        <Text key={index} style={styles.muted}>
+                          {lines[item.lineIndex]?.product?.name ?? item.product?.name ?? t('sales.unknown')} ×{' '}
+                          {item.quantity} · {item.restock ? t('returns.restocked') : t('returns.damaged')}
+                        </Text>
+                      ))}
+                      {!!saleReturn.reason && <Text style={styles.paymentNote}>{saleReturn.reason}</Text>}
+                    </View>
+                  </View>
+                ))}
+              </>
+            )}
+
+            {/* Payment timeline */}
+            <Text style={styles.sectionTitle}>{t('payments.history')}</Text>
+            {timeline.length === 0 ? (
+              <Text style={styles.emptyText}>{t('payments.noPayments')}</Text>
+            ) : (
+              timeline.map(payment => (
+                <View key={payment._id} style={[styles.paymentItem, payment.reversed && styles.paymentReversed]}>
+                  <View style={[styles.paymentIcon, { backgroundColor: payment.reversed ? '#f1f5f9' : '#ecfdf5' }]}>
+                    <Feather
+                      name={payment.reversed ? 'rotate-ccw' : 'dollar-sign'}
+                      size={16}
+                      color={payment.reversed ? '#94a3b8' : '#10b981'}
+                    />
+                  </View>
+                  <View style={{ flex: 1 }}>
+                    <Text style={[styles.paymentAmount, payment.reversed && styles.strikethrough]}>
+                      ETB {payment.amount.toFixed(2)}
+                    </Text>
+                    <Text style={styles.muted}>
+                      {new Date(payment.date).toLocaleDateString()}
+                      {payment.channel ? ` · ${t(`sales.paymentChannel.${payment.channel}`)}` : ''}
+                      {personName(payment.recordedBy) ? ` · ${personName(payment.recordedBy)}` : ''}
+                    </Text>
+                    {!!payment.note && <Text style={styles.paymentNote}>{payment.note}</Text>}
+                    {payment.reversed && (
+                      <Text style={styles.reversedText}>
+                        {t('payments.reversedOn', {
+                          date: payment.reversedAt ? new Date(payment.reversedAt).toLocaleDateString() : '',
+                        })}
+                        {personName(payment.reversedBy) ? ` · ${personName(payment.reversedBy)}` : ''}
+                      </Text>
+                    )}
+                  </View>
+                  {isAdmin && !payment.reversed && (
+                    <TouchableOpacity
+                      onPress={() => handleReverse(payment)}
+                      disabled={reversingId === payment._id}
+                      style={styles.reverseButton}
+                    >
+                      {reversingId === payment._id ? (
+                        <ActivityIndicator size="small" color="#ef4444" />
+                      ) : (
+                        <Text style={styles.reverseText}>{t('payments.reverse')}</Text>
+                      )}
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <RecordPaymentModal
+        visible={showPaymentModal}
+        amountDue={summary.amountDue}
+        onClose={() => setShowPaymentModal(false)}
+        onSubmit={handleRecordPayment}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  rowBetween: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  customerName: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+    flex: 1,
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  muted: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  returnedText: {
+    width: '100%',
+    fontSize: 12,
+    color: '#f59e0b',
+    marginTop: 2,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#334155',
+    marginRight: 8,
+  },
+  lineValue: {
+    fontSize: 14,
+    color: '#334155',
+  },
+  totals: {
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    marginTop: 12,
+    paddingTop: 12,
+    gap: 4,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  totalValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  progressBar: {
+    height: 6,
+    backgroundColor: '#e2e8f0',
+    borderRadius: 4,
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  recordButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 16,
+  },
+  recordButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  returnButton: {
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  returnButtonText: {
+    color: '#6d28d9',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+  paymentItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  paymentReversed: {
+    opacity: 0.7,
+  },
+  paymentIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  paymentAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  strikethrough: {
+    textDecorationLine: 'line-through',
+    color: '#94a3b8',
+  },
+  paymentNote: {
+    fontSize: 13,
+    color: '#475569',
+    marginTop: 4,
+    fontStyle: 'italic',
+  },
+  reversedText: {
+    fontSize: 12,
+    color: '#ef4444',
+    marginTop: 4,
+  },
+  reverseButton: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#fef2f2',
+    minWidth: 70,
+    alignItems: 'center',
+  },
+  reverseText: {
+    color: '#ef4444',
+    fontWeight: '600',
+    fontSize: 13,
+  },
+});
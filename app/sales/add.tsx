@@ -1,20 +1,29 @@
-import saleService from '@/services/saleService';
-import productService from '../../services/productService';
+import businessService, { TaxSettings } from '@/services/businessService';
+import outboxService from '@/services/outboxService';
+import { applyPriceList, PriceList, priceListForCustomer } from '@/services/priceListService';
+import productService, { stockIn, toBaseQuantity, unitOptionPrice } from '@/services/productService';
+import { Customer, exceedsCreditLimit } from '@/services/customerService';
+import receiptService from '@/services/receiptService';
+import saleService, { calculateSaleTotals, DiscountType, SaleData } from '@/services/saleService';
 import warehouseService from '../../services/warehouseService';
 
 import { Feather } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../app/store';
+import BarcodeScannerModal from '../../components/BarcodeScannerModal';
+import CustomerPicker from '../../components/CustomerPicker';
+import SaleCart from '../../components/SaleCart';
+import SaleLineEditor, { CartLine } from '../../components/SaleLineEditor';
+import SaleTotals from '../../components/SaleTotals';
 
 import {
   ActivityIndicator,
   Alert,
-  FlatList,
   Modal,
   Platform,
   ScrollView,
@@ -22,25 +31,14 @@ import {
   Text,
   TextInput,
   TouchableOpacity,
-  TouchableWithoutFeedback,
   View,
 } from 'react-native';
-import { Dropdown } from 'react-native-element-dropdown';
 import { SafeAreaView } from 'react-native-safe-area-context';
 
 interface Warehouse {
   _id: string;
   name: string;
 }
-interface Product {
-  _id: string;
-  name: string;
-  brand?: string;
-  price?: number;
-  unit?: string;
-  quantity?: number;
-  warehouse?: Warehouse | string;
-}
 
 export default function AddSaleScreen() {
   const router = useRouter();
@@ -49,44 +47,36 @@ export default function AddSaleScreen() {
 
   // --- state hooks ---
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
-  const [selectedWarehouse, setSelectedWarehouse] = useState<string>('');
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [showProductDropdown, setShowProductDropdown] = useState<boolean>(false);
-  const [productSearch, setProductSearch] = useState<string>('');
-  const [debouncedSearch, setDebouncedSearch] = useState<string>('');
-
-  const [customer, setCustomer] = useState<string>('');
-  const [productId, setProductId] = useState<string>('');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-  const [unitPrice, setUnitPrice] = useState<string>('');
-  const [quantity, setQuantity] = useState<string>('');
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [showLineEditor, setShowLineEditor] = useState<boolean>(false);
+  const [editingLine, setEditingLine] = useState<CartLine | null>(null);
+  const [showScanner, setShowScanner] = useState<boolean>(false);
+
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
   const [amountPaid, setAmountPaid] = useState<string>('0');
   const [date, setDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
   const [paymentMethod, setPaymentMethod] = useState<string>('cash');
   const [creditTerm, setCreditTerm] = useState<string>('30');
   const [loading, setLoading] = useState<boolean>(false);
-  const [productLoading, setProductLoading] = useState<boolean>(false);
   const [paymentChannel, setPaymentChannel] = useState<string>('cash');
-
-  const debounceTimer = useRef<number | null>(null);
+  const [taxSettings, setTaxSettings] = useState<TaxSettings>({ taxRate: 0, pricesIncludeTax: false });
+  const [invoiceDiscount, setInvoiceDiscount] = useState<string>('');
+  const [invoiceDiscountType, setInvoiceDiscountType] = useState<DiscountType>('amount');
 
   // --- reset form helper ---
   const resetForm = (): void => {
-    setCustomer('');
-    setSelectedWarehouse('');
-    setProducts([]);
-    setFilteredProducts([]);
-    setSelectedProduct(null);
-    setProductId('');
-    setUnitPrice('');
-    setQuantity('');
+    setCustomer(null);
+    setLines([]);
+    setEditingLine(null);
     setAmountPaid('0');
     setDate(new Date());
     setPaymentMethod('cash');
     setPaymentChannel('cash');
     setCreditTerm('30');
+    setInvoiceDiscount('');
+    setInvoiceDiscountType('amount');
   };
 
   // --- fetch warehouses ---
@@ -105,177 +95,213 @@ export default function AddSaleScreen() {
     fetchWarehouses();
   }, [fetchWarehouses]);
 
-  // --- load products when warehouse changes ---
+  // --- tax rate and pricing mode the sale is recorded with ---
+  useEffect(() => {
+    businessService.getTaxSettings({ force: true }).then(setTaxSettings).catch(() => {});
+  }, []);
+
+  // --- the customer's price list reprices lines the cashier hasn't overridden ---
   useEffect(() => {
     let isCancelled = false;
-    const loadProducts = async () => {
-      if (!selectedWarehouse) {
-        if (!isCancelled) {
-          setProducts([]);
-          setFilteredProducts([]);
-          setSelectedProduct(null);
-          setProductId('');
-          setUnitPrice('');
-          setQuantity('');
-        }
-        return;
-      }
-      if (!isCancelled) setProductLoading(true);
-      try {
-        const data = await productService.getProductList(selectedWarehouse);
-        const productArray = Array.isArray(data) ? data : [];
-        if (!isCancelled) {
-          setProducts(productArray);
-          setFilteredProducts(productArray);
-          setSelectedProduct(null);
-          setProductId('');
-          setUnitPrice('');
-          setQuantity('');
-        }
-      } catch {
-        if (!isCancelled) {
-          Alert.alert(t('sale.errortitle'), t('sale.errorloadproducts'));
-        }
-      } finally {
-        if (!isCancelled) setProductLoading(false);
-      }
-    };
-    loadProducts();
+    priceListForCustomer(customer)
+      .catch(() => null)
+      .then(list => {
+        if (isCancelled) return;
+        setPriceList(list);
+        setLines(prev => prev.map(l => applyPriceList(l, list)));
+      });
     return () => {
       isCancelled = true;
     };
-  }, [selectedWarehouse, t]);
+  }, [customer]);
 
-  // --- debounce search ---
-  useEffect(() => {
-    if (debounceTimer.current) clearTimeout(debounceTimer.current);
-    debounceTimer.current = setTimeout(() => {
-      setDebouncedSearch(productSearch);
-    }, 300);
-    return () => {
-      if (debounceTimer.current) clearTimeout(debounceTimer.current);
-    };
-  }, [productSearch]);
+  // --- cart helpers ---
+  const openLineEditor = (line: CartLine | null): void => {
+    setEditingLine(line);
+    setShowLineEditor(true);
+  };
 
-  useEffect(() => {
-    if (debouncedSearch) {
-      const lowered = debouncedSearch.toLowerCase();
-      setFilteredProducts(
-        products.filter(
-          p =>
-            p.name.toLowerCase().includes(lowered) ||
-            (p.brand?.toLowerCase().includes(lowered) ?? false),
-        ),
-      );
-    } else {
-      setFilteredProducts(products);
-    }
-  }, [debouncedSearch, products]);
+  const handleLineSave = (line: CartLine): void => {
+    setLines(prev =>
+      prev.some(l => l.key === line.key)
+        ? prev.map(l => (l.key === line.key ? line : l))
+        : [...prev, line],
+    );
+    setShowLineEditor(false);
+    setEditingLine(null);
+  };
 
-  const handleProductSelect = (p: Product): void => {
-    if (!selectedWarehouse) {
-      Alert.alert(t('sale.errortitle'), t('sale.selectwarehousefirst'));
-      return;
-    }
-    const productWarehouseId =
-      typeof p.warehouse === 'string' ? p.warehouse : p.warehouse?._id;
-    if (productWarehouseId && productWarehouseId !== selectedWarehouse) {
-      Alert.alert(t('sale.errortitle'), t('sale.productnotinwarehouse'));
-      return;
-    }
-    setSelectedProduct(p);
-    setProductId(p._id);
-    setUnitPrice(p.price !== undefined && p.price !== null ? p.price.toString() : '');
-    setQuantity('');
-    setShowProductDropdown(false);
-    setProductSearch('');
+  const handleLineRemove = (key: string): void => {
+    setLines(prev => prev.filter(l => l.key !== key));
   };
 
-  const calculatePrice = (): number => {
-    const qty = parseFloat(quantity);
-    const price = parseFloat(unitPrice);
-    if (isNaN(qty) || qty <= 0 || isNaN(price) || price <= 0) return 0;
-    return qty * price;
+  // Add one base unit of the scanned product from the first warehouse that still has stock
+  const handleScanned = async (code: string): Promise<void> => {
+    setShowScanner(false);
+    try {
+      const matches = await productService.findByBarcode(code);
+      if (matches.length === 0) {
+        Alert.alert(t('scanner.notFoundTitle'), t('scanner.notFoundMessage', { code }));
+        return;
+      }
+
+      const lineFor = (productId: string, warehouseId: string) =>
+        lines.find(
+          l => l.product._id === productId && l.warehouse._id === warehouseId && (l.unitFactor ?? 1) === 1
+        );
+      const available = (p: any, warehouseId: string) =>
+        stockIn(p, warehouseId) -
+        lines
+          .filter(l => l.product._id === p._id && l.warehouse._id === warehouseId)
+          .reduce((sum, l) => sum + toBaseQuantity(l), 0);
+
+      let found: { product: any; warehouse: Warehouse } | null = null;
+      for (const p of matches) {
+        const warehouse = warehouses.find(w => available(p, w._id) >= 1);
+        if (warehouse) {
+          found = { product: p, warehouse };
+          break;
+        }
+      }
+      if (!found) {
+        Alert.alert(t('sale.errortitle'), t('sale.scannedOutOfStock', { name: matches[0].name }));
+        return;
+      }
+      const { warehouse } = found;
+      // The cart line sees the product as stocked in the warehouse it sells from
+      const match = { ...found.product, warehouse, quantity: stockIn(found.product, warehouse._id) };
+
+      const existing = lineFor(match._id, warehouse._id);
+      if (existing) {
+        setLines(prev =>
+          prev.map(l => (l.key === existing.key ? applyPriceList({ ...l, quantity: l.quantity + 1 }, priceList) : l))
+        );
+        return;
+      }
+
+      const line: CartLine = applyPriceList({
+        key: `${match._id}-${Date.now()}`,
+        product: match,
+        warehouse,
+        quantity: 1,
+        unitPrice: match.price ?? 0,
+        discount: 0,
+        taxRate: match.taxRate ?? taxSettings.taxRate,
+      }, priceList);
+      setLines(prev => [...prev, line]);
+      // No price on file: let the cashier enter one
+      if (!line.unitPrice) openLineEditor(line);
+    } catch {
+      Alert.alert(t('sale.errortitle'), t('sale.errorloadproducts'));
+    }
   };
 
+  // Stock already claimed by other lines, so two lines can't oversell one product
+  const reservedQuantity = (productId: string, warehouseId: string): number =>
+    lines
+      .filter(l => l.key !== editingLine?.key && l.product._id === productId && l.warehouse._id === warehouseId)
+      .reduce((sum, l) => sum + toBaseQuantity(l), 0);
+
+  const totals = calculateSaleTotals(lines, {
+    invoiceDiscount: parseFloat(invoiceDiscount) || 0,
+    invoiceDiscountType,
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
+  });
+  const calculatePrice = (): number => totals.total;
+
   const validateInputs = (): boolean => {
-    if (!selectedWarehouse) {
-      Alert.alert(t('sale.errortitle'), t('sale.selectwarehouse'));
-      return false;
-    }
-    if (!customer.trim()) {
-      Alert.alert(t('sale.errortitle'), t('sale.fillcustomername'));
+    if (!customer) {
+      Alert.alert(t('sale.errortitle'), t('sale.selectcustomer'));
       return false;
     }
-    if (!productId) {
-      Alert.alert(t('sale.errortitle'), t('sale.selectproduct'));
+    if (lines.length === 0) {
+      Alert.alert(t('sale.errortitle'), t('sale.emptycarterror'));
       return false;
     }
-    const qty = parseFloat(quantity);
-    if (isNaN(qty) || qty <= 0) {
-      Alert.alert(t('sale.errortitle'), t('sale.invalidquantity'));
+    if (invoiceDiscountType === 'percent' && (parseFloat(invoiceDiscount) || 0) > 100) {
+      Alert.alert(t('sale.errortitle'), t('sale.invaliddiscount'));
       return false;
     }
-    if (selectedProduct && qty > (selectedProduct.quantity ?? 0)) {
-      Alert.alert(t('sale.errortitle'), t('sale.quantityExceedsStock', { available: selectedProduct.quantity }));
-      return false;
-    }
-    const price = parseFloat(unitPrice);
-    if (isNaN(price) || price <= 0) {
-      Alert.alert(t('sale.errortitle'), t('sale.invalidunitprice'));
-      return false;
+    if (paymentMethod === 'credit') {
+      const term = parseInt(creditTerm, 10);
+      if (isNaN(term) || term <= 0) {
+        Alert.alert(t('sale.errortitle'), t('sale.invalidcreditterm'));
+        return false;
+      }
+      const paid = amountPaid.trim() === '' ? 0 : parseFloat(amountPaid);
+      if (paid > calculatePrice()) {
+        Alert.alert(t('sale.errortitle'), t('sale.amountpaidexceedstotal'));
+        return false;
+      }
     }
     return true;
   };
 
-  // --- save sale & go back ---
-  const handleSave = async (): Promise<void> => {
-    if (!validateInputs()) return;
+  const buildPayload = (): SaleData => ({
+    customer: customer?._id,
+    customerName: customer?.name ?? '',
+    salesPerson: userId,
+    items: lines.map(l => ({
+      product: l.product._id,
+      warehouse: l.warehouse._id,
+      quantity: l.quantity,
+      unitPrice: l.unitPrice,
+      discount: l.discount,
+      discountType: l.discountType,
+      taxRate: l.taxRate,
+      unit: l.unit,
+      unitFactor: l.unitFactor,
+      unitCost: unitOptionPrice(l.product, { unit: l.unit ?? l.product.unit ?? '', factor: l.unitFactor ?? 1 }, 'buyingPrice'),
+      listPrice: l.listPrice,
+      priceList: l.priceList,
+    })),
+    invoiceDiscount: parseFloat(invoiceDiscount) || 0,
+    invoiceDiscountType,
+    pricesIncludeTax: taxSettings.pricesIncludeTax,
+    amountPaid:
+      paymentMethod === 'credit'
+        ? amountPaid.trim() === '' ? 0 : parseFloat(amountPaid)
+        : calculatePrice(),
+    paymentMethod,
+    paymentChannel,
+    date: date.toISOString(),
+    creditTerm: paymentMethod === 'credit' ? parseInt(creditTerm, 10) : undefined,
+  });
+
+  // Reload the saved sale so the receipt has product names
+  const shareSavedReceipt = async (saleId: string): Promise<void> => {
     try {
-      setLoading(true);
-      const payload = {
-        customerName: customer.trim(),
-        salesPerson: userId,
-        product: productId,
-        quantity: parseFloat(quantity),
-        price: calculatePrice(),
-        amountPaid: amountPaid.trim() === "" ? 0 : parseFloat(amountPaid),
-        paymentMethod,
-        paymentChannel,
-        date: date.toISOString(),
-        creditTerm: paymentMethod === 'credit' ? parseInt(creditTerm, 10) : undefined,
-      };
-      await saleService.addSale(payload);
-      Alert.alert(t('sale.successtitle'), t('sale.successmessage'));
-      resetForm();
-      router.replace('/sales');
+      await receiptService.shareReceipt(await saleService.getSaleById(saleId));
     } catch {
-      Alert.alert(t('sale.errortitle') || t('sale.genericerror'));
-    } finally {
-      setLoading(false);
+      Alert.alert(t('sale.errortitle'), t('receipt.failed'));
     }
   };
 
-  // --- save sale & create new ---
-  const handleSaveAndNew = async (): Promise<void> => {
-    if (!validateInputs()) return;
+  // --- save sale, then go back or stay for a new one ---
+  const saveSale = async (payload: SaleData, createNew: boolean): Promise<void> => {
     try {
       setLoading(true);
-      const payload = {
-        customerName: customer.trim(),
-        salesPerson: userId,
-        product: productId,
-        quantity: parseFloat(quantity),
-        price: calculatePrice(),
-        amountPaid: amountPaid.trim() === "" ? 0 : parseFloat(amountPaid),
-        paymentMethod,
-        paymentChannel,
-        date: date.toISOString(),
-        creditTerm: paymentMethod === 'credit' ? parseInt(creditTerm, 10) : undefined,
-      };
-      await saleService.addSale(payload);
-      Alert.alert(t('sale.successtitle'), t('sale.successmessage'));
-      resetForm(); // stay on page
+      const result = await saleService.addSale(payload);
+      resetForm();
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+        if (!createNew) router.replace('/sales');
+        return;
+      }
+
+      const saved = result?.sale ?? result;
+      if (!createNew && saved?._id) {
+        // Post-save screen with the receipt actions
+        router.replace({ pathname: '/sales/receipt/[id]', params: { id: saved._id } });
+        return;
+      }
+      Alert.alert(t('sale.successtitle'), t('sale.successmessage'), [
+        { text: t('common.ok') },
+        ...(saved?._id
+          ? [{ text: t('receipt.share'), onPress: () => shareSavedReceipt(saved._id) }]
+          : []),
+      ]);
+      if (!createNew) router.replace('/sales');
     } catch {
       Alert.alert(t('sale.errortitle') || t('sale.genericerror'));
     } finally {
@@ -283,11 +309,29 @@ export default function AddSaleScreen() {
     }
   };
 
-  const warehouseDropdown = warehouses.map(w => ({
-    label: w.name,
-    value: w._id,
-  }));
+  const submitSale = async (createNew: boolean): Promise<void> => {
+    if (!validateInputs()) return;
 
+    // Credit beyond the customer's limit needs an explicit override
+    const payload = buildPayload();
+    const newDue = Math.max(calculatePrice() - payload.amountPaid, 0);
+    if (newDue > 0 && exceedsCreditLimit(customer, newDue)) {
+      Alert.alert(
+        t('customers.creditLimitTitle'),
+        t('customers.creditLimitMessage', {
+          name: customer?.name,
+          balance: (customer?.balance ?? 0).toFixed(2),
+          limit: (customer?.creditLimit ?? 0).toFixed(2),
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('customers.saveAnyway'), style: 'destructive', onPress: () => saveSale(payload, createNew) },
+        ],
+      );
+      return;
+    }
+    await saveSale(payload, createNew);
+  };
 
   return (
     <SafeAreaView style={styles.container}>
@@ -305,93 +349,32 @@ export default function AddSaleScreen() {
       </LinearGradient>
 
       <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
-        {/* Customer Name */}
+        {/* Customer */}
         <View style={styles.inputContainer}>
           <Text style={styles.inputLabel}>{t('sale.customername')}*</Text>
-          <TextInput
-            style={styles.input}
-            placeholder={t('sale.customernameplaceholder')}
-            placeholderTextColor="#94a3b8"
-            value={customer}
-            onChangeText={setCustomer}
-            autoCorrect={false}
-            autoCapitalize="words"
-          />
-        </View>
-
-        {/* Warehouse Dropdown */}
-        <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>{t('sale.warehouse')}*</Text>
-          <Dropdown
-            style={styles.dropdown}
-            placeholderStyle={styles.placeholderStyle}
-            selectedTextStyle={styles.selectedTextStyle}
-            inputSearchStyle={styles.inputSearchStyle}
-            iconStyle={styles.iconStyle}
-            data={warehouseDropdown}
-            search
-            maxHeight={300}
-            labelField="label"
-            valueField="value"
-            placeholder={t('sale.selectwarehouse')}
-            searchPlaceholder={t('sale.search')}
-            value={selectedWarehouse}
-            onChange={item => setSelectedWarehouse(item.value)}
-            renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="archive" size={20} color="#64748b" />}
-          />
-        </View>
-
-        {/* Product Selector */}
-        <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>{t('sale.product')}*</Text>
-          <TouchableOpacity style={styles.productSelector} onPress={() => setShowProductDropdown(true)}>
-            <Text style={selectedProduct ? styles.selectedProductText : styles.placeholderStyle}>
-              {selectedProduct
-                ? `${selectedProduct.name} ${selectedProduct.brand ?? ''} (${selectedProduct.unit ?? ''}) - ${selectedProduct.quantity ?? 0}`
-                : t('sale.selectproduct')}
-            </Text>
-            <Feather name="chevron-down" size={20} color="#64748b" />
-          </TouchableOpacity>
-        </View>
-
-        {/* Quantity and Unit Price */}
-        <View style={styles.row}>
-          <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-            <Text style={styles.inputLabel}>{t('sale.quantity')}*</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="0"
-              placeholderTextColor="#94a3b8"
-              keyboardType="numeric"
-              value={quantity}
-              onChangeText={text => {
-                // Allow only positive decimals with up to 2 decimals
-                if (/^\d*\.?\d{0,2}$/.test(text)) setQuantity(text);
-              }}
-            />
-          </View>
-          <View style={[styles.inputContainer, { flex: 1 }]}>
-            <Text style={styles.inputLabel}>{t('sale.unitprice')}*</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="0.00"
-              placeholderTextColor="#94a3b8"
-              keyboardType="numeric"
-              value={unitPrice}
-              onChangeText={text => {
-                if (/^\d*\.?\d{0,2}$/.test(text)) setUnitPrice(text);
-              }}
-            />
-          </View>
+          <CustomerPicker value={customer} onChange={setCustomer} />
         </View>
 
-        {/* Total Price */}
-        <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>{t('sale.total')}</Text>
-          <View style={styles.totalContainer}>
-            <Text style={styles.totalAmount}>${calculatePrice().toFixed(2)}</Text>
-          </View>
-        </View>
+        {/* Cart Lines */}
+        <SaleCart
+          lines={lines}
+          onAdd={() => openLineEditor(null)}
+          onEdit={openLineEditor}
+          onRemove={handleLineRemove}
+          onScan={() => setShowScanner(true)}
+        />
+
+        {/* Invoice discount and totals */}
+        <SaleTotals
+          totals={totals}
+          pricesIncludeTax={taxSettings.pricesIncludeTax}
+          invoiceDiscount={invoiceDiscount}
+          invoiceDiscountType={invoiceDiscountType}
+          onDiscountChange={(value, type) => {
+            setInvoiceDiscount(value);
+            setInvoiceDiscountType(type);
+          }}
+        />
 
         {/* Payment Channel (cash, bank) */}
         <View style={styles.inputContainer}>
@@ -521,7 +504,7 @@ export default function AddSaleScreen() {
           {/* Save & Go Back */}
           <TouchableOpacity
             style={[styles.saveButton, { flex: 1, marginRight: 8 }, loading && { opacity: 0.7 }]}
-            onPress={handleSave}
+            onPress={() => submitSale(false)}
             disabled={loading}
             activeOpacity={0.9}
           >
@@ -537,7 +520,7 @@ export default function AddSaleScreen() {
           {/* Save & Create New */}
           <TouchableOpacity
             style={[styles.saveButton, { flex: 1, marginLeft: 8 }, loading && { opacity: 0.7 }]}
-            onPress={handleSaveAndNew}
+            onPress={() => submitSale(true)}
             disabled={loading}
             activeOpacity={0.9}
           >
@@ -552,68 +535,30 @@ export default function AddSaleScreen() {
         </View>
       </ScrollView>
 
-      {/* Product Selection Modal */}
-      <Modal visible={showProductDropdown} transparent animationType="slide" onRequestClose={() => setShowProductDropdown(false)}>
-        <TouchableWithoutFeedback onPress={() => setShowProductDropdown(false)}>
-          <View style={styles.modalOverlay}>
-            <TouchableWithoutFeedback>
-              <View style={styles.modalContainer}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>{t('sale.selectproduct')}</Text>
-                  <TouchableOpacity onPress={() => setShowProductDropdown(false)}>
-                    <Feather name="x" size={24} color="#475569" />
-                  </TouchableOpacity>
-                </View>
-
-                <View style={styles.searchContainer}>
-                  <Feather name="search" size={20} color="#64748b" style={styles.searchIcon} />
-                  <TextInput
-                    style={styles.searchInput}
-                    placeholder={t('sale.searchproduct')}
-                    placeholderTextColor="#94a3b8"
-                    value={productSearch}
-                    onChangeText={setProductSearch}
-                    autoFocus
-                  />
-                </View>
-
-                {productLoading ? (
-                  <ActivityIndicator size="large" color="#6d28d9" style={styles.loader} />
-                ) : filteredProducts.length > 0 ? (
-                  <FlatList
-                    data={filteredProducts}
-                    keyExtractor={item => item._id}
-                    renderItem={({ item }) => (
-                      <TouchableOpacity style={styles.productItem} onPress={() => handleProductSelect(item)}>
-                        <Text style={styles.productItemText}>
-                          {item.name} ({item.unit ?? ''}) - {item.quantity ?? 0}
-                        </Text>
-                        {item.brand && <Text style={styles.productItemBrand}>{item.brand}</Text>}
-                      </TouchableOpacity>
-                    )}
-                    ItemSeparatorComponent={() => <View style={styles.separator} />}
-                  />
-                ) : (
-                  <View style={styles.emptyProductList}>
-                    <Text style={styles.emptyProductText}>
-                      {selectedWarehouse ? t('sale.noproductsinwarehouse') : t('sale.selectwarehouseFirst')}
-                    </Text>
-                  </View>
-                )}
-              </View>
-            </TouchableWithoutFeedback>
-          </View>
-        </TouchableWithoutFeedback>
-      </Modal>
+      <SaleLineEditor
+        visible={showLineEditor}
+        warehouses={warehouses}
+        initialLine={editingLine}
+        reservedQuantity={reservedQuantity}
+        defaultTaxRate={taxSettings.taxRate}
+        priceList={priceList}
+        onSave={handleLineSave}
+        onClose={() => {
+          setShowLineEditor(false);
+          setEditingLine(null);
+        }}
+      />
+
+      <BarcodeScannerModal
+        visible={showScanner}
+        onScanned={handleScanned}
+        onClose={() => setShowScanner(false)}
+      />
     </SafeAreaView>
   );
 }
 
 const styles = StyleSheet.create({
-  loader: {
-    marginVertical: 20,
-  },
-
   container: {
     flex: 1,
     backgroundColor: '#f8fafc',
@@ -655,68 +600,6 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#e2e8f0',
   },
-  dropdown: {
-    height: 50,
-    paddingHorizontal: 8,
-    backgroundColor: '#f8fafc',
-    borderRadius: 12,
-    borderWidth: 1,
-    borderColor: '#e2e8f0',
-  },
-  placeholderStyle: {
-    fontSize: 16,
-    color: '#94a3b8',
-  },
-  selectedTextStyle: {
-    fontSize: 16,
-    color: '#1e293b',
-  },
-  inputSearchStyle: {
-    height: 40,
-    fontSize: 16,
-  },
-  iconStyle: {
-    width: 20,
-    height: 20,
-  },
-  dropdownIcon: {
-    marginRight: 8,
-  },
-  productSelector: {
-    backgroundColor: '#f8fafc',
-    borderRadius: 12,
-    padding: 16,
-    fontSize: 16,
-    borderWidth: 1,
-    borderColor: '#e2e8f0',
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-  },
-  selectedProductText: {
-    fontSize: 16,
-    color: '#1e293b',
-  },
-  row: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    marginBottom: 16,
-  },
-  totalContainer: {
-    backgroundColor: '#f8fafc',
-    borderRadius: 12,
-    padding: 16,
-    borderWidth: 1,
-    borderColor: '#e2e8f0',
-    height: 50,
-    justifyContent: 'center',
-  },
-  totalAmount: {
-    fontSize: 16,
-    color: '#6d28d9',
-    fontWeight: '600',
-    textAlign: 'right',
-  },
   paymentMethodContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -796,79 +679,4 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     fontSize: 16,
   },
-  modalOverlay: {
-    flex: 1,
-    backgroundColor: 'rgba(0,0,0,0.5)',
-    justifyContent: 'flex-end',
-  },
-  modalContainer: {
-    backgroundColor: '#fff',
-    borderTopLeftRadius: 24,
-    borderTopRightRadius: 24,
-    paddingBottom: 20,
-    paddingTop: 16,
-    height: '70%',
-  },
-  modalHeader: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingBottom: 16,
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: '600',
-    color: '#1e293b',
-  },
-  searchContainer: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#f8fafc',
-    borderRadius: 12,
-    marginHorizontal: 20,
-    marginBottom: 16,
-    paddingHorizontal: 12,
-    borderWidth: 1,
-    borderColor: '#e2e8f0',
-  },
-  searchIcon: {
-    marginRight: 8,
-  },
-  searchInput: {
-    flex: 1,
-    height: 50,
-    fontSize: 16,
-    color: '#1e293b',
-  },
-  productItem: {
-    paddingVertical: 14,
-    paddingHorizontal: 20,
-  },
-  productItemText: {
-    fontSize: 16,
-    color: '#1e293b',
-    fontWeight: '500',
-  },
-  productItemBrand: {
-    fontSize: 14,
-    color: '#64748b',
-    marginTop: 4,
-  },
-  separator: {
-    height: 1,
-    backgroundColor: '#e2e8f0',
-    marginHorizontal: 20,
-  },
-  emptyProductList: {
-    flex: 1,
-    justifyContent: 'center',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-  },
-  emptyProductText: {
-    fontSize: 16,
-    color: '#64748b',
-    textAlign: 'center',
-  },
 });
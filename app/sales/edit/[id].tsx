@@ -2,12 +2,11 @@ import { Feather } from '@expo/vector-icons';
 import DateTimePicker from '@react-native-community/datetimepicker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useLocalSearchParams, useRouter } from 'expo-router';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
     ActivityIndicator,
     Alert,
-    FlatList,
     Modal,
     Platform,
     ScrollView,
@@ -15,29 +14,33 @@ import {
     Text,
     TextInput,
     TouchableOpacity,
-    TouchableWithoutFeedback,
     View,
 } from 'react-native';
-import { Dropdown } from 'react-native-element-dropdown';
 import { useSelector } from 'react-redux';
 import { RootState } from '../../../app/store';
-
-import productService from '@/services/productService';
-import saleService from '@/services/saleService';
+import CustomerPicker from '../../../components/CustomerPicker';
+import SaleCart from '../../../components/SaleCart';
+import SaleLineEditor, { CartLine } from '../../../components/SaleLineEditor';
+import SaleTotals from '../../../components/SaleTotals';
+
+import businessService from '@/services/businessService';
+import { Customer } from '@/services/customerService';
+import { applyPriceList, PriceList, priceListForCustomer } from '@/services/priceListService';
+import { idOf, stockIn, unitOptionPrice } from '@/services/productService';
+import saleService, {
+  calculateSaleTotals,
+  DiscountType,
+  getSaleLines,
+  hasSaleReturns,
+  SaleData,
+  summarizePayments,
+} from '@/services/saleService';
 import warehouseService from '@/services/warehouseService';
 
 interface Warehouse {
   _id: string;
   name: string;
 }
-interface Product {
-  _id: string;
-  name: string;
-  brand?: string;
-  price?: number;          // assumed unit price
-  quantity?: number;       // current stock (needed for validation)
-  warehouse?: Warehouse | string;
-}
 
 export default function EditSaleScreen() {
   const { t } = useTranslation();
@@ -47,22 +50,15 @@ export default function EditSaleScreen() {
   const userId = useSelector((state: RootState) => state.auth.user?._id);
 
   const [warehouses, setWarehouses] = useState<Warehouse[]>([]);
-  const [selectedWarehouse, setSelectedWarehouse] = useState<string>('');
-  const [originalWarehouse, setOriginalWarehouse] = useState<string>('');
-
-  const [productsLoading, setProductsLoading] = useState(false);
-  const [products, setProducts] = useState<Product[]>([]);
-  const [filteredProducts, setFilteredProducts] = useState<Product[]>([]);
-  const [showProductDropdown, setShowProductDropdown] = useState<boolean>(false);
-  const [productSearch, setProductSearch] = useState<string>('');
+  const [lines, setLines] = useState<CartLine[]>([]);
+  const [showLineEditor, setShowLineEditor] = useState<boolean>(false);
+  const [editingLine, setEditingLine] = useState<CartLine | null>(null);
 
-  const [customer, setCustomer] = useState<string>('');
-  const [productId, setProductId] = useState<string>('');
-  const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
-
-  const [unitPrice, setUnitPrice] = useState<string>(''); // FIX: always per-unit
-  const [quantity, setQuantity] = useState<string>('');
-  const [amountPaid, setAmountPaid] = useState<string>('0');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [priceList, setPriceList] = useState<PriceList | null>(null);
+  const [receiptNumber, setReceiptNumber] = useState<string>('');
+  // Payments are recorded one by one from the sale page; editing the sale leaves them alone
+  const [paidSoFar, setPaidSoFar] = useState<number>(0);
 
   const [date, setDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
@@ -70,42 +66,77 @@ export default function EditSaleScreen() {
   const [paymentMethod, setPaymentMethod] = useState<string>('cash');
   const [creditTerm, setCreditTerm] = useState<string>('30');
   const [paymentChannel, setPaymentChannel] = useState<string>('cash');
+  const [invoiceDiscount, setInvoiceDiscount] = useState<string>('');
+  const [invoiceDiscountType, setInvoiceDiscountType] = useState<DiscountType>('amount');
+  // Pricing mode the sale was recorded with; new lines take the business rate
+  const [pricesIncludeTax, setPricesIncludeTax] = useState<boolean>(false);
+  const [defaultTaxRate, setDefaultTaxRate] = useState<number>(0);
 
   const [loading, setLoading] = useState<boolean>(false);
   const [initialLoading, setInitialLoading] = useState<boolean>(true);
-  const [, setOriginalSale] = useState<any>(null);
+  const [lockedByReturns, setLockedByReturns] = useState<boolean>(false);
 
   useEffect(() => {
-    const fetchSaleDetails = async () => {
+    const fetchSaleDetails = async (warehouseList: Warehouse[]) => {
       try {
         const data = await saleService.getSaleById(id);
-        console.log("backend:", data);
-
-        setCustomer(data.customerName ?? '');
-
-        const warehouseId = typeof data.product?.warehouse === 'string'
-          ? data.product.warehouse
-          : data.product?.warehouse?._id;
-        if (warehouseId) {
-          setSelectedWarehouse(warehouseId);
-          setOriginalWarehouse(warehouseId);
-        }
-
-        setProductId(data.product?._id ?? '');
-        setSelectedProduct(data.product as Product ?? null);
-
-        // FIX: store pure unit price
-        if (data.price && data.quantity) {
-          setUnitPrice((data.price / data.quantity).toString());
-        } else {
-          setUnitPrice('0');
-        }
-
-        setQuantity(data.quantity?.toString() ?? '');
-        setAmountPaid(data.amountPaid?.toString() ?? '0');
+        const [returns, payments] = await Promise.all([
+          saleService.getReturns(id).catch(() => undefined),
+          saleService.getPayments(id).catch(() => undefined),
+        ]);
+        setLockedByReturns(hasSaleReturns(data, returns));
+        setPaidSoFar(summarizePayments(data, payments, returns).amountPaid);
+
+        // Older sales only carry the typed name; picking a customer links them
+        setCustomer(
+          data.customer && typeof data.customer === 'object'
+            ? data.customer
+            : { _id: data.customer ?? '', name: data.customerName ?? '' },
+        );
+        setReceiptNumber(data.receiptNumber ?? '');
+        priceListForCustomer(data.customer).then(setPriceList).catch(() => {});
+
+        // Map every sale line (or a legacy single product) into the cart
+        setLines(
+          getSaleLines(data).map((line, index) => {
+            const warehouseId = idOf(line.warehouse);
+            const warehouse = warehouseList.find(w => w._id === warehouseId) ?? {
+              _id: warehouseId ?? '',
+              name: line.warehouse?.name ?? '',
+            };
+            return {
+              key: `${line.product?._id ?? 'line'}-${index}`,
+              product: {
+                _id: line.product?._id ?? '',
+                name: line.product?.name ?? t('sales.unknown'),
+                brand: line.product?.brand,
+                unit: line.product?.unit,
+                unitConversions: line.product?.unitConversions,
+                quantity: line.product ? stockIn(line.product, warehouseId ?? '') : undefined,
+                price: line.product?.sellingPrice,
+                buyingPrice: line.product?.buyingPrice,
+                taxRate: line.product?.taxRate,
+              },
+              warehouse,
+              quantity: line.quantity,
+              unitPrice: line.unitPrice,
+              discount: line.discount,
+              discountType: line.discountType,
+              taxRate: line.taxRate,
+              unit: line.unit,
+              unitFactor: line.unitFactor,
+              unitCost: line.unitCost,
+              listPrice: line.listPrice,
+              priceList: line.priceList,
+            };
+          }),
+        );
 
+        setInvoiceDiscount(data.invoiceDiscount ? String(data.invoiceDiscount) : '');
+        setInvoiceDiscountType(data.invoiceDiscountType ?? 'amount');
+        setPricesIncludeTax(!!data.pricesIncludeTax);
         setDate(new Date(data.date));
-        setOriginalSale(data);
+        setPaymentChannel(data.paymentChannel || 'cash');
 
         const pm = ['paid'].includes(data.paymentStatus)
           ? 'cash'
@@ -126,124 +157,66 @@ export default function EditSaleScreen() {
       try {
         const warehousesData = await warehouseService.getAllWarehouses();
         setWarehouses(warehousesData);
-        await fetchSaleDetails();
+        businessService
+          .getTaxSettings({ force: true })
+          .then(settings => setDefaultTaxRate(settings.taxRate))
+          .catch(() => {});
+        await fetchSaleDetails(Array.isArray(warehousesData) ? warehousesData : []);
       } finally {
         setInitialLoading(false);
       }
     })();
   }, [id, t]);
 
-  const fetchProductsByWarehouse = useCallback(async () => {
-    if (!selectedWarehouse) return;
-    try {
-      setProductsLoading(true);
-      const data = await productService.getByWarehouse(selectedWarehouse);
-      setProducts(data);
-      setFilteredProducts(data);
-    } catch {
-      Alert.alert(t('editSale.errorTitle'), t('editSale.errorFetchProducts'));
-    } finally {
-      setProductsLoading(false);
-    }
-  }, [selectedWarehouse, t]);
-
-  useEffect(() => {
-    if (!selectedWarehouse) return;
-
-    if (selectedWarehouse !== originalWarehouse) {
-      setSelectedProduct(null);
-      setProductId('');
-      setUnitPrice('');
-      setProductSearch('');
-      setProducts([]);
-      setFilteredProducts([]);
-    }
-
-    fetchProductsByWarehouse();
-  }, [selectedWarehouse, fetchProductsByWarehouse, originalWarehouse]);
-
-  useEffect(() => {
-    if (!productId || selectedProduct) return;
-    if (!products.length) return;
-
-    const match = products.find(p => p._id === productId);
-    if (match) {
-      setSelectedProduct(match);
-      // FIX: ensure DB stores unit price; fallback prevents total price mistake
-      setUnitPrice(match.price?.toString() ?? '');
-    }
-  }, [products, productId, selectedProduct]);
-
-  useEffect(() => {
-    if (productSearch) {
-      const filtered = products.filter(
-        (p) =>
-          p.name.toLowerCase().includes(productSearch.toLowerCase()) ||
-          (p.brand?.toLowerCase().includes(productSearch.toLowerCase()) ?? false),
-      );
-      setFilteredProducts(filtered);
-    } else {
-      setFilteredProducts(products);
-    }
-  }, [productSearch, products]);
-
-  const handleProductSelect = useCallback((product: Product) => {
-    setSelectedProduct(product);
-    setProductId(product._id);
-    // FIX: set pure unit price from DB
-    setUnitPrice(product.price?.toString() ?? '');
-    setShowProductDropdown(false);
-  }, []);
-
-  const handleOpenProductDropdown = () => {
-    setShowProductDropdown(true);
-    if (selectedWarehouse && products.length === 0) {
-      fetchProductsByWarehouse();
-    }
+  // Saved prices stand until the customer is changed; then the new list reprices the lines
+  const handleCustomerChange = async (next: Customer | null) => {
+    setCustomer(next);
+    const list = await priceListForCustomer(next).catch(() => null);
+    setPriceList(list);
+    setLines(prev => prev.map(l => applyPriceList(l, list)));
   };
 
-  const calculatePrice = (): number => {
-    const qty = parseFloat(quantity);
-    const price = parseFloat(unitPrice);
-    if (isNaN(qty) || isNaN(price)) return 0;
-    return qty * price;
+  const openLineEditor = (line: CartLine | null) => {
+    setEditingLine(line);
+    setShowLineEditor(true);
   };
 
-    useEffect(() => {
-    if (initialLoading) return;
-    if (paymentMethod !== 'cash') return;
-
-    const qty = parseFloat(quantity) || 0;
-    const price = parseFloat(unitPrice) || 0;
-    const total = qty * price;
+  const handleLineSave = (line: CartLine) => {
+    setLines(prev =>
+      prev.some(l => l.key === line.key)
+        ? prev.map(l => (l.key === line.key ? line : l))
+        : [...prev, line],
+    );
+    setShowLineEditor(false);
+    setEditingLine(null);
+  };
 
-    setAmountPaid(total.toString());
-    }, [quantity, unitPrice, paymentMethod, initialLoading]);
+  const handleLineRemove = (key: string) => {
+    setLines(prev => prev.filter(l => l.key !== key));
+  };
 
+  const totals = calculateSaleTotals(lines, {
+    invoiceDiscount: parseFloat(invoiceDiscount) || 0,
+    invoiceDiscountType,
+    pricesIncludeTax,
+  });
+  const calculatePrice = (): number => totals.total;
 
   const validateInputs = (): boolean => {
-    if (!selectedWarehouse) {
-      Alert.alert(t('sale.errortitle'), t('sale.selectwarehouse'));
+    if (!customer?.name.trim()) {
+      Alert.alert(t('sale.errortitle'), t('sale.selectcustomer'));
       return false;
     }
-    if (!customer.trim()) {
-      Alert.alert(t('sale.errortitle'), t('sale.fillcustomername'));
+    if (lines.length === 0) {
+      Alert.alert(t('sale.errortitle'), t('sale.emptycarterror'));
       return false;
     }
-    if (!productId || !selectedProduct) {
-      Alert.alert(t('sale.errortitle'), t('sale.selectproduct'));
+    if (lines.some(l => !l.product._id)) {
+      Alert.alert(t('editSale.errorTitle'), t('editSale.errorProductDeleted'));
       return false;
     }
-
-    const qty = parseFloat(quantity);
-    if (isNaN(qty) || qty <= 0) {
-      Alert.alert(t('sale.errortitle'), t('sale.invalidquantity'));
-      return false;
-    }
-
-    const price = parseFloat(unitPrice);
-    if (isNaN(price) || price <= 0) {
-      Alert.alert(t('sale.errortitle'), t('sale.invalidunitprice'));
+    if (invoiceDiscountType === 'percent' && (parseFloat(invoiceDiscount) || 0) > 100) {
+      Alert.alert(t('sale.errortitle'), t('sale.invaliddiscount'));
       return false;
     }
 
@@ -265,21 +238,15 @@ export default function EditSaleScreen() {
       }
     }
 
-    const paid = parseFloat(amountPaid) || 0;
-    const totalPrice = qty * price;
-
-    if (paid < 0) {
-      Alert.alert(t('sale.errortitle'), t('sale.invalidamountpaid'));
-      return false;
-    }
+    const totalPrice = calculatePrice();
 
-    if (paid > totalPrice) {
+    if (paidSoFar > totalPrice) {
       Alert.alert(t('sale.errortitle'), t('sale.amountpaidexceedstotal'));
       return false;
     }
 
-    if (paymentMethod === 'cash' && paid !== totalPrice) {
-      Alert.alert(t('sale.errortitle'), t('sale.cashPaymentFullAmount'));
+    if (paymentMethod === 'cash' && paidSoFar < totalPrice) {
+      Alert.alert(t('sale.errortitle'), t('editSale.cashNotCovered', { paid: paidSoFar.toFixed(2) }));
       return false;
     }
 
@@ -287,26 +254,38 @@ export default function EditSaleScreen() {
   };
 
   const handleUpdate = async () => {
+    if (lockedByReturns) {
+      Alert.alert(t('editSale.errorTitle'), t('editSale.lockedByReturns'));
+      return;
+    }
     if (!validateInputs()) return;
 
     try {
       setLoading(true);
 
-      const qty = parseFloat(quantity);
-      const pricePerUnit = parseFloat(unitPrice); // FIX: confirmed unit price
-      const totalPrice = qty * pricePerUnit;
-
-      const paid = paymentMethod === 'credit'
-        ? (amountPaid.trim() === '' ? 0 : parseFloat(amountPaid))
-        : totalPrice;
-
-      const payload: any = {
-        customerName: customer.trim(),
+      const payload: Partial<SaleData> = {
+        customer: customer?._id || undefined,
+        customerName: customer?.name.trim() ?? '',
         salesPerson: userId,
-        product: productId,
-        quantity: qty,
-        price: pricePerUnit, // FIX: send unit price only
-        amountPaid: paid,
+        items: lines.map(l => ({
+          product: l.product._id,
+          warehouse: l.warehouse._id,
+          quantity: l.quantity,
+          unitPrice: l.unitPrice,
+          discount: l.discount,
+          discountType: l.discountType,
+          taxRate: l.taxRate,
+          unit: l.unit,
+          unitFactor: l.unitFactor,
+          unitCost:
+            l.unitCost ??
+            unitOptionPrice(l.product, { unit: l.unit ?? l.product.unit ?? '', factor: l.unitFactor ?? 1 }, 'buyingPrice'),
+          listPrice: l.listPrice,
+          priceList: l.priceList,
+        })),
+        invoiceDiscount: parseFloat(invoiceDiscount) || 0,
+        invoiceDiscountType,
+        pricesIncludeTax,
         paymentMethod,
         paymentChannel,
         date: date.toISOString(),
@@ -330,7 +309,7 @@ export default function EditSaleScreen() {
             t('editSale.errorTitle'),
             t('sale.quantityExceedsStock', {
               available: data.details?.available ?? 'unknown',
-              requested: data.details?.requested ?? data.details?.requestedIncrease ?? quantity,
+              requested: data.details?.requested ?? data.details?.requestedIncrease ?? '',
             }),
           );
           return;
@@ -358,9 +337,6 @@ export default function EditSaleScreen() {
     );
   }
 
-  // ---------- Dropdown data ----------
-  const warehouseDropdown = warehouses.map((w) => ({ label: w.name, value: w._id }));
-
   return (
     <View style={styles.container}>
       <LinearGradient
@@ -378,88 +354,44 @@ export default function EditSaleScreen() {
 
       <ScrollView contentContainerStyle={styles.scrollContainer} showsVerticalScrollIndicator={false}>
         <View style={styles.formCard}>
-          {/* Customer Name */}
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('editSale.customerName')}</Text>
-            <TextInput
-              style={styles.input}
-              placeholder={t('editSale.customerNamePlaceholder')}
-              placeholderTextColor="#94a3b8"
-              value={customer}
-              onChangeText={setCustomer}
-            />
-          </View>
-
-          {/* Warehouse */}
-          <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('editSale.warehouse')}</Text>
-            <View style={styles.dropdownContainer}>
-              <Dropdown
-                style={styles.dropdown}
-                placeholderStyle={styles.placeholderStyle}
-                selectedTextStyle={styles.selectedTextStyle}
-                inputSearchStyle={styles.inputSearchStyle}
-                iconStyle={styles.iconStyle}
-                data={warehouseDropdown}
-                search
-                maxHeight={300}
-                labelField="label"
-                valueField="value"
-                placeholder={t('editSale.selectWarehouse')}
-                searchPlaceholder={t('editSale.search')}
-                value={selectedWarehouse}
-                onChange={(item) => setSelectedWarehouse(item.value)}
-                renderLeftIcon={() => (
-                  <Feather style={styles.dropdownIcon} name="archive" size={20} color="#64748b" />
-                )}
-              />
+          {receiptNumber ? (
+            <Text style={styles.receiptText}>
+              {t('sales.receiptNo')}: {receiptNumber}
+            </Text>
+          ) : null}
+
+          {lockedByReturns && (
+            <View style={styles.lockedNotice}>
+              <Feather name="lock" size={16} color="#b45309" />
+              <Text style={styles.lockedNoticeText}>{t('editSale.lockedByReturns')}</Text>
             </View>
-          </View>
+          )}
 
-          {/* Product */}
+          {/* Customer Name */}
           <View style={styles.inputContainer}>
-            <Text style={styles.inputLabel}>{t('editSale.product')}</Text>
-            <TouchableOpacity style={styles.productSelector} onPress={handleOpenProductDropdown}>
-              <Text style={selectedProduct ? styles.selectedProductText : styles.placeholderStyle}>
-                {selectedProduct?.name || t('editSale.selectProduct')}
-              </Text>
-              <Feather name="chevron-down" size={20} color="#64748b" />
-            </TouchableOpacity>
+            <Text style={styles.inputLabel}>{t('editSale.customerName')}</Text>
+            <CustomerPicker value={customer} onChange={handleCustomerChange} />
           </View>
 
-          {/* Quantity / Unit Price / Total */}
-          <View style={styles.row}>
-            <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>{t('editSale.quantity')}</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="0"
-                placeholderTextColor="#94a3b8"
-                keyboardType="numeric"
-                value={quantity}
-                onChangeText={setQuantity}
-              />
-            </View>
-
-            <View style={[styles.inputContainer, { flex: 1, marginRight: 12 }]}>
-              <Text style={styles.inputLabel}>{t('editSale.unitPrice')}</Text>
-              <TextInput
-                style={styles.input}
-                placeholder="0.00"
-                placeholderTextColor="#94a3b8"
-                keyboardType="numeric"
-                value={unitPrice}
-                onChangeText={setUnitPrice}
-              />
-            </View>
-
-            <View style={[styles.inputContainer, { flex: 1 }]}>
-              <Text style={styles.inputLabel}>{t('editSale.total')}</Text>
-              <View style={styles.totalContainer}>
-                <Text style={styles.totalAmount}>${calculatePrice().toFixed(2)}</Text>
-              </View>
-            </View>
-          </View>
+          {/* Sale Lines */}
+          <SaleCart
+            lines={lines}
+            onAdd={() => openLineEditor(null)}
+            onEdit={openLineEditor}
+            onRemove={handleLineRemove}
+          />
+
+          {/* Invoice discount and totals */}
+          <SaleTotals
+            totals={totals}
+            pricesIncludeTax={pricesIncludeTax}
+            invoiceDiscount={invoiceDiscount}
+            invoiceDiscountType={invoiceDiscountType}
+            onDiscountChange={(value, type) => {
+              setInvoiceDiscount(value);
+              setInvoiceDiscountType(type);
+            }}
+          />
 
           {/* Payment Channel */}
           <View style={styles.inputContainer}>
@@ -521,17 +453,11 @@ export default function EditSaleScreen() {
             />
           </View>
 
-          {/* Amount Paid (credit only) */}
-          <View style={[styles.inputContainer, { display: paymentMethod === 'credit' ? 'flex' : 'none' }]}>
-            <Text style={styles.inputLabel}>{t('editSale.amountPaidPartial')}</Text>
-            <TextInput
-              style={styles.input}
-              placeholder="0.00"
-              placeholderTextColor="#94a3b8"
-              keyboardType="numeric"
-              value={amountPaid}
-              onChangeText={setAmountPaid}
-            />
+          {/* Amount paid so far (read only; payments are recorded from the sale page) */}
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('editSale.paidSoFar')}</Text>
+            <Text style={styles.readOnlyValue}>ETB {paidSoFar.toFixed(2)}</Text>
+            <Text style={styles.readOnlyHint}>{t('editSale.paymentsRecordedSeparately')}</Text>
           </View>
 
           {/* Date */}
@@ -575,7 +501,12 @@ export default function EditSaleScreen() {
         </View>
 
         {/* Update */}
-        <TouchableOpacity style={styles.saveButton} onPress={handleUpdate} activeOpacity={0.9} disabled={loading}>
+        <TouchableOpacity
+          style={[styles.saveButton, lockedByReturns && { opacity: 0.5 }]}
+          onPress={handleUpdate}
+          activeOpacity={0.9}
+          disabled={loading || lockedByReturns}
+        >
           <LinearGradient colors={['#6d28d9', '#8b5cf6']} style={styles.gradientButton} start={{ x: 0, y: 0 }} end={{ x: 1, y: 0 }}>
             {loading ? (
               <ActivityIndicator size="small" color="#fff" />
@@ -589,60 +520,19 @@ export default function EditSaleScreen() {
         </TouchableOpacity>
       </ScrollView>
 
-      {/* Product Selection Modal */}
-      <Modal visible={showProductDropdown} transparent animationType="slide" onRequestClose={() => setShowProductDropdown(false)}>
-        <TouchableWithoutFeedback onPress={() => setShowProductDropdown(false)}>
-          <View style={styles.modalOverlay}>
-            <TouchableWithoutFeedback>
-              <View style={styles.modalContainer}>
-                <View style={styles.modalHeader}>
-                  <Text style={styles.modalTitle}>{t('editSale.selectProductTitle')}</Text>
-                  <TouchableOpacity onPress={() => setShowProductDropdown(false)}>
-                    <Feather name="x" size={24} color="#475569" />
-                  </TouchableOpacity>
-                </View>
-
-                <View style={styles.searchContainer}>
-                  <Feather name="search" size={20} color="#64748b" style={styles.searchIcon} />
-                  <TextInput
-                    style={styles.searchInput}
-                    placeholder={t('editSale.searchProduct')}
-                    placeholderTextColor="#94a3b8"
-                    value={productSearch}
-                    onChangeText={setProductSearch}
-                    autoFocus
-                  />
-                </View>
-
-                {productsLoading ? (
-                  <View style={{ alignItems: 'center', paddingVertical: 20 }}>
-                    <ActivityIndicator size="large" color="#6d28d9" />
-                    <Text style={{ marginTop: 10, color: '#6d28d9' }}>{t('editSale.loadingProducts')}</Text>
-                  </View>
-                ) : filteredProducts.length > 0 ? (
-                  <FlatList
-                    data={filteredProducts}
-                    keyExtractor={(item) => item._id}
-                    renderItem={({ item }) => (
-                      <TouchableOpacity style={styles.productItem} onPress={() => handleProductSelect(item)}>
-                        <Text style={styles.productItemText}>{item.name}</Text>
-                        {item.brand && <Text style={styles.productItemBrand}>{item.brand}</Text>}
-                      </TouchableOpacity>
-                    )}
-                    ItemSeparatorComponent={() => <View style={styles.separator} />}
-                  />
-                ) : (
-                  <View style={styles.emptyProductList}>
-                    <Text style={styles.emptyProductText}>
-                      {selectedWarehouse ? t('editSale.noProductsInWarehouse') : t('sale.selectwarehouseFirst')}
-                    </Text>
-                  </View>
-                )}
-              </View>
-            </TouchableWithoutFeedback>
-          </View>
-        </TouchableWithoutFeedback>
-      </Modal>
+      <SaleLineEditor
+        visible={showLineEditor}
+        warehouses={warehouses}
+        initialLine={editingLine}
+        validateStock={false}
+        defaultTaxRate={defaultTaxRate}
+        priceList={priceList}
+        onSave={handleLineSave}
+        onClose={() => {
+          setShowLineEditor(false);
+          setEditingLine(null);
+        }}
+      />
     </View>
   );
 }
@@ -706,71 +596,6 @@ const styles = StyleSheet.create({
         borderWidth: 1,
         borderColor: '#e2e8f0',
     },
-    dropdownContainer: {
-        backgroundColor: '#f8fafc',
-        borderRadius: 12,
-        borderWidth: 1,
-        borderColor: '#e2e8f0',
-        paddingHorizontal: 8,
-    },
-    dropdown: {
-        height: 50,
-        paddingHorizontal: 8,
-    },
-    placeholderStyle: {
-        fontSize: 16,
-        color: '#94a3b8',
-    },
-    selectedTextStyle: {
-        fontSize: 16,
-        color: '#1e293b',
-    },
-    inputSearchStyle: {
-        height: 40,
-        fontSize: 16,
-    },
-    iconStyle: {
-        width: 20,
-        height: 20,
-    },
-    dropdownIcon: {
-        marginRight: 8,
-    },
-    productSelector: {
-        backgroundColor: '#f8fafc',
-        borderRadius: 12,
-        padding: 16,
-        fontSize: 16,
-        borderWidth: 1,
-        borderColor: '#e2e8f0',
-        flexDirection: 'row',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-    },
-    selectedProductText: {
-        fontSize: 16,
-        color: '#1e293b',
-    },
-    row: {
-        flexDirection: 'row',
-        justifyContent: 'space-between',
-        marginBottom: 16,
-    },
-    totalContainer: {
-        backgroundColor: '#f8fafc',
-        borderRadius: 12,
-        padding: 16,
-        borderWidth: 1,
-        borderColor: '#e2e8f0',
-        height: 50,
-        justifyContent: 'center',
-    },
-    totalAmount: {
-        fontSize: 16,
-        color: '#6d28d9',
-        fontWeight: '600',
-        textAlign: 'right',
-    },
     dateInput: {
         backgroundColor: '#f8fafc',
         borderRadius: 12,
@@ -855,79 +680,35 @@ const styles = StyleSheet.create({
         color: '#6d28d9',
         fontSize: 14,
     },
-    modalOverlay: {
-        flex: 1,
-        backgroundColor: 'rgba(0,0,0,0.5)',
-        justifyContent: 'flex-end',
-    },
-    modalContainer: {
-        backgroundColor: '#fff',
-        borderTopLeftRadius: 24,
-        borderTopRightRadius: 24,
-        paddingBottom: 20,
-        paddingTop: 16,
-        height: '70%',
-    },
-    modalHeader: {
-        flexDirection: 'row',
-        justifyContent: 'space-between',
-        alignItems: 'center',
-        paddingHorizontal: 20,
-        paddingBottom: 16,
-    },
-    modalTitle: {
-        fontSize: 18,
-        fontWeight: '600',
-        color: '#1e293b',
+    receiptText: {
+        marginBottom: 12,
+        fontSize: 13,
+        color: '#64748b',
     },
-    searchContainer: {
+    lockedNotice: {
         flexDirection: 'row',
         alignItems: 'center',
-        backgroundColor: '#f8fafc',
-        borderRadius: 12,
-        marginHorizontal: 20,
-        marginBottom: 16,
-        paddingHorizontal: 12,
+        gap: 8,
+        backgroundColor: '#fffbeb',
+        borderColor: '#fde68a',
         borderWidth: 1,
-        borderColor: '#e2e8f0',
-    },
-    searchIcon: {
-        marginRight: 8,
+        borderRadius: 10,
+        padding: 12,
+        marginBottom: 16,
     },
-    searchInput: {
+    lockedNoticeText: {
         flex: 1,
-        height: 50,
-        fontSize: 16,
-        color: '#1e293b',
-    },
-    productItem: {
-        paddingVertical: 14,
-        paddingHorizontal: 20,
+        fontSize: 13,
+        color: '#b45309',
     },
-    productItemText: {
+    readOnlyValue: {
         fontSize: 16,
+        fontWeight: '600',
         color: '#1e293b',
-        fontWeight: '500',
     },
-    productItemBrand: {
-        fontSize: 14,
+    readOnlyHint: {
+        fontSize: 12,
         color: '#64748b',
         marginTop: 4,
     },
-    separator: {
-        height: 1,
-        backgroundColor: '#e2e8f0',
-        marginHorizontal: 20,
-    },
-    emptyProductList: {
-        flex: 1,
-        justifyContent: 'center',
-        alignItems: 'center',
-        paddingHorizontal: 20,
-    },
-    emptyProductText: {
-        fontSize: 16,
-        color: '#64748b',
-        textAlign: 'center',
-    },
 });
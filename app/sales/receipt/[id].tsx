@@ -0,0 +1,325 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+
+import receiptService, { getReceiptTotals } from '@/services/receiptService';
+import saleService from '@/services/saleService';
+
+// Shown right after a sale is saved: receipt preview with share/print actions
+export default function SaleReceiptScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [sale, setSale] = useState<any>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<'share' | 'print' | null>(null);
+
+  useEffect(() => {
+    const fetchSale = async () => {
+      try {
+        setSale(await saleService.getSaleById(id));
+      } catch {
+        Alert.alert(t('sale.errortitle'), t('receipt.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (id) fetchSale();
+  }, [id, t]);
+
+  const runAction = async (action: 'share' | 'print') => {
+    if (!sale || busy) return;
+    setBusy(action);
+    try {
+      if (action === 'share') await receiptService.shareReceipt(sale);
+      else await receiptService.printReceipt(sale);
+    } catch {
+      Alert.alert(t('sale.errortitle'), t('receipt.failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6d28d9" />
+      </View>
+    );
+  }
+
+  const { lines, subtotal, discount, tax, pricesIncludeTax, total, paid, due } = getReceiptTotals(sale);
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/sales')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('receipt.title')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer}>
+        <View style={styles.successBox}>
+          <Feather name="check-circle" size={40} color="#10b981" />
+          <Text style={styles.successText}>{t('sale.successmessage')}</Text>
+        </View>
+
+        {sale && (
+          <View style={styles.card}>
+            <Text style={styles.receiptNumber}>
+              {t('receipt.receiptNo')}: {sale.receiptNumber || sale._id}
+            </Text>
+            <Text style={styles.meta}>
+              {sale.customerName} · {new Date(sale.date).toLocaleString()}
+            </Text>
+
+            {lines.map((line, index) => (
+              <View key={index} style={styles.lineRow}>
+                <Text style={styles.lineName} numberOfLines={1}>
+                  {line.product?.name ?? t('sales.unknown')} × {line.quantity}
+                </Text>
+                <Text style={styles.lineAmount}>ETB {line.lineTotal.toFixed(2)}</Text>
+              </View>
+            ))}
+
+            <View style={styles.totals}>
+              {(discount > 0 || tax > 0) && (
+                <View style={styles.lineRow}>
+                  <Text style={styles.lineName}>{t('receipt.subtotal')}</Text>
+                  <Text style={styles.lineAmount}>ETB {subtotal.toFixed(2)}</Text>
+                </View>
+              )}
+              {discount > 0 && (
+                <View style={styles.lineRow}>
+                  <Text style={styles.lineName}>{t('receipt.discount')}</Text>
+                  <Text style={styles.lineAmount}>-ETB {discount.toFixed(2)}</Text>
+                </View>
+              )}
+              {tax > 0 && (
+                <View style={styles.lineRow}>
+                  <Text style={styles.lineName}>{pricesIncludeTax ? t('receipt.taxIncluded') : t('receipt.tax')}</Text>
+                  <Text style={styles.lineAmount}>ETB {tax.toFixed(2)}</Text>
+                </View>
+              )}
+              <View style={styles.lineRow}>
+                <Text style={styles.totalLabel}>{t('receipt.total')}</Text>
+                <Text style={styles.totalValue}>ETB {total.toFixed(2)}</Text>
+              </View>
+              <View style={styles.lineRow}>
+                <Text style={styles.lineName}>{t('receipt.paid')}</Text>
+                <Text style={styles.lineAmount}>ETB {paid.toFixed(2)}</Text>
+              </View>
+              <View style={styles.lineRow}>
+                <Text style={styles.lineName}>{t('receipt.balanceDue')}</Text>
+                <Text style={[styles.lineAmount, due > 0 && styles.dueAmount]}>ETB {due.toFixed(2)}</Text>
+              </View>
+            </View>
+          </View>
+        )}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => runAction('share')}
+            disabled={!sale || !!busy}
+          >
+            {busy === 'share' ? (
+              <ActivityIndicator size="small" color="#6d28d9" />
+            ) : (
+              <Feather name="share-2" size={20} color="#6d28d9" />
+            )}
+            <Text style={styles.actionText}>{t('receipt.share')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => runAction('print')}
+            disabled={!sale || !!busy}
+          >
+            {busy === 'print' ? (
+              <ActivityIndicator size="small" color="#6d28d9" />
+            ) : (
+              <Feather name="printer" size={20} color="#6d28d9" />
+            )}
+            <Text style={styles.actionText}>{t('receipt.print')}</Text>
+          </TouchableOpacity>
+        </View>
+
+        <TouchableOpacity style={styles.primaryButton} onPress={() => router.replace('/sales/add')}>
+          <Feather name="plus-circle" size={20} color="#fff" />
+          <Text style={styles.primaryButtonText}>{t('receipt.newSale')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => router.replace('/sales')}>
+          <Text style={styles.secondaryButtonText}>{t('receipt.done')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  successBox: {
+    alignItems: 'center',
+    marginBottom: 20,
+  },
+  successText: {
+    marginTop: 8,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  receiptNumber: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  meta: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 4,
+    marginBottom: 12,
+  },
+  lineRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  lineName: {
+    flex: 1,
+    fontSize: 14,
+    color: '#475569',
+    marginRight: 8,
+  },
+  lineAmount: {
+    fontSize: 14,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  dueAmount: {
+    color: '#ef4444',
+    fontWeight: '700',
+  },
+  totals: {
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#cbd5e1',
+    marginTop: 8,
+    paddingTop: 8,
+  },
+  totalLabel: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  totalValue: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginBottom: 16,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#ede9fe',
+    borderRadius: 14,
+    padding: 14,
+  },
+  actionText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginBottom: 12,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    padding: 14,
+  },
+  secondaryButtonText: {
+    color: '#64748b',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,493 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import { idOf } from '@/services/productService';
+import saleService, {
+  calculateReturnValue,
+  getSaleLines,
+  returnedQuantities,
+  SaleReturn,
+  SaleReturnLine,
+  summarizePayments,
+} from '@/services/saleService';
+import warehouseService from '@/services/warehouseService';
+
+const CHANNELS = ['cash', 'bank'];
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// What is being sent back from one line: how many, and whether it can go back on the shelf
+interface ReturnDraft {
+  quantity: string;
+  restock: boolean;
+  warehouse?: string;
+}
+
+// Return items from an approved sale: restock or write off each line, then refund or credit the customer
+export default function SaleReturnScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [sale, setSale] = useState<any>(null);
+  const [returns, setReturns] = useState<SaleReturn[]>([]);
+  const [warehouses, setWarehouses] = useState<{ _id: string; name: string }[]>([]);
+  const [drafts, setDrafts] = useState<ReturnDraft[]>([]);
+  const [settlement, setSettlement] = useState<'refund' | 'credit'>('credit');
+  const [refundChannel, setRefundChannel] = useState<string>('cash');
+  const [reason, setReason] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const fetchSale = useCallback(async () => {
+    try {
+      const [saleData, history, warehouseList] = await Promise.all([
+        saleService.getSaleById(id),
+        saleService.getReturns(id),
+        warehouseService.getAllWarehouses(),
+      ]);
+      setSale(saleData);
+      setReturns(Array.isArray(history) ? history : []);
+      setWarehouses(Array.isArray(warehouseList) ? warehouseList : []);
+      setDrafts(
+        getSaleLines(saleData).map(line => ({ quantity: '', restock: true, warehouse: idOf(line.warehouse) }))
+      );
+    } catch {
+      Alert.alert(t('returns.errorTitle'), t('payments.loadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchSale();
+  }, [id, fetchSale]);
+
+  const lines = useMemo(() => (sale ? getSaleLines(sale) : []), [sale]);
+  const alreadyReturned = useMemo(() => returnedQuantities(returns), [returns]);
+  const summary = summarizePayments(sale, undefined, returns);
+
+  const returnValue = lines.reduce(
+    (sum, line, index) => sum + calculateReturnValue(line, Number(drafts[index]?.quantity) || 0),
+    0
+  );
+
+  const updateDraft = (index: number, changes: Partial<ReturnDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  const handleSubmit = async () => {
+    const items: SaleReturnLine[] = [];
+    for (let index = 0; index < lines.length; index++) {
+      const line = lines[index];
+      const draft = drafts[index];
+      const quantity = Number(draft?.quantity) || 0;
+      if (quantity <= 0) continue;
+      const returnable = line.quantity - (alreadyReturned.get(index) ?? 0);
+      if (quantity > returnable + 0.001) {
+        Alert.alert(
+          t('returns.errorTitle'),
+          t('returns.exceedsReturnable', { product: line.product?.name ?? '', count: returnable })
+        );
+        return;
+      }
+      items.push({
+        lineIndex: index,
+        product: idOf(line.product),
+        quantity,
+        unit: line.unit,
+        unitFactor: line.unitFactor,
+        restock: draft.restock,
+        ...(draft.restock && { warehouse: draft.warehouse ?? idOf(line.warehouse) }),
+      });
+    }
+
+    if (items.length === 0) {
+      Alert.alert(t('returns.errorTitle'), t('returns.nothingSelected'));
+      return;
+    }
+    if (settlement === 'refund' && returnValue > summary.amountPaid + 0.001) {
+      Alert.alert(t('returns.errorTitle'), t('returns.refundExceedsPaid', { paid: summary.amountPaid.toFixed(2) }));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saleService.createReturn(id, {
+        items,
+        settlement,
+        ...(settlement === 'refund' && { refundChannel }),
+        reason: reason.trim() || undefined,
+        date: new Date().toISOString(),
+      });
+      Alert.alert(t('returns.successTitle'), t('returns.saved'));
+      router.replace({ pathname: '/sales/[id]', params: { id } });
+    } catch {
+      Alert.alert(t('returns.errorTitle'), t('returns.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#6d28d9" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace({ pathname: '/sales/[id]', params: { id } })}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {sale?.receiptNumber ? t('returns.titleFor', { receipt: sale.receiptNumber }) : t('returns.title')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+        {lines.map((line, index) => {
+          const draft = drafts[index];
+          const returnable = Math.max(line.quantity - (alreadyReturned.get(index) ?? 0), 0);
+          if (!draft) return null;
+          return (
+            <View key={index} style={styles.card}>
+              <Text style={styles.productName} numberOfLines={1}>
+                {line.product?.name || t('sales.unknown')}
+              </Text>
+              <Text style={styles.muted}>
+                {t('returns.soldReturnable', {
+                  sold: line.quantity,
+                  returnable,
+                  unit: line.unit ?? '',
+                })}
+              </Text>
+
+              {returnable > 0 ? (
+                <>
+                  <View style={styles.quantityRow}>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={draft.quantity}
+                      onChangeText={input => {
+                        if (decimalPattern.test(input)) updateDraft(index, { quantity: input });
+                      }}
+                    />
+                    <TouchableOpacity
+                      style={styles.allButton}
+                      onPress={() => updateDraft(index, { quantity: String(returnable) })}
+                    >
+                      <Text style={styles.allButtonText}>{t('returns.all')}</Text>
+                    </TouchableOpacity>
+                    <Text style={styles.lineValue}>
+                      ETB {calculateReturnValue(line, Number(draft.quantity) || 0).toFixed(2)}
+                    </Text>
+                  </View>
+
+                  <View style={styles.chipRow}>
+                    <TouchableOpacity
+                      style={[styles.chip, draft.restock && styles.chipSelected]}
+                      onPress={() => updateDraft(index, { restock: true })}
+                    >
+                      <Text style={[styles.chipText, draft.restock && styles.chipTextSelected]}>
+                        {t('returns.restock')}
+                      </Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.chip, !draft.restock && styles.chipDamaged]}
+                      onPress={() => updateDraft(index, { restock: false })}
+                    >
+                      <Text style={[styles.chipText, !draft.restock && styles.chipTextSelected]}>
+                        {t('returns.damaged')}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+
+                  {draft.restock ? (
+                    <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chipRow}>
+                      {warehouses.map(warehouse => (
+                        <TouchableOpacity
+                          key={warehouse._id}
+                          style={[styles.chip, draft.warehouse === warehouse._id && styles.chipSelected]}
+                          onPress={() => updateDraft(index, { warehouse: warehouse._id })}
+                        >
+                          <Text style={[styles.chipText, draft.warehouse === warehouse._id && styles.chipTextSelected]}>
+                            {warehouse.name}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </ScrollView>
+                  ) : (
+                    <Text style={styles.hint}>{t('returns.damagedHint')}</Text>
+                  )}
+                </>
+              ) : (
+                <Text style={styles.hint}>{t('returns.fullyReturned')}</Text>
+              )}
+            </View>
+          );
+        })}
+
+        {/* Settlement */}
+        <View style={styles.card}>
+          <Text style={styles.label}>{t('returns.settlement')}</Text>
+          <View style={styles.chipRow}>
+            {(['credit', 'refund'] as const).map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, settlement === option && styles.chipSelected]}
+                onPress={() => setSettlement(option)}
+              >
+                <Text style={[styles.chipText, settlement === option && styles.chipTextSelected]}>
+                  {t(`returns.${option}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>{t(settlement === 'credit' ? 'returns.creditHint' : 'returns.refundHint')}</Text>
+
+          {settlement === 'refund' && (
+            <View style={styles.chipRow}>
+              {CHANNELS.map(channel => (
+                <TouchableOpacity
+                  key={channel}
+                  style={[styles.chip, refundChannel === channel && styles.chipSelected]}
+                  onPress={() => setRefundChannel(channel)}
+                >
+                  <Text style={[styles.chipText, refundChannel === channel && styles.chipTextSelected]}>
+                    {t(`sales.paymentChannel.${channel}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <Text style={[styles.label, { marginTop: 12 }]}>{t('returns.reason')}</Text>
+          <TextInput
+            style={[styles.input, styles.reasonInput]}
+            placeholder={t('returns.reasonPlaceholder')}
+            placeholderTextColor="#94a3b8"
+            value={reason}
+            onChangeText={setReason}
+            multiline
+          />
+
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>{t('returns.returnValue')}</Text>
+            <Text style={styles.totalValue}>ETB {returnValue.toFixed(2)}</Text>
+          </View>
+        </View>
+
+        <TouchableOpacity
+          style={[styles.saveButton, (saving || returnValue <= 0) && styles.saveButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={saving || returnValue <= 0}
+        >
+          {saving ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <>
+              <Feather name="corner-up-left" size={18} color="#fff" />
+              <Text style={styles.saveButtonText}>{t('returns.save')}</Text>
+            </>
+          )}
+        </TouchableOpacity>
+      </ScrollView>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  scrollContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  productName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  muted: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  quantityRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  input: {
+    flex: 1,
+    height: 44,
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    fontSize: 15,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  reasonInput: {
+    flex: 0,
+    height: 72,
+    paddingTop: 10,
+    textAlignVertical: 'top',
+  },
+  allButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#f5f3ff',
+  },
+  allButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  lineValue: {
+    minWidth: 90,
+    textAlign: 'right',
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipDamaged: {
+    backgroundColor: '#ef4444',
+    borderColor: '#ef4444',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+    marginTop: 16,
+    paddingTop: 12,
+  },
+  totalLabel: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 14,
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
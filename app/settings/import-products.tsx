@@ -2,7 +2,7 @@ import { Feather, FontAwesome5, Ionicons, MaterialIcons } from '@expo/vector-ico
 import * as DocumentPicker from 'expo-document-picker';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useRouter } from 'expo-router';
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import {
   ActivityIndicator,
@@ -15,33 +15,71 @@ import {
   TouchableOpacity,
   View,
 } from 'react-native';
-import importService from '../../services/importService';
-
-type ParsedItem = {
-  name: string;
-  quantity: number;
-  unit: string;
-  category: string;
-  warehouse: string;
-  brand?: string;
-};
+import categoryService from '../../services/categoryService';
+import { SpreadsheetRow } from '../../services/exportService';
+import importService, {
+  ImportMatchKey,
+  ImportMode,
+  ImportReferences,
+  ImportResult,
+  ImportRow,
+  RejectedImportRow,
+  validateImportRows,
+} from '../../services/importService';
+import productService from '../../services/productService';
+import warehouseService from '../../services/warehouseService';
+
+const MODES: { key: ImportMode; label: string }[] = [
+  { key: 'create', label: 'importProducts.modeCreate' },
+  { key: 'upsert', label: 'importProducts.modeUpsert' },
+];
 
-type ImportResult = {
-  addedCount: number;
-  errorCount: number;
-  rejectedItems?: ParsedItem[];
-} | null;
+const MATCH_KEYS: { key: ImportMatchKey; label: string }[] = [
+  { key: 'nameWarehouse', label: 'importProducts.matchNameWarehouse' },
+  { key: 'sku', label: 'importProducts.matchSku' },
+];
 
 const ImportProductsScreen = () => {
   const router = useRouter();
   const { t } = useTranslation();
   const [importProgress] = useState(new Animated.Value(0));
   const [selectedFile, setSelectedFile] = useState<DocumentPicker.DocumentPickerAsset | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedItem[]>([]);
+  const [parsedData, setParsedData] = useState<ImportRow[]>([]);
+  const [parsedValues, setParsedValues] = useState<SpreadsheetRow[]>([]);
   const [validationErrors, setValidationErrors] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [importResult, setImportResult] = useState<ImportResult>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
   const [isParsing, setIsParsing] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('create');
+  const [matchKey, setMatchKey] = useState<ImportMatchKey>('nameWarehouse');
+  const [references, setReferences] = useState<ImportReferences | null>(null);
+  const [skippedRows, setSkippedRows] = useState<RejectedImportRow[]>([]); // rejected rows of the last import
+
+  // Rows are checked against what already exists, so those lists are needed first
+  const loadReferences = useCallback(async (force = false) => {
+    try {
+      const [categories, warehouses, products] = await Promise.all([
+        categoryService.getAllCategories({ force }),
+        warehouseService.getAllWarehouses({ force }),
+        productService.getProductList(undefined, { force }),
+      ]);
+      setReferences({ categories, warehouses, products });
+    } catch {
+      setReferences(null);
+      setValidationErrors([t('importProducts.referencesFailed')]);
+    }
+  }, [t]);
+
+  useEffect(() => {
+    loadReferences();
+  }, [loadReferences]);
+
+  const validation = useMemo(
+    () => (references ? validateImportRows(parsedData, parsedValues, references, { mode, matchKey }) : null),
+    [parsedData, parsedValues, references, mode, matchKey]
+  );
+  const validRows = validation?.valid ?? [];
+  const rejectedRows = validation?.rejected ?? [];
 
   const progressWidth = importProgress.interpolate({
     inputRange: [0, 1],
@@ -74,13 +112,17 @@ const ImportProductsScreen = () => {
   const parseExcelFile = async (file: DocumentPicker.DocumentPickerAsset) => {
     try {
       setIsParsing(true);
-      setValidationErrors([]);
+      setValidationErrors(references ? [] : [t('importProducts.referencesFailed')]);
       setParsedData([]);
+      setParsedValues([]);
+      setImportResult(null);
+      setSkippedRows([]);
       
       const result = await importService.parseExcelFile(file);
       
       if (result.data && result.data.length > 0) {
         setParsedData(result.data);
+        setParsedValues(result.values);
       } else {
         setValidationErrors([t('importProducts.emptyFile')]);
       }
@@ -110,8 +152,20 @@ const ImportProductsScreen = () => {
   const handleClearFile = () => {
     setSelectedFile(null);
     setParsedData([]);
-    setValidationErrors([]);
+    setParsedValues([]);
+    setValidationErrors(references ? [] : [t('importProducts.referencesFailed')]);
     setImportResult(null);
+    setSkippedRows([]);
+  };
+
+  // Before an import the preview's rejected rows; after it, those skipped plus what the server refused
+  const handleErrorReport = async () => {
+    try {
+      if (importResult) await importService.shareErrorReport(skippedRows, importResult.rejectedItems);
+      else await importService.shareErrorReport(rejectedRows);
+    } catch (err: any) {
+      Alert.alert(t('importProducts.reportFailed'), err?.message);
+    }
   };
 
   const handleImport = async () => {
@@ -119,26 +173,55 @@ const ImportProductsScreen = () => {
       Alert.alert(t('importProducts.noFileAlertTitle'), t('importProducts.noFileAlertMessage'));
       return;
     }
-    if (validationErrors.length > 0) {
+    if (validationErrors.length > 0 || validRows.length === 0) {
       Alert.alert(t('importProducts.fixErrorsAlertTitle'), t('importProducts.fixErrorsAlertMessage'));
       return;
     }
+    if (rejectedRows.length > 0) {
+      Alert.alert(
+        t('importProducts.skipRowsTitle'),
+        t('importProducts.skipRowsMessage', { valid: validRows.length, rejected: rejectedRows.length }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('importProducts.importButton'), onPress: runImport },
+        ]
+      );
+      return;
+    }
+    runImport();
+  };
+
+  const runImport = async () => {
+    if (!selectedFile) return;
     try {
       setIsLoading(true);
-      const result = await importService.uploadImportFile(selectedFile);
+      const result = await importService.uploadImportFile(
+        selectedFile,
+        { mode, matchKey },
+        rejectedRows.map(r => r.row)
+      );
       setImportResult(result);
+      const summary = [
+        `${result.addedCount} ${t('importProducts.importSuccess')}`,
+        result.updatedCount ? t('importProducts.importUpdated', { count: result.updatedCount }) : null,
+      ]
+        .filter(Boolean)
+        .join('\n');
 
-      if (result.errorCount > 0) {
+      if (result.errorCount > 0 || rejectedRows.length > 0) {
         Alert.alert(
           t('importProducts.importComplete'),
-          `${result.addedCount} ${t('importProducts.importSuccess')}\n${result.errorCount} ${t('importProducts.importErrors')}\n\n${t('importProducts.followTemplate')}`
+          `${summary}\n${result.errorCount + rejectedRows.length} ${t('importProducts.importErrors')}\n\n${t('importProducts.followTemplate')}`
         );
       } else {
-        Alert.alert(
-          t('importProducts.importComplete'),
-          `${result.addedCount} ${t('importProducts.importSuccess')}`
-        );
+        Alert.alert(t('importProducts.importComplete'), summary);
       }
+      // The file is done with; products just created count as existing for the next one
+      setSkippedRows(rejectedRows);
+      setSelectedFile(null);
+      setParsedData([]);
+      setParsedValues([]);
+      loadReferences(true);
     } catch (err: any) {
       Alert.alert(t('importProducts.importFailed'), err?.response?.data?.message || err.message);
     } finally {
@@ -232,6 +315,49 @@ const ImportProductsScreen = () => {
         )}
       </View>
 
+      {/* Create only, or update the products a row matches */}
+      <View style={styles.card}>
+        <Text style={styles.optionLabel}>{t('importProducts.modeTitle')}</Text>
+        <View style={styles.chipRow}>
+          {MODES.map(option => (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.chip, mode === option.key && styles.chipSelected]}
+              onPress={() => setMode(option.key)}
+              disabled={isLoading}
+            >
+              <Text style={[styles.chipText, mode === option.key && styles.chipTextSelected]}>{t(option.label)}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        {mode === 'upsert' && (
+          <>
+            <Text style={[styles.optionLabel, { marginTop: 12 }]}>{t('importProducts.matchTitle')}</Text>
+            <View style={styles.chipRow}>
+              {MATCH_KEYS.map(option => (
+                <TouchableOpacity
+                  key={option.key}
+                  style={[styles.chip, matchKey === option.key && styles.chipSelected]}
+                  onPress={() => setMatchKey(option.key)}
+                  disabled={isLoading}
+                >
+                  <Text style={[styles.chipText, matchKey === option.key && styles.chipTextSelected]}>
+                    {t(option.label)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+        <Text style={styles.optionHint}>
+          {mode === 'create'
+            ? t('importProducts.modeCreateHint')
+            : matchKey === 'sku'
+              ? t('importProducts.matchSkuHint')
+              : t('importProducts.matchNameWarehouseHint')}
+        </Text>
+      </View>
+
       {/* Loading State for Parsing */}
       {(isParsing || (isLoading && !parsedData.length)) && (
         <View style={styles.card}>
@@ -252,11 +378,22 @@ const ImportProductsScreen = () => {
           <Text style={{ color: '#1f2937', fontSize: 14 }}>
             {t('importProducts.importSuccess', { count: importResult.addedCount })}
           </Text>
+          {!!importResult.updatedCount && (
+            <Text style={{ color: '#1f2937', marginTop: 4, fontSize: 14 }}>
+              {t('importProducts.importUpdated', { count: importResult.updatedCount })}
+            </Text>
+          )}
           {importResult.errorCount > 0 && (
             <Text style={{ color: '#b91c1c', marginTop: 4, fontSize: 14 }}>
               {t('importProducts.importErrors', { count: importResult.errorCount })}
             </Text>
           )}
+          {(importResult.errorCount > 0 || skippedRows.length > 0) && (
+            <TouchableOpacity onPress={handleErrorReport} style={[styles.button, styles.secondaryButton, { marginTop: 12, marginBottom: 0 }]}>
+              <Feather name="file-text" size={18} color="#4f46e5" style={styles.buttonIcon} />
+              <Text style={styles.buttonTextSecondary}>{t('importProducts.downloadErrorReport')}</Text>
+            </TouchableOpacity>
+          )}
         </View>
       )}
       
@@ -271,16 +408,42 @@ const ImportProductsScreen = () => {
               <View key={idx} style={[styles.itemCard, { borderColor: '#b91c1c' }]}>
                 <Text style={styles.itemName}>❌ {item.name}</Text>
                 <Text style={styles.itemDetails}>
+                  {item.row ? `${t('importProducts.rowNumber', { row: item.row })} • ` : ''}
                   {item.quantity} {item.unit} • {item.category} • {item.warehouse}
                 </Text>
-                {item.brand && (
-                  <Text style={styles.itemBrand}>
-                    <MaterialIcons name="branding-watermark" size={12} color="#6b7280" /> {item.brand}
-                  </Text>
-                )}
+                {item.reason && <Text style={styles.rowError}>{item.reason}</Text>}
+              </View>
+            ))}
+          </ScrollView>
+        </View>
+      )}
+
+      {/* Rows the preview rejected */}
+      {rejectedRows.length > 0 && (
+        <View style={styles.previewContainer}>
+          <View style={styles.sectionHeader}>
+            <MaterialIcons name="error-outline" size={18} color="#b91c1c" />
+            <Text style={[styles.sectionTitle, { color: '#b91c1c' }]}>
+              {t('importProducts.rejectedRowsTitle', { count: rejectedRows.length })}
+            </Text>
+          </View>
+          <ScrollView style={styles.previewScroll}>
+            {rejectedRows.map(item => (
+              <View key={item.row} style={[styles.itemCard, { borderColor: '#fecaca' }]}>
+                <Text style={styles.itemName}>
+                  {t('importProducts.rowNumber', { row: item.row })}
+                  {parsedData.find(r => r.row === item.row)?.name ? ` • ${parsedData.find(r => r.row === item.row)?.name}` : ''}
+                </Text>
+                {item.errors.map((error, i) => (
+                  <Text key={i} style={styles.rowError}>• {error}</Text>
+                ))}
               </View>
             ))}
           </ScrollView>
+          <TouchableOpacity onPress={handleErrorReport} style={[styles.button, styles.secondaryButton, { marginTop: 12, marginBottom: 0 }]}>
+            <Feather name="file-text" size={18} color="#4f46e5" style={styles.buttonIcon} />
+            <Text style={styles.buttonTextSecondary}>{t('importProducts.downloadErrorReport')}</Text>
+          </TouchableOpacity>
         </View>
       )}
 
@@ -301,26 +464,46 @@ const ImportProductsScreen = () => {
       )}
 
       {/* Preview */}
-      {parsedData.length > 0 && (
+      {validRows.length > 0 && (
         <View style={styles.previewContainer}>
           <View style={styles.sectionHeader}>
             <MaterialIcons name="preview" size={18} color="#4f46e5" />
             <Text style={styles.sectionTitle}>
-              {t('importProducts.previewTitle', { count: parsedData.length })}
+              {t('importProducts.previewTitle', { count: validRows.length })}
             </Text>
           </View>
           <ScrollView style={styles.previewScroll}>
-            {parsedData.map((item, idx) => (
-              <View key={idx} style={styles.itemCard}>
-                <Text style={styles.itemName}>📦 {item.name}</Text>
+            {validRows.map(item => (
+              <View key={item.row} style={styles.itemCard}>
+                <View style={styles.itemHeader}>
+                  <Text style={[styles.itemName, { flex: 1 }]}>📦 {item.name}</Text>
+                  <Text style={[styles.actionBadge, item.action === 'update' && styles.actionBadgeUpdate]}>
+                    {item.action === 'update' ? t('importProducts.actionUpdate') : t('importProducts.actionCreate')}
+                  </Text>
+                </View>
                 <Text style={styles.itemDetails}>
-                  {item.quantity} {item.unit} • {item.category} • {item.warehouse}
+                  {item.quantity === undefined ? t('importProducts.keepQuantity') : `${item.quantity} ${item.unit}`} • {item.category} • {item.warehouse}
                 </Text>
+                {(item.buyingPrice !== undefined || item.sellingPrice !== undefined) && (
+                  <Text style={styles.itemDetails}>
+                    {[
+                      item.buyingPrice !== undefined ? `${t('importProducts.buyingPrice')}: ${item.buyingPrice}` : null,
+                      item.sellingPrice !== undefined ? `${t('importProducts.sellingPrice')}: ${item.sellingPrice}` : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </Text>
+                )}
                 {item.brand && (
                   <Text style={styles.itemBrand}>
                     <MaterialIcons name="branding-watermark" size={12} color="#6b7280" /> {item.brand}
                   </Text>
                 )}
+                {item.barcode && (
+                  <Text style={styles.itemBrand}>
+                    <MaterialIcons name="qr-code" size={12} color="#6b7280" /> {item.barcode}
+                  </Text>
+                )}
               </View>
             ))}
           </ScrollView>
@@ -328,7 +511,7 @@ const ImportProductsScreen = () => {
       )}
 
       {/* Import Button */}
-      {parsedData.length > 0 && validationErrors.length === 0 && (
+      {validRows.length > 0 && validationErrors.length === 0 && (
         <View style={styles.card}>
           <TouchableOpacity
             onPress={handleImport}
@@ -537,6 +720,68 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6b7280',
   },
+  optionLabel: {
+    fontWeight: '600',
+    color: '#1f2937',
+    marginBottom: 8,
+    fontSize: 14,
+  },
+  optionHint: {
+    fontSize: 12,
+    color: '#6b7280',
+    marginTop: 10,
+    lineHeight: 18,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#e0e7ff',
+  },
+  chipSelected: {
+    backgroundColor: '#4f46e5',
+    borderColor: '#4f46e5',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#4f46e5',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  actionBadge: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#047857',
+    backgroundColor: '#d1fae5',
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 10,
+    overflow: 'hidden',
+    marginBottom: 4,
+  },
+  actionBadgeUpdate: {
+    color: '#1d4ed8',
+    backgroundColor: '#dbeafe',
+  },
+  rowError: {
+    fontSize: 12,
+    color: '#b91c1c',
+    marginTop: 2,
+  },
   progressBarContainer: {
     height: 4,
     backgroundColor: '#e5e7eb',
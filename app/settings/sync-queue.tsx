@@ -0,0 +1,145 @@
+import { Feather } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import PendingSyncList from '../../components/PendingSyncList';
+import useNetworkStatus from '../../hooks/useNetworkStatus';
+import useOutbox from '../../hooks/useOutbox';
+import outboxService from '../../services/outboxService';
+
+export default function SyncQueueScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isConnected } = useNetworkStatus();
+  const { pending, conflicts } = useOutbox();
+  const [syncing, setSyncing] = useState(false);
+
+  const handleSyncNow = async () => {
+    if (!isConnected) {
+      Alert.alert(t('sync.title'), t('common.offlineMessage'));
+      return;
+    }
+    setSyncing(true);
+    try {
+      const result = await outboxService.flush();
+      Alert.alert(
+        t('sync.title'),
+        t('sync.syncResult', { synced: result.synced, conflicts: result.conflicts.length })
+      );
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => router.back()}>
+          <Feather name="chevron-left" size={28} color="#1e293b" />
+        </TouchableOpacity>
+        <Text style={styles.title}>{t('sync.title')}</Text>
+        <View style={{ width: 28 }} />
+      </View>
+
+      <View style={styles.summary}>
+        <Text style={styles.summaryText}>{t('sync.pendingCount', { count: pending.length })}</Text>
+        <Text style={[styles.summaryText, conflicts.length > 0 && { color: '#ef4444' }]}>
+          {t('sync.conflictCount', { count: conflicts.length })}
+        </Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {pending.length === 0 && conflicts.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Feather name="check-circle" size={48} color="#10b981" />
+            <Text style={styles.emptyText}>{t('sync.allSynced')}</Text>
+          </View>
+        ) : (
+          <PendingSyncList />
+        )}
+      </ScrollView>
+
+      <TouchableOpacity
+        style={[styles.syncButton, (syncing || pending.length === 0) && { opacity: 0.6 }]}
+        onPress={handleSyncNow}
+        disabled={syncing || pending.length === 0}
+      >
+        {syncing ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <>
+            <Feather name="refresh-cw" size={18} color="#fff" />
+            <Text style={styles.syncButtonText}>{t('sync.syncNow')}</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  summary: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    marginBottom: 8,
+  },
+  summaryText: {
+    fontSize: 14,
+    color: '#64748b',
+    fontWeight: '500',
+  },
+  content: {
+    padding: 20,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#64748b',
+    marginTop: 12,
+  },
+  syncButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6366f1',
+    borderRadius: 14,
+    padding: 16,
+    margin: 20,
+  },
+  syncButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,305 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  KeyboardAvoidingView,
+  Platform,
+  SafeAreaView,
+  ScrollView,
+  StyleSheet,
+  Switch,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import businessService from '../../services/businessService';
+
+const RATE_PRESETS = [0, 15];
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Business-wide sales tax: default rate, whether prices include it, and the TIN for receipts
+export default function TaxSettingsScreen() {
+  const { t } = useTranslation();
+  const router = useRouter();
+
+  const [taxRate, setTaxRate] = useState<string>('');
+  const [pricesIncludeTax, setPricesIncludeTax] = useState<boolean>(false);
+  const [tin, setTin] = useState<string>('');
+  const [initialLoading, setInitialLoading] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(false);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const settings = await businessService.getTaxSettings({ force: true });
+        setTaxRate(String(settings.taxRate));
+        setPricesIncludeTax(settings.pricesIncludeTax);
+        setTin(settings.tin ?? '');
+      } catch {
+        Alert.alert(t('tax.errorTitle'), t('tax.loadFailed'));
+      } finally {
+        setInitialLoading(false);
+      }
+    })();
+  }, [t]);
+
+  const handleSave = async () => {
+    const rate = taxRate.trim() === '' ? 0 : parseFloat(taxRate);
+    if (isNaN(rate) || rate < 0 || rate > 100) {
+      Alert.alert(t('tax.errorTitle'), t('tax.invalidRate'));
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await businessService.updateTaxSettings({
+        taxRate: rate,
+        pricesIncludeTax,
+        tin: tin.trim() || undefined,
+      });
+      Alert.alert(t('tax.successTitle'), t('tax.saved'));
+      router.replace('/settings');
+    } catch {
+      Alert.alert(t('tax.errorTitle'), t('tax.saveFailed'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <LinearGradient colors={['#f8fafc', '#e0e7ff']} style={styles.gradientContainer}>
+      <SafeAreaView style={styles.safeArea}>
+        <KeyboardAvoidingView
+          behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+          style={styles.keyboardAvoidingView}
+        >
+          <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+            <View style={styles.header}>
+              <TouchableOpacity onPress={() => router.replace('/settings')} style={styles.backButton}>
+                <Feather name="chevron-left" size={24} color="#4f46e5" />
+              </TouchableOpacity>
+              <Text style={styles.title}>{t('tax.title')}</Text>
+              <View style={styles.backButtonPlaceholder} />
+            </View>
+
+            {initialLoading ? (
+              <ActivityIndicator size="large" color="#4f46e5" />
+            ) : (
+              <>
+                <View style={styles.card}>
+                  {/* Default rate */}
+                  <View style={styles.inputGroup}>
+                    <Text style={styles.label}>{t('tax.rate')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={taxRate}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) setTaxRate(text);
+                      }}
+                      placeholder="15"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                    />
+                    <View style={styles.presetRow}>
+                      {RATE_PRESETS.map(rate => (
+                        <TouchableOpacity
+                          key={rate}
+                          style={[styles.preset, taxRate === String(rate) && styles.presetSelected]}
+                          onPress={() => setTaxRate(String(rate))}
+                        >
+                          <Text style={[styles.presetText, taxRate === String(rate) && styles.presetTextSelected]}>
+                            {rate === 0 ? t('tax.noTax') : `${rate}%`}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                    <Text style={styles.hint}>{t('tax.rateHint')}</Text>
+                  </View>
+
+                  {/* Tax-inclusive prices */}
+                  <View style={styles.switchRow}>
+                    <View style={{ flex: 1 }}>
+                      <Text style={styles.label}>{t('tax.pricesIncludeTax')}</Text>
+                      <Text style={styles.hint}>{t('tax.pricesIncludeTaxHint')}</Text>
+                    </View>
+                    <Switch
+                      value={pricesIncludeTax}
+                      onValueChange={setPricesIncludeTax}
+                      trackColor={{ false: '#e2e8f0', true: '#a5b4fc' }}
+                      thumbColor={pricesIncludeTax ? '#4f46e5' : '#f4f3f4'}
+                    />
+                  </View>
+
+                  {/* TIN */}
+                  <View style={[styles.inputGroup, { marginBottom: 0 }]}>
+                    <Text style={styles.label}>{t('tax.tin')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      value={tin}
+                      onChangeText={setTin}
+                      placeholder={t('tax.tinPlaceholder')}
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="number-pad"
+                    />
+                  </View>
+                </View>
+
+                <TouchableOpacity
+                  style={[styles.saveButton, loading && styles.saveButtonDisabled]}
+                  onPress={handleSave}
+                  disabled={loading}
+                >
+                  {loading ? (
+                    <ActivityIndicator color="#fff" />
+                  ) : (
+                    <>
+                      <Feather name="percent" size={20} color="#fff" />
+                      <Text style={styles.saveButtonText}>{t('tax.save')}</Text>
+                    </>
+                  )}
+                </TouchableOpacity>
+              </>
+            )}
+          </ScrollView>
+        </KeyboardAvoidingView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  gradientContainer: {
+    flex: 1,
+  },
+  safeArea: {
+    flex: 1,
+  },
+  keyboardAvoidingView: {
+    flex: 1,
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 32,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#e0e7ff',
+  },
+  backButtonPlaceholder: {
+    width: 40,
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '700',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 24,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 6,
+    elevation: 3,
+  },
+  inputGroup: {
+    marginBottom: 20,
+  },
+  label: {
+    fontSize: 14,
+    color: '#64748b',
+    marginBottom: 8,
+    fontWeight: '500',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 6,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    padding: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  presetRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 10,
+  },
+  preset: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#eef2ff',
+    borderWidth: 1,
+    borderColor: '#e0e7ff',
+  },
+  presetSelected: {
+    backgroundColor: '#4f46e5',
+    borderColor: '#4f46e5',
+  },
+  presetText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#4f46e5',
+  },
+  presetTextSelected: {
+    color: '#fff',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 20,
+  },
+  saveButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#4f46e5',
+    padding: 18,
+    borderRadius: 12,
+    marginTop: 32,
+    shadowColor: '#4f46e5',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.3,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  saveButtonDisabled: {
+    backgroundColor: '#a5b4fc',
+    shadowOpacity: 0,
+    elevation: 0,
+  },
+  saveButtonText: {
+    marginLeft: 12,
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,382 @@
+import { Feather } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  Platform,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import useNetworkStatus from '../hooks/useNetworkStatus';
+import stocktakeService, { StocktakeSession, summarizeSession } from '../services/stocktakeService';
+import warehouseService from '../services/warehouseService';
+
+export default function StocktakePage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isConnected } = useNetworkStatus();
+
+  const [sessions, setSessions] = useState<StocktakeSession[]>([]);
+  const [warehouses, setWarehouses] = useState<{ _id: string; name: string }[]>([]);
+  const [pickerVisible, setPickerVisible] = useState<boolean>(false);
+  const [starting, setStarting] = useState<boolean>(false);
+
+  const loadSessions = useCallback(async () => {
+    setSessions(await stocktakeService.getSessions());
+  }, []);
+
+  // Counts are saved on the detail screen, so refresh the progress on return
+  useFocusEffect(
+    useCallback(() => {
+      loadSessions();
+    }, [loadSessions])
+  );
+
+  const openPicker = async () => {
+    if (isConnected === false) {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.startNeedsConnection'));
+      return;
+    }
+    try {
+      const data = await warehouseService.getAllWarehouses();
+      setWarehouses(Array.isArray(data) ? data : []);
+      setPickerVisible(true);
+    } catch {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.warehousesFailed'));
+    }
+  };
+
+  const handleStart = async (warehouse: { _id: string; name: string }) => {
+    const open = sessions.find(s => s.status === 'counting' && s.warehouse._id === warehouse._id);
+    if (open) {
+      setPickerVisible(false);
+      router.push({ pathname: '/stocktake/[id]', params: { id: open.id } });
+      return;
+    }
+    setStarting(true);
+    try {
+      const session = await stocktakeService.startSession(warehouse);
+      setPickerVisible(false);
+      router.push({ pathname: '/stocktake/[id]', params: { id: session.id } });
+    } catch {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.startFailed'));
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleDiscard = (session: StocktakeSession) => {
+    Alert.alert(t('stocktake.discardTitle'), t('stocktake.discardMessage', { warehouse: session.warehouse.name }), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('stocktake.discard'),
+        style: 'destructive',
+        onPress: async () => {
+          await stocktakeService.discardSession(session.id);
+          await loadSessions();
+        },
+      },
+    ]);
+  };
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/more')} activeOpacity={0.7}>
+            <Feather name="arrow-left" size={24} color="#1e293b" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('stocktake.title')}</Text>
+          <View style={styles.headerRightPlaceholder} />
+        </View>
+
+        <FlatList
+          data={sessions}
+          keyExtractor={item => item.id}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Feather name="clipboard" size={48} color="#e2e8f0" />
+              <Text style={styles.emptyText}>{t('stocktake.noSessions')}</Text>
+              <Text style={styles.emptySubtext}>{t('stocktake.startFirst')}</Text>
+            </View>
+          }
+          renderItem={({ item }) => {
+            const summary = summarizeSession(item);
+            const isPosted = item.status === 'posted';
+            return (
+              <TouchableOpacity
+                style={styles.card}
+                activeOpacity={0.8}
+                onPress={() => router.push({ pathname: '/stocktake/[id]', params: { id: item.id } })}
+              >
+                <View style={styles.cardHeader}>
+                  <Feather name="archive" size={20} color="#6d28d9" style={styles.cardIcon} />
+                  <Text style={styles.name} numberOfLines={1}>
+                    {item.warehouse.name}
+                  </Text>
+                  <View style={[styles.statusBadge, isPosted ? styles.postedBadge : styles.countingBadge]}>
+                    <Text style={[styles.statusText, isPosted ? styles.postedText : styles.countingText]}>
+                      {isPosted ? t('stocktake.statusPosted') : t('stocktake.statusCounting')}
+                    </Text>
+                  </View>
+                </View>
+                <Text style={styles.detail}>
+                  {new Date(item.startedAt).toLocaleString()}
+                  {item.startedBy ? ` · ${item.startedBy}` : ''}
+                </Text>
+                <View style={styles.progressTrack}>
+                  <View
+                    style={[
+                      styles.progressFill,
+                      { width: `${summary.total > 0 ? (summary.counted / summary.total) * 100 : 0}%` },
+                    ]}
+                  />
+                </View>
+                <View style={styles.cardFooter}>
+                  <Text style={styles.detail}>
+                    {t('stocktake.progress', { counted: summary.counted, total: summary.total })} ·{' '}
+                    {t('stocktake.varianceCount', { count: summary.variances })}
+                  </Text>
+                  {!isPosted && (
+                    <TouchableOpacity onPress={() => handleDiscard(item)} hitSlop={8}>
+                      <Feather name="trash-2" size={18} color="#ef4444" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+        />
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={openPicker}
+          activeOpacity={0.8}
+          accessibilityLabel={t('stocktake.start')}
+        >
+          <Feather name="plus" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+
+      <Modal visible={pickerVisible} transparent animationType="slide" onRequestClose={() => setPickerVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('stocktake.chooseWarehouse')}</Text>
+              <TouchableOpacity onPress={() => setPickerVisible(false)}>
+                <Feather name="x" size={24} color="#475569" />
+              </TouchableOpacity>
+            </View>
+            {starting ? (
+              <View style={styles.modalLoading}>
+                <ActivityIndicator size="large" color="#6d28d9" />
+                <Text style={styles.detail}>{t('stocktake.snapshotting')}</Text>
+              </View>
+            ) : (
+              <FlatList
+                data={warehouses}
+                keyExtractor={item => item._id}
+                renderItem={({ item }) => (
+                  <TouchableOpacity style={styles.warehouseItem} onPress={() => handleStart(item)}>
+                    <Feather name="archive" size={18} color="#6d28d9" />
+                    <Text style={styles.warehouseName}>{item.name}</Text>
+                    <Feather name="chevron-right" size={18} color="#94a3b8" />
+                  </TouchableOpacity>
+                )}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    paddingTop: Platform.OS === 'android' ? 25 : 0,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1e293b',
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerRightPlaceholder: { width: 40 },
+  listContent: {
+    paddingBottom: 100,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  cardIcon: {
+    marginRight: 12,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    flex: 1,
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  countingBadge: {
+    backgroundColor: '#fffbeb',
+  },
+  postedBadge: {
+    backgroundColor: '#ecfdf5',
+  },
+  statusText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  countingText: {
+    color: '#d97706',
+  },
+  postedText: {
+    color: '#059669',
+  },
+  detail: {
+    fontSize: 14,
+    color: '#64748b',
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#f1f5f9',
+    marginTop: 12,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: 6,
+    backgroundColor: '#6d28d9',
+  },
+  cardFooter: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 10,
+  },
+  addButton: {
+    position: 'absolute',
+    bottom: 30,
+    right: 20,
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#6d28d9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#6d28d9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 24,
+    paddingTop: 16,
+    maxHeight: '70%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  modalLoading: {
+    alignItems: 'center',
+    gap: 12,
+    padding: 30,
+  },
+  warehouseItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  warehouseName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+});
@@ -0,0 +1,506 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { useSelector } from 'react-redux';
+
+import BarcodeScannerModal from '@/components/BarcodeScannerModal';
+import { isOnline } from '@/services/networkService';
+import stocktakeService, {
+  lineVariance,
+  StocktakeLine,
+  StocktakeSession,
+  summarizeSession,
+} from '@/services/stocktakeService';
+import { RootState } from '../store';
+
+type LineFilter = 'all' | 'uncounted' | 'variances';
+
+const FILTERS: LineFilter[] = ['all', 'uncounted', 'variances'];
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Count one warehouse against its snapshot, review variances and post them
+export default function StocktakeSessionScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
+  const isAdmin = userRole === 'admin' || userRole === 'superadmin';
+
+  const [session, setSession] = useState<StocktakeSession | null>(null);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [filter, setFilter] = useState<LineFilter>('all');
+  const [search, setSearch] = useState<string>('');
+  const [scannerVisible, setScannerVisible] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [posting, setPosting] = useState<boolean>(false);
+  const loadedRef = useRef(false);
+
+  useEffect(() => {
+    const load = async () => {
+      const data = await stocktakeService.getSession(id);
+      setSession(data);
+      if (data) {
+        setDrafts(
+          Object.fromEntries(data.lines.map(l => [l.product, l.counted === null ? '' : String(l.counted)]))
+        );
+      }
+      setLoading(false);
+    };
+    load();
+  }, [id]);
+
+  // Save counts as they are typed, debounced so every keystroke doesn't hit storage
+  useEffect(() => {
+    if (!session) return;
+    if (!loadedRef.current) {
+      loadedRef.current = true;
+      return;
+    }
+    const timer = setTimeout(() => {
+      stocktakeService.saveSession(session);
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const isCounting = session?.status === 'counting';
+
+  const updateLine = (productId: string, changes: Partial<StocktakeLine>) => {
+    setSession(prev =>
+      prev ? { ...prev, lines: prev.lines.map(l => (l.product === productId ? { ...l, ...changes } : l)) } : prev
+    );
+  };
+
+  const handleCountChange = (productId: string, text: string) => {
+    if (!decimalPattern.test(text)) return;
+    setDrafts(prev => ({ ...prev, [productId]: text }));
+    const value = parseFloat(text);
+    updateLine(productId, { counted: text === '' || isNaN(value) ? null : value });
+  };
+
+  const handleScanned = (code: string) => {
+    setScannerVisible(false);
+    const match = session?.lines.find(l => l.barcode && l.barcode === code);
+    if (!match) {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.scanNotFound', { code }));
+      return;
+    }
+    setFilter('all');
+    setSearch(code);
+  };
+
+  const visibleLines = useMemo(() => {
+    if (!session) return [];
+    const query = search.trim().toLowerCase();
+    return session.lines.filter(line => {
+      if (filter === 'uncounted' && line.counted !== null) return false;
+      if (filter === 'variances' && (lineVariance(line) ?? 0) === 0) return false;
+      if (!query) return true;
+      return (
+        line.name.toLowerCase().includes(query) ||
+        (line.brand?.toLowerCase().includes(query) ?? false) ||
+        line.barcode?.toLowerCase() === query
+      );
+    });
+  }, [session, filter, search]);
+
+  const summary = session ? summarizeSession(session) : null;
+
+  const handleReport = async (print: boolean) => {
+    if (!session) return;
+    try {
+      if (print) await stocktakeService.printVarianceReport(session);
+      else await stocktakeService.shareVarianceReport(session);
+    } catch {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.reportFailed'));
+    }
+  };
+
+  const handlePost = () => {
+    if (!session || !summary) return;
+    if (!isOnline()) {
+      Alert.alert(t('stocktake.errorTitle'), t('stocktake.postNeedsConnection'));
+      return;
+    }
+    const uncounted = summary.total - summary.counted;
+    const message = [
+      t('stocktake.postMessage', { count: summary.approved }),
+      uncounted > 0 ? t('stocktake.postUncountedWarning', { count: uncounted }) : '',
+    ]
+      .filter(Boolean)
+      .join('\n\n');
+
+    Alert.alert(t('stocktake.postTitle'), message, [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('stocktake.post'),
+        onPress: async () => {
+          setPosting(true);
+          try {
+            const posted = await stocktakeService.postVariances(session);
+            setSession(posted);
+            Alert.alert(t('stocktake.successTitle'), t('stocktake.posted'));
+          } catch {
+            Alert.alert(t('stocktake.errorTitle'), t('stocktake.postFailed'));
+          } finally {
+            setPosting(false);
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderLine = ({ item }: { item: StocktakeLine }) => {
+    const variance = lineVariance(item);
+    const hasVariance = variance !== null && variance !== 0;
+    return (
+      <View style={[styles.line, hasVariance && styles.lineVariance]}>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.lineName} numberOfLines={1}>
+            {item.name} {item.brand ?? ''}
+          </Text>
+          <Text style={styles.lineMeta}>
+            {t('stocktake.expected')}: {item.expected} {item.unit ?? ''}
+            {item.barcode ? ` · ${item.barcode}` : ''}
+          </Text>
+          {variance !== null && (
+            <Text style={[styles.varianceText, variance < 0 ? styles.negative : variance > 0 ? styles.positive : null]}>
+              {t('stocktake.variance')}: {variance > 0 ? '+' : ''}
+              {variance}
+            </Text>
+          )}
+        </View>
+        {isCounting ? (
+          <TextInput
+            style={styles.countInput}
+            placeholder="-"
+            placeholderTextColor="#94a3b8"
+            keyboardType="numeric"
+            value={drafts[item.product] ?? ''}
+            onChangeText={text => handleCountChange(item.product, text)}
+          />
+        ) : (
+          <Text style={styles.countValue}>{item.counted ?? '-'}</Text>
+        )}
+        {isAdmin && isCounting && hasVariance && (
+          <TouchableOpacity
+            style={styles.approveToggle}
+            onPress={() => updateLine(item.product, { approved: !item.approved })}
+            accessibilityLabel={t('stocktake.approve')}
+          >
+            <Feather name={item.approved ? 'check-square' : 'square'} size={22} color="#6d28d9" />
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/stocktake')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {session?.warehouse.name ?? t('stocktake.title')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : !session ? (
+        <Text style={styles.emptyText}>{t('stocktake.notFound')}</Text>
+      ) : (
+        <>
+          <View style={styles.toolbar}>
+            {summary && (
+              <Text style={styles.summaryText}>
+                {t('stocktake.progress', { counted: summary.counted, total: summary.total })} ·{' '}
+                {t('stocktake.varianceCount', { count: summary.variances })}
+              </Text>
+            )}
+            <View style={styles.searchRow}>
+              <View style={styles.searchContainer}>
+                <Feather name="search" size={18} color="#94a3b8" />
+                <TextInput
+                  style={styles.searchInput}
+                  placeholder={t('stocktake.searchPlaceholder')}
+                  placeholderTextColor="#94a3b8"
+                  value={search}
+                  onChangeText={setSearch}
+                  clearButtonMode="while-editing"
+                />
+              </View>
+              {isCounting && (
+                <TouchableOpacity style={styles.scanButton} onPress={() => setScannerVisible(true)}>
+                  <Feather name="maximize" size={20} color="#fff" />
+                </TouchableOpacity>
+              )}
+            </View>
+            <View style={styles.filterRow}>
+              {FILTERS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.filterChip, filter === option && styles.filterChipSelected]}
+                  onPress={() => setFilter(option)}
+                >
+                  <Text style={[styles.filterText, filter === option && styles.filterTextSelected]}>
+                    {t(`stocktake.filter_${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+
+          <FlatList
+            data={visibleLines}
+            keyExtractor={item => item.product}
+            renderItem={renderLine}
+            contentContainerStyle={styles.listContent}
+            keyboardShouldPersistTaps="handled"
+            ListEmptyComponent={<Text style={styles.emptyText}>{t('stocktake.noLines')}</Text>}
+          />
+
+          <View style={styles.footer}>
+            <TouchableOpacity style={styles.footerButton} onPress={() => handleReport(false)}>
+              <Feather name="share-2" size={18} color="#6d28d9" />
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.footerButton} onPress={() => handleReport(true)}>
+              <Feather name="printer" size={18} color="#6d28d9" />
+            </TouchableOpacity>
+            {isAdmin && isCounting && (
+              <TouchableOpacity style={styles.postButton} onPress={handlePost} disabled={posting}>
+                {posting ? (
+                  <ActivityIndicator size="small" color="#fff" />
+                ) : (
+                  <Feather name="upload" size={18} color="#fff" />
+                )}
+                <Text style={styles.postButtonText}>{t('stocktake.postVariances')}</Text>
+              </TouchableOpacity>
+            )}
+            {!isCounting && (
+              <Text style={styles.postedText}>
+                {t('stocktake.postedOn', { date: new Date(session.postedAt ?? '').toLocaleString() })}
+              </Text>
+            )}
+          </View>
+        </>
+      )}
+
+      <BarcodeScannerModal
+        visible={scannerVisible}
+        onScanned={handleScanned}
+        onClose={() => setScannerVisible(false)}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  toolbar: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+  summaryText: {
+    fontSize: 13,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  searchContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 15,
+    color: '#1e293b',
+  },
+  scanButton: {
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 12,
+  },
+  filterRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginVertical: 10,
+  },
+  filterChip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f1f5f9',
+  },
+  filterChipSelected: {
+    backgroundColor: '#6d28d9',
+  },
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  filterTextSelected: {
+    color: '#fff',
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 20,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#fff',
+  },
+  lineVariance: {
+    borderColor: '#fde68a',
+  },
+  lineName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  lineMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  varianceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 2,
+  },
+  negative: {
+    color: '#ef4444',
+  },
+  positive: {
+    color: '#10b981',
+  },
+  countInput: {
+    width: 72,
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    paddingVertical: 8,
+    paddingHorizontal: 10,
+    fontSize: 16,
+    color: '#1e293b',
+    textAlign: 'center',
+    marginLeft: 8,
+  },
+  countValue: {
+    width: 60,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+    textAlign: 'center',
+  },
+  approveToggle: {
+    marginLeft: 8,
+    padding: 4,
+  },
+  footer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+  },
+  footerButton: {
+    padding: 12,
+    borderRadius: 12,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  postButton: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    padding: 14,
+  },
+  postButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  postedText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#059669',
+    textAlign: 'right',
+  },
+});
@@ -0,0 +1,427 @@
+import { Feather } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useSelector } from 'react-redux';
+import { RootState } from '../app/store';
+
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  RefreshControl,
+  SafeAreaView,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import useNetworkStatus from '../hooks/useNetworkStatus';
+import supplierService, { Supplier } from '../services/supplierService';
+
+export default function SuppliersPage() {
+  const { t } = useTranslation();
+  const router = useRouter();
+  const { isConnected } = useNetworkStatus();
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [searchQuery, setSearchQuery] = useState<string>('');
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const userRole = useSelector((state: RootState) => state.auth.user?.role);
+  const isAdmin = userRole === 'admin' || userRole === 'superadmin';
+
+  // Avoid concurrent fetches
+  const isFetchingRef = useRef(false);
+
+  // Served from the local cache when offline
+  const fetchSuppliers = useCallback(async (force = false) => {
+    if (isFetchingRef.current) return;
+    isFetchingRef.current = true;
+    setError(null);
+    try {
+      setLoading(true);
+      const data = await supplierService.getAllSuppliers({ force, onUpdate: setSuppliers });
+      setSuppliers(Array.isArray(data) ? data : []);
+    } catch {
+      setError(t('suppliers.errorLoading'));
+    } finally {
+      setLoading(false);
+      isFetchingRef.current = false;
+    }
+  }, [t]);
+
+  // Refetch on reconnect to replace cached data
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers, isConnected]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchSuppliers(true);
+    setRefreshing(false);
+  };
+
+  const handleDelete = (supplier: Supplier) => {
+    Alert.alert(
+      t('suppliers.confirmDeleteTitle'),
+      t('suppliers.confirmDeleteMessage', { name: supplier.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('suppliers.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await supplierService.deleteSupplier(supplier._id);
+              await fetchSuppliers(true);
+            } catch {
+              Alert.alert(t('suppliers.errorTitle'), t('suppliers.errorDelete'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filtered = suppliers.filter(
+    (c) =>
+      c.name?.toLowerCase().includes(query) ||
+      c.phone?.toLowerCase().includes(query) ||
+      c.email?.toLowerCase().includes(query) ||
+      c.address?.toLowerCase().includes(query)
+  );
+
+  return (
+    <SafeAreaView style={styles.safeArea}>
+      <View style={styles.container}>
+        {isConnected === false && (
+          <View style={styles.offlineBanner}>
+            <Text style={styles.offlineText}>{t('common.offlineMessage')}</Text>
+          </View>
+        )}
+
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity style={styles.backButton} onPress={() => router.replace('/more')} activeOpacity={0.7}>
+            <Feather name="arrow-left" size={24} color="#1e293b" />
+          </TouchableOpacity>
+          <Text style={styles.title}>{t('suppliers.title')}</Text>
+          <View style={styles.headerRightPlaceholder} />
+        </View>
+
+        {/* Search */}
+        <View style={styles.searchContainer}>
+          <Feather name="search" size={18} color="#94a3b8" style={styles.searchIcon} />
+          <TextInput
+            style={styles.searchInput}
+            placeholder={t('suppliers.searchPlaceholder')}
+            placeholderTextColor="#94a3b8"
+            value={searchQuery}
+            onChangeText={setSearchQuery}
+            clearButtonMode="while-editing"
+          />
+        </View>
+
+        {error && (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {loading && !refreshing ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#6d28d9" />
+            <Text style={styles.loadingText}>{t('suppliers.loading')}</Text>
+          </View>
+        ) : (
+          <FlatList
+            data={filtered}
+            keyExtractor={(item) => item._id}
+            contentContainerStyle={styles.listContent}
+            refreshControl={
+              <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+            }
+            ListEmptyComponent={
+              <View style={styles.emptyState}>
+                <Feather name="truck" size={48} color="#e2e8f0" />
+                <Text style={styles.emptyText}>
+                  {searchQuery ? t('suppliers.noMatching') : t('suppliers.noSuppliers')}
+                </Text>
+                {!searchQuery && <Text style={styles.emptySubtext}>{t('suppliers.addFirst')}</Text>}
+              </View>
+            }
+            renderItem={({ item }) => {
+              const balance = item.balance ?? 0;
+              return (
+                <TouchableOpacity
+                  style={styles.card}
+                  activeOpacity={0.8}
+                  onPress={() => router.push({ pathname: '/suppliers/[id]', params: { id: item._id } })}
+                >
+                  <View style={styles.cardHeader}>
+                    <Feather name="truck" size={20} color="#6d28d9" style={styles.supplierIcon} />
+                    <Text style={styles.name} numberOfLines={1}>
+                      {item.name}
+                    </Text>
+                    <Text style={[styles.balance, balance > 0 && styles.balanceDue]}>
+                      {t('suppliers.owed')}: ETB {balance.toFixed(2)}
+                    </Text>
+                  </View>
+                  {!!item.phone && (
+                    <View style={styles.detailRow}>
+                      <Feather name="phone" size={14} color="#64748b" />
+                      <Text style={styles.detail}>{item.phone}</Text>
+                    </View>
+                  )}
+                  {!!item.email && (
+                    <View style={styles.detailRow}>
+                      <Feather name="mail" size={14} color="#64748b" />
+                      <Text style={styles.detail}>{item.email}</Text>
+                    </View>
+                  )}
+                  {!!item.address && (
+                    <View style={styles.detailRow}>
+                      <Feather name="map-pin" size={14} color="#64748b" />
+                      <Text style={styles.detail} numberOfLines={2}>
+                        {item.address}
+                      </Text>
+                    </View>
+                  )}
+                  {isAdmin && (
+                    <View style={styles.actions}>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.editBtn]}
+                        activeOpacity={0.7}
+                        onPress={() => router.push({ pathname: '/suppliers/edit/[id]', params: { id: item._id } })}
+                      >
+                        <Feather name="edit-3" size={16} color="#6d28d9" />
+                        <Text style={styles.actionText}>{t('suppliers.edit')}</Text>
+                      </TouchableOpacity>
+                      <TouchableOpacity
+                        style={[styles.actionBtn, styles.deleteBtn]}
+                        onPress={() => handleDelete(item)}
+                        activeOpacity={0.7}
+                      >
+                        <Feather name="trash-2" size={16} color="#ef4444" />
+                        <Text style={[styles.actionText, { color: '#ef4444' }]}>{t('suppliers.delete')}</Text>
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </TouchableOpacity>
+              );
+            }}
+          />
+        )}
+
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={() => router.push('/suppliers/add')}
+          activeOpacity={0.8}
+          accessibilityLabel={t('suppliers.addTitle')}
+        >
+          <Feather name="plus" size={24} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  safeArea: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    paddingTop: Platform.OS === 'android' ? 25 : 0,
+  },
+  container: {
+    flex: 1,
+    paddingHorizontal: 12,
+  },
+  offlineBanner: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginVertical: 6,
+    borderRadius: 4,
+  },
+  offlineText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginVertical: 16,
+  },
+  backButton: {
+    padding: 8,
+    borderRadius: 20,
+    backgroundColor: '#f1f5f9',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#1e293b',
+    textAlign: 'center',
+    flex: 1,
+  },
+  headerRightPlaceholder: { width: 40 },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#ffffff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginBottom: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  searchIcon: {
+    marginRight: 12,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  listContent: {
+    paddingBottom: 100,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    color: '#64748b',
+    fontSize: 16,
+  },
+  card: {
+    backgroundColor: '#ffffff',
+    borderRadius: 16,
+    padding: 20,
+    marginBottom: 16,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 2,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  supplierIcon: {
+    marginRight: 12,
+  },
+  name: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+    flex: 1,
+  },
+  balance: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#10b981',
+  },
+  balanceDue: {
+    color: '#ef4444',
+  },
+  detailRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  detail: {
+    fontSize: 14,
+    color: '#64748b',
+    marginLeft: 8,
+    flex: 1,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 16,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  actionBtn: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  editBtn: {
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  deleteBtn: {
+    backgroundColor: '#fef2f2',
+    borderWidth: 1,
+    borderColor: '#fee2e2',
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+    color: '#6d28d9',
+  },
+  addButton: {
+    position: 'absolute',
+    bottom: 30,
+    right: 20,
+    width: 60,
+    height: 60,
+    borderRadius: 30,
+    backgroundColor: '#6d28d9',
+    justifyContent: 'center',
+    alignItems: 'center',
+    shadowColor: '#6d28d9',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 6,
+  },
+  emptyState: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 40,
+    marginTop: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#64748b',
+    marginTop: 16,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#94a3b8',
+    marginTop: 4,
+  },
+});
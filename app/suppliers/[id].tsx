@@ -0,0 +1,359 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Platform,
+  RefreshControl,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import RecordPaymentModal from '@/components/RecordPaymentModal';
+import { PaymentData } from '@/services/saleService';
+import supplierService, { SupplierLedger, SupplierLedgerEntry } from '@/services/supplierService';
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString();
+};
+
+// Supplier statement: goods received, payments made and what we still owe
+export default function SupplierLedgerScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [ledger, setLedger] = useState<SupplierLedger | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [refreshing, setRefreshing] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showPaymentModal, setShowPaymentModal] = useState<boolean>(false);
+
+  const fetchLedger = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await supplierService.getSupplierLedger(id);
+      setLedger(data);
+    } catch {
+      setError(t('suppliers.ledgerLoadFailed'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id, t]);
+
+  useEffect(() => {
+    if (id) fetchLedger();
+  }, [id, fetchLedger]);
+
+  const onRefresh = async () => {
+    setRefreshing(true);
+    await fetchLedger();
+    setRefreshing(false);
+  };
+
+  const handleRecordPayment = async (payment: PaymentData) => {
+    try {
+      await supplierService.recordPayment(id, payment);
+      setShowPaymentModal(false);
+      Alert.alert(t('payments.successTitle'), t('suppliers.paymentRecorded'));
+      await fetchLedger();
+    } catch {
+      Alert.alert(t('payments.errorTitle'), t('suppliers.paymentFailed'));
+    }
+  };
+
+  // Newest first on screen; the running balance comes from the server
+  const entries = [...(ledger?.entries ?? [])].reverse();
+  const supplier = ledger?.supplier;
+
+  const renderEntry = ({ item }: { item: SupplierLedgerEntry }) => {
+    const isReceipt = item.type === 'receipt';
+    return (
+      <View style={styles.entry}>
+        <View style={[styles.entryIcon, isReceipt ? styles.saleIcon : styles.paymentIcon]}>
+          <Feather name={isReceipt ? 'package' : 'dollar-sign'} size={16} color={isReceipt ? '#6d28d9' : '#10b981'} />
+        </View>
+        <View style={{ flex: 1 }}>
+          <Text style={styles.entryTitle}>
+            {isReceipt ? t('suppliers.ledgerReceipt') : t('suppliers.ledgerPayment')}
+            {item.grnNumber ? ` #${item.grnNumber}` : ''}
+          </Text>
+          <Text style={styles.entryDate}>
+            {formatDate(item.date)}
+            {item.channel ? ` · ${t(`sales.paymentChannel.${item.channel}`)}` : ''}
+            {item.note ? ` · ${item.note}` : ''}
+          </Text>
+        </View>
+        <View style={styles.entryAmounts}>
+          <Text style={[styles.entryAmount, isReceipt ? styles.debit : styles.credit]}>
+            {isReceipt ? '+' : '-'}ETB {item.amount.toFixed(2)}
+          </Text>
+          <Text style={styles.entryBalance}>
+            {t('suppliers.owed')}: ETB {item.balance.toFixed(2)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/suppliers')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>
+          {supplier?.name ?? t('suppliers.ledgerTitle')}
+        </Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <FlatList
+          data={entries}
+          keyExtractor={item => item._id}
+          renderItem={renderEntry}
+          contentContainerStyle={styles.listContent}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} colors={['#6d28d9']} tintColor="#6d28d9" />
+          }
+          ListHeaderComponent={
+            <>
+              {error && (
+                <View style={styles.errorContainer}>
+                  <Text style={styles.errorText}>{error}</Text>
+                </View>
+              )}
+              {supplier && (!!supplier.phone || !!supplier.email || !!supplier.address) && (
+                <View style={styles.infoCard}>
+                  {!!supplier.phone && (
+                    <View style={styles.infoRow}>
+                      <Feather name="phone" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{supplier.phone}</Text>
+                    </View>
+                  )}
+                  {!!supplier.email && (
+                    <View style={styles.infoRow}>
+                      <Feather name="mail" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{supplier.email}</Text>
+                    </View>
+                  )}
+                  {!!supplier.address && (
+                    <View style={styles.infoRow}>
+                      <Feather name="map-pin" size={14} color="#64748b" />
+                      <Text style={styles.infoText}>{supplier.address}</Text>
+                    </View>
+                  )}
+                </View>
+              )}
+              {ledger && (
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('suppliers.totalReceived')}</Text>
+                    <Text style={styles.summaryValue}>ETB {ledger.totalReceived.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('suppliers.totalPaid')}</Text>
+                    <Text style={[styles.summaryValue, styles.credit]}>ETB {ledger.totalPaid.toFixed(2)}</Text>
+                  </View>
+                  <View style={styles.summaryCard}>
+                    <Text style={styles.summaryLabel}>{t('suppliers.outstanding')}</Text>
+                    <Text style={[styles.summaryValue, ledger.outstanding > 0 && styles.debit]}>
+                      ETB {ledger.outstanding.toFixed(2)}
+                    </Text>
+                  </View>
+                </View>
+              )}
+              {ledger && ledger.outstanding > 0 && (
+                <TouchableOpacity style={styles.payButton} onPress={() => setShowPaymentModal(true)}>
+                  <Feather name="plus-circle" size={18} color="#fff" />
+                  <Text style={styles.payButtonText}>{t('suppliers.recordPayment')}</Text>
+                </TouchableOpacity>
+              )}
+              <Text style={styles.sectionTitle}>{t('suppliers.ledgerTitle')}</Text>
+            </>
+          }
+          ListEmptyComponent={
+            !error ? <Text style={styles.emptyText}>{t('suppliers.noLedgerEntries')}</Text> : null
+          }
+        />
+      )}
+
+      <RecordPaymentModal
+        visible={showPaymentModal}
+        amountDue={ledger?.outstanding ?? 0}
+        onClose={() => setShowPaymentModal(false)}
+        onSubmit={handleRecordPayment}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+    marginHorizontal: 12,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  errorContainer: {
+    backgroundColor: '#fee2e2',
+    padding: 8,
+    marginBottom: 12,
+    borderRadius: 4,
+  },
+  errorText: {
+    color: '#b91c1c',
+    textAlign: 'center',
+  },
+  infoCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 16,
+    marginBottom: 12,
+    gap: 6,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  infoText: {
+    fontSize: 14,
+    color: '#475569',
+    marginLeft: 8,
+    flex: 1,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  summaryCard: {
+    flex: 1,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  payButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 14,
+    marginBottom: 16,
+  },
+  payButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginBottom: 8,
+  },
+  entry: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  entryIcon: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  saleIcon: {
+    backgroundColor: '#f5f3ff',
+  },
+  paymentIcon: {
+    backgroundColor: '#ecfdf5',
+  },
+  entryTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  entryDate: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  entryAmounts: {
+    alignItems: 'flex-end',
+  },
+  entryAmount: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  entryBalance: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  debit: {
+    color: '#ef4444',
+  },
+  credit: {
+    color: '#10b981',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+});
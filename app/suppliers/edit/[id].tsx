@@ -0,0 +1,108 @@
+import { Feather } from '@expo/vector-icons';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import SupplierForm from '@/components/SupplierForm';
+import supplierService, { SupplierData } from '@/services/supplierService';
+
+export default function EditSupplierScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const params = useLocalSearchParams();
+  const id = Array.isArray(params.id) ? params.id[0] : (params.id as string) ?? '';
+
+  const [initialValues, setInitialValues] = useState<SupplierData | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    const fetchSupplier = async () => {
+      try {
+        const supplier = await supplierService.getSupplierById(id);
+        setInitialValues({
+          name: supplier.name,
+          phone: supplier.phone,
+          email: supplier.email,
+          address: supplier.address,
+        });
+      } catch {
+        Alert.alert(t('suppliers.errorTitle'), t('suppliers.loadFailed'));
+      } finally {
+        setLoading(false);
+      }
+    };
+    if (id) fetchSupplier();
+  }, [id, t]);
+
+  const handleSubmit = async (data: SupplierData) => {
+    try {
+      await supplierService.updateSupplier(id, data);
+      Alert.alert(t('suppliers.successTitle'), t('suppliers.updated'));
+      router.replace('/suppliers');
+    } catch {
+      Alert.alert(t('suppliers.errorTitle'), t('suppliers.saveFailed'));
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <LinearGradient
+        colors={['#6d28d9', '#8b5cf6']}
+        style={styles.header}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 0 }}
+      >
+        <TouchableOpacity onPress={() => router.replace('/suppliers')}>
+          <Feather name="chevron-left" size={28} color="#fff" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('suppliers.editTitle')}</Text>
+        <View style={{ width: 28 }} />
+      </LinearGradient>
+
+      {loading ? (
+        <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 40 }} />
+      ) : (
+        <ScrollView contentContainerStyle={styles.scrollContainer} keyboardShouldPersistTaps="handled">
+          <SupplierForm initialValues={initialValues} submitLabel={t('suppliers.update')} onSubmit={handleSubmit} />
+        </ScrollView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: Platform.OS === 'ios' ? 50 : 30,
+    paddingBottom: 20,
+    borderBottomLeftRadius: 20,
+    borderBottomRightRadius: 20,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  scrollContainer: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+});
@@ -19,7 +19,9 @@ import {
 import { useSelector } from 'react-redux';
 import { RootState } from '../app/store';
 
+import PendingSyncList from '../components/PendingSyncList';
 import useNetworkStatus from '../hooks/useNetworkStatus'; // add your network hook
+import exportService, { askSpreadsheetFormat, exportDate } from '../services/exportService';
 import transferService from '../services/transferService';
 
 interface Warehouse {
@@ -37,6 +39,7 @@ interface Transfer {
   _id: string;
   product?: Product;
   quantity: number;
+  unit?: string; // entered unit when not the product's base unit
   sourceWarehouse?: Warehouse;
   destinationWarehouse?: Warehouse;
   date: string;
@@ -141,6 +144,33 @@ export default function TransfersPage() {
     return matchesSearch && matchSource && matchDest;
   });
 
+  // Exports what the list shows, search and filters included
+  const handleExport = async () => {
+    const format = await askSpreadsheetFormat();
+    if (!format) return;
+    try {
+      await exportService.shareSpreadsheet(
+        `transfers-${exportDate(new Date())}`,
+        [
+          {
+            name: t('export.transfers'),
+            rows: filteredTransfers.map(transfer => ({
+              [t('export.date')]: exportDate(transfer.date),
+              [t('export.product')]: transfer.product?.name ?? '',
+              [t('export.quantity')]: transfer.quantity,
+              [t('export.unit')]: transfer.unit ?? transfer.product?.unit ?? '',
+              [t('export.from')]: transfer.sourceWarehouse?.name ?? '',
+              [t('export.to')]: transfer.destinationWarehouse?.name ?? '',
+            })),
+          },
+        ],
+        format
+      );
+    } catch (err) {
+      Alert.alert(t('export.failed'), err instanceof Error ? err.message : undefined);
+    }
+  };
+
   const sources = [...new Set(transfers.map(t => t.sourceWarehouse?.name).filter(Boolean))] as string[];
   const destinations = [...new Set(transfers.map(t => t.destinationWarehouse?.name).filter(Boolean))] as string[];
 
@@ -168,14 +198,24 @@ export default function TransfersPage() {
             <Text style={styles.title}>{t('transfers.title')}</Text>
           </View>
 
-          <TouchableOpacity
-            onPress={() => setShowFilters(true)}
-            style={styles.filterButton}
-            activeOpacity={0.7}
-          >
-            <Feather name="filter" size={20} color="#fff" />
-            <Text style={styles.filterText}>{t('transfers.filters')}</Text>
-          </TouchableOpacity>
+          <View style={styles.headerActions}>
+            <TouchableOpacity
+              onPress={handleExport}
+              style={styles.filterButton}
+              activeOpacity={0.7}
+              accessibilityLabel={t('export.export')}
+            >
+              <Feather name="download" size={20} color="#fff" />
+            </TouchableOpacity>
+            <TouchableOpacity
+              onPress={() => setShowFilters(true)}
+              style={styles.filterButton}
+              activeOpacity={0.7}
+            >
+              <Feather name="filter" size={20} color="#fff" />
+              <Text style={styles.filterText}>{t('transfers.filters')}</Text>
+            </TouchableOpacity>
+          </View>
         </View>
 
         {/* Search Bar */}
@@ -194,6 +234,9 @@ export default function TransfersPage() {
             </TouchableOpacity>
           )}
         </View>
+        {/* Transfers waiting to sync */}
+        <PendingSyncList kind="transfer" />
+
         {/* Transfers List */}
         {filteredTransfers.length > 0 ? (
           <FlatList
@@ -216,7 +259,7 @@ export default function TransfersPage() {
                   <View style={styles.details}>
                     <View style={styles.detailHeader}>
                       <Text style={styles.name} numberOfLines={1}>{item.product?.name}</Text>
-                      <Text style={styles.quantity}>{item.quantity} {item.product?.unit}</Text>
+                      <Text style={styles.quantity}>{item.quantity} {item.unit ?? item.product?.unit}</Text>
                     </View>
                     <View style={styles.transferInfo}>
                       <View style={styles.warehouseInfo}>
@@ -365,6 +408,11 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   header: { 
     flexDirection: 'row', 
     justifyContent: 'space-between', 
@@ -1,4 +1,4 @@
-import { Feather } from '@expo/vector-icons';
+import { Feather, MaterialIcons } from '@expo/vector-icons';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
 import { useNavigation } from '@react-navigation/native';
 import { router } from 'expo-router';
@@ -23,7 +23,10 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 
 import { useTranslation } from 'react-i18next';
 
-import productService from '../../services/productService';
+import BarcodeScannerModal from '../../components/BarcodeScannerModal';
+import UnitPicker from '../../components/UnitPicker';
+import outboxService from '../../services/outboxService';
+import productService, { StockRow, stockIn, stockRows, toBaseQuantity, UnitConversion } from '../../services/productService';
 import transferService from '../../services/transferService';
 import warehouseService from '../../services/warehouseService';
 
@@ -40,6 +43,10 @@ interface Product {
   price: number;
   unit: string;
   quantity: number;
+  barcode?: string;
+  warehouse?: string | { _id: string };
+  stock?: StockRow[]; // the same product's rows in every warehouse
+  unitConversions?: UnitConversion[];
 }
 
 export default function AddTransferScreen() {
@@ -58,11 +65,13 @@ export default function AddTransferScreen() {
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
 
   const [quantity, setQuantity] = useState<string>('');
+  const [unit, setUnit] = useState<UnitConversion | null>(null); // null: the product's base unit
   const [date, setDate] = useState<Date>(new Date());
   const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
 
   const [showProductDropdown, setShowProductDropdown] = useState<boolean>(false);
   const [productSearch, setProductSearch] = useState<string>('');
+  const [showScanner, setShowScanner] = useState<boolean>(false);
 
   const [warehousesLoading, setWarehousesLoading] = useState<boolean>(false);
   const [productsLoading, setProductsLoading] = useState<boolean>(false);
@@ -70,20 +79,9 @@ export default function AddTransferScreen() {
   const [warehousesError, setWarehousesError] = useState<string | null>(null);
   const [productsError, setProductsError] = useState<string | null>(null);
 
-  // Track offline alert shown only once per offline event
-  const [offlineErrorShown, setOfflineErrorShown] = useState(false);
-
   useEffect(() => {
+    // Served from the local cache when offline
     const fetchWarehouses = async () => {
-      if (!isConnected) {
-        if (!offlineErrorShown) {
-          setOfflineErrorShown(true);
-        }
-        setWarehousesError(t('addTransfer.failedToLoadWarehouses'));
-        setWarehousesLoading(false);
-        return;
-      }
-      setOfflineErrorShown(false);
       setWarehousesError(null);
       setWarehousesLoading(true);
 
@@ -98,22 +96,12 @@ export default function AddTransferScreen() {
       }
     };
     fetchWarehouses();
-  }, [t, isConnected, offlineErrorShown]);
+  }, [t, isConnected]);
 
   useEffect(() => {
     const fetchProducts = async () => {
       if (!sourceWarehouse) return;
 
-      if (!isConnected) {
-        if (!offlineErrorShown) {
-          Alert.alert(t('common.offlineTitle'), t('common.offlineMessage'));
-          setOfflineErrorShown(true);
-        }
-        setProductsError(t('addTransfer.failedToLoadProducts'));
-        setProductsLoading(false);
-        return;
-      }
-      setOfflineErrorShown(false);
       setProductsError(null);
       setProductsLoading(true);
 
@@ -129,7 +117,12 @@ export default function AddTransferScreen() {
       }
     };
     fetchProducts();
-  }, [sourceWarehouse, t, isConnected, offlineErrorShown]);
+  }, [sourceWarehouse, t, isConnected]);
+
+  // A different product starts again in its base unit
+  useEffect(() => {
+    setUnit(null);
+  }, [selectedProduct?._id]);
 
   const handleTransfer = async () => {
     if (isSubmitting) return; // <-- Prevent multiple taps
@@ -144,7 +137,7 @@ export default function AddTransferScreen() {
       return;
     }
 
-    if (Number(quantity) > selectedProduct.quantity) {
+    if (toBaseQuantity({ quantity: Number(quantity), unitFactor: unit?.factor }) > selectedProduct.quantity) {
       Alert.alert(
         t('addTransfer.insufficientStock'),
         t('addTransfer.onlyAvailable', { quantity: selectedProduct.quantity, unit: selectedProduct.unit }),
@@ -155,15 +148,21 @@ export default function AddTransferScreen() {
     setIsSubmitting(true);  // <-- disable subsequent submits here
 
     try {
-      await transferService.addTransfer({
+      const result = await transferService.addTransfer({
         sourceWarehouse,
         destinationWarehouse,
         product: selectedProduct._id,
         quantity: Number(quantity),
+        unit: unit?.unit ?? selectedProduct.unit,
+        unitFactor: unit?.factor ?? 1,
         date: date.toISOString().split('T')[0],
       });
 
-      Alert.alert(t('addTransfer.success'), t('addTransfer.transferCreated'));
+      if (outboxService.isQueued(result)) {
+        Alert.alert(t('sync.savedOfflineTitle'), t('sync.savedOfflineMessage'));
+      } else {
+        Alert.alert(t('addTransfer.success'), t('addTransfer.transferCreated'));
+      }
       setTimeout(() => router.back(), 1500);
     } catch {
       Alert.alert(t('addTransfer.error'), t('addTransfer.transferFailed'));
@@ -191,9 +190,36 @@ export default function AddTransferScreen() {
     setShowProductDropdown(false);
   };
 
+  // Pre-fill the product (and the source warehouse if none is chosen) from a scanned code
+  const handleScanned = async (code: string) => {
+    setShowScanner(false);
+    try {
+      const matches: Product[] = await productService.findByBarcode(code, sourceWarehouse || undefined);
+      if (matches.length === 0) {
+        Alert.alert(t('scanner.notFoundTitle'), t('scanner.notFoundMessage', { code }));
+        return;
+      }
+      if (sourceWarehouse) {
+        setSelectedProduct(matches.find((p) => p.quantity > 0) ?? matches[0]);
+      } else {
+        // Take the product from the first warehouse row that has stock
+        const match = matches[0];
+        const row = stockRows(match).find((r) => r.quantity > 0) ?? stockRows(match)[0];
+        if (row) setSourceWarehouse(row.warehouse._id);
+        setSelectedProduct(row ? { ...match, quantity: row.quantity, warehouse: row.warehouse } : match);
+      }
+      setProductSearch('');
+    } catch {
+      Alert.alert(t('addTransfer.error'), t('addTransfer.failedToLoadProducts'));
+    }
+  };
+
   const handleSearch = (text: string) => {
     setProductSearch(text);
-    const filtered = products.filter((p) => p.name.toLowerCase().includes(text.toLowerCase()));
+    const lowered = text.toLowerCase();
+    const filtered = products.filter(
+      (p) => p.name.toLowerCase().includes(lowered) || p.barcode?.toLowerCase() === lowered
+    );
     setFilteredProducts(filtered);
   };
 
@@ -294,7 +320,17 @@ export default function AddTransferScreen() {
               ))}
             </View>
 
-            <Text style={styles.sectionLabel}>{t('addTransfer.product')}</Text>
+            <View style={styles.productLabelRow}>
+              <Text style={styles.sectionLabel}>{t('addTransfer.product')}</Text>
+              <TouchableOpacity
+                onPress={() => setShowScanner(true)}
+                style={styles.scanButton}
+                accessibilityLabel={t('scanner.scan')}
+              >
+                <MaterialIcons name="qr-code-scanner" size={18} color="#6366f1" />
+                <Text style={styles.scanButtonText}>{t('scanner.scan')}</Text>
+              </TouchableOpacity>
+            </View>
             <TouchableOpacity onPress={handleOpenProductModal} style={styles.productInput} activeOpacity={0.7}>
               <View style={styles.productInputContent}>
                 {selectedProduct ? (
@@ -325,10 +361,19 @@ export default function AddTransferScreen() {
                     {selectedProduct.quantity} {selectedProduct.unit}
                   </Text>
                 </Text>
+                {!!destinationWarehouse && (
+                  <Text style={styles.stockInfoText}>
+                    {t('addTransfer.inDestination')}:{' '}
+                    <Text style={styles.stockQuantity}>
+                      {stockIn(selectedProduct, destinationWarehouse)} {selectedProduct.unit}
+                    </Text>
+                  </Text>
+                )}
               </View>
             )}
 
             <Text style={styles.sectionLabel}>{t('addTransfer.quantity')}</Text>
+            {selectedProduct && <UnitPicker product={selectedProduct} value={unit?.unit} onChange={setUnit} />}
             <View style={styles.quantityContainer}>
               <TextInput
                 style={styles.quantityInput}
@@ -338,7 +383,7 @@ export default function AddTransferScreen() {
                 placeholder={t('addTransfer.enterQuantity')}
                 placeholderTextColor="#94a3b8"
               />
-              {selectedProduct && <Text style={styles.quantityUnit}>{selectedProduct.unit}</Text>}
+              {selectedProduct && <Text style={styles.quantityUnit}>{unit?.unit ?? selectedProduct.unit}</Text>}
             </View>
 
             <Text style={styles.sectionLabel}>{t('addTransfer.transferDate')}</Text>
@@ -442,6 +487,12 @@ export default function AddTransferScreen() {
             </View>
           </TouchableWithoutFeedback>
         </Modal>
+
+        <BarcodeScannerModal
+          visible={showScanner}
+          onScanned={handleScanned}
+          onClose={() => setShowScanner(false)}
+        />
       </KeyboardAvoidingView>
     </SafeAreaView>
   );
@@ -523,6 +574,25 @@ const styles = StyleSheet.create({
   selectedWarehouseButtonText: {
     color: '#fff',
   },
+  productLabelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  scanButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 8,
+    backgroundColor: '#e0e7ff',
+    marginTop: 8,
+  },
+  scanButtonText: {
+    color: '#6366f1',
+    fontWeight: '600',
+  },
   productInput: {
     backgroundColor: '#fff',
     borderRadius: 12,
@@ -49,26 +49,14 @@ export default function WarehousesPage() {
   // Avoid concurrent fetches
   const isFetchingRef = useRef(false);
 
-  // Offline alert shown once per offline event
-  const [offlineErrorShown, setOfflineErrorShown] = useState(false);
-
-  // Fetch warehouses with offline and concurrency check
+  // Fetch warehouses with concurrency check; served from the local cache when offline
   const fetchWarehouses = useCallback(async () => {
-    if (!isConnected) {
-      setLoading(false);
-      if (!offlineErrorShown) {
-        setOfflineErrorShown(true);
-      }
-      return;
-    }
-    setOfflineErrorShown(false);
-
     if (isFetchingRef.current) return;
     isFetchingRef.current = true;
     setError(null);
     try {
       setLoading(true);
-      const data = await warehouseService.getAllWarehouses();
+      const data = await warehouseService.getAllWarehouses({ onUpdate: setWarehouses });
       setWarehouses(data);
     } catch {
       // Don't alert here for network/server error - apiClient handles global alerts
@@ -78,11 +66,12 @@ export default function WarehousesPage() {
       setLoading(false);
       isFetchingRef.current = false;
     }
-  }, [isConnected, offlineErrorShown, t]);
+  }, [t]);
 
+  // Refetch on reconnect to replace cached data
   useEffect(() => {
     fetchWarehouses();
-  }, [fetchWarehouses]);
+  }, [fetchWarehouses, isConnected]);
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -0,0 +1,135 @@
+import { Feather } from '@expo/vector-icons';
+import { BarcodeScanningResult, CameraView, useCameraPermissions } from 'expo-camera';
+import React, { useEffect, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Modal, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+interface BarcodeScannerModalProps {
+  visible: boolean;
+  onScanned: (code: string) => void;
+  onClose: () => void;
+}
+
+const BARCODE_TYPES: ('qr' | 'ean13' | 'ean8' | 'upc_a' | 'upc_e' | 'code128' | 'code39')[] = [
+  'qr',
+  'ean13',
+  'ean8',
+  'upc_a',
+  'upc_e',
+  'code128',
+  'code39',
+];
+
+export default function BarcodeScannerModal({ visible, onScanned, onClose }: BarcodeScannerModalProps) {
+  const { t } = useTranslation();
+  const [permission, requestPermission] = useCameraPermissions();
+  // The camera keeps firing while the code is in view; report only the first read
+  const handledRef = useRef(false);
+
+  useEffect(() => {
+    if (!visible) return;
+    handledRef.current = false;
+    if (permission && !permission.granted && permission.canAskAgain) {
+      requestPermission();
+    }
+  }, [visible, permission, requestPermission]);
+
+  const handleScanned = ({ data }: BarcodeScanningResult) => {
+    const code = data?.trim();
+    if (handledRef.current || !code) return;
+    handledRef.current = true;
+    onScanned(code);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={styles.container}>
+        {!permission ? (
+          <ActivityIndicator size="large" color="#fff" />
+        ) : permission.granted ? (
+          <CameraView
+            style={StyleSheet.absoluteFill}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: BARCODE_TYPES }}
+            onBarcodeScanned={handleScanned}
+          />
+        ) : (
+          <View style={styles.permissionBox}>
+            <Feather name="camera-off" size={40} color="#fff" />
+            <Text style={styles.permissionText}>{t('scanner.permissionMessage')}</Text>
+            {permission.canAskAgain && (
+              <TouchableOpacity style={styles.permissionButton} onPress={requestPermission}>
+                <Text style={styles.permissionButtonText}>{t('scanner.grantPermission')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+
+        {permission?.granted && (
+          <View style={styles.overlay} pointerEvents="none">
+            <View style={styles.frame} />
+            <Text style={styles.hint}>{t('scanner.hint')}</Text>
+          </View>
+        )}
+
+        <TouchableOpacity style={styles.closeButton} onPress={onClose}>
+          <Feather name="x" size={28} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  overlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  frame: {
+    width: 260,
+    height: 180,
+    borderWidth: 3,
+    borderColor: '#8b5cf6',
+    borderRadius: 16,
+  },
+  hint: {
+    color: '#fff',
+    fontSize: 15,
+    marginTop: 20,
+    textAlign: 'center',
+  },
+  permissionBox: {
+    alignItems: 'center',
+    paddingHorizontal: 32,
+  },
+  permissionText: {
+    color: '#fff',
+    fontSize: 16,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+  permissionButton: {
+    backgroundColor: '#6d28d9',
+    borderRadius: 12,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  permissionButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  closeButton: {
+    position: 'absolute',
+    top: 50,
+    right: 20,
+    padding: 8,
+  },
+});
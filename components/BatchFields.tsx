@@ -0,0 +1,100 @@
+import { Feather } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Platform, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+
+interface BatchFieldsProps {
+  batchNumber: string;
+  expiryDate: Date | null;
+  onChangeBatchNumber: (value: string) => void;
+  onChangeExpiryDate: (value: Date) => void;
+}
+
+// ✅ Expiry date as stored on a lot (date only, no time of day)
+export const toExpiryDate = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Lot number and expiry date of stock coming in, for batch-tracked products
+export default function BatchFields({ batchNumber, expiryDate, onChangeBatchNumber, onChangeExpiryDate }: BatchFieldsProps) {
+  const { t } = useTranslation();
+  const [showPicker, setShowPicker] = useState<boolean>(false);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <View style={[styles.field, { marginRight: 8 }]}>
+          <Text style={styles.label}>{t('batches.batchNumber')}*</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('batches.batchNumberPlaceholder')}
+            placeholderTextColor="#94a3b8"
+            autoCapitalize="characters"
+            value={batchNumber}
+            onChangeText={onChangeBatchNumber}
+          />
+        </View>
+        <View style={styles.field}>
+          <Text style={styles.label}>{t('batches.expiryDate')}*</Text>
+          <TouchableOpacity style={[styles.input, styles.dateButton]} onPress={() => setShowPicker(true)}>
+            <Text style={expiryDate ? styles.dateText : styles.placeholder}>
+              {expiryDate ? expiryDate.toLocaleDateString() : t('batches.selectDate')}
+            </Text>
+            <Feather name="calendar" size={16} color="#64748b" />
+          </TouchableOpacity>
+        </View>
+      </View>
+      {showPicker && (
+        <DateTimePicker
+          value={expiryDate ?? new Date()}
+          mode="date"
+          display={Platform.OS === 'ios' ? 'inline' : 'calendar'}
+          onChange={(event, selectedDate) => {
+            if (Platform.OS !== 'ios') setShowPicker(false);
+            if (selectedDate) onChangeExpiryDate(selectedDate);
+          }}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  field: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  dateButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  dateText: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  placeholder: {
+    fontSize: 16,
+    color: '#94a3b8',
+  },
+});
@@ -0,0 +1,227 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { CustomerData } from '../services/customerService';
+import priceListService, { PriceList } from '../services/priceListService';
+
+interface CustomerFormProps {
+  initialValues?: CustomerData | null;
+  submitLabel: string;
+  onSubmit: (data: CustomerData) => Promise<void>;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Shared fields for the add and edit customer screens
+export default function CustomerForm({ initialValues, submitLabel, onSubmit }: CustomerFormProps) {
+  const { t } = useTranslation();
+
+  const [name, setName] = useState<string>('');
+  const [phone, setPhone] = useState<string>('');
+  const [address, setAddress] = useState<string>('');
+  const [creditLimit, setCreditLimit] = useState<string>('');
+  const [priceList, setPriceList] = useState<string | null>(null);
+  const [priceLists, setPriceLists] = useState<PriceList[]>([]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  useEffect(() => {
+    setName(initialValues?.name ?? '');
+    setPhone(initialValues?.phone ?? '');
+    setAddress(initialValues?.address ?? '');
+    setCreditLimit(initialValues?.creditLimit ? String(initialValues.creditLimit) : '');
+    setPriceList(initialValues?.priceList ?? null);
+  }, [initialValues]);
+
+  useEffect(() => {
+    priceListService.getAllPriceLists().then(setPriceLists).catch(() => setPriceLists([]));
+  }, []);
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+    if (!name.trim()) {
+      Alert.alert(t('customers.errorTitle'), t('customers.nameRequired'));
+      return;
+    }
+    const limit = creditLimit.trim() === '' ? null : parseFloat(creditLimit);
+    if (limit !== null && (isNaN(limit) || limit < 0)) {
+      Alert.alert(t('customers.errorTitle'), t('customers.invalidCreditLimit'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        phone: phone.trim(),
+        address: address.trim(),
+        creditLimit: limit,
+        priceList,
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.formCard}>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('customers.name')}*</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('customers.namePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={name}
+          onChangeText={setName}
+          autoCapitalize="words"
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('customers.phone')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('customers.phonePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          keyboardType="phone-pad"
+          value={phone}
+          onChangeText={setPhone}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('customers.address')}</Text>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          placeholder={t('customers.addressPlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={address}
+          onChangeText={setAddress}
+          multiline
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('customers.creditLimit')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('customers.creditLimitPlaceholder')}
+          placeholderTextColor="#94a3b8"
+          keyboardType="numeric"
+          value={creditLimit}
+          onChangeText={text => {
+            if (decimalPattern.test(text)) setCreditLimit(text);
+          }}
+        />
+        <Text style={styles.hint}>{t('customers.creditLimitHint')}</Text>
+      </View>
+
+      {priceLists.length > 0 && (
+        <View style={styles.inputContainer}>
+          <Text style={styles.inputLabel}>{t('priceLists.priceList')}</Text>
+          <View style={styles.chipRow}>
+            {[{ _id: null, name: t('priceLists.standardPrices') }, ...priceLists].map(list => (
+              <TouchableOpacity
+                key={list._id ?? 'standard'}
+                style={[styles.chip, priceList === list._id && styles.chipSelected]}
+                onPress={() => setPriceList(list._id)}
+              >
+                <Text style={[styles.chipText, priceList === list._id && styles.chipTextSelected]}>{list.name}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <Text style={styles.hint}>{t('priceLists.customerHint')}</Text>
+        </View>
+      )}
+
+      <TouchableOpacity style={styles.saveButton} onPress={handleSubmit} disabled={submitting} activeOpacity={0.9}>
+        {submitting ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Feather name="check-circle" size={20} color="#fff" />
+        )}
+        <Text style={styles.saveButtonText}>{submitLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginTop: 6,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,369 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import customerService, { Customer } from '../services/customerService';
+
+interface CustomerPickerProps {
+  value: Customer | null;
+  onChange: (customer: Customer) => void;
+}
+
+// Customer field for the sale screens: search the directory or create a customer inline
+export default function CustomerPicker({ value, onChange }: CustomerPickerProps) {
+  const { t } = useTranslation();
+
+  const [visible, setVisible] = useState<boolean>(false);
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [search, setSearch] = useState<string>('');
+  const [creating, setCreating] = useState<boolean>(false);
+  const [newName, setNewName] = useState<string>('');
+  const [newPhone, setNewPhone] = useState<string>('');
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const loadCustomers = useCallback(async () => {
+    setLoading(true);
+    try {
+      const data = await customerService.getAllCustomers({ onUpdate: setCustomers });
+      setCustomers(Array.isArray(data) ? data : []);
+    } catch {
+      setCustomers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (visible) loadCustomers();
+  }, [visible, loadCustomers]);
+
+  const filtered = useMemo(() => {
+    const lowered = search.trim().toLowerCase();
+    if (!lowered) return customers;
+    return customers.filter(
+      c => c.name.toLowerCase().includes(lowered) || (c.phone?.includes(lowered) ?? false),
+    );
+  }, [customers, search]);
+
+  const close = () => {
+    setVisible(false);
+    setSearch('');
+    setCreating(false);
+  };
+
+  const handleSelect = (customer: Customer) => {
+    onChange(customer);
+    close();
+  };
+
+  const startCreate = () => {
+    setNewName(search.trim());
+    setNewPhone('');
+    setCreating(true);
+  };
+
+  const handleCreate = async () => {
+    if (!newName.trim()) {
+      Alert.alert(t('customers.errorTitle'), t('customers.nameRequired'));
+      return;
+    }
+    setSaving(true);
+    try {
+      const created = await customerService.addCustomer({
+        name: newName.trim(),
+        phone: newPhone.trim() || undefined,
+      });
+      handleSelect(created);
+    } catch {
+      Alert.alert(t('customers.errorTitle'), t('customers.saveFailed'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <TouchableOpacity style={styles.selector} onPress={() => setVisible(true)} activeOpacity={0.7}>
+        <Feather name="user" size={20} color="#64748b" style={styles.selectorIcon} />
+        <View style={{ flex: 1 }}>
+          {value ? (
+            <>
+              <Text style={styles.selectorText} numberOfLines={1}>{value.name}</Text>
+              <Text style={styles.selectorDetail}>
+                {value.phone ? `${value.phone} · ` : ''}
+                {t('customers.balance')}: ETB {(value.balance ?? 0).toFixed(2)}
+                {value.creditLimit ? ` / ${t('customers.limit')} ETB ${value.creditLimit.toFixed(2)}` : ''}
+              </Text>
+            </>
+          ) : (
+            <Text style={styles.placeholder}>{t('customers.selectCustomer')}</Text>
+          )}
+        </View>
+        <Feather name="chevron-down" size={20} color="#94a3b8" />
+      </TouchableOpacity>
+
+      <Modal visible={visible} transparent animationType="slide" onRequestClose={close}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>
+                {creating ? t('customers.newCustomer') : t('customers.selectCustomer')}
+              </Text>
+              <TouchableOpacity onPress={close}>
+                <Feather name="x" size={24} color="#475569" />
+              </TouchableOpacity>
+            </View>
+
+            {creating ? (
+              <View style={styles.body}>
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('customers.namePlaceholder')}
+                  placeholderTextColor="#94a3b8"
+                  value={newName}
+                  onChangeText={setNewName}
+                  autoCapitalize="words"
+                />
+                <TextInput
+                  style={styles.input}
+                  placeholder={t('customers.phonePlaceholder')}
+                  placeholderTextColor="#94a3b8"
+                  keyboardType="phone-pad"
+                  value={newPhone}
+                  onChangeText={setNewPhone}
+                />
+                <View style={styles.actions}>
+                  <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={() => setCreating(false)}>
+                    <Text style={styles.cancelButtonText}>{t('common.cancel')}</Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.button, styles.saveButton]}
+                    onPress={handleCreate}
+                    disabled={saving}
+                  >
+                    {saving ? (
+                      <ActivityIndicator size="small" color="#fff" />
+                    ) : (
+                      <Text style={styles.saveButtonText}>{t('customers.create')}</Text>
+                    )}
+                  </TouchableOpacity>
+                </View>
+              </View>
+            ) : (
+              <View style={styles.body}>
+                <View style={styles.searchContainer}>
+                  <Feather name="search" size={20} color="#64748b" style={styles.searchIcon} />
+                  <TextInput
+                    style={styles.searchInput}
+                    placeholder={t('customers.searchPlaceholder')}
+                    placeholderTextColor="#94a3b8"
+                    value={search}
+                    onChangeText={setSearch}
+                  />
+                </View>
+
+                <TouchableOpacity style={styles.createRow} onPress={startCreate}>
+                  <Feather name="user-plus" size={18} color="#6d28d9" />
+                  <Text style={styles.createText}>
+                    {search.trim() ? t('customers.createNamed', { name: search.trim() }) : t('customers.newCustomer')}
+                  </Text>
+                </TouchableOpacity>
+
+                {loading ? (
+                  <ActivityIndicator size="large" color="#6d28d9" style={styles.loader} />
+                ) : (
+                  <FlatList
+                    data={filtered}
+                    keyExtractor={item => item._id}
+                    keyboardShouldPersistTaps="handled"
+                    renderItem={({ item }) => (
+                      <TouchableOpacity style={styles.item} onPress={() => handleSelect(item)}>
+                        <View style={{ flex: 1 }}>
+                          <Text style={styles.itemName}>{item.name}</Text>
+                          {item.phone ? <Text style={styles.itemDetail}>{item.phone}</Text> : null}
+                        </View>
+                        {(item.balance ?? 0) > 0 && (
+                          <Text style={styles.itemBalance}>ETB {(item.balance ?? 0).toFixed(2)}</Text>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                    ItemSeparatorComponent={() => <View style={styles.separator} />}
+                    ListEmptyComponent={<Text style={styles.emptyText}>{t('customers.noCustomers')}</Text>}
+                  />
+                )}
+              </View>
+            )}
+          </View>
+        </View>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  selector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectorIcon: {
+    marginRight: 10,
+  },
+  selectorText: {
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  selectorDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  placeholder: {
+    fontSize: 16,
+    color: '#94a3b8',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    paddingTop: 16,
+    height: '75%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  createRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 14,
+  },
+  createText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+    fontSize: 15,
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  itemName: {
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  itemDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  itemBalance: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#e2e8f0',
+  },
+  emptyText: {
+    fontSize: 15,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 12,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+  },
+  button: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  cancelButtonText: {
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#6d28d9',
+    minWidth: 100,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
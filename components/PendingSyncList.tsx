@@ -0,0 +1,143 @@
+import { Feather } from '@expo/vector-icons';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import useOutbox from '../hooks/useOutbox';
+import outboxService, { OutboxEntry, OutboxKind } from '../services/outboxService';
+import { calculatePurchaseTotal } from '../services/purchaseService';
+import { calculateLineTotal } from '../services/saleService';
+
+interface PendingSyncListProps {
+  kind?: OutboxKind;
+}
+
+export default function PendingSyncList({ kind }: PendingSyncListProps) {
+  const { t } = useTranslation();
+  const { pending, conflicts } = useOutbox(kind);
+
+  if (pending.length === 0 && conflicts.length === 0) return null;
+
+  // One-line summary of what the queued write contains
+  const describe = (entry: OutboxEntry): string => {
+    const data = entry.data ?? {};
+    switch (entry.kind) {
+      case 'sale': {
+        const items: any[] = Array.isArray(data.items) ? data.items : [];
+        const total = items.reduce((sum, item) => sum + calculateLineTotal(item), 0);
+        return `${data.customerName ?? ''} · ${t('sync.itemsCount', { count: items.length })} · ETB ${total.toFixed(2)}`;
+      }
+      case 'expense':
+        return `${data.category ?? ''} · ETB ${Number(data.amount ?? 0).toFixed(2)}`;
+      case 'transfer':
+        return `${t('sync.transferOf', { quantity: data.quantity ?? 0 })} · ${data.date ?? ''}`;
+      case 'productEdit':
+        return `${t('sync.productEdit')}: ${data.name ?? ''}`;
+      case 'goodsReceipt': {
+        const items: any[] = Array.isArray(data.items) ? data.items : [];
+        return `${t('sync.goodsReceipt')} · ${t('sync.itemsCount', { count: items.length })} · ETB ${calculatePurchaseTotal(items).toFixed(2)}`;
+      }
+      case 'adjustment': {
+        const change = Number(data.change ?? 0);
+        return `${t('sync.adjustment')}: ${t(`adjustments.reason_${data.reason}`)} · ${change > 0 ? '+' : ''}${change}`;
+      }
+      default:
+        return entry.url;
+    }
+  };
+
+  const handleDiscard = (id: string) => {
+    Alert.alert(t('sync.discardTitle'), t('sync.discardMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      { text: t('sync.discard'), style: 'destructive', onPress: () => outboxService.discard(id) },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {conflicts.map((entry) => (
+        <View key={entry.id} style={[styles.row, styles.conflictRow]}>
+          <Feather name="alert-triangle" size={18} color="#ef4444" style={styles.icon} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title} numberOfLines={1}>{describe(entry)}</Text>
+            <Text style={styles.conflictText} numberOfLines={2}>
+              {t('sync.failed')}: {entry.message}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => outboxService.retryConflict(entry.id)} style={styles.action}>
+            <Feather name="rotate-cw" size={18} color="#6366f1" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => handleDiscard(entry.id)} style={styles.action}>
+            <Feather name="trash-2" size={18} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {pending.map((entry) => (
+        <View key={entry.id} style={styles.row}>
+          <Feather name="cloud-off" size={18} color="#f59e0b" style={styles.icon} />
+          <View style={{ flex: 1 }}>
+            <Text style={styles.title} numberOfLines={1}>{describe(entry)}</Text>
+            <Text style={styles.subtitle}>{new Date(entry.createdAt).toLocaleString()}</Text>
+          </View>
+          <View style={styles.badge}>
+            <Text style={styles.badgeText}>{t('sync.pending')}</Text>
+          </View>
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fffbeb',
+    borderWidth: 1,
+    borderColor: '#fde68a',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 8,
+  },
+  conflictRow: {
+    backgroundColor: '#fef2f2',
+    borderColor: '#fecaca',
+  },
+  icon: {
+    marginRight: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  subtitle: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  conflictText: {
+    fontSize: 12,
+    color: '#b91c1c',
+    marginTop: 2,
+  },
+  badge: {
+    backgroundColor: '#f59e0b20',
+    borderColor: '#f59e0b',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  badgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#b45309',
+  },
+  action: {
+    marginLeft: 12,
+  },
+});
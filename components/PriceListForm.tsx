@@ -0,0 +1,468 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { PriceList, PriceListData } from '../services/priceListService';
+import productService, { expandVariants } from '../services/productService';
+
+interface PriceListFormProps {
+  initialValues?: PriceList | null;
+  submitLabel: string;
+  onSubmit: (data: PriceListData) => Promise<void>;
+}
+
+interface ListedProduct {
+  _id: string;
+  name: string;
+  brand?: string;
+  unit?: string;
+  sellingPrice?: number;
+}
+
+// A product's list price and quantity breaks as typed
+interface ItemDraft {
+  product: ListedProduct;
+  price: string;
+  breaks: { minQuantity: string; price: string }[];
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Shared fields for the add and edit price list screens
+export default function PriceListForm({ initialValues, submitLabel, onSubmit }: PriceListFormProps) {
+  const { t } = useTranslation();
+
+  const [name, setName] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [items, setItems] = useState<ItemDraft[]>([]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  const [pickerVisible, setPickerVisible] = useState<boolean>(false);
+  const [products, setProducts] = useState<ListedProduct[]>([]);
+  const [productLoading, setProductLoading] = useState<boolean>(false);
+  const [productSearch, setProductSearch] = useState<string>('');
+
+  useEffect(() => {
+    setName(initialValues?.name ?? '');
+    setDescription(initialValues?.description ?? '');
+    setItems(
+      (initialValues?.items ?? [])
+        .filter(item => typeof item.product === 'object')
+        .map(item => ({
+          product: item.product as ListedProduct,
+          price: String(item.price),
+          breaks: (item.breaks ?? []).map(b => ({ minQuantity: String(b.minQuantity), price: String(b.price) })),
+        }))
+    );
+  }, [initialValues]);
+
+  const openPicker = async () => {
+    setPickerVisible(true);
+    setProductSearch('');
+    if (products.length > 0) return;
+    setProductLoading(true);
+    try {
+      const data = await productService.getProductList();
+      // Variants carry their own prices, so they're listed in place of their parent
+      setProducts(Array.isArray(data) ? (expandVariants(data) as ListedProduct[]) : []);
+    } catch {
+      Alert.alert(t('priceLists.errorTitle'), t('sale.errorloadproducts'));
+    } finally {
+      setProductLoading(false);
+    }
+  };
+
+  const available = useMemo(() => {
+    const listed = new Set(items.map(item => item.product._id));
+    const lowered = productSearch.trim().toLowerCase();
+    return products.filter(
+      p =>
+        !listed.has(p._id) &&
+        (!lowered || p.name.toLowerCase().includes(lowered) || (p.brand?.toLowerCase().includes(lowered) ?? false))
+    );
+  }, [products, items, productSearch]);
+
+  const addItem = (product: ListedProduct) => {
+    setItems(prev => [
+      ...prev,
+      { product, price: product.sellingPrice !== undefined ? String(product.sellingPrice) : '', breaks: [] },
+    ]);
+    setPickerVisible(false);
+  };
+
+  const updateItem = (index: number, change: Partial<ItemDraft>) =>
+    setItems(prev => prev.map((item, i) => (i === index ? { ...item, ...change } : item)));
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+    if (!name.trim()) {
+      Alert.alert(t('priceLists.errorTitle'), t('priceLists.nameRequired'));
+      return;
+    }
+
+    const parsed: PriceListData['items'] = [];
+    for (const item of items) {
+      const price = parseFloat(item.price);
+      if (isNaN(price) || price <= 0) {
+        Alert.alert(t('priceLists.errorTitle'), t('priceLists.invalidPrice', { name: item.product.name }));
+        return;
+      }
+      const breaks = item.breaks
+        .filter(b => b.minQuantity.trim() !== '' || b.price.trim() !== '')
+        .map(b => ({ minQuantity: parseFloat(b.minQuantity), price: parseFloat(b.price) }));
+      const minimums = new Set(breaks.map(b => b.minQuantity));
+      if (
+        breaks.some(b => isNaN(b.minQuantity) || b.minQuantity <= 1 || isNaN(b.price) || b.price <= 0) ||
+        minimums.size !== breaks.length
+      ) {
+        Alert.alert(t('priceLists.errorTitle'), t('priceLists.invalidBreaks', { name: item.product.name }));
+        return;
+      }
+      parsed.push({
+        product: item.product._id,
+        price,
+        breaks: breaks.sort((a, b) => a.minQuantity - b.minQuantity),
+      });
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({ name: name.trim(), description: description.trim(), items: parsed });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const numberInput = (value: string, onChange: (text: string) => void, placeholder: string) => (
+    <TextInput
+      style={[styles.input, styles.smallInput]}
+      placeholder={placeholder}
+      placeholderTextColor="#94a3b8"
+      keyboardType="numeric"
+      value={value}
+      onChangeText={text => {
+        if (decimalPattern.test(text)) onChange(text);
+      }}
+    />
+  );
+
+  return (
+    <View style={styles.formCard}>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('priceLists.name')}*</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('priceLists.namePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={name}
+          onChangeText={setName}
+          autoCapitalize="words"
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('priceLists.description')}</Text>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          placeholder={t('priceLists.descriptionPlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={description}
+          onChangeText={setDescription}
+          multiline
+        />
+      </View>
+
+      <View style={styles.itemsHeader}>
+        <Text style={styles.inputLabel}>
+          {t('priceLists.products')} ({items.length})
+        </Text>
+        <TouchableOpacity style={styles.addButton} onPress={openPicker}>
+          <Feather name="plus" size={16} color="#6d28d9" />
+          <Text style={styles.addButtonText}>{t('priceLists.addProduct')}</Text>
+        </TouchableOpacity>
+      </View>
+      <Text style={styles.hint}>{t('priceLists.pricesHint')}</Text>
+
+      {items.map((item, index) => (
+        <View key={item.product._id} style={styles.itemCard}>
+          <View style={styles.itemHeader}>
+            <View style={{ flex: 1 }}>
+              <Text style={styles.itemName} numberOfLines={1}>
+                {item.product.name} {item.product.brand ?? ''}
+              </Text>
+              {item.product.sellingPrice !== undefined && (
+                <Text style={styles.itemMeta}>
+                  {t('priceLists.standardPrice', {
+                    price: Number(item.product.sellingPrice).toFixed(2),
+                    unit: item.product.unit ?? '',
+                  })}
+                </Text>
+              )}
+            </View>
+            <TouchableOpacity onPress={() => setItems(prev => prev.filter((_, i) => i !== index))}>
+              <Feather name="trash-2" size={18} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.breakRow}>
+            <Text style={styles.breakLabel}>{t('priceLists.listPrice')}</Text>
+            {numberInput(item.price, text => updateItem(index, { price: text }), '0.00')}
+          </View>
+
+          {item.breaks.map((row, breakIndex) => (
+            <View key={breakIndex} style={styles.breakRow}>
+              <Text style={styles.breakLabel}>{t('priceLists.fromQuantity')}</Text>
+              {numberInput(
+                row.minQuantity,
+                text =>
+                  updateItem(index, {
+                    breaks: item.breaks.map((b, i) => (i === breakIndex ? { ...b, minQuantity: text } : b)),
+                  }),
+                item.product.unit ?? '0'
+              )}
+              {numberInput(
+                row.price,
+                text =>
+                  updateItem(index, {
+                    breaks: item.breaks.map((b, i) => (i === breakIndex ? { ...b, price: text } : b)),
+                  }),
+                '0.00'
+              )}
+              <TouchableOpacity
+                onPress={() => updateItem(index, { breaks: item.breaks.filter((_, i) => i !== breakIndex) })}
+              >
+                <Feather name="x" size={18} color="#94a3b8" />
+              </TouchableOpacity>
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={styles.addBreak}
+            onPress={() => updateItem(index, { breaks: [...item.breaks, { minQuantity: '', price: '' }] })}
+          >
+            <Feather name="layers" size={14} color="#6d28d9" />
+            <Text style={styles.addBreakText}>{t('priceLists.addBreak')}</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity style={styles.saveButton} onPress={handleSubmit} disabled={submitting} activeOpacity={0.9}>
+        {submitting ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Feather name="check-circle" size={20} color="#fff" />
+        )}
+        <Text style={styles.saveButtonText}>{submitLabel}</Text>
+      </TouchableOpacity>
+
+      <Modal visible={pickerVisible} transparent animationType="slide" onRequestClose={() => setPickerVisible(false)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalContainer}>
+            <View style={styles.modalHeader}>
+              <Text style={styles.modalTitle}>{t('priceLists.addProduct')}</Text>
+              <TouchableOpacity onPress={() => setPickerVisible(false)}>
+                <Feather name="x" size={24} color="#475569" />
+              </TouchableOpacity>
+            </View>
+            <TextInput
+              style={[styles.input, { marginHorizontal: 20, marginBottom: 12 }]}
+              placeholder={t('sale.searchproduct')}
+              placeholderTextColor="#94a3b8"
+              value={productSearch}
+              onChangeText={setProductSearch}
+            />
+            {productLoading ? (
+              <ActivityIndicator size="large" color="#6d28d9" style={{ marginTop: 24 }} />
+            ) : (
+              <FlatList
+                data={available}
+                keyExtractor={item => item._id}
+                keyboardShouldPersistTaps="handled"
+                renderItem={({ item }) => (
+                  <TouchableOpacity style={styles.productItem} onPress={() => addItem(item)}>
+                    <Text style={styles.itemName}>
+                      {item.name} {item.brand ?? ''}
+                    </Text>
+                    {item.sellingPrice !== undefined && (
+                      <Text style={styles.itemMeta}>ETB {Number(item.sellingPrice).toFixed(2)}</Text>
+                    )}
+                  </TouchableOpacity>
+                )}
+                ListEmptyComponent={<Text style={styles.emptyText}>{t('priceLists.noProductsToAdd')}</Text>}
+              />
+            )}
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  smallInput: {
+    flex: 1,
+    padding: 10,
+    fontSize: 15,
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#94a3b8',
+    marginBottom: 12,
+  },
+  itemsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f5f3ff',
+    marginBottom: 8,
+  },
+  addButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  itemCard: {
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    gap: 8,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  itemName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  itemMeta: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  breakRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  breakLabel: {
+    width: 90,
+    fontSize: 13,
+    color: '#475569',
+  },
+  addBreak: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    alignSelf: 'flex-start',
+  },
+  addBreakText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingTop: 16,
+    paddingBottom: 20,
+    height: '75%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  productItem: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f5f9',
+  },
+  emptyText: {
+    textAlign: 'center',
+    color: '#94a3b8',
+    marginTop: 24,
+  },
+});
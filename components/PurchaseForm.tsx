@@ -0,0 +1,341 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Dropdown } from 'react-native-element-dropdown';
+import { calculatePurchaseTotal } from '../services/purchaseService';
+import supplierService, { Supplier } from '../services/supplierService';
+import warehouseService from '../services/warehouseService';
+import PurchaseLineEditor, { PurchaseCartLine } from './PurchaseLineEditor';
+import PurchaseLines from './PurchaseLines';
+
+export interface PurchaseFormValues {
+  supplier: string;
+  warehouse: string;
+  lines: PurchaseCartLine[];
+  note: string;
+  amountPaid: number;
+  paymentChannel: string;
+}
+
+interface PurchaseFormProps {
+  mode: 'order' | 'receipt';
+  initialValues?: Partial<PurchaseFormValues>;
+  lockParties?: boolean; // receiving against an order keeps its supplier and warehouse
+  submitLabel: string;
+  onSubmit: (values: PurchaseFormValues) => Promise<void>;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Supplier, warehouse and lines for a purchase order or goods-received note
+export default function PurchaseForm({ mode, initialValues, lockParties, submitLabel, onSubmit }: PurchaseFormProps) {
+  const { t } = useTranslation();
+
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [warehouses, setWarehouses] = useState<{ _id: string; name: string }[]>([]);
+  const [supplier, setSupplier] = useState<string>(initialValues?.supplier ?? '');
+  const [warehouse, setWarehouse] = useState<string>(initialValues?.warehouse ?? '');
+  const [lines, setLines] = useState<PurchaseCartLine[]>(initialValues?.lines ?? []);
+  const [note, setNote] = useState<string>(initialValues?.note ?? '');
+  const [amountPaid, setAmountPaid] = useState<string>('');
+  const [paymentChannel, setPaymentChannel] = useState<string>('cash');
+  const [editorVisible, setEditorVisible] = useState<boolean>(false);
+  const [editingLine, setEditingLine] = useState<PurchaseCartLine | null>(null);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  useEffect(() => {
+    const loadOptions = async () => {
+      try {
+        const [supplierData, warehouseData] = await Promise.all([
+          supplierService.getAllSuppliers({ onUpdate: setSuppliers }),
+          warehouseService.getAllWarehouses({ onUpdate: setWarehouses }),
+        ]);
+        setSuppliers(Array.isArray(supplierData) ? supplierData : []);
+        setWarehouses(Array.isArray(warehouseData) ? warehouseData : []);
+      } catch {
+        Alert.alert(t('purchases.errorTitle'), t('purchases.optionsLoadFailed'));
+      }
+    };
+    loadOptions();
+  }, [t]);
+
+  // Prefill arrives after the order loads
+  useEffect(() => {
+    if (!initialValues) return;
+    if (initialValues.supplier) setSupplier(initialValues.supplier);
+    if (initialValues.warehouse) setWarehouse(initialValues.warehouse);
+    if (initialValues.lines) setLines(initialValues.lines);
+  }, [initialValues]);
+
+  const handleSaveLine = (line: PurchaseCartLine) => {
+    setLines(prev => {
+      const exists = prev.some(l => l.key === line.key);
+      return exists ? prev.map(l => (l.key === line.key ? line : l)) : [...prev, line];
+    });
+    setEditorVisible(false);
+    setEditingLine(null);
+  };
+
+  const total = calculatePurchaseTotal(lines);
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+    if (!supplier) {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.selectSupplier'));
+      return;
+    }
+    if (!warehouse) {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.selectWarehouse'));
+      return;
+    }
+    if (lines.length === 0) {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.noLines'));
+      return;
+    }
+    // Lines carried over from an order still need the lot they arrived in
+    if (mode === 'receipt' && lines.some(line => line.product.trackBatches && !line.batchNumber)) {
+      Alert.alert(t('purchases.errorTitle'), t('batches.linesNeedBatch'));
+      return;
+    }
+    const paid = amountPaid.trim() === '' ? 0 : parseFloat(amountPaid);
+    if (mode === 'receipt' && (isNaN(paid) || paid < 0 || paid > total)) {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.invalidAmountPaid'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({ supplier, warehouse, lines, note: note.trim(), amountPaid: paid, paymentChannel });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('purchases.supplier')}*</Text>
+        <Dropdown
+          style={[styles.dropdown, lockParties && styles.locked]}
+          placeholderStyle={styles.placeholderStyle}
+          selectedTextStyle={styles.selectedTextStyle}
+          inputSearchStyle={styles.inputSearchStyle}
+          data={suppliers.map(s => ({ label: s.name, value: s._id }))}
+          search
+          maxHeight={300}
+          labelField="label"
+          valueField="value"
+          placeholder={t('purchases.selectSupplier')}
+          searchPlaceholder={t('sale.search')}
+          value={supplier}
+          disable={lockParties}
+          onChange={item => setSupplier(item.value)}
+          renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="truck" size={20} color="#64748b" />}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('purchases.warehouse')}*</Text>
+        <Dropdown
+          style={[styles.dropdown, lockParties && styles.locked]}
+          placeholderStyle={styles.placeholderStyle}
+          selectedTextStyle={styles.selectedTextStyle}
+          inputSearchStyle={styles.inputSearchStyle}
+          data={warehouses.map(w => ({ label: w.name, value: w._id }))}
+          search
+          maxHeight={300}
+          labelField="label"
+          valueField="value"
+          placeholder={t('purchases.selectWarehouse')}
+          searchPlaceholder={t('sale.search')}
+          value={warehouse}
+          disable={lockParties}
+          onChange={item => setWarehouse(item.value)}
+          renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="archive" size={20} color="#64748b" />}
+        />
+      </View>
+
+      <PurchaseLines
+        lines={lines}
+        disabled={!warehouse}
+        onAdd={() => {
+          setEditingLine(null);
+          setEditorVisible(true);
+        }}
+        onEdit={line => {
+          setEditingLine(line);
+          setEditorVisible(true);
+        }}
+        onRemove={key => setLines(prev => prev.filter(l => l.key !== key))}
+      />
+
+      {mode === 'receipt' && (
+        <>
+          <View style={styles.inputContainer}>
+            <Text style={styles.inputLabel}>{t('purchases.amountPaid')}</Text>
+            <TextInput
+              style={styles.input}
+              placeholder="0.00"
+              placeholderTextColor="#94a3b8"
+              keyboardType="numeric"
+              value={amountPaid}
+              onChangeText={text => {
+                if (decimalPattern.test(text)) setAmountPaid(text);
+              }}
+            />
+            <Text style={styles.hint}>
+              {t('purchases.owedAfter', {
+                amount: Math.max(total - (parseFloat(amountPaid) || 0), 0).toFixed(2),
+              })}
+            </Text>
+          </View>
+          {(parseFloat(amountPaid) || 0) > 0 && (
+            <View style={styles.channelRow}>
+              {['cash', 'bank'].map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.channelOption, paymentChannel === option && styles.channelSelected]}
+                  onPress={() => setPaymentChannel(option)}
+                >
+                  <Text style={[styles.channelText, paymentChannel === option && styles.channelTextSelected]}>
+                    {t(`sales.paymentChannel.${option}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </>
+      )}
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('purchases.note')}</Text>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          placeholder={t('purchases.notePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={note}
+          onChangeText={setNote}
+          multiline
+        />
+      </View>
+
+      <TouchableOpacity style={styles.saveButton} onPress={handleSubmit} disabled={submitting} activeOpacity={0.9}>
+        {submitting ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Feather name={mode === 'receipt' ? 'download' : 'check-circle'} size={20} color="#fff" />
+        )}
+        <Text style={styles.saveButtonText}>{submitLabel}</Text>
+      </TouchableOpacity>
+
+      <PurchaseLineEditor
+        visible={editorVisible}
+        warehouseId={warehouse}
+        withBatch={mode === 'receipt'}
+        initialLine={editingLine}
+        onSave={handleSaveLine}
+        onClose={() => {
+          setEditorVisible(false);
+          setEditingLine(null);
+        }}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  dropdown: {
+    height: 52,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  locked: {
+    backgroundColor: '#f1f5f9',
+  },
+  dropdownIcon: {
+    marginRight: 8,
+  },
+  placeholderStyle: {
+    fontSize: 16,
+    color: '#94a3b8',
+  },
+  selectedTextStyle: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  inputSearchStyle: {
+    height: 40,
+    fontSize: 16,
+  },
+  input: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  multiline: {
+    minHeight: 70,
+    textAlignVertical: 'top',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 6,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 16,
+  },
+  channelOption: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+  },
+  channelSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  channelText: {
+    color: '#475569',
+    fontWeight: '600',
+  },
+  channelTextSelected: {
+    color: '#fff',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,422 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import productService, { expandVariants, stockIn, UnitConversion, unitOptionPrice, unitOptions } from '../services/productService';
+import BatchFields, { toExpiryDate } from './BatchFields';
+import { LineProduct } from './SaleLineEditor';
+import UnitPicker from './UnitPicker';
+
+export interface PurchaseLineProduct extends LineProduct {
+  buyingPrice?: number;
+}
+
+// A line on a purchase order or goods-received form
+export interface PurchaseCartLine {
+  key: string;
+  product: PurchaseLineProduct;
+  quantity: number; // in `unit`
+  buyingPrice: number; // cost per `unit`
+  unit?: string;
+  unitFactor?: number; // base units per `unit`
+  batchNumber?: string; // received lots of batch-tracked products
+  expiryDate?: string;
+}
+
+interface PurchaseLineEditorProps {
+  visible: boolean;
+  warehouseId: string;
+  withBatch?: boolean; // goods receipts record the lot of batch-tracked products
+  initialLine?: PurchaseCartLine | null;
+  onSave: (line: PurchaseCartLine) => void;
+  onClose: () => void;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+export default function PurchaseLineEditor({
+  visible,
+  warehouseId,
+  withBatch,
+  initialLine,
+  onSave,
+  onClose,
+}: PurchaseLineEditorProps) {
+  const { t } = useTranslation();
+
+  const [products, setProducts] = useState<PurchaseLineProduct[]>([]);
+  const [productLoading, setProductLoading] = useState<boolean>(false);
+  const [productSearch, setProductSearch] = useState<string>('');
+  const [selectedProduct, setSelectedProduct] = useState<PurchaseLineProduct | null>(null);
+  const [quantity, setQuantity] = useState<string>('');
+  const [unit, setUnit] = useState<UnitConversion | null>(null);
+  const [buyingPrice, setBuyingPrice] = useState<string>('');
+  const [batchNumber, setBatchNumber] = useState<string>('');
+  const [expiryDate, setExpiryDate] = useState<Date | null>(null);
+
+  useEffect(() => {
+    if (!visible) return;
+    setSelectedProduct(initialLine?.product ?? null);
+    setUnit(initialLine?.unit ? { unit: initialLine.unit, factor: initialLine.unitFactor ?? 1 } : null);
+    setQuantity(initialLine ? initialLine.quantity.toString() : '');
+    setBuyingPrice(initialLine ? initialLine.buyingPrice.toString() : '');
+    setBatchNumber(initialLine?.batchNumber ?? '');
+    setExpiryDate(initialLine?.expiryDate ? new Date(initialLine.expiryDate) : null);
+    setProductSearch('');
+  }, [visible, initialLine]);
+
+  // Any product can be received into the warehouse; quantities shown are that warehouse's stock
+  useEffect(() => {
+    let isCancelled = false;
+    const loadProducts = async () => {
+      if (!visible || !warehouseId) {
+        setProducts([]);
+        return;
+      }
+      setProductLoading(true);
+      try {
+        const data = await productService.getProductList();
+        if (!isCancelled) {
+          // Variants are received individually, each into its own stock
+          const items = expandVariants(data);
+          setProducts(Array.isArray(items) ? items.map((p: any) => ({ ...p, quantity: stockIn(p, warehouseId) })) : []);
+        }
+      } catch {
+        if (!isCancelled) Alert.alert(t('purchases.errorTitle'), t('sale.errorloadproducts'));
+      } finally {
+        if (!isCancelled) setProductLoading(false);
+      }
+    };
+    loadProducts();
+    return () => {
+      isCancelled = true;
+    };
+  }, [visible, warehouseId, t]);
+
+  const filteredProducts = useMemo(() => {
+    const lowered = productSearch.trim().toLowerCase();
+    if (!lowered) return products;
+    return products.filter(
+      p =>
+        p.name.toLowerCase().includes(lowered) ||
+        (p.brand?.toLowerCase().includes(lowered) ?? false) ||
+        p.barcode?.toLowerCase() === lowered,
+    );
+  }, [productSearch, products]);
+
+  const handleProductSelect = (p: PurchaseLineProduct) => {
+    setSelectedProduct(p);
+    setUnit(unitOptions(p)[0]);
+    setBuyingPrice(p.buyingPrice ? p.buyingPrice.toString() : '');
+    setProductSearch('');
+  };
+
+  // Cost follows the unit, e.g. a carton costs 24 × the piece cost
+  const handleUnitChange = (option: UnitConversion) => {
+    setUnit(option);
+    const price = unitOptionPrice(selectedProduct, option, 'buyingPrice');
+    setBuyingPrice(price !== undefined ? price.toString() : '');
+  };
+
+  const handleSave = () => {
+    if (!selectedProduct) {
+      Alert.alert(t('purchases.errorTitle'), t('sale.selectproduct'));
+      return;
+    }
+    const qty = parseFloat(quantity);
+    if (isNaN(qty) || qty <= 0) {
+      Alert.alert(t('purchases.errorTitle'), t('sale.invalidquantity'));
+      return;
+    }
+    const price = parseFloat(buyingPrice);
+    if (isNaN(price) || price < 0) {
+      Alert.alert(t('purchases.errorTitle'), t('purchases.invalidBuyingPrice'));
+      return;
+    }
+    const needsBatch = withBatch && selectedProduct.trackBatches;
+    if (needsBatch && (!batchNumber.trim() || !expiryDate)) {
+      Alert.alert(t('purchases.errorTitle'), t('batches.batchRequired'));
+      return;
+    }
+
+    onSave({
+      key: initialLine?.key ?? `${selectedProduct._id}-${Date.now()}`,
+      product: selectedProduct,
+      quantity: qty,
+      buyingPrice: price,
+      unit: unit?.unit ?? selectedProduct.unit,
+      unitFactor: unit?.factor ?? 1,
+      batchNumber: needsBatch ? batchNumber.trim() : undefined,
+      expiryDate: needsBatch && expiryDate ? toExpiryDate(expiryDate) : undefined,
+    });
+  };
+
+  const lineTotal = (parseFloat(quantity) || 0) * (parseFloat(buyingPrice) || 0);
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {initialLine ? t('sale.editline') : t('sale.addline')}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={24} color="#475569" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            <Text style={styles.inputLabel}>{t('sale.product')}</Text>
+            {selectedProduct ? (
+              <TouchableOpacity style={styles.productSelector} onPress={() => setSelectedProduct(null)}>
+                <Text style={styles.selectedProductText} numberOfLines={1}>
+                  {`${selectedProduct.name} ${selectedProduct.brand ?? ''} (${selectedProduct.unit ?? ''}) - ${selectedProduct.quantity ?? 0}`}
+                </Text>
+                <Feather name="refresh-cw" size={18} color="#64748b" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.productPicker}>
+                <View style={styles.searchContainer}>
+                  <Feather name="search" size={20} color="#64748b" style={styles.searchIcon} />
+                  <TextInput
+                    style={styles.searchInput}
+                    placeholder={t('sale.searchproduct')}
+                    placeholderTextColor="#94a3b8"
+                    value={productSearch}
+                    onChangeText={setProductSearch}
+                  />
+                </View>
+                {productLoading ? (
+                  <ActivityIndicator size="large" color="#6d28d9" style={styles.loader} />
+                ) : filteredProducts.length > 0 ? (
+                  <FlatList
+                    data={filteredProducts}
+                    keyExtractor={item => item._id}
+                    keyboardShouldPersistTaps="handled"
+                    renderItem={({ item }) => (
+                      <TouchableOpacity style={styles.productItem} onPress={() => handleProductSelect(item)}>
+                        <Text style={styles.productItemText}>
+                          {item.name} ({item.unit ?? ''}) - {item.quantity ?? 0}
+                        </Text>
+                        {item.brand && <Text style={styles.productItemBrand}>{item.brand}</Text>}
+                      </TouchableOpacity>
+                    )}
+                    ItemSeparatorComponent={() => <View style={styles.separator} />}
+                  />
+                ) : (
+                  <Text style={styles.emptyProductText}>{t('sale.noproductsinwarehouse')}</Text>
+                )}
+              </View>
+            )}
+
+            {selectedProduct && (
+              <>
+                <UnitPicker product={selectedProduct} value={unit?.unit} onChange={handleUnitChange} />
+                <View style={styles.row}>
+                  <View style={[styles.inputContainer, { flex: 1, marginRight: 8 }]}>
+                    <Text style={styles.inputLabel}>{t('sale.quantity')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={quantity}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) setQuantity(text);
+                      }}
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, { flex: 1 }]}>
+                    <Text style={styles.inputLabel}>{t('purchases.buyingPrice')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0.00"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={buyingPrice}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) setBuyingPrice(text);
+                      }}
+                    />
+                  </View>
+                </View>
+
+                {withBatch && selectedProduct.trackBatches && (
+                  <BatchFields
+                    batchNumber={batchNumber}
+                    expiryDate={expiryDate}
+                    onChangeBatchNumber={setBatchNumber}
+                    onChangeExpiryDate={setExpiryDate}
+                  />
+                )}
+
+                <View style={styles.totalRow}>
+                  <Text style={styles.inputLabel}>{t('sale.linetotal')}</Text>
+                  <Text style={styles.totalAmount}>ETB {lineTotal.toFixed(2)}</Text>
+                </View>
+              </>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} activeOpacity={0.9}>
+            <Feather name="check" size={20} color="#fff" />
+            <Text style={styles.saveButtonText}>{initialLine ? t('sale.updateline') : t('purchases.addLine')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 24,
+    paddingTop: 16,
+    height: '80%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  inputContainer: {
+    marginBottom: 12,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  row: {
+    flexDirection: 'row',
+    marginTop: 12,
+  },
+  productSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  selectedProductText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+    marginRight: 8,
+  },
+  productPicker: {
+    flex: 1,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    marginBottom: 8,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  productItem: {
+    paddingVertical: 12,
+  },
+  productItemText: {
+    fontSize: 15,
+    color: '#1e293b',
+  },
+  productItemBrand: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#e2e8f0',
+  },
+  emptyProductText: {
+    fontSize: 14,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  totalAmount: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginHorizontal: 20,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
@@ -0,0 +1,152 @@
+import { Feather } from '@expo/vector-icons';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { calculatePurchaseTotal } from '../services/purchaseService';
+import { PurchaseCartLine } from './PurchaseLineEditor';
+
+interface PurchaseLinesProps {
+  lines: PurchaseCartLine[];
+  onAdd: () => void;
+  onEdit: (line: PurchaseCartLine) => void;
+  onRemove: (key: string) => void;
+  disabled?: boolean; // e.g. no warehouse chosen yet
+}
+
+export default function PurchaseLines({ lines, onAdd, onEdit, onRemove, disabled }: PurchaseLinesProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {t('sale.items')} ({lines.length})
+        </Text>
+        <TouchableOpacity style={[styles.addButton, disabled && { opacity: 0.5 }]} onPress={onAdd} disabled={disabled}>
+          <Feather name="plus" size={16} color="#6d28d9" />
+          <Text style={styles.addButtonText}>{t('sale.additem')}</Text>
+        </TouchableOpacity>
+      </View>
+
+      {lines.length === 0 ? (
+        <Text style={styles.emptyText}>{disabled ? t('purchases.selectWarehouseFirst') : t('purchases.noLines')}</Text>
+      ) : (
+        <>
+          {lines.map(line => (
+            <View key={line.key} style={styles.line}>
+              <TouchableOpacity style={{ flex: 1 }} onPress={() => onEdit(line)}>
+                <Text style={styles.productName} numberOfLines={1}>
+                  {line.product.name} {line.product.brand ?? ''}
+                </Text>
+                <Text style={styles.lineDetail}>
+                  {line.quantity} {line.unit ?? line.product.unit ?? ''} × ETB {line.buyingPrice.toFixed(2)}
+                </Text>
+                {line.batchNumber && (
+                  <Text style={styles.lineDetail}>
+                    {t('batches.lotLine', {
+                      batch: line.batchNumber,
+                      date: line.expiryDate ? new Date(line.expiryDate).toLocaleDateString() : '-',
+                    })}
+                  </Text>
+                )}
+              </TouchableOpacity>
+              <Text style={styles.lineTotal}>ETB {(line.quantity * line.buyingPrice).toFixed(2)}</Text>
+              <TouchableOpacity onPress={() => onRemove(line.key)} style={styles.removeButton}>
+                <Feather name="trash-2" size={18} color="#ef4444" />
+              </TouchableOpacity>
+            </View>
+          ))}
+          <View style={styles.totalRow}>
+            <Text style={styles.totalLabel}>{t('sales.total')}</Text>
+            <Text style={styles.totalValue}>ETB {calculatePurchaseTotal(lines).toFixed(2)}</Text>
+          </View>
+        </>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#f5f3ff',
+  },
+  addButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f5f9',
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  lineDetail: {
+    fontSize: 13,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  lineTotal: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#1e293b',
+    marginHorizontal: 8,
+  },
+  removeButton: {
+    padding: 4,
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    borderTopWidth: 1,
+    borderTopColor: '#e2e8f0',
+    paddingTop: 10,
+    marginTop: 4,
+  },
+  totalLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  totalValue: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1e293b',
+  },
+});
@@ -0,0 +1,277 @@
+import { Feather } from '@expo/vector-icons';
+import DateTimePicker from '@react-native-community/datetimepicker';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  Modal,
+  Platform,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { PaymentData } from '../services/saleService';
+
+interface RecordPaymentModalProps {
+  visible: boolean;
+  amountDue: number;
+  onClose: () => void;
+  onSubmit: (payment: PaymentData) => Promise<void>;
+}
+
+const CHANNELS = ['cash', 'bank'];
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Installment entry for a credit or partial sale; defaults to the full remaining balance
+export default function RecordPaymentModal({ visible, amountDue, onClose, onSubmit }: RecordPaymentModalProps) {
+  const { t } = useTranslation();
+
+  const [amount, setAmount] = useState<string>('');
+  const [date, setDate] = useState<Date>(new Date());
+  const [channel, setChannel] = useState<string>('cash');
+  const [note, setNote] = useState<string>('');
+  const [showDatePicker, setShowDatePicker] = useState<boolean>(false);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (visible) {
+      setAmount(amountDue > 0 ? amountDue.toFixed(2) : '');
+      setDate(new Date());
+      setChannel('cash');
+      setNote('');
+    }
+  }, [visible, amountDue]);
+
+  const handleSubmit = async () => {
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      Alert.alert(t('payments.errorTitle'), t('payments.invalidAmount'));
+      return;
+    }
+    if (value > amountDue + 0.001) {
+      Alert.alert(t('payments.errorTitle'), t('payments.exceedsDue', { due: amountDue.toFixed(2) }));
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit({
+        amount: value,
+        date: date.toISOString(),
+        channel,
+        note: note.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={styles.container}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{t('payments.recordPayment')}</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={24} color="#475569" />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.dueText}>{t('payments.remaining', { amount: amountDue.toFixed(2) })}</Text>
+
+          <Text style={styles.label}>{t('payments.amount')}*</Text>
+          <View style={styles.amountRow}>
+            <TextInput
+              style={[styles.input, { flex: 1 }]}
+              keyboardType="numeric"
+              value={amount}
+              onChangeText={text => {
+                if (decimalPattern.test(text)) setAmount(text);
+              }}
+              placeholder="0.00"
+              placeholderTextColor="#94a3b8"
+            />
+            <TouchableOpacity style={styles.fullButton} onPress={() => setAmount(amountDue.toFixed(2))}>
+              <Text style={styles.fullButtonText}>{t('payments.fullAmount')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>{t('payments.date')}</Text>
+          <TouchableOpacity style={styles.input} onPress={() => setShowDatePicker(true)}>
+            <Text style={styles.inputText}>{date.toLocaleDateString()}</Text>
+          </TouchableOpacity>
+          {showDatePicker && (
+            <DateTimePicker
+              value={date}
+              mode="date"
+              display={Platform.OS === 'ios' ? 'inline' : 'calendar'}
+              maximumDate={new Date()}
+              onChange={(event, selectedDate) => {
+                if (Platform.OS !== 'ios') setShowDatePicker(false);
+                if (selectedDate) setDate(selectedDate);
+              }}
+            />
+          )}
+
+          <Text style={styles.label}>{t('payments.channel')}</Text>
+          <View style={styles.channelRow}>
+            {CHANNELS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.channelOption, channel === option && styles.channelSelected]}
+                onPress={() => setChannel(option)}
+              >
+                <Text style={[styles.channelText, channel === option && styles.channelTextSelected]}>
+                  {t(`sales.paymentChannel.${option}`)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          <Text style={styles.label}>{t('payments.note')}</Text>
+          <TextInput
+            style={styles.input}
+            value={note}
+            onChangeText={setNote}
+            placeholder={t('payments.notePlaceholder')}
+            placeholderTextColor="#94a3b8"
+          />
+
+          <View style={styles.actions}>
+            <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+              <Text style={styles.cancelText}>{t('common.cancel')}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={[styles.button, styles.saveButton]} onPress={handleSubmit} disabled={saving}>
+              {saving ? (
+                <ActivityIndicator size="small" color="#fff" />
+              ) : (
+                <Text style={styles.saveText}>{t('payments.save')}</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  container: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    padding: 20,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  dueText: {
+    fontSize: 14,
+    color: '#ef4444',
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 6,
+    marginTop: 10,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  inputText: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  amountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  fullButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#f5f3ff',
+  },
+  fullButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  channelRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  channelOption: {
+    flex: 1,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    alignItems: 'center',
+  },
+  channelSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  channelText: {
+    color: '#475569',
+    fontWeight: '600',
+  },
+  channelTextSelected: {
+    color: '#fff',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 20,
+  },
+  button: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  cancelButton: {
+    backgroundColor: '#f1f5f9',
+  },
+  cancelText: {
+    color: '#64748b',
+    fontWeight: '600',
+  },
+  saveButton: {
+    backgroundColor: '#6d28d9',
+    minWidth: 120,
+  },
+  saveText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,164 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TextInput, View } from 'react-native';
+import { ReorderRule, StockRow } from '../services/productService';
+
+// Reorder settings as typed on the product form; blank means "not set"
+export interface ReorderDraft {
+  minQuantity: string;
+  reorderQuantity: string;
+  leadTimeDays: string;
+  rules: { warehouse: { _id: string; name: string }; minQuantity: string; reorderQuantity: string }[];
+}
+
+interface ReorderRulesEditorProps {
+  value: ReorderDraft;
+  onChange: (value: ReorderDraft) => void;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+const text = (n?: number | null) => (n !== undefined && n !== null ? String(n) : '');
+const num = (s: string) => (s.trim() === '' ? null : Number(s));
+
+// ✅ Draft from a saved product, with a row for each warehouse it's stocked in or has a rule for
+export const toReorderDraft = (product: any, rows: StockRow[]): ReorderDraft => {
+  const rules: ReorderRule[] = Array.isArray(product?.reorderRules) ? product.reorderRules : [];
+  const warehouses = new Map<string, { _id: string; name: string }>();
+  rows.forEach(row => warehouses.set(row.warehouse._id, row.warehouse));
+  rules.forEach(rule => {
+    if (typeof rule.warehouse !== 'string') warehouses.set(rule.warehouse._id, rule.warehouse);
+  });
+  return {
+    minQuantity: text(product?.minQuantity),
+    reorderQuantity: text(product?.reorderQuantity),
+    leadTimeDays: text(product?.leadTimeDays),
+    rules: Array.from(warehouses.values()).map(warehouse => {
+      const rule = rules.find(r => (typeof r.warehouse === 'string' ? r.warehouse : r.warehouse._id) === warehouse._id);
+      return { warehouse, minQuantity: text(rule?.minQuantity), reorderQuantity: text(rule?.reorderQuantity) };
+    }),
+  };
+};
+
+// ✅ Fields to save; warehouses left blank follow the product's settings
+export const parseReorderDraft = (draft: ReorderDraft) => ({
+  minQuantity: num(draft.minQuantity),
+  reorderQuantity: num(draft.reorderQuantity),
+  leadTimeDays: num(draft.leadTimeDays),
+  reorderRules: draft.rules
+    .filter(rule => rule.minQuantity.trim() !== '' || rule.reorderQuantity.trim() !== '')
+    .map(rule => ({
+      warehouse: rule.warehouse._id,
+      minQuantity: num(rule.minQuantity),
+      reorderQuantity: num(rule.reorderQuantity),
+    })),
+});
+
+// Low-stock minimum, usual order size and lead time, with per-warehouse overrides
+export default function ReorderRulesEditor({ value, onChange }: ReorderRulesEditorProps) {
+  const { t } = useTranslation();
+
+  const field = (
+    label: string,
+    current: string,
+    update: (input: string) => void,
+    placeholder = '-'
+  ) => (
+    <View style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={placeholder}
+        placeholderTextColor="#94a3b8"
+        keyboardType="numeric"
+        value={current}
+        onChangeText={input => {
+          if (decimalPattern.test(input)) update(input);
+        }}
+      />
+    </View>
+  );
+
+  const updateRule = (index: number, key: 'minQuantity' | 'reorderQuantity', input: string) =>
+    onChange({ ...value, rules: value.rules.map((r, i) => (i === index ? { ...r, [key]: input } : r)) });
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('reorder.settings')}</Text>
+      <Text style={styles.hint}>{t('reorder.settingsHint')}</Text>
+
+      <View style={styles.row}>
+        {field(t('reorder.minQuantity'), value.minQuantity, input => onChange({ ...value, minQuantity: input }))}
+        {field(t('reorder.reorderQuantity'), value.reorderQuantity, input => onChange({ ...value, reorderQuantity: input }))}
+        {field(t('reorder.leadTimeDays'), value.leadTimeDays, input => onChange({ ...value, leadTimeDays: input }))}
+      </View>
+
+      {value.rules.map((rule, index) => (
+        <View key={rule.warehouse._id} style={styles.row}>
+          <Text style={styles.warehouse} numberOfLines={2}>
+            {rule.warehouse.name}
+          </Text>
+          {field(
+            t('reorder.minQuantity'),
+            rule.minQuantity,
+            input => updateRule(index, 'minQuantity', input),
+            value.minQuantity || '-'
+          )}
+          {field(
+            t('reorder.reorderQuantity'),
+            rule.reorderQuantity,
+            input => updateRule(index, 'reorderQuantity', input),
+            value.reorderQuantity || '-'
+          )}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    gap: 8,
+    marginBottom: 8,
+  },
+  field: {
+    flex: 1,
+  },
+  fieldLabel: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 4,
+  },
+  warehouse: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1e293b',
+    paddingBottom: 12,
+  },
+  input: {
+    height: 44,
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    fontSize: 14,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+});
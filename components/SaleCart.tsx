@@ -0,0 +1,147 @@
+import { Feather, MaterialIcons } from '@expo/vector-icons';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { isPriceOverride } from '../services/priceListService';
+import { calculateLineTotal } from '../services/saleService';
+import { CartLine } from './SaleLineEditor';
+
+interface SaleCartProps {
+  lines: CartLine[];
+  onAdd: () => void;
+  onEdit: (line: CartLine) => void;
+  onRemove: (key: string) => void;
+  onScan?: () => void;
+}
+
+export default function SaleCart({ lines, onAdd, onEdit, onRemove, onScan }: SaleCartProps) {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>
+          {t('sale.items')} ({lines.length})
+        </Text>
+        <View style={styles.actions}>
+          {onScan && (
+            <TouchableOpacity style={styles.addButton} onPress={onScan} accessibilityLabel={t('scanner.scan')}>
+              <MaterialIcons name="qr-code-scanner" size={16} color="#6d28d9" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity style={styles.addButton} onPress={onAdd}>
+            <Feather name="plus" size={16} color="#6d28d9" />
+            <Text style={styles.addButtonText}>{t('sale.additem')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {lines.length === 0 ? (
+        <Text style={styles.emptyText}>{t('sale.emptycart')}</Text>
+      ) : (
+        lines.map(line => (
+          <View key={line.key} style={styles.line}>
+            <TouchableOpacity style={{ flex: 1 }} onPress={() => onEdit(line)}>
+              <Text style={styles.productName} numberOfLines={1}>
+                {line.product.name} {line.product.brand ?? ''}
+              </Text>
+              <Text style={styles.lineDetail}>
+                {line.warehouse.name} · {line.quantity} {line.unit ?? line.product.unit ?? ''} × ETB {line.unitPrice.toFixed(2)}
+                {line.discount > 0
+                  ? line.discountType === 'percent'
+                    ? ` − ${line.discount}%`
+                    : ` − ETB ${line.discount.toFixed(2)}`
+                  : ''}
+              </Text>
+              {isPriceOverride(line) && (
+                <Text style={styles.overrideText}>
+                  {t('priceLists.overriddenFrom', { price: line.listPrice?.toFixed(2) })}
+                </Text>
+              )}
+            </TouchableOpacity>
+            <Text style={styles.lineTotal}>ETB {calculateLineTotal(line).toFixed(2)}</Text>
+            <TouchableOpacity onPress={() => onRemove(line.key)} style={styles.removeButton}>
+              <Feather name="trash-2" size={18} color="#ef4444" />
+            </TouchableOpacity>
+          </View>
+        ))
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    padding: 12,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 8,
+    backgroundColor: '#ede9fe',
+  },
+  addButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#94a3b8',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  line: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: '#e2e8f0',
+  },
+  productName: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1e293b',
+  },
+  lineDetail: {
+    fontSize: 12,
+    color: '#64748b',
+    marginTop: 2,
+  },
+  overrideText: {
+    fontSize: 12,
+    color: '#d97706',
+    marginTop: 2,
+  },
+  lineTotal: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#6d28d9',
+    marginLeft: 8,
+  },
+  removeButton: {
+    marginLeft: 12,
+  },
+});
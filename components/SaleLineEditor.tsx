@@ -0,0 +1,747 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Modal,
+  StyleSheet,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import { Dropdown } from 'react-native-element-dropdown';
+import productService, {
+  allocateFefo,
+  Batch,
+  expandVariants,
+  ProductVariant,
+  UnitConversion,
+  unitOptionPrice,
+  unitOptions,
+  VariantAttribute,
+} from '../services/productService';
+import { PriceList, unitListPrice } from '../services/priceListService';
+import { calculateLineTotal, DiscountType } from '../services/saleService';
+import UnitPicker from './UnitPicker';
+
+export interface LineWarehouse {
+  _id: string;
+  name: string;
+}
+
+export interface LineProduct {
+  _id: string;
+  name: string;
+  brand?: string;
+  price?: number;
+  buyingPrice?: number;
+  unit?: string;
+  quantity?: number;
+  barcode?: string;
+  variants?: ProductVariant[]; // a parent is picked through one of its variants
+  variantAttributes?: VariantAttribute[];
+  unitConversions?: UnitConversion[];
+  trackBatches?: boolean;
+  batches?: Batch[];
+  taxRate?: number | null;
+}
+
+// A line on the sale cart as held by the add/edit screens
+export interface CartLine {
+  key: string;
+  product: LineProduct;
+  warehouse: LineWarehouse;
+  quantity: number;
+  unitPrice: number; // per `unit`
+  discount: number;
+  discountType?: DiscountType;
+  taxRate?: number; // captured when the product is picked
+  unit?: string; // defaults to the product's base unit
+  unitFactor?: number; // base units per `unit`
+  unitCost?: number; // kept from the saved sale when editing
+  listPrice?: number; // per `unit` from the customer's price list
+  priceList?: string;
+}
+
+interface SaleLineEditorProps {
+  visible: boolean;
+  warehouses: LineWarehouse[];
+  initialLine?: CartLine | null;
+  // Quantity already taken by other cart lines for the same product/warehouse
+  reservedQuantity?: (productId: string, warehouseId: string) => number;
+  // Edit screen lets the backend validate stock against the original sale
+  validateStock?: boolean;
+  // Business rate for products without their own
+  defaultTaxRate?: number;
+  // The customer's list; its prices fill the unit price until the cashier types one
+  priceList?: PriceList | null;
+  onSave: (line: CartLine) => void;
+  onClose: () => void;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+export default function SaleLineEditor({
+  visible,
+  warehouses,
+  initialLine,
+  reservedQuantity,
+  validateStock = true,
+  defaultTaxRate = 0,
+  priceList,
+  onSave,
+  onClose,
+}: SaleLineEditorProps) {
+  const { t } = useTranslation();
+
+  const [warehouseId, setWarehouseId] = useState<string>('');
+  const [products, setProducts] = useState<LineProduct[]>([]);
+  const [productLoading, setProductLoading] = useState<boolean>(false);
+  const [productSearch, setProductSearch] = useState<string>('');
+  const [selectedProduct, setSelectedProduct] = useState<LineProduct | null>(null);
+  const [variantParent, setVariantParent] = useState<LineProduct | null>(null);
+  const [quantity, setQuantity] = useState<string>('');
+  const [unit, setUnit] = useState<UnitConversion | null>(null);
+  const [unitPrice, setUnitPrice] = useState<string>('');
+  const [discount, setDiscount] = useState<string>('');
+  const [discountType, setDiscountType] = useState<DiscountType>('amount');
+  const [priceEdited, setPriceEdited] = useState<boolean>(false);
+
+  // --- reset form every time the editor opens ---
+  useEffect(() => {
+    if (!visible) return;
+    setWarehouseId(initialLine?.warehouse._id ?? '');
+    setSelectedProduct(initialLine?.product ?? null);
+    setUnit(
+      initialLine?.unit
+        ? { unit: initialLine.unit, factor: initialLine.unitFactor ?? 1 }
+        : null
+    );
+    setQuantity(initialLine ? initialLine.quantity.toString() : '');
+    setUnitPrice(initialLine ? initialLine.unitPrice.toString() : '');
+    setDiscount(initialLine?.discount ? initialLine.discount.toString() : '');
+    setDiscountType(initialLine?.discountType ?? 'amount');
+    // A saved line follows the list again only if its price came from it
+    setPriceEdited(!!initialLine && (initialLine.listPrice === undefined || initialLine.unitPrice !== initialLine.listPrice));
+    setProductSearch('');
+    setVariantParent(null);
+  }, [visible, initialLine]);
+
+  // --- load products when warehouse changes ---
+  useEffect(() => {
+    let isCancelled = false;
+    const loadProducts = async () => {
+      if (!visible || !warehouseId) {
+        setProducts([]);
+        return;
+      }
+      setProductLoading(true);
+      try {
+        const data = await productService.getProductList(warehouseId);
+        if (!isCancelled) setProducts(Array.isArray(data) ? data : []);
+      } catch {
+        if (!isCancelled) Alert.alert(t('sale.errortitle'), t('sale.errorloadproducts'));
+      } finally {
+        if (!isCancelled) setProductLoading(false);
+      }
+    };
+    loadProducts();
+    return () => {
+      isCancelled = true;
+    };
+  }, [visible, warehouseId, t]);
+
+  const filteredProducts = useMemo(() => {
+    if (variantParent) return expandVariants([variantParent]) as LineProduct[];
+    const lowered = productSearch.trim().toLowerCase();
+    if (!lowered) return products;
+    return products.filter(
+      p =>
+        p.name.toLowerCase().includes(lowered) ||
+        (p.brand?.toLowerCase().includes(lowered) ?? false) ||
+        p.barcode?.toLowerCase() === lowered,
+    );
+  }, [productSearch, products, variantParent]);
+
+  const handleWarehouseChange = (id: string) => {
+    if (id === warehouseId) return;
+    setWarehouseId(id);
+    setSelectedProduct(null);
+    setVariantParent(null);
+    setUnit(null);
+    setUnitPrice('');
+  };
+
+  // Fill the unit price from the list; products it doesn't cover keep their own price
+  const applyListPrice = (product: LineProduct | null, factor: number, qty: string) => {
+    const price = product ? unitListPrice(priceList, product._id, factor, parseFloat(qty) || 0) : undefined;
+    if (price !== undefined) setUnitPrice(price.toString());
+  };
+
+  const handleProductSelect = (p: LineProduct) => {
+    if (p.variants && p.variants.length > 0) {
+      setVariantParent(p);
+      return;
+    }
+    setSelectedProduct(p);
+    setVariantParent(null);
+    setUnit(unitOptions(p)[0]);
+    setUnitPrice(p.price !== undefined && p.price !== null ? p.price.toString() : '');
+    setPriceEdited(false);
+    applyListPrice(p, 1, quantity);
+    setProductSearch('');
+  };
+
+  // Price follows the unit: a carton costs its own price or 24 × the piece price
+  const handleUnitChange = (option: UnitConversion) => {
+    setUnit(option);
+    const price = unitOptionPrice(selectedProduct, option, 'sellingPrice');
+    setUnitPrice(price !== undefined ? price.toString() : '');
+    setPriceEdited(false);
+    applyListPrice(selectedProduct, option.factor, quantity);
+  };
+
+  const unitFactor = unit?.factor ?? 1;
+
+  // Moves with the unit and with quantity breaks
+  const listPrice = selectedProduct
+    ? unitListPrice(priceList, selectedProduct._id, unitFactor, parseFloat(quantity) || 0)
+    : undefined;
+
+  // Lots this line will be taken from; the edit screen's originals were consumed already
+  const fefo = useMemo(() => {
+    if (!validateStock || !selectedProduct?.trackBatches || !warehouseId) return null;
+    const reserved = reservedQuantity?.(selectedProduct._id, warehouseId) ?? 0;
+    return allocateFefo(selectedProduct, warehouseId, (parseFloat(quantity) || 0) * unitFactor, reserved);
+  }, [validateStock, selectedProduct, warehouseId, reservedQuantity, quantity, unitFactor]);
+
+  const lineTotal = calculateLineTotal({
+    quantity: parseFloat(quantity) || 0,
+    unitPrice: parseFloat(unitPrice) || 0,
+    discount: parseFloat(discount) || 0,
+    discountType,
+  });
+
+  // Keep the rate the line was sold at; a newly picked product takes its current rate
+  const lineTaxRate =
+    initialLine && initialLine.product._id === selectedProduct?._id && initialLine.taxRate !== undefined
+      ? initialLine.taxRate
+      : selectedProduct?.taxRate ?? defaultTaxRate;
+
+  const handleSave = () => {
+    const warehouse = warehouses.find(w => w._id === warehouseId);
+    if (!warehouse) {
+      Alert.alert(t('sale.errortitle'), t('sale.selectwarehouse'));
+      return;
+    }
+    if (!selectedProduct) {
+      Alert.alert(t('sale.errortitle'), t('sale.selectproduct'));
+      return;
+    }
+    const qty = parseFloat(quantity);
+    if (isNaN(qty) || qty <= 0) {
+      Alert.alert(t('sale.errortitle'), t('sale.invalidquantity'));
+      return;
+    }
+    if (validateStock) {
+      const reserved = reservedQuantity?.(selectedProduct._id, warehouse._id) ?? 0;
+      // Stock is held in the base unit; report what's left in the chosen unit
+      const available = Math.floor((((selectedProduct.quantity ?? 0) - reserved) / unitFactor) * 100) / 100;
+      if (qty > available) {
+        Alert.alert(t('sale.errortitle'), t('sale.quantityExceedsStock', { available }));
+        return;
+      }
+      // Expired lots still count as stock but are never sold
+      if (fefo && fefo.short > 0) {
+        const sellable = Math.floor(((qty * unitFactor - fefo.short) / unitFactor) * 100) / 100;
+        Alert.alert(t('sale.errortitle'), t('batches.onlyUnexpired', { available: sellable }));
+        return;
+      }
+    }
+    const price = parseFloat(unitPrice);
+    if (isNaN(price) || price <= 0) {
+      Alert.alert(t('sale.errortitle'), t('sale.invalidunitprice'));
+      return;
+    }
+    const lineDiscount = discount.trim() === '' ? 0 : parseFloat(discount);
+    const maxDiscount = discountType === 'percent' ? 100 : qty * price;
+    if (isNaN(lineDiscount) || lineDiscount < 0 || lineDiscount > maxDiscount) {
+      Alert.alert(t('sale.errortitle'), t('sale.invaliddiscount'));
+      return;
+    }
+
+    // The recorded cost still holds while the line sells the same product in the same unit
+    const keepsCost =
+      initialLine?.product._id === selectedProduct._id && (initialLine.unitFactor ?? 1) === unitFactor;
+
+    onSave({
+      key: initialLine?.key ?? `${selectedProduct._id}-${Date.now()}`,
+      product: selectedProduct,
+      warehouse,
+      quantity: qty,
+      unitPrice: price,
+      discount: lineDiscount,
+      discountType,
+      taxRate: lineTaxRate,
+      unit: unit?.unit ?? selectedProduct.unit,
+      unitFactor,
+      unitCost: keepsCost ? initialLine?.unitCost : undefined,
+      listPrice,
+      priceList: listPrice !== undefined ? priceList?._id : undefined,
+    });
+  };
+
+  const warehouseDropdown = warehouses.map(w => ({ label: w.name, value: w._id }));
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalOverlay}>
+        <View style={styles.modalContainer}>
+          <View style={styles.modalHeader}>
+            <Text style={styles.modalTitle}>
+              {initialLine ? t('sale.editline') : t('sale.addline')}
+            </Text>
+            <TouchableOpacity onPress={onClose}>
+              <Feather name="x" size={24} color="#475569" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.body}>
+            {/* Warehouse Dropdown */}
+            <View style={styles.inputContainer}>
+              <Text style={styles.inputLabel}>{t('sale.warehouse')}</Text>
+              <Dropdown
+                style={styles.dropdown}
+                placeholderStyle={styles.placeholderStyle}
+                selectedTextStyle={styles.selectedTextStyle}
+                inputSearchStyle={styles.inputSearchStyle}
+                data={warehouseDropdown}
+                search
+                maxHeight={300}
+                labelField="label"
+                valueField="value"
+                placeholder={t('sale.selectwarehouse')}
+                searchPlaceholder={t('sale.search')}
+                value={warehouseId}
+                onChange={item => handleWarehouseChange(item.value)}
+                renderLeftIcon={() => <Feather style={styles.dropdownIcon} name="archive" size={20} color="#64748b" />}
+              />
+            </View>
+
+            {/* Product: picker list until one is chosen */}
+            <Text style={styles.inputLabel}>{t('sale.product')}</Text>
+            {selectedProduct ? (
+              <TouchableOpacity style={styles.productSelector} onPress={() => setSelectedProduct(null)}>
+                <Text style={styles.selectedProductText} numberOfLines={1}>
+                  {`${selectedProduct.name} ${selectedProduct.brand ?? ''} (${selectedProduct.unit ?? ''}) - ${selectedProduct.quantity ?? 0}`}
+                </Text>
+                <Feather name="refresh-cw" size={18} color="#64748b" />
+              </TouchableOpacity>
+            ) : (
+              <View style={styles.productPicker}>
+                {variantParent ? (
+                  <TouchableOpacity style={styles.variantHeader} onPress={() => setVariantParent(null)}>
+                    <Feather name="chevron-left" size={20} color="#6d28d9" />
+                    <Text style={styles.variantHeaderText} numberOfLines={1}>
+                      {t('sale.chooseVariant', { name: variantParent.name })}
+                    </Text>
+                  </TouchableOpacity>
+                ) : (
+                  <View style={styles.searchContainer}>
+                    <Feather name="search" size={20} color="#64748b" style={styles.searchIcon} />
+                    <TextInput
+                      style={styles.searchInput}
+                      placeholder={t('sale.searchproduct')}
+                      placeholderTextColor="#94a3b8"
+                      value={productSearch}
+                      onChangeText={setProductSearch}
+                      editable={!!warehouseId}
+                    />
+                  </View>
+                )}
+                {productLoading ? (
+                  <ActivityIndicator size="large" color="#6d28d9" style={styles.loader} />
+                ) : filteredProducts.length > 0 ? (
+                  <FlatList
+                    data={filteredProducts}
+                    keyExtractor={item => item._id}
+                    keyboardShouldPersistTaps="handled"
+                    renderItem={({ item }) => (
+                      <TouchableOpacity style={styles.productItem} onPress={() => handleProductSelect(item)}>
+                        <Text style={styles.productItemText}>
+                          {item.name} ({item.unit ?? ''}) - {item.quantity ?? 0}
+                        </Text>
+                        {item.variants && item.variants.length > 0 ? (
+                          <Text style={styles.productItemBrand}>
+                            {t('sale.variantCount', { count: item.variants.length })}
+                          </Text>
+                        ) : (
+                          item.brand && <Text style={styles.productItemBrand}>{item.brand}</Text>
+                        )}
+                      </TouchableOpacity>
+                    )}
+                    ItemSeparatorComponent={() => <View style={styles.separator} />}
+                  />
+                ) : (
+                  <Text style={styles.emptyProductText}>
+                    {warehouseId ? t('sale.noproductsinwarehouse') : t('sale.selectwarehouseFirst')}
+                  </Text>
+                )}
+              </View>
+            )}
+
+            {/* Unit, Quantity, Unit Price and Discount */}
+            {selectedProduct && (
+              <>
+                <UnitPicker product={selectedProduct} value={unit?.unit} onChange={handleUnitChange} />
+                <View style={styles.row}>
+                  <View style={[styles.inputContainer, { flex: 1, marginRight: 8 }]}>
+                    <Text style={styles.inputLabel}>{t('sale.quantity')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={quantity}
+                      onChangeText={text => {
+                        if (!decimalPattern.test(text)) return;
+                        setQuantity(text);
+                        if (!priceEdited) applyListPrice(selectedProduct, unitFactor, text);
+                      }}
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, { flex: 1, marginRight: 8 }]}>
+                    <Text style={styles.inputLabel}>{t('sale.unitprice')}</Text>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0.00"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={unitPrice}
+                      onChangeText={text => {
+                        if (!decimalPattern.test(text)) return;
+                        setUnitPrice(text);
+                        setPriceEdited(true);
+                      }}
+                    />
+                  </View>
+                  <View style={[styles.inputContainer, { flex: 1 }]}>
+                    <View style={styles.discountLabelRow}>
+                      <Text style={styles.inputLabel}>{t('sale.linediscount')}</Text>
+                      <TouchableOpacity
+                        style={styles.discountTypeToggle}
+                        onPress={() => setDiscountType(discountType === 'percent' ? 'amount' : 'percent')}
+                      >
+                        <Text style={styles.discountTypeText}>{discountType === 'percent' ? '%' : 'ETB'}</Text>
+                      </TouchableOpacity>
+                    </View>
+                    <TextInput
+                      style={styles.input}
+                      placeholder="0.00"
+                      placeholderTextColor="#94a3b8"
+                      keyboardType="numeric"
+                      value={discount}
+                      onChangeText={text => {
+                        if (decimalPattern.test(text)) setDiscount(text);
+                      }}
+                    />
+                  </View>
+                </View>
+
+                {listPrice !== undefined && (
+                  <View style={styles.priceListRow}>
+                    <Feather name="tag" size={14} color="#6d28d9" />
+                    <Text style={styles.priceListText} numberOfLines={1}>
+                      {t('priceLists.listPriceHint', { name: priceList?.name, price: listPrice.toFixed(2) })}
+                    </Text>
+                    {parseFloat(unitPrice) !== listPrice && (
+                      <TouchableOpacity
+                        onPress={() => {
+                          setPriceEdited(false);
+                          setUnitPrice(listPrice.toString());
+                        }}
+                      >
+                        <Text style={styles.priceListReset}>{t('priceLists.useListPrice')}</Text>
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                )}
+
+                {fefo && fefo.picks.length > 0 && (
+                  <View style={styles.fefoBox}>
+                    <Text style={styles.fefoTitle}>{t('batches.takenFrom')}</Text>
+                    {fefo.picks.map(pick => (
+                      <Text key={pick.batch._id ?? pick.batch.batchNumber} style={styles.fefoLine}>
+                        {t('batches.pickLine', {
+                          batch: pick.batch.batchNumber,
+                          date: new Date(pick.batch.expiryDate).toLocaleDateString(),
+                          quantity: pick.quantity,
+                          unit: selectedProduct.unit ?? '',
+                        })}
+                      </Text>
+                    ))}
+                  </View>
+                )}
+
+                <View style={styles.totalRow}>
+                  <Text style={styles.inputLabel}>
+                    {t('sale.linetotal')}
+                    {lineTaxRate > 0 ? ` · ${t('tax.rateShort', { rate: lineTaxRate })}` : ''}
+                  </Text>
+                  <Text style={styles.totalAmount}>ETB {lineTotal.toFixed(2)}</Text>
+                </View>
+              </>
+            )}
+          </View>
+
+          <TouchableOpacity style={styles.saveButton} onPress={handleSave} activeOpacity={0.9}>
+            <Feather name="check" size={20} color="#fff" />
+            <Text style={styles.saveButtonText}>{initialLine ? t('sale.updateline') : t('sale.addtocart')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.5)',
+    justifyContent: 'flex-end',
+  },
+  modalContainer: {
+    backgroundColor: '#fff',
+    borderTopLeftRadius: 24,
+    borderTopRightRadius: 24,
+    paddingBottom: 20,
+    paddingTop: 16,
+    height: '85%',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1e293b',
+  },
+  body: {
+    flex: 1,
+    paddingHorizontal: 20,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  dropdown: {
+    height: 50,
+    paddingHorizontal: 8,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  placeholderStyle: {
+    fontSize: 16,
+    color: '#94a3b8',
+  },
+  selectedTextStyle: {
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  inputSearchStyle: {
+    height: 40,
+    fontSize: 16,
+  },
+  dropdownIcon: {
+    marginRight: 8,
+  },
+  productSelector: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  selectedProductText: {
+    flex: 1,
+    fontSize: 16,
+    color: '#1e293b',
+    marginRight: 8,
+  },
+  productPicker: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    borderRadius: 12,
+    paddingTop: 12,
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    marginHorizontal: 12,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    height: 44,
+    fontSize: 16,
+    color: '#1e293b',
+  },
+  loader: {
+    marginVertical: 20,
+  },
+  variantHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    padding: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#e2e8f0',
+  },
+  variantHeaderText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  productItem: {
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+  },
+  productItemText: {
+    fontSize: 16,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  productItemBrand: {
+    fontSize: 14,
+    color: '#64748b',
+    marginTop: 4,
+  },
+  separator: {
+    height: 1,
+    backgroundColor: '#e2e8f0',
+    marginHorizontal: 16,
+  },
+  emptyProductText: {
+    fontSize: 16,
+    color: '#64748b',
+    textAlign: 'center',
+    padding: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  discountLabelRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+  },
+  discountTypeToggle: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: '#ede9fe',
+  },
+  discountTypeText: {
+    fontSize: 11,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+  totalRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  totalAmount: {
+    fontSize: 18,
+    color: '#6d28d9',
+    fontWeight: '700',
+  },
+  priceListRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 12,
+  },
+  priceListText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#475569',
+  },
+  priceListReset: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+  },
+  fefoBox: {
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+    borderRadius: 12,
+    padding: 10,
+    marginBottom: 12,
+  },
+  fefoTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#6d28d9',
+    marginBottom: 4,
+  },
+  fefoLine: {
+    fontSize: 13,
+    color: '#475569',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginHorizontal: 20,
+    marginTop: 12,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
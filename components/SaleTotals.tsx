@@ -0,0 +1,142 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { DiscountType, SaleTotals as Totals } from '../services/saleService';
+
+interface SaleTotalsProps {
+  totals: Totals;
+  pricesIncludeTax: boolean;
+  invoiceDiscount: string;
+  invoiceDiscountType: DiscountType;
+  onDiscountChange: (value: string, type: DiscountType) => void;
+}
+
+const decimalPattern = /^\d*\.?\d{0,2}$/;
+
+// Invoice discount entry and the subtotal / discount / tax / grand total breakdown
+export default function SaleTotals({
+  totals,
+  pricesIncludeTax,
+  invoiceDiscount,
+  invoiceDiscountType,
+  onDiscountChange,
+}: SaleTotalsProps) {
+  const { t } = useTranslation();
+
+  const row = (label: string, value: string, style?: object) => (
+    <View style={styles.row}>
+      <Text style={[styles.label, style]}>{label}</Text>
+      <Text style={[styles.value, style]}>{value}</Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{t('tax.invoiceDiscount')}</Text>
+      <View style={styles.discountRow}>
+        <TextInput
+          style={styles.input}
+          placeholder="0"
+          placeholderTextColor="#94a3b8"
+          keyboardType="numeric"
+          value={invoiceDiscount}
+          onChangeText={text => {
+            if (decimalPattern.test(text)) onDiscountChange(text, invoiceDiscountType);
+          }}
+        />
+        {(['amount', 'percent'] as const).map(type => (
+          <TouchableOpacity
+            key={type}
+            style={[styles.typeButton, invoiceDiscountType === type && styles.typeButtonSelected]}
+            onPress={() => onDiscountChange(invoiceDiscount, type)}
+          >
+            <Text style={[styles.typeText, invoiceDiscountType === type && styles.typeTextSelected]}>
+              {type === 'percent' ? '%' : 'ETB'}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <View style={styles.breakdown}>
+        {row(t('tax.subtotal'), `ETB ${totals.subtotal.toFixed(2)}`)}
+        {totals.discount > 0 && row(t('tax.discount'), `− ETB ${totals.discount.toFixed(2)}`)}
+        {totals.tax > 0 &&
+          row(pricesIncludeTax ? t('tax.taxIncluded') : t('tax.tax'), `${pricesIncludeTax ? '' : '+ '}ETB ${totals.tax.toFixed(2)}`)}
+        {row(t('tax.grandTotal'), `ETB ${totals.total.toFixed(2)}`, styles.grand)}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  discountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  typeButton: {
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 10,
+    backgroundColor: '#f1f5f9',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  typeButtonSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  typeText: {
+    color: '#475569',
+    fontWeight: '600',
+  },
+  typeTextSelected: {
+    color: '#fff',
+  },
+  breakdown: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+    padding: 14,
+    marginTop: 12,
+    gap: 6,
+  },
+  row: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  value: {
+    fontSize: 14,
+    color: '#1e293b',
+    fontWeight: '500',
+  },
+  grand: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#6d28d9',
+  },
+});
@@ -0,0 +1,167 @@
+import { Feather } from '@expo/vector-icons';
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ActivityIndicator, Alert, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { SupplierData } from '../services/supplierService';
+
+interface SupplierFormProps {
+  initialValues?: SupplierData | null;
+  submitLabel: string;
+  onSubmit: (data: SupplierData) => Promise<void>;
+}
+
+const emailPattern = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Shared fields for the add and edit supplier screens
+export default function SupplierForm({ initialValues, submitLabel, onSubmit }: SupplierFormProps) {
+  const { t } = useTranslation();
+
+  const [name, setName] = useState<string>('');
+  const [phone, setPhone] = useState<string>('');
+  const [email, setEmail] = useState<string>('');
+  const [address, setAddress] = useState<string>('');
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  useEffect(() => {
+    setName(initialValues?.name ?? '');
+    setPhone(initialValues?.phone ?? '');
+    setEmail(initialValues?.email ?? '');
+    setAddress(initialValues?.address ?? '');
+  }, [initialValues]);
+
+  const handleSubmit = async () => {
+    if (submitting) return;
+    if (!name.trim()) {
+      Alert.alert(t('suppliers.errorTitle'), t('suppliers.nameRequired'));
+      return;
+    }
+    if (email.trim() && !emailPattern.test(email.trim())) {
+      Alert.alert(t('suppliers.errorTitle'), t('suppliers.invalidEmail'));
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await onSubmit({
+        name: name.trim(),
+        phone: phone.trim(),
+        email: email.trim(),
+        address: address.trim(),
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <View style={styles.formCard}>
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('suppliers.name')}*</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('suppliers.namePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={name}
+          onChangeText={setName}
+          autoCapitalize="words"
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('suppliers.phone')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('suppliers.phonePlaceholder')}
+          placeholderTextColor="#94a3b8"
+          keyboardType="phone-pad"
+          value={phone}
+          onChangeText={setPhone}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('suppliers.email')}</Text>
+        <TextInput
+          style={styles.input}
+          placeholder={t('suppliers.emailPlaceholder')}
+          placeholderTextColor="#94a3b8"
+          keyboardType="email-address"
+          autoCapitalize="none"
+          value={email}
+          onChangeText={setEmail}
+        />
+      </View>
+
+      <View style={styles.inputContainer}>
+        <Text style={styles.inputLabel}>{t('suppliers.address')}</Text>
+        <TextInput
+          style={[styles.input, styles.multiline]}
+          placeholder={t('suppliers.addressPlaceholder')}
+          placeholderTextColor="#94a3b8"
+          value={address}
+          onChangeText={setAddress}
+          multiline
+        />
+      </View>
+
+      <TouchableOpacity style={styles.saveButton} onPress={handleSubmit} disabled={submitting} activeOpacity={0.9}>
+        {submitting ? (
+          <ActivityIndicator size="small" color="#fff" />
+        ) : (
+          <Feather name="check-circle" size={20} color="#fff" />
+        )}
+        <Text style={styles.saveButtonText}>{submitLabel}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  formCard: {
+    backgroundColor: '#fff',
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.05,
+    shadowRadius: 8,
+    elevation: 3,
+  },
+  inputContainer: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 8,
+  },
+  input: {
+    backgroundColor: '#f8fafc',
+    borderRadius: 12,
+    padding: 16,
+    fontSize: 16,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  multiline: {
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  saveButton: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 8,
+    backgroundColor: '#6d28d9',
+    borderRadius: 14,
+    padding: 16,
+    marginTop: 8,
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontWeight: '600',
+    fontSize: 16,
+  },
+});
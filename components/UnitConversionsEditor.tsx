@@ -0,0 +1,196 @@
+import { Feather } from '@expo/vector-icons';
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { Dropdown } from 'react-native-element-dropdown';
+import { UNITS } from '../constants/units';
+import { UnitConversion } from '../services/productService';
+
+// A conversion row as typed on the product form
+export interface UnitConversionDraft {
+  unit: string;
+  factor: string;
+  sellingPrice: string;
+}
+
+interface UnitConversionsEditorProps {
+  baseUnit: string;
+  value: UnitConversionDraft[];
+  onChange: (value: UnitConversionDraft[]) => void;
+}
+
+const decimalPattern = /^\d*\.?\d{0,4}$/;
+
+// ✅ Drafts from a saved product
+export const toConversionDrafts = (conversions?: UnitConversion[]): UnitConversionDraft[] =>
+  (conversions ?? []).map(c => ({
+    unit: c.unit,
+    factor: String(c.factor),
+    sellingPrice: c.sellingPrice !== undefined && c.sellingPrice !== null ? String(c.sellingPrice) : '',
+  }));
+
+// ✅ Conversions to save, or the translation key of the first problem
+export const parseConversionDrafts = (
+  drafts: UnitConversionDraft[],
+  baseUnit: string
+): { conversions: UnitConversion[]; error?: string } => {
+  const units = drafts.map(d => d.unit);
+  if (drafts.some(d => !d.unit || !(Number(d.factor) > 0))) {
+    return { conversions: [], error: 'units.incompleteConversion' };
+  }
+  if (units.includes(baseUnit) || new Set(units).size !== units.length) {
+    return { conversions: [], error: 'units.duplicateUnit' };
+  }
+  if (drafts.some(d => d.sellingPrice && isNaN(Number(d.sellingPrice)))) {
+    return { conversions: [], error: 'units.invalidPrice' };
+  }
+  return {
+    conversions: drafts.map(d => ({
+      unit: d.unit,
+      factor: Number(d.factor),
+      sellingPrice: d.sellingPrice ? Number(d.sellingPrice) : null,
+    })),
+  };
+};
+
+// Other units the product is bought or sold in, each as a multiple of the base unit
+export default function UnitConversionsEditor({ baseUnit, value, onChange }: UnitConversionsEditorProps) {
+  const { t } = useTranslation();
+
+  const update = (index: number, field: keyof UnitConversionDraft, text: string) =>
+    onChange(value.map((d, i) => (i === index ? { ...d, [field]: text } : d)));
+
+  const unitData = UNITS.filter(u => u.value !== baseUnit);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{t('units.conversions')}</Text>
+      <Text style={styles.hint}>{t('units.conversionsHint', { unit: baseUnit })}</Text>
+
+      {value.map((draft, index) => (
+        <View key={index} style={styles.row}>
+          <Text style={styles.prefix}>1</Text>
+          <Dropdown
+            style={styles.dropdown}
+            placeholderStyle={styles.placeholder}
+            selectedTextStyle={styles.selectedText}
+            data={unitData}
+            labelField="label"
+            valueField="value"
+            placeholder={t('units.unit')}
+            value={draft.unit}
+            onChange={item => update(index, 'unit', item.value)}
+          />
+          <Text style={styles.prefix}>=</Text>
+          <TextInput
+            style={[styles.input, styles.factorInput]}
+            placeholder="24"
+            placeholderTextColor="#94a3b8"
+            keyboardType="numeric"
+            value={draft.factor}
+            onChangeText={text => {
+              if (decimalPattern.test(text)) update(index, 'factor', text);
+            }}
+          />
+          <Text style={styles.prefix}>{baseUnit}</Text>
+          <TextInput
+            style={[styles.input, styles.priceInput]}
+            placeholder={t('units.pricePlaceholder')}
+            placeholderTextColor="#94a3b8"
+            keyboardType="numeric"
+            value={draft.sellingPrice}
+            onChangeText={text => update(index, 'sellingPrice', text)}
+          />
+          <TouchableOpacity onPress={() => onChange(value.filter((_, i) => i !== index))} style={styles.remove}>
+            <Feather name="x" size={18} color="#ef4444" />
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      <TouchableOpacity
+        style={styles.addButton}
+        onPress={() => onChange([...value, { unit: '', factor: '', sellingPrice: '' }])}
+      >
+        <Feather name="plus" size={16} color="#6d28d9" />
+        <Text style={styles.addButtonText}>{t('units.addConversion')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#475569',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#64748b',
+    marginBottom: 8,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  prefix: {
+    fontSize: 14,
+    color: '#475569',
+  },
+  dropdown: {
+    flex: 1,
+    height: 44,
+    paddingHorizontal: 8,
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  placeholder: {
+    fontSize: 14,
+    color: '#94a3b8',
+  },
+  selectedText: {
+    fontSize: 14,
+    color: '#1e293b',
+  },
+  input: {
+    height: 44,
+    backgroundColor: '#f8fafc',
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    fontSize: 14,
+    color: '#1e293b',
+    borderWidth: 1,
+    borderColor: '#e2e8f0',
+  },
+  factorInput: {
+    width: 56,
+  },
+  priceInput: {
+    width: 72,
+  },
+  remove: {
+    padding: 4,
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 10,
+    backgroundColor: '#f5f3ff',
+  },
+  addButtonText: {
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+});
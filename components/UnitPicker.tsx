@@ -0,0 +1,61 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { UnitConversion, unitOptions } from '../services/productService';
+
+interface UnitPickerProps {
+  product: any;
+  value?: string;
+  onChange: (option: UnitConversion) => void;
+}
+
+// Unit a line is entered in; hidden for products sold only in their base unit
+export default function UnitPicker({ product, value, onChange }: UnitPickerProps) {
+  const options = unitOptions(product);
+  if (options.length < 2) return null;
+  const selected = value ?? product?.unit;
+
+  return (
+    <View style={styles.row}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option.unit}
+          style={[styles.chip, selected === option.unit && styles.chipSelected]}
+          onPress={() => onChange(option)}
+        >
+          <Text style={[styles.chipText, selected === option.unit && styles.chipTextSelected]}>
+            {option.factor === 1 ? option.unit : `${option.unit} (${option.factor} ${product?.unit ?? ''})`}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#f5f3ff',
+    borderWidth: 1,
+    borderColor: '#ede9fe',
+  },
+  chipSelected: {
+    backgroundColor: '#6d28d9',
+    borderColor: '#6d28d9',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#6d28d9',
+    fontWeight: '600',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+});
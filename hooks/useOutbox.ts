@@ -0,0 +1,30 @@
+// hooks/useOutbox.ts
+import { useEffect, useState } from 'react';
+import outboxService, { OutboxConflict, OutboxEntry, OutboxKind } from '../services/outboxService';
+
+export default function useOutbox(kind?: OutboxKind) {
+  const [pending, setPending] = useState<OutboxEntry[]>([]);
+  const [conflicts, setConflicts] = useState<OutboxConflict[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    const load = async () => {
+      const [nextPending, nextConflicts] = await Promise.all([
+        outboxService.getPending(kind),
+        outboxService.getConflicts(kind),
+      ]);
+      if (!isCancelled) {
+        setPending(nextPending);
+        setConflicts(nextConflicts);
+      }
+    };
+    load();
+    const unsubscribe = outboxService.subscribe(load);
+    return () => {
+      isCancelled = true;
+      unsubscribe();
+    };
+  }, [kind]);
+
+  return { pending, conflicts };
+}
@@ -11,6 +11,13 @@ const API_URL =
   Constants.manifest?.extra?.API_URL ||
   "https://inventory-production-217b.up.railway.app/api";
 
+// Marks a request the outbox replays in the background; its failures are reported by the outbox, not alerted
+declare module "axios" {
+  interface AxiosRequestConfig {
+    _outboxReplay?: boolean;
+  }
+}
+
 const apiClient = axios.create({
   baseURL: API_URL, // 👈 no need to add /api again
   withCredentials: true,
@@ -44,6 +51,7 @@ const addSubscriber = (cb: (token: string) => void) => {
 // Request Interceptor
 apiClient.interceptors.request.use(
   async (config: InternalAxiosRequestConfig) => {
+    // Writes that support offline use are queued by their service before reaching here
     if (!isOnline()) {
       return Promise.reject({ isOffline: true, message: "No internet connection" });
     }
@@ -63,16 +71,19 @@ apiClient.interceptors.request.use(
 apiClient.interceptors.response.use(
   (response: AxiosResponse) => response,
   async (error) => {
+    // Background outbox replays report failures themselves
+    const silent = !!error.config?._outboxReplay;
+
     if (error.isOffline) {
       showAlert("No Internet", "Please check your connection and try again.");
       return Promise.reject(error);
     }
     if (!error.response) {
-      showAlert("Network Error", "Unable to reach the server. Please try again later.");
+      if (!silent) showAlert("Network Error", "Unable to reach the server. Please try again later.");
       return Promise.reject(error);
     }
     if (error.response.status >= 500) {
-      showAlert("Server Error", "Something went wrong on our end. Please try again later.");
+      if (!silent) showAlert("Server Error", "Something went wrong on our end. Please try again later.");
       return Promise.reject(error);
     }
 
@@ -1,4 +1,12 @@
 import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+
+// Sales tax the business charges; a product can carry its own rate (0 for exempt goods)
+export interface TaxSettings {
+  taxRate: number; // %, e.g. 15 for VAT
+  pricesIncludeTax: boolean; // selling prices already contain the tax
+  tin?: string; // taxpayer identification number printed on receipts
+}
 
 // 1. Get all businesses
 const getAllBusinesses = async () => {
@@ -18,10 +26,39 @@ const getUsersByBusiness = async (businessId: string) => {
   return res.data;
 };
 
+// 4. Get the signed-in user's business (name, contact details for receipts)
+const getMyBusiness = async (options?: CacheOptions<any>) => {
+  return cacheService.swr('business:profile', async () => {
+    const res = await apiClient.get('/businesses/me');
+    return res.data;
+  }, { maxAgeMs: 24 * 60 * 60 * 1000, ...options });
+};
+
+// 5. Tax settings of the signed-in user's business; none set means no tax.
+// Sale screens pass `force` so a rate changed on another device applies to the next sale
+const getTaxSettings = async (options?: CacheOptions<any>): Promise<TaxSettings> => {
+  const business = await getMyBusiness(options);
+  return {
+    taxRate: Number(business?.taxRate) || 0,
+    pricesIncludeTax: !!business?.pricesIncludeTax,
+    tin: business?.tin || undefined,
+  };
+};
+
+// 6. Update the business tax settings (admins)
+const updateTaxSettings = async (data: TaxSettings) => {
+  const res = await apiClient.put('/businesses/me/tax', data);
+  await cacheService.invalidate('business');
+  return res.data;
+};
+
 const businessService = {
   getAllBusinesses,
   toggleSubscriptionStatus,
   getUsersByBusiness,
+  getMyBusiness,
+  getTaxSettings,
+  updateTaxSettings,
 };
 
 export default businessService;
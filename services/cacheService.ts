@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { store } from '../app/store/index';
+import { isOnline } from './networkService';
+
+/**
+ * Stale-while-revalidate read cache, stored per business in AsyncStorage.
+ * Cached data is returned immediately; stale entries are refreshed in the background.
+ */
+
+interface CacheEntry<T> {
+  data: T;
+  savedAt: number;
+}
+
+export interface CacheOptions<T> {
+  maxAgeMs?: number; // how long an entry counts as fresh
+  force?: boolean; // skip the cache when online (pull-to-refresh)
+  onUpdate?: (data: T) => void; // called when a background refresh returns new data
+}
+
+const PREFIX = 'cache:';
+const DEFAULT_MAX_AGE_MS = 5 * 60 * 1000;
+
+const memory = new Map<string, CacheEntry<any>>();
+const inFlight = new Map<string, Promise<any>>();
+
+const scopedKey = (key: string) => {
+  const businessId = store.getState().auth.user?.businessId ?? 'anonymous';
+  return `${PREFIX}${businessId}:${key}`;
+};
+
+const read = async <T>(fullKey: string): Promise<CacheEntry<T> | null> => {
+  const cached = memory.get(fullKey);
+  if (cached) return cached;
+  try {
+    const raw = await AsyncStorage.getItem(fullKey);
+    if (!raw) return null;
+    const entry = JSON.parse(raw) as CacheEntry<T>;
+    memory.set(fullKey, entry);
+    return entry;
+  } catch {
+    return null;
+  }
+};
+
+const write = async <T>(fullKey: string, data: T) => {
+  const entry: CacheEntry<T> = { data, savedAt: Date.now() };
+  memory.set(fullKey, entry);
+  try {
+    await AsyncStorage.setItem(fullKey, JSON.stringify(entry));
+  } catch {
+    // Storage full or unavailable: the in-memory copy still serves this session
+  }
+};
+
+// Deduplicate concurrent fetches of the same key
+const fetchAndStore = <T>(fullKey: string, fetcher: () => Promise<T>): Promise<T> => {
+  const existing = inFlight.get(fullKey);
+  if (existing) return existing;
+  const request = fetcher()
+    .then(async (data) => {
+      await write(fullKey, data);
+      return data;
+    })
+    .finally(() => inFlight.delete(fullKey));
+  inFlight.set(fullKey, request);
+  return request;
+};
+
+// Read through the cache; falls back to cached data when offline
+const swr = async <T>(key: string, fetcher: () => Promise<T>, options: CacheOptions<T> = {}): Promise<T> => {
+  const fullKey = scopedKey(key);
+  const entry = await read<T>(fullKey);
+
+  if (!isOnline()) {
+    if (entry) return entry.data;
+    throw { isOffline: true, message: 'No internet connection' };
+  }
+
+  if (!entry || options.force) {
+    return fetchAndStore(fullKey, fetcher);
+  }
+
+  const isStale = Date.now() - entry.savedAt > (options.maxAgeMs ?? DEFAULT_MAX_AGE_MS);
+  if (isStale) {
+    fetchAndStore(fullKey, fetcher)
+      .then((data) => options.onUpdate?.(data))
+      .catch(() => {});
+  }
+  return entry.data;
+};
+
+// Cached value without touching the network (null when missing)
+const peek = async <T>(key: string): Promise<T | null> => {
+  const entry = await read<T>(scopedKey(key));
+  return entry ? entry.data : null;
+};
+
+// Drop every cached key that starts with one of the given prefixes for this business
+const invalidate = async (...prefixes: string[]) => {
+  const scoped = prefixes.map(scopedKey);
+  const matches = (key: string) => scoped.some((p) => key.startsWith(p));
+
+  Array.from(memory.keys()).filter(matches).forEach((key) => memory.delete(key));
+  try {
+    const keys = await AsyncStorage.getAllKeys();
+    const stale = keys.filter(matches);
+    if (stale.length) await AsyncStorage.multiRemove(stale);
+  } catch {}
+};
+
+export default {
+  swr,
+  peek,
+  invalidate,
+};
@@ -1,33 +1,41 @@
 import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
 
 const categoryService = {
-  // Get all categories
-  getAllCategories: async () => {
-    const res = await apiClient.get('/categories');
-    return res.data;
+  // Get all categories (cached, works offline)
+  getAllCategories: async (options?: CacheOptions<any>) => {
+    return cacheService.swr('categories', async () => {
+      const res = await apiClient.get('/categories');
+      return res.data;
+    }, options);
   },
 
   // ✅ Get category counts (product count per category)
-  getCategoryCounts: async () => {
-    const res = await apiClient.get('/categories/counts');
-    return res.data;
+  getCategoryCounts: async (options?: CacheOptions<any>) => {
+    return cacheService.swr('categories:counts', async () => {
+      const res = await apiClient.get('/categories/counts');
+      return res.data;
+    }, options);
   },
 
   // Create a new category
   createCategory: async (categoryData: { name: string }) => {
     const res = await apiClient.post('/categories', categoryData);
+    await cacheService.invalidate('categories');
     return res.data;
   },
 
   // Update existing category by ID
   updateCategory: async (id: string, updatedData: { name: string }) => {
     const res = await apiClient.put(`/categories/${id}`, updatedData);
+    await cacheService.invalidate('categories', 'products');
     return res.data;
   },
 
   // Delete category by ID
   deleteCategory: async (id: string) => {
     const res = await apiClient.delete(`/categories/${id}`);
+    await cacheService.invalidate('categories', 'products');
     return res.data;
   },
 };
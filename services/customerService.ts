@@ -0,0 +1,93 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+
+export interface Customer {
+  _id: string;
+  name: string;
+  phone?: string;
+  address?: string;
+  creditLimit?: number; // 0 or missing means no limit
+  balance?: number; // outstanding amount across credit/partial sales
+  priceList?: string | { _id: string; name: string } | null; // prices the customer buys at
+  createdAt?: string;
+}
+
+export interface CustomerData {
+  name: string;
+  phone?: string;
+  address?: string;
+  creditLimit?: number | null;
+  priceList?: string | null;
+}
+
+// One row on the customer statement
+export interface LedgerEntry {
+  _id: string;
+  type: 'sale' | 'payment' | 'return' | 'refund'; // a refund pays back a returned amount
+  date: string;
+  amount: number;
+  saleId?: string;
+  receiptNumber?: string;
+  method?: string;
+  balance: number; // running balance after this entry
+}
+
+export interface CustomerLedger {
+  customer: Customer;
+  entries: LedgerEntry[];
+  totalSales: number;
+  totalPaid: number;
+  outstanding: number;
+}
+
+// Get all customers (cached, works offline for picking on the sale screen)
+const getAllCustomers = async (options?: CacheOptions<Customer[]>): Promise<Customer[]> => {
+  return cacheService.swr('customers', async () => {
+    const res = await apiClient.get('/customers');
+    return res.data;
+  }, options);
+};
+
+const getCustomerById = async (id: string): Promise<Customer> => {
+  const res = await apiClient.get(`/customers/${id}`);
+  return res.data;
+};
+
+// Sales, payments and running balance for one customer, oldest first
+const getCustomerLedger = async (id: string): Promise<CustomerLedger> => {
+  const res = await apiClient.get(`/customers/${id}/ledger`);
+  return res.data;
+};
+
+const addCustomer = async (data: CustomerData): Promise<Customer> => {
+  const res = await apiClient.post('/customers', data);
+  await cacheService.invalidate('customers');
+  return res.data;
+};
+
+const updateCustomer = async (id: string, data: CustomerData): Promise<Customer> => {
+  const res = await apiClient.put(`/customers/${id}`, data);
+  await cacheService.invalidate('customers');
+  return res.data;
+};
+
+const deleteCustomer = async (id: string) => {
+  const res = await apiClient.delete(`/customers/${id}`);
+  await cacheService.invalidate('customers');
+  return res.data;
+};
+
+// ✅ Whether adding `newDue` would take the customer past their credit limit
+export const exceedsCreditLimit = (customer: Customer | null | undefined, newDue: number) => {
+  if (!customer?.creditLimit || customer.creditLimit <= 0) return false;
+  return (customer.balance ?? 0) + newDue > customer.creditLimit;
+};
+
+export default {
+  getAllCustomers,
+  getCustomerById,
+  getCustomerLedger,
+  addCustomer,
+  updateCustomer,
+  deleteCustomer,
+};
@@ -1,18 +1,32 @@
 import apiClient from '../lib/apiClient';
+import cacheService from './cacheService';
+
+// A lot on the expiring-soon or expired list
+export interface ExpiringBatch {
+  _id: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number; // base units left in the lot
+  product: { _id: string; name: string; brand?: string; unit?: string; buyingPrice?: number; category?: { _id: string; name: string } };
+  warehouse: { _id: string; name: string };
+}
 
 const getSummary = async () => {
   const res = await apiClient.get('/dashboard/summary');
   return res.data;
 };
 
+// Feed items are typed: product, transfer, sale, adjustment, ...
 const getRecentActivity = async () => {
   const res = await apiClient.get('/dashboard/recent-activity');
   return res.data;
 };
 
 const getThreshold = async () => {
-  const res = await apiClient.get('/dashboard/threshold');
-  return res.data;
+  return cacheService.swr('dashboard:threshold', async () => {
+    const res = await apiClient.get('/dashboard/threshold');
+    return res.data;
+  });
 };
 
 const getOutOfStock = async () => {
@@ -25,8 +39,21 @@ const getLowStock = async () => {
   return res.data;
 };
 
+// Lots with stock that expire within `days`, earliest first (already expired lots included)
+const getExpiringSoon = async (days = 30): Promise<ExpiringBatch[]> => {
+  const res = await apiClient.get('/dashboard/expiring-soon', { params: { days } });
+  return res.data;
+};
+
+// Lots with stock past their expiry date
+const getExpired = async (): Promise<ExpiringBatch[]> => {
+  const res = await apiClient.get('/dashboard/expired');
+  return res.data;
+};
+
 const updateThreshold = async (threshold: number) => {
   const res = await apiClient.put('/dashboard/threshold', { threshold });
+  await cacheService.invalidate('dashboard:threshold');
   return res.data;
 };
 
@@ -36,5 +63,7 @@ export default {
   getThreshold,
   updateThreshold,
   getOutOfStock,
-  getLowStock
+  getLowStock,
+  getExpiringSoon,
+  getExpired
 };
@@ -1,4 +1,6 @@
 import apiClient from '../lib/apiClient';
+import { isOnline } from './networkService';
+import outboxService from './outboxService';
 
 export interface ExpensePayload {
   amount: number;
@@ -11,8 +13,11 @@ export interface ExpensePayload {
   receipt: boolean;
 }
 
-// Create a new expense
+// Create a new expense (queued while offline)
 const addExpense = async (data: ExpensePayload) => {
+  if (!isOnline()) {
+    return outboxService.enqueue({ kind: 'expense', method: 'post', url: '/expenses', data });
+  }
   const res = await apiClient.post('/expenses', data);
   return res.data;
 };
@@ -0,0 +1,125 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { Alert } from 'react-native';
+import * as XLSX from 'xlsx';
+import i18n from '../i18n';
+
+/**
+ * Spreadsheet and PDF exports for lists and reports. Screens build plain rows (column header → cell)
+ * with translated headers; this turns them into an .xlsx workbook or a .csv file and shares it.
+ * PDFs are printed from HTML the calling service builds.
+ */
+
+export type SpreadsheetFormat = 'xlsx' | 'csv';
+export type SpreadsheetCell = string | number | boolean | null | undefined;
+export type SpreadsheetRow = Record<string, SpreadsheetCell>;
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: SpreadsheetRow[];
+}
+
+// Excel limits sheet names to 31 characters and rejects a few symbols
+const sheetName = (name: string, used: Set<string>) => {
+  const base = name.replace(/[\\/?*[\]:]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let unique = base;
+  for (let i = 2; used.has(unique); i++) unique = `${base.slice(0, 28)} ${i}`;
+  used.add(unique);
+  return unique;
+};
+
+const toSheet = (rows: SpreadsheetRow[]) => XLSX.utils.json_to_sheet(rows.length ? rows : [{}]);
+
+// ✅ YYYY-MM-DD in local time for spreadsheet cells and file names; the UTC date can be a day off
+export const exportDate = (value?: string | Date | null) => {
+  if (!value) return '';
+  const date = new Date(value);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// ✅ Asks whether to export as Excel or CSV; resolves null when cancelled
+export const askSpreadsheetFormat = (): Promise<SpreadsheetFormat | null> =>
+  new Promise(resolve => {
+    const t = i18n.t.bind(i18n);
+    Alert.alert(
+      t('export.chooseFormat'),
+      undefined,
+      [
+        { text: t('export.excel'), onPress: () => resolve('xlsx') },
+        { text: t('export.csv'), onPress: () => resolve('csv') },
+        { text: t('common.cancel'), style: 'cancel', onPress: () => resolve(null) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(null) }
+    );
+  });
+
+const ensureSharing = async () => {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error(i18n.t('common.sharingNotAvailable'));
+  }
+};
+
+/**
+ * Writes the sheets to the document directory and opens the share sheet. A CSV holds a
+ * single table, so several sheets are written one after another under their names.
+ */
+const shareSpreadsheet = async (fileName: string, sheets: SpreadsheetSheet[], format: SpreadsheetFormat) => {
+  await ensureSharing();
+
+  const path = `${FileSystem.documentDirectory}${fileName}.${format}`;
+  await FileSystem.deleteAsync(path, { idempotent: true });
+
+  if (format === 'csv') {
+    const csv = sheets
+      .map(sheet => {
+        const body = XLSX.utils.sheet_to_csv(toSheet(sheet.rows));
+        return sheets.length > 1 ? `${sheet.name}\n${body}` : body;
+      })
+      .join('\n\n');
+    // The byte order mark makes Excel read Amharic text as UTF-8
+    await FileSystem.writeAsStringAsync(path, `\uFEFF${csv}`, { encoding: FileSystem.EncodingType.UTF8 });
+    await Sharing.shareAsync(path, { mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' });
+    return;
+  }
+
+  const workbook = XLSX.utils.book_new();
+  const used = new Set<string>();
+  sheets.forEach(sheet => XLSX.utils.book_append_sheet(workbook, toSheet(sheet.rows), sheetName(sheet.name, used)));
+  const b64 = XLSX.write(workbook, { type: 'base64', bookType: 'xlsx' });
+  await FileSystem.writeAsStringAsync(path, b64, { encoding: FileSystem.EncodingType.Base64 });
+  await Sharing.shareAsync(path, {
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    UTI: 'org.openxmlformats.spreadsheetml.sheet',
+  });
+};
+
+// ✅ Text made safe to put inside printed HTML
+export const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// Prints the HTML to `<fileName>.pdf` in the document directory, replacing an older copy, and returns its path
+const savePdf = async (fileName: string, html: string) => {
+  const { uri } = await Print.printToFileAsync({ html });
+  const path = `${FileSystem.documentDirectory}${fileName}.pdf`;
+  await FileSystem.deleteAsync(path, { idempotent: true });
+  await FileSystem.moveAsync({ from: uri, to: path });
+  return path;
+};
+
+const sharePdf = async (fileName: string, html: string) => {
+  await ensureSharing();
+  const path = await savePdf(fileName, html);
+  await Sharing.shareAsync(path, { mimeType: 'application/pdf', UTI: 'com.adobe.pdf' });
+};
+
+export default {
+  shareSpreadsheet,
+  savePdf,
+  sharePdf,
+};
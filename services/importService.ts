@@ -1,8 +1,92 @@
 import * as FileSystem from 'expo-file-system';
 import * as Sharing from 'expo-sharing';
 import * as XLSX from 'xlsx';
+import { UNITS } from '../constants/units';
 import i18n from '../i18n'; // ✅ to access translations
 import apiClient from '../lib/apiClient';
+import cacheService from './cacheService';
+import exportService, { exportDate, SpreadsheetRow } from './exportService';
+import { expandVariants, StockRow, stockRows } from './productService';
+
+/**
+ * Product import from the Excel template. Rows are checked on the device against the
+ * categories, warehouses, units and products already known, so bad rows can be fixed or
+ * left out before anything is sent; the server skips the rows the preview rejected.
+ */
+
+export type ImportMode = 'create' | 'upsert'; // upsert updates matching products and creates the rest
+export type ImportMatchKey = 'nameWarehouse' | 'sku'; // how an upsert finds the existing product
+
+export interface ImportOptions {
+  mode: ImportMode;
+  matchKey: ImportMatchKey;
+}
+
+export interface ImportRow {
+  row: number; // sheet row number, the header being row 1
+  name: string;
+  category: string;
+  unit: string;
+  quantity?: number; // left out on an update keeps the stock as it is
+  warehouse: string;
+  brand?: string;
+  barcode?: string; // barcode or SKU
+  buyingPrice?: number;
+  sellingPrice?: number;
+}
+
+export interface CheckedImportRow extends ImportRow {
+  action: 'create' | 'update';
+}
+
+export interface RejectedImportRow {
+  row: number;
+  values: SpreadsheetRow; // the cells as read, for the error report
+  errors: string[];
+}
+
+export interface ImportValidation {
+  valid: CheckedImportRow[];
+  rejected: RejectedImportRow[];
+}
+
+export interface ImportReferences {
+  categories: { _id: string; name: string }[];
+  warehouses: { _id: string; name: string }[];
+  products: ExistingProduct[];
+}
+
+// What validation reads from the product list (variants included) to spot rows that already exist
+export interface ExistingProduct {
+  _id: string;
+  name: string;
+  barcode?: string;
+  stock?: StockRow[];
+}
+
+export interface ImportResult {
+  addedCount: number;
+  updatedCount?: number;
+  errorCount: number;
+  rejectedItems?: { row?: number; name?: string; reason?: string; [key: string]: any }[];
+}
+
+// Header spellings accepted for each field, compared without case, spaces or underscores
+const COLUMNS: Record<keyof Omit<ImportRow, 'row'>, string[]> = {
+  name: ['name', 'productname'],
+  category: ['category'],
+  unit: ['unit'],
+  quantity: ['quantity', 'qty'],
+  warehouse: ['warehouse'],
+  brand: ['brand'],
+  barcode: ['barcode', 'sku'],
+  buyingPrice: ['buyingprice', 'cost', 'costprice'],
+  sellingPrice: ['sellingprice', 'price', 'saleprice'],
+};
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[\s_-]/g, '');
+const norm = (value: unknown) => String(value ?? '').trim().toLowerCase();
+const isBlank = (value: unknown) => value == null || String(value).trim() === '';
 
 const downloadImportTemplate = async () => {
   try {
@@ -30,7 +114,12 @@ const downloadImportTemplate = async () => {
   }
 };
 
-const uploadImportFile = async (file: { uri: string; name: string; mimeType?: string }) => {
+// Sends the sheet as picked; rows listed in `skipRows` were rejected by the preview and are left out
+const uploadImportFile = async (
+  file: { uri: string; name: string; mimeType?: string },
+  options: ImportOptions = { mode: 'create', matchKey: 'nameWarehouse' },
+  skipRows: number[] = []
+): Promise<ImportResult> => {
   try {
     const formData = new FormData();
 
@@ -41,6 +130,9 @@ const uploadImportFile = async (file: { uri: string; name: string; mimeType?: st
         file.mimeType ||
         'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
     } as any);
+    formData.append('mode', options.mode);
+    formData.append('matchKey', options.matchKey);
+    formData.append('skipRows', JSON.stringify(skipRows));
 
     const response = await apiClient.post('/import/products', formData, {
       headers: {
@@ -48,6 +140,7 @@ const uploadImportFile = async (file: { uri: string; name: string; mimeType?: st
       },
     });
 
+    await cacheService.invalidate('products', 'categories:counts');
     return response.data;
   } catch (error: any) {
     if (__DEV__) {
@@ -57,7 +150,15 @@ const uploadImportFile = async (file: { uri: string; name: string; mimeType?: st
   }
 };
 
-const parseExcelFile = async (file: any) => {
+// Numbers may arrive as text such as "1,200.50"; undefined when blank, NaN when not a number
+const toNumber = (value: unknown) => {
+  if (isBlank(value)) return undefined;
+  if (typeof value === 'number') return value;
+  return Number(String(value).replace(/,/g, '').trim());
+};
+
+// Reads the first sheet; `values` keeps each row's cells under the template's headers
+const parseExcelFile = async (file: any): Promise<{ data: ImportRow[]; values: SpreadsheetRow[]; errors: string[] }> => {
   try {
     const fileUri = file.assets?.[0]?.uri || file.uri;
 
@@ -68,18 +169,39 @@ const parseExcelFile = async (file: any) => {
     const workbook = XLSX.read(b64, { type: 'base64' });
     const sheetName = workbook.SheetNames[0];
     const sheet = workbook.Sheets[sheetName];
-    const jsonData = XLSX.utils.sheet_to_json(sheet);
-
-    const normalized = jsonData.map((row: any) => ({
-      name: row.Name,
-      category: row.Category,
-      unit: row.Unit,
-      quantity: row.Quantity,
-      warehouse: row.Warehouse,
-      brand: row.Brand,
+    const jsonData = XLSX.utils.sheet_to_json<SpreadsheetRow>(sheet);
+
+    const headers = new Map<string, string>();
+    jsonData.forEach(row => Object.keys(row).forEach(header => {
+      const key = headerKey(header);
+      if (!headers.has(key)) headers.set(key, header);
     }));
+    const cell = (row: SpreadsheetRow, field: keyof typeof COLUMNS) => {
+      const header = COLUMNS[field].map(name => headers.get(name)).find(Boolean);
+      return header ? row[header] : undefined;
+    };
 
-    return { data: normalized, errors: [] };
+    const missing = (['name', 'category', 'unit', 'warehouse'] as const).filter(
+      field => jsonData.length > 0 && !COLUMNS[field].some(name => headers.has(name))
+    );
+    const errors = missing.map(field => i18n.t('importProducts.missingColumn', { column: field.charAt(0).toUpperCase() + field.slice(1) }));
+
+    const normalized: ImportRow[] = jsonData.map((row: any, index) => ({
+      // SheetJS keeps the 0-based sheet row on each object
+      row: typeof row.__rowNum__ === 'number' ? row.__rowNum__ + 1 : index + 2,
+      name: String(cell(row, 'name') ?? '').trim(),
+      category: String(cell(row, 'category') ?? '').trim(),
+      unit: String(cell(row, 'unit') ?? '').trim(),
+      quantity: toNumber(cell(row, 'quantity')),
+      warehouse: String(cell(row, 'warehouse') ?? '').trim(),
+      brand: isBlank(cell(row, 'brand')) ? undefined : String(cell(row, 'brand')).trim(),
+      // Numeric barcodes come back from the sheet as numbers
+      barcode: isBlank(cell(row, 'barcode')) ? undefined : String(cell(row, 'barcode')).trim(),
+      buyingPrice: toNumber(cell(row, 'buyingPrice')),
+      sellingPrice: toNumber(cell(row, 'sellingPrice')),
+    }));
+
+    return { data: normalized, values: jsonData, errors };
   } catch (err: any) {
     if (__DEV__) {
       console.error('Excel parsing error:', err.message);
@@ -88,8 +210,107 @@ const parseExcelFile = async (file: any) => {
   }
 };
 
+// ✅ Splits parsed rows into those ready to import, marked new or update, and those rejected with reasons
+export const validateImportRows = (
+  rows: ImportRow[],
+  values: SpreadsheetRow[],
+  refs: ImportReferences,
+  options: ImportOptions
+): ImportValidation => {
+  const t = i18n.t.bind(i18n);
+  const categories = new Set(refs.categories.map(c => norm(c.name)));
+  const warehouses = new Set(refs.warehouses.map(w => norm(w.name)));
+  const units = new Set(UNITS.map(u => u.value.toLowerCase()));
+
+  // What already exists, by name in each warehouse and by barcode
+  const existingByName = new Set<string>();
+  const existingBarcodes = new Set<string>();
+  expandVariants(refs.products).forEach(p => {
+    stockRows(p).forEach(row => existingByName.add(`${norm(p.name)}|${norm(row.warehouse?.name)}`));
+    if (p.barcode) existingBarcodes.add(norm(p.barcode));
+  });
+
+  const seenNames = new Map<string, number>();
+  const seenBarcodes = new Map<string, number>();
+  const valid: CheckedImportRow[] = [];
+  const rejected: RejectedImportRow[] = [];
+
+  rows.forEach((row, index) => {
+    const errors: string[] = [];
+    if (!row.name) errors.push(t('importProducts.nameRequired'));
+    if (!row.category) errors.push(t('importProducts.categoryRequired'));
+    else if (!categories.has(norm(row.category))) errors.push(t('importProducts.unknownCategory', { value: row.category }));
+    if (!row.warehouse) errors.push(t('importProducts.warehouseRequired'));
+    else if (!warehouses.has(norm(row.warehouse))) errors.push(t('importProducts.unknownWarehouse', { value: row.warehouse }));
+    if (!row.unit) errors.push(t('importProducts.unitRequired'));
+    else if (!units.has(norm(row.unit))) errors.push(t('importProducts.badUnit', { value: row.unit }));
+
+    if (row.quantity !== undefined && (Number.isNaN(row.quantity) || row.quantity < 0)) {
+      errors.push(t('importProducts.badQuantity'));
+    }
+    (['buyingPrice', 'sellingPrice'] as const).forEach(field => {
+      const price = row[field];
+      if (price !== undefined && (Number.isNaN(price) || price < 0)) {
+        errors.push(t(`importProducts.${field === 'buyingPrice' ? 'badBuyingPrice' : 'badSellingPrice'}`));
+      }
+    });
+
+    // A product appears once per warehouse; a barcode names one product
+    const nameKey = `${norm(row.name)}|${norm(row.warehouse)}`;
+    const barcodeKey = row.barcode ? `${norm(row.barcode)}|${norm(row.warehouse)}` : '';
+    if (row.name && seenNames.has(nameKey)) {
+      errors.push(t('importProducts.duplicateRow', { row: seenNames.get(nameKey) }));
+    } else if (barcodeKey && seenBarcodes.has(barcodeKey)) {
+      errors.push(t('importProducts.duplicateBarcode', { row: seenBarcodes.get(barcodeKey) }));
+    }
+    if (row.name && !seenNames.has(nameKey)) seenNames.set(nameKey, row.row);
+    if (barcodeKey && !seenBarcodes.has(barcodeKey)) seenBarcodes.set(barcodeKey, row.row);
+
+    const exists =
+      options.matchKey === 'sku'
+        ? !!row.barcode && existingBarcodes.has(norm(row.barcode))
+        : existingByName.has(nameKey);
+    if (options.mode === 'create') {
+      if (existingByName.has(nameKey)) errors.push(t('importProducts.alreadyExists'));
+      else if (row.barcode && existingBarcodes.has(norm(row.barcode))) errors.push(t('importProducts.barcodeTaken'));
+    }
+    // Matching by barcode can't find a row that has none (or a new one); creating it would duplicate
+    // the product already stocked under that name in the warehouse
+    if (options.mode === 'upsert' && options.matchKey === 'sku' && !exists && existingByName.has(nameKey)) {
+      errors.push(t(row.barcode ? 'importProducts.alreadyExists' : 'importProducts.barcodeNeededToMatch'));
+    }
+    if (errors.length > 0) rejected.push({ row: row.row, values: values[index] ?? {}, errors });
+    else if (exists) valid.push({ ...row, action: 'update' });
+    else valid.push({ ...row, quantity: row.quantity ?? 0, action: 'create' });
+  });
+
+  return { valid, rejected };
+};
+
+/**
+ * The rejected rows with their reasons, laid out like the template so the sheet can be
+ * corrected and imported again. Rows the server turned down are added after them.
+ */
+const shareErrorReport = async (rejected: RejectedImportRow[], serverRejected: ImportResult['rejectedItems'] = []) => {
+  const t = i18n.t.bind(i18n);
+  const rows = [
+    ...rejected.map(r => ({ [t('importProducts.reportRow')]: r.row, ...r.values, [t('importProducts.reportErrors')]: r.errors.join('; ') })),
+    ...serverRejected.map(({ row, reason, ...rest }) => ({
+      [t('importProducts.reportRow')]: row ?? '',
+      ...rest,
+      [t('importProducts.reportErrors')]: reason ?? t('importProducts.rejectedByServer'),
+    })),
+  ];
+  await exportService.shareSpreadsheet(
+    `import-errors-${exportDate(new Date())}`,
+    [{ name: t('importProducts.reportSheet'), rows }],
+    'xlsx'
+  );
+};
+
 export default {
   downloadImportTemplate,
   uploadImportFile,
   parseExcelFile,
+  shareErrorReport,
 };
@@ -5,15 +5,35 @@ import NetInfo from '@react-native-community/netinfo';
  */
 let onlineStatus: boolean = true; // Assume online initially
 
+type ConnectivityListener = (online: boolean) => void;
+const connectivityListeners = new Set<ConnectivityListener>();
+
 // Subscribe to network status updates on app start
 NetInfo.addEventListener((state) => {
   // Force null → false
   const isConnected = state.isConnected ?? false;
   const isInternetReachable = state.isInternetReachable ?? false;
 
-  onlineStatus = isConnected && isInternetReachable;
+  const nextStatus = isConnected && isInternetReachable;
+  const changed = nextStatus !== onlineStatus;
+  onlineStatus = nextStatus;
+
+  if (changed) {
+    connectivityListeners.forEach((listener) => listener(nextStatus));
+  }
 });
 
+/**
+ * Registers a callback fired whenever connectivity flips between online and offline.
+ * @returns {() => void} Unsubscribe function.
+ */
+export function addConnectivityListener(listener: ConnectivityListener): () => void {
+  connectivityListeners.add(listener);
+  return () => {
+    connectivityListeners.delete(listener);
+  };
+}
+
 /**
  * Checks if the device currently has an internet connection (sync, cached).
  * @returns {boolean} True if online, false otherwise.
@@ -0,0 +1,155 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+import i18n from '../i18n';
+import { daysOverdue, OpenReceivable } from './receivableService';
+
+/**
+ * Local reminders for credit sales that pass their due date.
+ * Future due dates get one scheduled notification per day, naming the sale when it's the only
+ * one that day and summing them otherwise; sales that are already overdue when we sync are
+ * announced once in a summary notification.
+ */
+
+const CHANNEL_ID = 'receivables';
+const REMINDER_PREFIX = 'overdue:';
+const NOTIFIED_KEY = 'notifications:overdueNotified';
+const REMINDER_HOUR = 9;
+// iOS keeps at most 64 pending local notifications per app; later days are scheduled by a later sync
+const MAX_REMINDER_DAYS = 30;
+
+let configured = false;
+
+// Show reminders while the app is open and create the Android channel
+const configure = async () => {
+  if (configured) return;
+  configured = true;
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: false,
+      shouldSetBadge: false,
+    }),
+  });
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: i18n.t('receivables.channelName'),
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+};
+
+const ensurePermission = async () => {
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  const requested = await Notifications.requestPermissionsAsync();
+  return requested.granted;
+};
+
+const readNotified = async (): Promise<string[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(NOTIFIED_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+};
+
+// The morning after the due date, when the sale first counts as overdue
+const reminderDate = (dueDate: string) => {
+  const due = new Date(dueDate);
+  return new Date(due.getFullYear(), due.getMonth(), due.getDate() + 1, REMINDER_HOUR);
+};
+
+// Reconcile scheduled reminders with the current open receivables
+const syncOverdueReminders = async (sales: OpenReceivable[]) => {
+  try {
+    await configure();
+    if (!(await ensurePermission())) return;
+
+    const now = new Date();
+    const open = sales.filter(s => s.dueDate && (Number(s.amountDue) || 0) > 0);
+    const upcoming = open.filter(s => reminderDate(s.dueDate!).getTime() > now.getTime());
+    const overdue = open.filter(s => daysOverdue(s, now) > 0);
+
+    // Sales falling overdue on the same morning share a reminder
+    const byDay = new Map<number, OpenReceivable[]>();
+    upcoming.forEach(sale => {
+      const at = reminderDate(sale.dueDate!).getTime();
+      byDay.set(at, [...(byDay.get(at) ?? []), sale]);
+    });
+    const days = Array.from(byDay.keys()).sort((a, b) => a - b).slice(0, MAX_REMINDER_DAYS);
+
+    // Drop reminders for days that no longer have an unpaid sale
+    const wanted = new Set(days.map(at => `${REMINDER_PREFIX}${at}`));
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(n => n.identifier.startsWith(REMINDER_PREFIX) && !wanted.has(n.identifier))
+        .map(n => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+    );
+
+    // Scheduling with the same identifier replaces the earlier reminder
+    for (const at of days) {
+      const due = byDay.get(at)!;
+      const amount = due.reduce((sum, s) => sum + (Number(s.amountDue) || 0), 0);
+      await Notifications.scheduleNotificationAsync({
+        identifier: `${REMINDER_PREFIX}${at}`,
+        content: {
+          title: i18n.t('receivables.reminderTitle'),
+          body:
+            due.length === 1
+              ? i18n.t('receivables.reminderBody', { customer: due[0].customerName, amount: amount.toFixed(2) })
+              : i18n.t('receivables.overdueSummary', { count: due.length, amount: amount.toFixed(2) }),
+          data: due.length === 1 ? { type: 'overdue-sale', saleId: due[0]._id } : { type: 'overdue-summary' },
+        },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date: new Date(at),
+          channelId: CHANNEL_ID,
+        },
+      });
+    }
+
+    const notified = new Set(await readNotified());
+    const fresh = overdue.filter(s => !notified.has(s._id));
+    if (fresh.length > 0) {
+      const amount = fresh.reduce((sum, s) => sum + (Number(s.amountDue) || 0), 0);
+      await Notifications.scheduleNotificationAsync({
+        content: {
+          title: i18n.t('receivables.reminderTitle'),
+          body: i18n.t('receivables.overdueSummary', { count: fresh.length, amount: amount.toFixed(2) }),
+          data: { type: 'overdue-summary' },
+        },
+        trigger: Platform.OS === 'android' ? { channelId: CHANNEL_ID } : null,
+      });
+    }
+
+    // Only remember sales that are still overdue so the list does not grow forever
+    await AsyncStorage.setItem(NOTIFIED_KEY, JSON.stringify(overdue.map(s => s._id)));
+  } catch {
+    // Reminders are best effort; the dashboard card still shows overdue totals
+  }
+};
+
+// Cancel all overdue reminders (on logout)
+const clearOverdueReminders = async () => {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(n => n.identifier.startsWith(REMINDER_PREFIX))
+        .map(n => Notifications.cancelScheduledNotificationAsync(n.identifier)),
+    );
+    await AsyncStorage.removeItem(NOTIFIED_KEY);
+  } catch {
+    // Nothing scheduled or notifications unavailable
+  }
+};
+
+export default {
+  syncOverdueReminders,
+  clearOverdueReminders,
+};
@@ -0,0 +1,246 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Alert } from 'react-native';
+import { store } from '../app/store/index';
+import i18n from '../i18n';
+import apiClient from '../lib/apiClient';
+import cacheService from './cacheService';
+import { addConnectivityListener, isOnline } from './networkService';
+
+/**
+ * Persistent outbox for writes made while offline.
+ * Entries are replayed in the order they were recorded once the device is back online.
+ */
+
+export type OutboxKind = 'sale' | 'expense' | 'transfer' | 'productEdit' | 'goodsReceipt' | 'adjustment';
+
+export interface OutboxEntry {
+  id: string;
+  kind: OutboxKind;
+  method: 'post' | 'put';
+  url: string;
+  data: any;
+  targetId?: string; // e.g. product ID for product edits
+  businessId?: string;
+  createdAt: string;
+}
+
+export interface OutboxConflict extends OutboxEntry {
+  status?: number;
+  message: string;
+  failedAt: string;
+}
+
+// Returned by services instead of the API response when a write was queued
+export interface QueuedResult {
+  queued: true;
+  entry: OutboxEntry;
+}
+
+interface SyncResult {
+  synced: number;
+  conflicts: OutboxConflict[];
+}
+
+const QUEUE_KEY = 'outbox:queue';
+const CONFLICTS_KEY = 'outbox:conflicts';
+
+let queueCache: OutboxEntry[] | null = null;
+let conflictsCache: OutboxConflict[] | null = null;
+let isFlushing = false;
+let unsubscribeReconnect: (() => void) | null = null;
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const readList = async <T>(key: string): Promise<T[]> => {
+  try {
+    const raw = await AsyncStorage.getItem(key);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const loadQueue = async (): Promise<OutboxEntry[]> => {
+  if (!queueCache) queueCache = await readList<OutboxEntry>(QUEUE_KEY);
+  return queueCache;
+};
+
+const loadConflicts = async (): Promise<OutboxConflict[]> => {
+  if (!conflictsCache) conflictsCache = await readList<OutboxConflict>(CONFLICTS_KEY);
+  return conflictsCache;
+};
+
+const saveQueue = async (queue: OutboxEntry[]) => {
+  queueCache = queue;
+  await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+};
+
+const saveConflicts = async (conflicts: OutboxConflict[]) => {
+  conflictsCache = conflicts;
+  await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+};
+
+const currentBusinessId = () => store.getState().auth.user?.businessId;
+
+// Subscribe to queue/conflict changes; returns an unsubscribe function
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+// Record a write for later replay
+const enqueue = async (
+  entry: Pick<OutboxEntry, 'kind' | 'method' | 'url' | 'data' | 'targetId'>
+): Promise<QueuedResult> => {
+  const queued: OutboxEntry = {
+    ...entry,
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    businessId: currentBusinessId(),
+    createdAt: new Date().toISOString(),
+  };
+  const queue = await loadQueue();
+  await saveQueue([...queue, queued]);
+  notify();
+  return { queued: true, entry: queued };
+};
+
+// Pending entries for the current business, optionally of one kind
+const getPending = async (kind?: OutboxKind) => {
+  const businessId = currentBusinessId();
+  const queue = await loadQueue();
+  return queue.filter(
+    (e) => (!kind || e.kind === kind) && (!e.businessId || e.businessId === businessId)
+  );
+};
+
+const getConflicts = async (kind?: OutboxKind) => {
+  const businessId = currentBusinessId();
+  const conflicts = await loadConflicts();
+  return conflicts.filter(
+    (c) => (!kind || c.kind === kind) && (!c.businessId || c.businessId === businessId)
+  );
+};
+
+// Drop a pending entry or a conflict without sending it
+const discard = async (id: string) => {
+  const queue = await loadQueue();
+  const conflicts = await loadConflicts();
+  await saveQueue(queue.filter((e) => e.id !== id));
+  await saveConflicts(conflicts.filter((c) => c.id !== id));
+  notify();
+};
+
+// Put a conflict back at the end of the queue for another attempt
+const retryConflict = async (id: string) => {
+  const conflicts = await loadConflicts();
+  const conflict = conflicts.find((c) => c.id === id);
+  if (!conflict) return;
+  const entry: OutboxEntry = {
+    id: conflict.id,
+    kind: conflict.kind,
+    method: conflict.method,
+    url: conflict.url,
+    data: conflict.data,
+    targetId: conflict.targetId,
+    businessId: conflict.businessId,
+    createdAt: conflict.createdAt,
+  };
+  const queue = await loadQueue();
+  await saveConflicts(conflicts.filter((c) => c.id !== id));
+  await saveQueue([...queue, entry]);
+  notify();
+};
+
+// Replay queued writes in order; stops at the first connectivity or server failure
+const flush = async (): Promise<SyncResult> => {
+  const result: SyncResult = { synced: 0, conflicts: [] };
+  if (isFlushing || !isOnline() || !store.getState().auth.accessToken) return result;
+  isFlushing = true;
+
+  try {
+    const pending = await getPending();
+    for (const entry of pending) {
+      try {
+        await apiClient.request({
+          method: entry.method,
+          url: entry.url,
+          data: entry.data,
+          headers: { 'Idempotency-Key': entry.id },
+          _outboxReplay: true,
+        });
+        const queue = await loadQueue();
+        await saveQueue(queue.filter((e) => e.id !== entry.id));
+        result.synced += 1;
+      } catch (err: any) {
+        const status: number | undefined = err?.response?.status;
+        // Not the entry's fault: keep it (and everything after it) for the next attempt
+        if (err?.isOffline || !status || status >= 500 || status === 401) break;
+
+        const conflict: OutboxConflict = {
+          ...entry,
+          status,
+          message: err.response?.data?.message || err.response?.data?.error || i18n.t('sync.unknownConflict'),
+          failedAt: new Date().toISOString(),
+        };
+        const queue = await loadQueue();
+        const conflicts = await loadConflicts();
+        await saveQueue(queue.filter((e) => e.id !== entry.id));
+        await saveConflicts([...conflicts, conflict]);
+        result.conflicts.push(conflict);
+      }
+    }
+  } finally {
+    isFlushing = false;
+    // Replayed writes change stock levels, product details and customer/supplier balances
+    if (result.synced > 0) await cacheService.invalidate('products', 'customers', 'receivables', 'suppliers', 'purchases', 'adjustments');
+    notify();
+  }
+
+  return result;
+};
+
+const flushAndReport = async () => {
+  const { conflicts } = await flush();
+  if (conflicts.length > 0) {
+    Alert.alert(
+      i18n.t('sync.conflictTitle'),
+      i18n.t('sync.conflictMessage', { count: conflicts.length })
+    );
+  }
+};
+
+// Replay on reconnect for the signed-in session; safe to call more than once
+const startAutoSync = () => {
+  if (!unsubscribeReconnect) {
+    unsubscribeReconnect = addConnectivityListener((online) => {
+      if (online) flushAndReport();
+    });
+  }
+  flushAndReport();
+};
+
+// Called on logout; queued entries stay stored for the next sign-in
+const stopAutoSync = () => {
+  unsubscribeReconnect?.();
+  unsubscribeReconnect = null;
+};
+
+const isQueued = (result: any): result is QueuedResult => result?.queued === true;
+
+export default {
+  enqueue,
+  getPending,
+  getConflicts,
+  discard,
+  retryConflict,
+  flush,
+  startAutoSync,
+  stopAutoSync,
+  subscribe,
+  isQueued,
+};
@@ -0,0 +1,155 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import { idOf, UnitConversion, unitOptionPrice } from './productService';
+import { round2 } from './saleService';
+
+/**
+ * Named price lists (retail, wholesale, VIP...) assigned to customers. Prices are per base
+ * unit; a line in another unit pays the list price × its factor.
+ */
+
+// From `minQuantity` base units on a line, each unit sells at `price`
+export interface PriceBreak {
+  minQuantity: number;
+  price: number;
+}
+
+export interface PriceListItem {
+  product: string | { _id: string; name: string; brand?: string; unit?: string; sellingPrice?: number };
+  price: number;
+  breaks?: PriceBreak[];
+}
+
+export interface PriceList {
+  _id: string;
+  name: string;
+  description?: string;
+  items: PriceListItem[];
+  customerCount?: number;
+}
+
+export interface PriceListData {
+  name: string;
+  description?: string;
+  items: { product: string; price: number; breaks?: PriceBreak[] }[];
+}
+
+// A sale line charged at something other than its list price, recorded by the server
+export interface PriceOverride {
+  _id: string;
+  sale: string | { _id: string; receiptNumber?: string };
+  product: { _id: string; name: string; brand?: string; unit?: string };
+  priceList?: { _id: string; name: string };
+  customer?: { _id: string; name: string };
+  user?: { _id: string; name: string };
+  quantity: number;
+  unit?: string;
+  listPrice: number; // per `unit`
+  unitPrice: number; // what was charged per `unit`
+  date: string;
+}
+
+// Cart line fields that pricing reads and writes
+interface PricedLine {
+  product: { _id: string; unit?: string; sellingPrice?: number; price?: number; unitConversions?: UnitConversion[] };
+  quantity: number;
+  unitPrice: number;
+  unit?: string;
+  unitFactor?: number;
+  listPrice?: number; // per `unit`, as quoted by the list when the line was priced
+  priceList?: string;
+}
+
+// ✅ Base-unit price for a quantity of a product: the highest break reached, else the list price.
+// Undefined when the list doesn't cover the product.
+export const listPriceFor = (list: PriceList | null | undefined, productId: string, baseQuantity: number) => {
+  const item = list?.items.find(i => idOf(i.product) === productId);
+  if (!item) return undefined;
+  const reached = (item.breaks ?? [])
+    .filter(b => baseQuantity >= b.minQuantity)
+    .sort((a, b) => b.minQuantity - a.minQuantity)[0];
+  return reached ? reached.price : item.price;
+};
+
+// ✅ List price of one `unit` for a line of `quantity` units
+export const unitListPrice = (
+  list: PriceList | null | undefined,
+  productId: string,
+  unitFactor: number,
+  quantity: number
+) => {
+  const price = listPriceFor(list, productId, quantity * unitFactor);
+  return price !== undefined ? round2(price * unitFactor) : undefined;
+};
+
+// ✅ Whether the cashier changed a price the list had set
+export const isPriceOverride = (line: { unitPrice: number; listPrice?: number }) =>
+  line.listPrice !== undefined && line.unitPrice !== line.listPrice;
+
+// ✅ Reprice a cart line for a (new) list. Overridden prices stay; a line the old list priced
+// goes back to the product price when the new list doesn't cover it.
+export const applyPriceList = <T extends PricedLine>(line: T, list: PriceList | null | undefined): T => {
+  if (isPriceOverride(line)) return line;
+  const factor = line.unitFactor ?? 1;
+  const listPrice = unitListPrice(list, line.product._id, factor, line.quantity);
+  if (listPrice !== undefined) return { ...line, unitPrice: listPrice, listPrice, priceList: list?._id };
+  if (line.listPrice === undefined) return line;
+  const productPrice = unitOptionPrice(line.product, { unit: line.unit ?? line.product.unit ?? '', factor }, 'sellingPrice');
+  return { ...line, unitPrice: productPrice ?? line.unitPrice, listPrice: undefined, priceList: undefined };
+};
+
+// Get all price lists (cached for the sale screens)
+const getAllPriceLists = async (options?: CacheOptions<PriceList[]>): Promise<PriceList[]> => {
+  return cacheService.swr('priceLists', async () => {
+    const res = await apiClient.get('/price-lists');
+    return res.data;
+  }, options);
+};
+
+const getPriceListById = async (id: string): Promise<PriceList> => {
+  const res = await apiClient.get(`/price-lists/${id}`);
+  return res.data;
+};
+
+// ✅ The list a customer buys on, from the cached lists (null for walk-in customers)
+export const priceListForCustomer = async (customer?: { priceList?: any } | null): Promise<PriceList | null> => {
+  const id = idOf(customer?.priceList);
+  if (!id) return null;
+  const lists = await getAllPriceLists();
+  return lists.find(list => list._id === id) ?? null;
+};
+
+const addPriceList = async (data: PriceListData): Promise<PriceList> => {
+  const res = await apiClient.post('/price-lists', data);
+  await cacheService.invalidate('priceLists');
+  return res.data;
+};
+
+const updatePriceList = async (id: string, data: PriceListData): Promise<PriceList> => {
+  const res = await apiClient.put(`/price-lists/${id}`, data);
+  await cacheService.invalidate('priceLists');
+  return res.data;
+};
+
+// Customers on the list go back to product prices
+const deletePriceList = async (id: string) => {
+  const res = await apiClient.delete(`/price-lists/${id}`);
+  await cacheService.invalidate('priceLists');
+  await cacheService.invalidate('customers');
+  return res.data;
+};
+
+// Manual price changes on sales, newest first
+const getOverrides = async (params?: { from?: string; to?: string; user?: string }): Promise<PriceOverride[]> => {
+  const res = await apiClient.get('/price-lists/overrides', { params });
+  return res.data;
+};
+
+export default {
+  getAllPriceLists,
+  getPriceListById,
+  addPriceList,
+  updatePriceList,
+  deletePriceList,
+  getOverrides,
+};
@@ -0,0 +1,152 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import { expandVariants, idOf, StockRow, stockRows } from './productService';
+import { round2 } from './saleService';
+
+/**
+ * Price history and bulk price changes. Every change to a product's selling or buying price
+ * is logged by the server, so a report can ask what a product cost or sold for on a date.
+ */
+
+export type PriceField = 'sellingPrice' | 'buyingPrice';
+
+export interface PriceChange {
+  _id: string;
+  product: string;
+  field: PriceField;
+  oldPrice: number | null; // null for the price the product was created with
+  newPrice: number;
+  source: 'create' | 'edit' | 'bulk' | 'import';
+  note?: string;
+  user?: { _id: string; name: string };
+  date: string;
+}
+
+// Multiples of `step` (0 leaves the price as calculated)
+export interface PriceRounding {
+  step: number;
+  mode: 'nearest' | 'up' | 'down';
+}
+
+export interface BulkPriceRule {
+  field: PriceField;
+  mode: 'set' | 'percent' | 'amount';
+  direction: 'increase' | 'decrease'; // ignored when setting a price
+  value: number;
+  rounding: PriceRounding;
+}
+
+export interface BulkPriceFilter {
+  category?: string;
+  brand?: string;
+  warehouse?: string; // products stocked there
+}
+
+// What bulk pricing reads from a product; variants appear in place of their parent
+export interface BulkPriceProduct {
+  _id: string;
+  name: string;
+  brand?: string;
+  category?: { _id: string; name: string } | string | null;
+  stock?: StockRow[];
+  price?: number;
+  sellingPrice?: number;
+  buyingPrice?: number;
+  attributes?: Record<string, string>; // set on a variant
+}
+
+export interface BulkPricePreview {
+  product: BulkPriceProduct;
+  oldPrice: number;
+  newPrice: number;
+}
+
+// ✅ Round a price to the rule's step
+export const roundPrice = (price: number, rounding: PriceRounding) => {
+  if (!rounding.step) return round2(price);
+  const steps = price / rounding.step;
+  // The epsilon keeps 12.000000001 from rounding up to the next step
+  const whole =
+    rounding.mode === 'up'
+      ? Math.ceil(steps - 1e-9)
+      : rounding.mode === 'down'
+        ? Math.floor(steps + 1e-9)
+        : Math.round(steps);
+  return round2(whole * rounding.step);
+};
+
+// ✅ New price for one product under a rule, never below zero
+export const applyPriceRule = (current: number, rule: BulkPriceRule) => {
+  const sign = rule.direction === 'decrease' ? -1 : 1;
+  const raw =
+    rule.mode === 'set'
+      ? rule.value
+      : rule.mode === 'percent'
+        ? current * (1 + (sign * rule.value) / 100)
+        : current + sign * rule.value;
+  return Math.max(roundPrice(raw, rule.rounding), 0);
+};
+
+// ✅ Products a filter selects; a product with variants is priced through its variants
+export const filterForBulkPrice = (products: BulkPriceProduct[], filter: BulkPriceFilter) =>
+  expandVariants(products).filter(
+    p =>
+      (!filter.category || idOf(p.category) === filter.category) &&
+      (!filter.brand || (p.brand ?? '').trim().toLowerCase() === filter.brand.trim().toLowerCase()) &&
+      (!filter.warehouse || stockRows(p).some(row => row.warehouse._id === filter.warehouse))
+  );
+
+// ✅ Old and new prices for the selected products; unchanged prices are left out
+export const previewBulkPrices = (products: BulkPriceProduct[], rule: BulkPriceRule): BulkPricePreview[] =>
+  products
+    .map(product => {
+      const oldPrice = Number(rule.field === 'sellingPrice' ? product.sellingPrice ?? product.price : product.buyingPrice) || 0;
+      return { product, oldPrice, newPrice: applyPriceRule(oldPrice, rule) };
+    })
+    .filter(row => row.newPrice !== row.oldPrice);
+
+// ✅ Price in effect at the end of `date`: the first later change tells what it was before,
+// otherwise it's the current price
+export const priceOn = (history: PriceChange[], field: PriceField, date: Date | string, current: number) => {
+  const at = new Date(date);
+  at.setHours(23, 59, 59, 999);
+  const later = history
+    .filter(change => change.field === field && new Date(change.date) > at)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime())[0];
+  if (!later) return current;
+  return later.oldPrice ?? later.newPrice;
+};
+
+// Changes to one product's prices, newest first
+const getPriceHistory = async (productId: string, options?: CacheOptions<PriceChange[]>): Promise<PriceChange[]> => {
+  return cacheService.swr(`products:prices:${productId}`, async () => {
+    const res = await apiClient.get(`/products/${productId}/price-history`);
+    return res.data;
+  }, options);
+};
+
+// Histories for several products by id, for reports that price many lines at past dates;
+// a product whose history can't be loaded gets none, so its current price is used
+const getPriceHistories = async (productIds: string[]): Promise<Map<string, PriceChange[]>> => {
+  const entries = await Promise.all(
+    Array.from(new Set(productIds)).map(async id => [id, await getPriceHistory(id).catch(() => [])] as const)
+  );
+  return new Map(entries);
+};
+
+// Saves the previewed prices in one go; each becomes a history entry with the note
+const bulkUpdatePrices = async (
+  field: PriceField,
+  changes: { product: string; price: number }[],
+  note?: string
+): Promise<{ updated: number }> => {
+  const res = await apiClient.post('/products/bulk-price', { field, changes, note });
+  await cacheService.invalidate('products');
+  return res.data;
+};
+
+export default {
+  getPriceHistory,
+  getPriceHistories,
+  bulkUpdatePrices,
+};
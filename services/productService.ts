@@ -1,24 +1,89 @@
 import i18n from '../i18n';
 import apiClient from '../lib/apiClient';
+import { isOnline } from './networkService';
+import cacheService, { CacheOptions } from './cacheService';
+import outboxService from './outboxService';
+
+// Stock of a product held in one warehouse
+export interface StockRow {
+  warehouse: {
+    _id: string;
+    name: string;
+  };
+  quantity: number;
+}
+
+// Another unit a product is bought or sold in, e.g. 1 carton = 24 pcs
+export interface UnitConversion {
+  unit: string;
+  factor: number; // base units in one of this unit
+  sellingPrice?: number | null; // price per this unit; defaults to the base price × factor
+}
+
+// An attribute variants differ by, e.g. Size: S, M, L
+export interface VariantAttribute {
+  name: string;
+  values: string[];
+}
+
+// One sellable combination of attribute values with its own SKU, prices and stock
+export interface ProductVariant {
+  _id?: string; // missing until saved
+  attributes: Record<string, string>;
+  barcode?: string | null; // the variant's SKU
+  buyingPrice?: number | null;
+  sellingPrice?: number | null;
+  stock?: StockRow[];
+}
+
+// A lot of a product received into one warehouse, sold earliest-expiring first (FEFO)
+export interface Batch {
+  _id?: string;
+  batchNumber: string;
+  expiryDate: string; // ISO date
+  warehouse: { _id: string; name: string } | string;
+  quantity: number; // base units left in the lot
+}
+
+// Minimum and reorder quantity of a product in one warehouse, overriding the product's own
+export interface ReorderRule {
+  warehouse: { _id: string; name: string } | string;
+  minQuantity: number | null;
+  reorderQuantity: number | null;
+}
 
 interface Product {
   _id: string;
   name: string;
   brand: string;
-  quantity: number;
+  quantity: number; // total across warehouses; a single warehouse's row in per-warehouse lists
   category: {
     _id: string;
     name: string;
   };
   unit: string;
-  warehouse: {
+  stock: StockRow[];
+  warehouse?: {
     _id: string;
     name: string;
-  };
+  }; // set on per-warehouse lists
   image?: string;
+  barcode?: string; // barcode or SKU, shared by the copies of a product in each warehouse
   buyingPrice?: number;
   sellingPrice?: number;
   createdAt?: string;
+  unitConversions?: UnitConversion[]; // stock is always held in `unit`
+  variantAttributes?: VariantAttribute[]; // set on a parent product
+  variants?: ProductVariant[]; // set on a parent product
+  parent?: { _id: string; name: string } | string | null; // set on a variant
+  attributes?: Record<string, string>; // set on a variant
+  trackBatches?: boolean; // stock is received and sold by lot with an expiry date
+  batches?: Batch[]; // set when trackBatches; their quantities add up to the stock rows
+  minQuantity?: number | null; // low stock at or below this; the global threshold when unset
+  reorderQuantity?: number | null; // usual order size, in the base unit
+  leadTimeDays?: number | null; // days from ordering to receiving
+  reorderRules?: ReorderRule[];
+  taxRate?: number | null; // % charged on sales; 0 for exempt goods, unset follows the business rate
 }
 
 
@@ -31,13 +96,17 @@ interface PaginatedProducts {
 export interface NewProduct {
   name: string;
   brand?: string;
-  quantity: number;
   category: string;
   unit: string;
-  warehouse: string;
+  stock: { warehouse: string; quantity: number }[]; // opening stock per warehouse
+  unitConversions?: UnitConversion[];
+  trackBatches?: boolean;
+  batches?: { batchNumber: string; expiryDate: string; warehouse: string; quantity: number }[]; // the opening stock's lots
   image?: string | null;
+  barcode?: string | null;
   buyingPrice?: number | null;
   sellingPrice?: number | null;
+  taxRate?: number | null;
   status?: 'approved' | 'rejected';
 }
 
@@ -52,6 +121,151 @@ interface GetProductsParams {
   sortOrder?: 'asc' | 'desc';
 }
 
+// ✅ Id of a reference that may or may not be populated
+export const idOf = (ref: any) => (typeof ref === 'string' ? ref : ref?._id);
+
+// ✅ Per-warehouse stock rows; a parent sums its variants, older payloads carry a single warehouse and quantity
+export const stockRows = (product: any): StockRow[] => {
+  if (Array.isArray(product?.variants) && product.variants.length > 0) {
+    const rows = new Map<string, StockRow>();
+    product.variants.forEach((variant: any) =>
+      stockRows(variant).forEach(row => {
+        const key = idOf(row.warehouse);
+        const quantity = (rows.get(key)?.quantity ?? 0) + (Number(row.quantity) || 0);
+        rows.set(key, { warehouse: row.warehouse, quantity });
+      })
+    );
+    return Array.from(rows.values());
+  }
+  if (Array.isArray(product?.stock)) return product.stock;
+  return product?.warehouse ? [{ warehouse: product.warehouse, quantity: Number(product.quantity) || 0 }] : [];
+};
+
+// ✅ Total stock of a product across all warehouses
+export const totalStock = (product: any) => stockRows(product).reduce((sum, row) => sum + (Number(row.quantity) || 0), 0);
+
+// ✅ Stock of a product in one warehouse (0 when it has no row there)
+export const stockIn = (product: any, warehouseId: string) =>
+  Number(stockRows(product).find(row => idOf(row.warehouse) === warehouseId)?.quantity) || 0;
+
+// ✅ Minimum and reorder quantity in a warehouse: its own rule, else the product's (null when neither is set)
+export const reorderRuleFor = (product: any, warehouseId?: string) => {
+  const rule: ReorderRule | undefined = warehouseId
+    ? product?.reorderRules?.find((r: ReorderRule) => idOf(r.warehouse) === warehouseId)
+    : undefined;
+  return {
+    minQuantity: rule?.minQuantity ?? product?.minQuantity ?? null,
+    reorderQuantity: rule?.reorderQuantity ?? product?.reorderQuantity ?? null,
+  };
+};
+
+// ✅ Units a product can be entered in, base unit first
+export const unitOptions = (product: any): UnitConversion[] => [
+  { unit: product?.unit ?? '', factor: 1, sellingPrice: product?.sellingPrice ?? product?.price },
+  ...(Array.isArray(product?.unitConversions) ? product.unitConversions : []).filter(
+    (c: UnitConversion) => c.unit && c.unit !== product?.unit && Number(c.factor) > 0
+  ),
+];
+
+// ✅ Price of one `option` unit from its own price or the base price
+export const unitOptionPrice = (product: any, option: UnitConversion, field: 'sellingPrice' | 'buyingPrice') => {
+  const own = field === 'sellingPrice' ? option.sellingPrice : undefined;
+  if (own !== undefined && own !== null) return Number(own);
+  const base = field === 'sellingPrice' ? product?.sellingPrice ?? product?.price : product?.buyingPrice;
+  return base !== undefined && base !== null ? Math.round(Number(base) * option.factor * 100) / 100 : undefined;
+};
+
+// ✅ Quantity in the base unit for a line entered in another unit
+export const toBaseQuantity = (line: { quantity: number; unitFactor?: number }) =>
+  (Number(line.quantity) || 0) * (Number(line.unitFactor) || 1);
+
+// ✅ Whether a lot's expiry date has passed (a lot is good through its expiry day)
+export const isExpired = (expiryDate: string, now = new Date()) => {
+  const endOfDay = new Date(expiryDate);
+  endOfDay.setHours(23, 59, 59, 999);
+  return endOfDay < now;
+};
+
+// ✅ Lots with stock in a warehouse, earliest expiry first
+export const batchesIn = (product: any, warehouseId: string): Batch[] =>
+  (Array.isArray(product?.batches) ? product.batches : [])
+    .filter((b: Batch) => idOf(b.warehouse) === warehouseId && Number(b.quantity) > 0)
+    .sort((a: Batch, b: Batch) => new Date(a.expiryDate).getTime() - new Date(b.expiryDate).getTime());
+
+// ✅ Lots a sale of `quantity` base units takes from, the way the server consumes them: earliest
+// expiry first, expired lots skipped, then stock held from before tracking was on. `alreadyTaken`
+// units (other lines of the same sale) come out first; `short` is what's left uncovered.
+export const allocateFefo = (product: any, warehouseId: string, quantity: number, alreadyTaken = 0) => {
+  const lots = batchesIn(product, warehouseId);
+  let skip = alreadyTaken;
+  let left = quantity;
+  const picks: { batch: Batch; quantity: number }[] = [];
+  for (const batch of lots) {
+    if (left <= 0) break;
+    if (isExpired(batch.expiryDate)) continue;
+    const remaining = Number(batch.quantity) - Math.min(skip, Number(batch.quantity));
+    skip -= Number(batch.quantity) - remaining;
+    if (remaining <= 0) continue;
+    const take = Math.min(left, remaining);
+    picks.push({ batch, quantity: take });
+    left -= take;
+  }
+  const lotTotal = lots.reduce((sum, b) => sum + Number(b.quantity), 0);
+  const unbatched = Math.max(stockIn(product, warehouseId) - lotTotal - skip, 0);
+  const fromUnbatched = Math.min(Math.max(left, 0), unbatched);
+  return { picks, fromUnbatched, short: Math.max(left - fromUnbatched, 0) };
+};
+
+// ✅ "M / Red" for a variant's attribute values, in the parent's attribute order
+export const variantLabel = (attributes?: Record<string, string>, order?: VariantAttribute[]) => {
+  if (!attributes) return '';
+  const names = order?.map(a => a.name).filter(name => name in attributes) ?? Object.keys(attributes);
+  return names.map(name => attributes[name]).join(' / ');
+};
+
+// ✅ Every attribute value combination, e.g. S/Red, S/Blue, M/Red...
+export const variantCombinations = (attributes: VariantAttribute[]): Record<string, string>[] =>
+  attributes.reduce<Record<string, string>[]>(
+    (combos, attribute) => combos.flatMap(combo => attribute.values.map(value => ({ ...combo, [attribute.name]: value }))),
+    [{}]
+  );
+
+// ✅ Replace parents by their variants so each entry is a stockable, sellable item
+export const expandVariants = <T extends object>(products: T[]): T[] => {
+  if (!Array.isArray(products)) return products;
+  return products.flatMap((p: any) =>
+    Array.isArray(p.variants) && p.variants.length > 0
+      ? p.variants.map((v: any) => ({
+          ...p,
+          ...v,
+          name: `${p.name} (${variantLabel(v.attributes, p.variantAttributes)})`,
+          price: v.sellingPrice ?? p.price ?? p.sellingPrice,
+          sellingPrice: v.sellingPrice ?? p.sellingPrice,
+          buyingPrice: v.buyingPrice ?? p.buyingPrice,
+          quantity: v.quantity ?? totalStock(v), // keeps a per-warehouse quantity when already projected
+          parent: { _id: p._id, name: p.name },
+          variants: undefined,
+          variantAttributes: undefined,
+        }))
+      : [p]
+  ) as T[];
+};
+
+// Products as seen from one warehouse: quantity and warehouse come from that warehouse's row
+const inWarehouse = (products: any, warehouseId: string) => {
+  if (!Array.isArray(products)) return products;
+  return products.map((p: any) => {
+    const row = stockRows(p).find(r => idOf(r.warehouse) === warehouseId);
+    const variants = Array.isArray(p.variants)
+      ? p.variants.map((v: any) => ({ ...v, quantity: stockIn(v, warehouseId) }))
+      : p.variants;
+    // No row means none stocked here, whatever the other warehouses hold
+    return row
+      ? { ...p, variants, warehouse: row.warehouse, quantity: Number(row.quantity) || 0 }
+      : { ...p, variants, quantity: 0 };
+  });
+};
+
 // ✅ Upload image to backend-controlled Firebase
 const uploadImage = async (imageFileUri: string): Promise<string | null> => {
   try {
@@ -80,6 +294,7 @@ const uploadImage = async (imageFileUri: string): Promise<string | null> => {
 const addProduct = async (data: NewProduct) => {
   try {
     const res = await apiClient.post('/products', data);
+    await cacheService.invalidate('products', 'categories:counts');
     return res.data;
   } catch (err: any) {
     if (__DEV__) {
@@ -89,7 +304,52 @@ const addProduct = async (data: NewProduct) => {
   }
 };
 
-const getAllProducts = async (params?: GetProductsParams): Promise<PaginatedProducts> => {
+// Offline fallback: search/filter/sort the cached full list like the backend would
+const queryCachedProducts = async (params?: GetProductsParams): Promise<PaginatedProducts | null> => {
+  const list = await cacheService.peek<Product[]>('products:list:all');
+  if (!Array.isArray(list)) return null;
+
+  const threshold = (await cacheService.peek<{ threshold?: number }>('dashboard:threshold'))?.threshold ?? 5;
+  const search = params?.search?.toLowerCase();
+
+  const filtered = list.filter((p) => {
+    const quantity = params?.warehouse ? stockIn(p, params.warehouse) : totalStock(p);
+    const low = reorderRuleFor(p, params?.warehouse).minQuantity ?? threshold;
+    if (
+      search &&
+      !p.name?.toLowerCase().includes(search) &&
+      !p.brand?.toLowerCase().includes(search) &&
+      p.barcode?.toLowerCase() !== search
+    ) return false;
+    if (params?.warehouse && !stockRows(p).some(row => idOf(row.warehouse) === params.warehouse)) return false;
+    if (params?.category && idOf(p.category) !== params.category) return false;
+    if (params?.stockStatus === 'out' && quantity > 0) return false;
+    if (params?.stockStatus === 'low' && (quantity <= 0 || quantity > low)) return false;
+    if (params?.stockStatus === 'in' && quantity <= low) return false;
+    return true;
+  });
+
+  const field = params?.sortField === 'price' ? 'sellingPrice' : params?.sortField ?? 'createdAt';
+  const direction = params?.sortOrder === 'asc' ? 1 : -1;
+  filtered.sort((a: any, b: any) => {
+    const left = a[field] ?? '';
+    const right = b[field] ?? '';
+    return (left > right ? 1 : left < right ? -1 : 0) * direction;
+  });
+
+  const limit = params?.limit ?? 50;
+  const page = params?.page ?? 1;
+  return {
+    products: filtered.slice((page - 1) * limit, page * limit),
+    total: filtered.length,
+    totalPages: Math.max(1, Math.ceil(filtered.length / limit)),
+  };
+};
+
+const getAllProducts = async (
+  params?: GetProductsParams,
+  options?: CacheOptions<PaginatedProducts>
+): Promise<PaginatedProducts> => {
   try {
     const cleanParams = {
       page: params?.page,
@@ -102,8 +362,16 @@ const getAllProducts = async (params?: GetProductsParams): Promise<PaginatedProd
       ...(params?.sortOrder && { sortOrder: params.sortOrder }),
     };
 
-    const res = await apiClient.get('/products', { params: cleanParams });
-    return res.data;
+    try {
+      return await cacheService.swr(`products:page:${JSON.stringify(cleanParams)}`, async () => {
+        const res = await apiClient.get('/products', { params: cleanParams });
+        return res.data;
+      }, options);
+    } catch (err: any) {
+      const fallback = err?.isOffline ? await queryCachedProducts(params) : null;
+      if (fallback) return fallback;
+      throw err;
+    }
   } catch (err: any) {
     if (__DEV__) {
       // console.error('Get products failed:', err.response?.data || err.message);
@@ -112,13 +380,15 @@ const getAllProducts = async (params?: GetProductsParams): Promise<PaginatedProd
   }
 };
 
-const getProductList = async (warehouseId?: string) => {
+const getProductList = async (warehouseId?: string, options?: CacheOptions<any>) => {
   try {
     const url = warehouseId
       ? `/products/list?warehouseId=${warehouseId}`
       : `/products/list`;
-    const res = await apiClient.get(url);
-    return res.data;
+    return await cacheService.swr(`products:list:${warehouseId ?? 'all'}`, async () => {
+      const res = await apiClient.get(url);
+      return warehouseId ? inWarehouse(res.data, warehouseId) : res.data;
+    }, options);
   } catch (err: any) {
     if (__DEV__) {
       // console.error('Get product list failed:', err.response?.data || err.message);
@@ -127,10 +397,24 @@ const getProductList = async (warehouseId?: string) => {
   }
 };
 
-const getByWarehouse = async (warehouseId: string) => {
+// Products or variants carrying a barcode/SKU, looked up in the cached list
+const findByBarcode = async (code: string, warehouseId?: string): Promise<any[]> => {
+  const matching = (list: any) =>
+    Array.isArray(list) ? expandVariants(list).filter((p: any) => p.barcode && p.barcode === code) : [];
+
+  const cached = matching(await getProductList(warehouseId));
+  if (cached.length > 0 || !isOnline()) return cached;
+  // Not in a possibly stale list: check the server once before giving up
+  return matching(await getProductList(warehouseId, { force: true }));
+};
+
+const getByWarehouse = async (warehouseId: string, options?: CacheOptions<any>) => {
   try {
-    const res = await apiClient.get(`/products/by-warehouse/${warehouseId}`);
-    return res.data;
+    return await cacheService.swr(`products:by-warehouse:${warehouseId}`, async () => {
+      const res = await apiClient.get(`/products/by-warehouse/${warehouseId}`);
+      // Stock is held by variants, so they're listed in place of their parent
+      return inWarehouse(expandVariants(res.data), warehouseId);
+    }, options);
   } catch (err: any) {
     if (__DEV__) {
       // console.error('Get by warehouse failed:', err.response?.data || err.message);
@@ -139,10 +423,12 @@ const getByWarehouse = async (warehouseId: string) => {
   }
 };
 
-const getProductById = async (id: string) => {
+const getProductById = async (id: string, options?: CacheOptions<any>) => {
   try {
-    const res = await apiClient.get(`/products/${id}`);
-    return res.data;
+    return await cacheService.swr(`products:item:${id}`, async () => {
+      const res = await apiClient.get(`/products/${id}`);
+      return res.data;
+    }, options);
   } catch (err: any) {
     if (__DEV__) {
       // console.error('Get product by ID failed:', err.response?.data || err.message);
@@ -152,8 +438,12 @@ const getProductById = async (id: string) => {
 };
 
 const editProduct = async (id: string, data: Partial<Product>) => {
+  if (!isOnline()) {
+    return outboxService.enqueue({ kind: 'productEdit', method: 'put', url: `/products/${id}`, data, targetId: id });
+  }
   try {
     const res = await apiClient.put(`/products/${id}`, data);
+    await cacheService.invalidate('products', 'categories:counts');
     return res.data;
   } catch (err: any) {
     if (__DEV__) {
@@ -163,9 +453,24 @@ const editProduct = async (id: string, data: Partial<Product>) => {
   }
 };
 
+// Attribute definitions and the variant list of a parent product, saved together
+const saveVariants = async (
+  id: string,
+  data: { variantAttributes: VariantAttribute[]; variants: ProductVariant[] }
+) => {
+  try {
+    const res = await apiClient.put(`/products/${id}/variants`, data);
+    await cacheService.invalidate('products');
+    return res.data;
+  } catch (err: any) {
+    throw err.response?.data || { message: i18n.t('variants.saveFailed') };
+  }
+};
+
 const deleteProduct = async (id: string) => {
   try {
     const res = await apiClient.delete(`/products/${id}`);
+    await cacheService.invalidate('products', 'categories:counts');
     return res.data;
   } catch (err: any) {
     if (__DEV__) {
@@ -184,4 +489,6 @@ export default {
   deleteProduct,
   getProductList,
   getByWarehouse,
+  findByBarcode,
+  saveVariants,
 };
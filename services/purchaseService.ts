@@ -0,0 +1,150 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import { isOnline } from './networkService';
+import outboxService from './outboxService';
+
+// One product line on a purchase order or goods-received note
+export interface PurchaseLine {
+  product: string;
+  quantity: number; // in `unit`
+  buyingPrice: number; // cost per `unit`
+  unit?: string; // defaults to the product's base unit
+  unitFactor?: number; // base units per `unit`; stock moves by quantity × unitFactor
+  batchNumber?: string; // goods receipts of batch-tracked products only
+  expiryDate?: string;
+}
+
+export type PurchaseOrderStatus = 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderData {
+  supplier: string;
+  warehouse: string;
+  items: PurchaseLine[];
+  date: string;
+  expectedDate?: string;
+  note?: string;
+}
+
+// Populated order as returned by the API
+export interface PurchaseOrder {
+  _id: string;
+  orderNumber: string;
+  supplier: { _id: string; name: string } | string;
+  warehouse: { _id: string; name: string } | string;
+  items: {
+    product: any;
+    quantity: number;
+    receivedQuantity: number; // in the line's unit
+    buyingPrice: number;
+    unit?: string;
+    unitFactor?: number;
+  }[];
+  status: PurchaseOrderStatus;
+  totalAmount: number;
+  date: string;
+  expectedDate?: string;
+  note?: string;
+  createdBy?: { _id: string; name?: string };
+}
+
+// Goods received into a warehouse, with or without a purchase order
+export interface GoodsReceiptData {
+  purchaseOrder?: string;
+  supplier: string;
+  warehouse: string;
+  items: PurchaseLine[];
+  date: string;
+  amountPaid?: number; // paid to the supplier on delivery
+  paymentChannel?: string;
+  note?: string;
+}
+
+export interface GoodsReceipt {
+  _id: string;
+  grnNumber: string;
+  purchaseOrder?: { _id: string; orderNumber: string } | string;
+  supplier: { _id: string; name: string } | string;
+  warehouse: { _id: string; name: string } | string;
+  items: {
+    product: any;
+    quantity: number;
+    buyingPrice: number;
+    unit?: string;
+    unitFactor?: number;
+    batchNumber?: string;
+    expiryDate?: string;
+  }[];
+  totalAmount: number;
+  amountPaid: number;
+  date: string;
+  note?: string;
+  receivedBy?: { _id: string; name?: string };
+}
+
+interface GetPurchasesParams {
+  page?: number;
+  limit?: number;
+  supplier?: string;
+  status?: string;
+}
+
+// ✅ Cost of purchase lines (quantity × buying price)
+export const calculatePurchaseTotal = (lines: { quantity: number; buyingPrice: number }[]) =>
+  lines.reduce((sum, line) => sum + (line.quantity || 0) * (line.buyingPrice || 0), 0);
+
+// ✅ Lines of an order that still have quantity to receive
+export const remainingToReceive = (order: PurchaseOrder) =>
+  order.items
+    .map(item => ({ ...item, remaining: Math.max(item.quantity - (item.receivedQuantity || 0), 0) }))
+    .filter(item => item.remaining > 0);
+
+const getPurchaseOrders = async (params?: GetPurchasesParams, options?: CacheOptions<any>) => {
+  return cacheService.swr(`purchases:orders:${JSON.stringify(params ?? {})}`, async () => {
+    const res = await apiClient.get('/purchases/orders', { params });
+    return res.data; // { orders, total, page, totalPages }
+  }, options);
+};
+
+const getPurchaseOrderById = async (id: string): Promise<PurchaseOrder> => {
+  const res = await apiClient.get(`/purchases/orders/${id}`);
+  return res.data;
+};
+
+const createPurchaseOrder = async (data: PurchaseOrderData): Promise<PurchaseOrder> => {
+  const res = await apiClient.post('/purchases/orders', data);
+  await cacheService.invalidate('purchases');
+  return res.data;
+};
+
+const cancelPurchaseOrder = async (id: string) => {
+  const res = await apiClient.put(`/purchases/orders/${id}/cancel`);
+  await cacheService.invalidate('purchases');
+  return res.data;
+};
+
+const getGoodsReceipts = async (params?: GetPurchasesParams & { purchaseOrder?: string }, options?: CacheOptions<any>) => {
+  return cacheService.swr(`purchases:receipts:${JSON.stringify(params ?? {})}`, async () => {
+    const res = await apiClient.get('/purchases/receipts', { params });
+    return res.data; // { receipts, total, page, totalPages }
+  }, options);
+};
+
+// Receive stock: increases quantities in the warehouse, records buying prices
+// and adds the unpaid part to what we owe the supplier
+const receiveGoods = async (data: GoodsReceiptData) => {
+  if (!isOnline()) {
+    return outboxService.enqueue({ kind: 'goodsReceipt', method: 'post', url: '/purchases/receipts', data });
+  }
+  const res = await apiClient.post('/purchases/receipts', data);
+  await cacheService.invalidate('products', 'purchases', 'suppliers');
+  return res.data;
+};
+
+export default {
+  getPurchaseOrders,
+  getPurchaseOrderById,
+  createPurchaseOrder,
+  cancelPurchaseOrder,
+  getGoodsReceipts,
+  receiveGoods,
+};
@@ -0,0 +1,149 @@
+import * as Print from 'expo-print';
+import i18n from '../i18n';
+import businessService from './businessService';
+import exportService, { escapeHtml } from './exportService';
+import { getSaleLines, getSaleTotals, summarizePayments } from './saleService';
+
+interface ReceiptBusiness {
+  name: string;
+  phone?: string;
+  address?: string;
+  tin?: string;
+}
+
+const money = (value: unknown) => `ETB ${(Number(value) || 0).toFixed(2)}`;
+
+// Business header for the receipt; falls back to the app name when the profile can't be loaded
+const getReceiptBusiness = async (): Promise<ReceiptBusiness> => {
+  try {
+    const business = await businessService.getMyBusiness();
+    return {
+      name: business?.name || 'Ease Stock',
+      phone: business?.phone,
+      address: business?.address,
+      tin: business?.tin,
+    };
+  } catch {
+    return { name: 'Ease Stock' };
+  }
+};
+
+// ✅ Receipt totals from a sale, deriving anything older sales don't carry
+export const getReceiptTotals = (sale: any) => {
+  const lines = getSaleLines(sale);
+  const { subtotal, discount, tax, total: calculated } = getSaleTotals(sale);
+  const total = Number(sale?.totalAmount ?? calculated) || 0;
+  // A receipt shows the sale as it was made; returns are recorded separately
+  const { amountPaid: paid, amountDue: due } = summarizePayments({ ...sale, totalAmount: total }, undefined, []);
+  return { lines, subtotal, discount, tax, pricesIncludeTax: !!sale?.pricesIncludeTax, total, paid, due };
+};
+
+const buildReceiptHtml = (sale: any, business: ReceiptBusiness) => {
+  const t = i18n.t.bind(i18n);
+  const { lines, subtotal, discount, tax, pricesIncludeTax, total, paid, due } = getReceiptTotals(sale);
+  const receiptNumber = sale?.receiptNumber || sale?._id || '';
+
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; padding: 24px; color: #1e293b; }
+          .receipt { max-width: 420px; margin: 0 auto; }
+          .header { text-align: center; border-bottom: 1px dashed #94a3b8; padding-bottom: 12px; margin-bottom: 12px; }
+          h1 { font-size: 22px; margin: 0 0 4px; }
+          .muted { color: #64748b; font-size: 12px; margin: 2px 0; }
+          .meta p { margin: 4px 0; font-size: 13px; }
+          table { width: 100%; border-collapse: collapse; margin: 12px 0; font-size: 13px; }
+          th { text-align: left; border-bottom: 1px solid #cbd5e1; padding: 6px 0; }
+          td { padding: 6px 0; vertical-align: top; }
+          .num { text-align: right; }
+          .discount { color: #64748b; font-size: 11px; }
+          .totals { border-top: 1px dashed #94a3b8; padding-top: 8px; }
+          .totals p { display: flex; justify-content: space-between; margin: 4px 0; font-size: 14px; }
+          .grand { font-weight: 700; font-size: 16px !important; }
+          .due { color: #dc2626; font-weight: 600; }
+          .footer { text-align: center; margin-top: 20px; color: #64748b; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <div class="receipt">
+          <div class="header">
+            <h1>${escapeHtml(business.name)}</h1>
+            ${business.address ? `<p class="muted">${escapeHtml(business.address)}</p>` : ''}
+            ${business.phone ? `<p class="muted">${escapeHtml(business.phone)}</p>` : ''}
+            ${business.tin ? `<p class="muted">${t('receipt.tin')}: ${escapeHtml(business.tin)}</p>` : ''}
+          </div>
+
+          <div class="meta">
+            <p><strong>${t('receipt.receiptNo')}:</strong> ${escapeHtml(receiptNumber)}</p>
+            <p><strong>${t('receipt.date')}:</strong> ${escapeHtml(new Date(sale?.date ?? Date.now()).toLocaleString())}</p>
+            <p><strong>${t('receipt.customer')}:</strong> ${escapeHtml(sale?.customerName)}</p>
+            ${sale?.salesPerson?.name ? `<p><strong>${t('receipt.servedBy')}:</strong> ${escapeHtml(sale.salesPerson.name)}</p>` : ''}
+          </div>
+
+          <table>
+            <tr>
+              <th>${t('receipt.item')}</th>
+              <th class="num">${t('receipt.qty')}</th>
+              <th class="num">${t('receipt.price')}</th>
+              <th class="num">${t('receipt.amount')}</th>
+            </tr>
+            ${lines.map((line) => `
+              <tr>
+                <td>
+                  ${escapeHtml(line.product?.name ?? t('sales.unknown'))}
+                  ${line.discount > 0 ? `<div class="discount">${t('receipt.discount')}: -${line.discountType === 'percent' ? `${line.discount}%` : money(line.discount)}</div>` : ''}
+                </td>
+                <td class="num">${line.quantity} ${escapeHtml(line.unit ?? line.product?.unit ?? '')}</td>
+                <td class="num">${money(line.unitPrice)}</td>
+                <td class="num">${money(line.lineTotal)}</td>
+              </tr>
+            `).join('')}
+          </table>
+
+          <div class="totals">
+            ${discount > 0 || tax > 0 ? `<p><span>${t('receipt.subtotal')}</span><span>${money(subtotal)}</span></p>` : ''}
+            ${discount > 0 ? `<p><span>${t('receipt.discount')}</span><span>-${money(discount)}</span></p>` : ''}
+            ${tax > 0 ? `<p><span>${pricesIncludeTax ? t('receipt.taxIncluded') : t('receipt.tax')}</span><span>${money(tax)}</span></p>` : ''}
+            <p class="grand"><span>${t('receipt.total')}</span><span>${money(total)}</span></p>
+            <p><span>${t('receipt.paid')}${sale?.paymentChannel ? ` (${escapeHtml(sale.paymentChannel)})` : ''}</span><span>${money(paid)}</span></p>
+            <p class="${due > 0 ? 'due' : ''}"><span>${t('receipt.balanceDue')}</span><span>${money(due)}</span></p>
+            ${due > 0 && sale?.dueDate ? `<p><span>${t('receipt.dueDate')}</span><span>${escapeHtml(new Date(sale.dueDate).toLocaleDateString())}</span></p>` : ''}
+          </div>
+
+          <div class="footer">
+            <p>${t('receipt.thankYou')}</p>
+            <p>Generated by <strong>Ease Stock</strong></p>
+          </div>
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+const receiptFileName = (sale: any) =>
+  `receipt-${String(sale?.receiptNumber || sale?._id || Date.now()).replace(/[^\w-]/g, '_')}`;
+
+// Render the receipt to a PDF in the app's documents folder and return its path
+const createReceiptPdf = async (sale: any) => {
+  const html = buildReceiptHtml(sale, await getReceiptBusiness());
+  return exportService.savePdf(receiptFileName(sale), html);
+};
+
+const shareReceipt = async (sale: any) => {
+  const html = buildReceiptHtml(sale, await getReceiptBusiness());
+  await exportService.sharePdf(receiptFileName(sale), html);
+};
+
+// Opens the system print dialog (AirPrint / Android print service)
+const printReceipt = async (sale: any) => {
+  const html = buildReceiptHtml(sale, await getReceiptBusiness());
+  await Print.printAsync({ html });
+};
+
+export default {
+  createReceiptPdf,
+  shareReceipt,
+  printReceipt,
+};
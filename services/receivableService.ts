@@ -0,0 +1,127 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+
+// An approved credit or partial sale that still has an amount due
+export interface OpenReceivable {
+  _id: string;
+  receiptNumber?: string;
+  customer?: string;
+  customerName: string;
+  date: string;
+  dueDate?: string;
+  amountDue: number;
+}
+
+export type AgingBucket = 'current' | 'days1to30' | 'days31to60' | 'days61to90' | 'over90';
+
+export const AGING_BUCKETS: AgingBucket[] = ['current', 'days1to30', 'days31to60', 'days61to90', 'over90'];
+
+export type AgingTotals = Record<AgingBucket, number>;
+
+export interface CustomerAging {
+  key: string; // customer ID, or the name for sales recorded before the customer directory
+  customerId?: string;
+  customerName: string;
+  buckets: AgingTotals;
+  total: number;
+  overdue: number;
+  sales: OpenReceivable[];
+}
+
+export interface AgingReport {
+  customers: CustomerAging[];
+  totals: AgingTotals;
+  total: number;
+  overdue: number;
+  overdueCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyTotals = (): AgingTotals => ({
+  current: 0,
+  days1to30: 0,
+  days31to60: 0,
+  days61to90: 0,
+  over90: 0,
+});
+
+// Open receivables for the business (cached so the dashboard card works offline)
+const getOpenReceivables = async (options?: CacheOptions<OpenReceivable[]>): Promise<OpenReceivable[]> => {
+  return cacheService.swr('receivables', async () => {
+    const res = await apiClient.get('/sales/receivables');
+    return res.data;
+  }, options);
+};
+
+// ✅ Whole days past the due date; 0 when not due yet or no due date
+export const daysOverdue = (sale: OpenReceivable, asOf: Date = new Date()) => {
+  if (!sale.dueDate) return 0;
+  const due = new Date(sale.dueDate);
+  if (isNaN(due.getTime())) return 0;
+  const startOfDay = (d: Date) => new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+  return Math.max(Math.round((startOfDay(asOf) - startOfDay(due)) / DAY_MS), 0);
+};
+
+// ✅ Aging bucket for a number of days overdue
+export const bucketFor = (days: number): AgingBucket => {
+  if (days <= 0) return 'current';
+  if (days <= 30) return 'days1to30';
+  if (days <= 60) return 'days31to60';
+  if (days <= 90) return 'days61to90';
+  return 'over90';
+};
+
+// ✅ Group open receivables by customer and aging bucket, largest overdue first
+export const buildAgingReport = (sales: OpenReceivable[], asOf: Date = new Date()): AgingReport => {
+  const byCustomer = new Map<string, CustomerAging>();
+  const totals = emptyTotals();
+  let overdueCount = 0;
+
+  sales.forEach(sale => {
+    const amount = Number(sale.amountDue) || 0;
+    if (amount <= 0) return;
+
+    const bucket = bucketFor(daysOverdue(sale, asOf));
+    const key = sale.customer || sale.customerName || '-';
+    let entry = byCustomer.get(key);
+    if (!entry) {
+      entry = {
+        key,
+        customerId: sale.customer,
+        customerName: sale.customerName || '-',
+        buckets: emptyTotals(),
+        total: 0,
+        overdue: 0,
+        sales: [],
+      };
+      byCustomer.set(key, entry);
+    }
+
+    entry.buckets[bucket] += amount;
+    entry.total += amount;
+    entry.sales.push(sale);
+    totals[bucket] += amount;
+    if (bucket !== 'current') {
+      entry.overdue += amount;
+      overdueCount += 1;
+    }
+  });
+
+  const customers = Array.from(byCustomer.values()).sort(
+    (a, b) => b.overdue - a.overdue || b.total - a.total,
+  );
+  const total = AGING_BUCKETS.reduce((sum, bucket) => sum + totals[bucket], 0);
+
+  return {
+    customers,
+    totals,
+    total,
+    overdue: total - totals.current,
+    overdueCount,
+  };
+};
+
+export default {
+  getOpenReceivables,
+};
@@ -0,0 +1,183 @@
+import i18n from '../i18n';
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import exportService, { escapeHtml, exportDate } from './exportService';
+import { expandVariants, reorderRuleFor, stockRows } from './productService';
+
+/**
+ * What to buy, per product and warehouse: stock is compared with a reorder point made of
+ * the minimum plus the demand expected while an order is on its way (daily sales × lead time).
+ */
+
+// Base units of a product sold from a warehouse over the requested window
+export interface SalesVelocity {
+  product: string;
+  warehouse: string;
+  quantity: number;
+}
+
+export interface ReorderSuggestion {
+  key: string;
+  product: any; // variants appear in place of their parent
+  warehouse: { _id: string; name: string };
+  stock: number;
+  minQuantity: number;
+  dailySales: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  daysOfCover: number | null; // null when nothing sold in the window
+  suggestedQuantity: number; // base units
+}
+
+export interface ReorderOptions {
+  days: number; // sales window the daily rate is averaged over
+  leadTimeDays: number; // for products without their own lead time
+  threshold: number; // minimum for products without their own
+  warehouseId?: string;
+}
+
+// Heading details printed on an exported list
+export interface ReorderExportMeta {
+  supplierName?: string;
+  warehouseName?: string;
+}
+
+const getSalesVelocity = async (
+  days: number,
+  warehouseId?: string,
+  options?: CacheOptions<SalesVelocity[]>
+): Promise<SalesVelocity[]> => {
+  return cacheService.swr(`reorder:velocity:${days}:${warehouseId ?? 'all'}`, async () => {
+    const res = await apiClient.get('/reports/sales-velocity', {
+      params: { days, ...(warehouseId && { warehouse: warehouseId }) },
+    });
+    return res.data;
+  }, options);
+};
+
+// ✅ Suggestions for every product/warehouse at or below its reorder point, most urgent first.
+// The order brings stock back above the reorder point for another lead time, and is never
+// smaller than the product's usual reorder quantity.
+export const buildReorderSuggestions = (
+  products: any[],
+  velocity: SalesVelocity[],
+  options: ReorderOptions
+): ReorderSuggestion[] => {
+  const sold = new Map(velocity.map(v => [`${v.product}:${v.warehouse}`, Number(v.quantity) || 0]));
+  const suggestions: ReorderSuggestion[] = [];
+
+  expandVariants(products).forEach(product => {
+    const warehouses = new Map<string, { _id: string; name: string }>();
+    stockRows(product).forEach(row => warehouses.set(row.warehouse._id, row.warehouse));
+    (product.reorderRules ?? []).forEach((rule: any) => {
+      if (typeof rule.warehouse !== 'string') warehouses.set(rule.warehouse._id, rule.warehouse);
+    });
+
+    warehouses.forEach(warehouse => {
+      if (options.warehouseId && warehouse._id !== options.warehouseId) return;
+      const rule = reorderRuleFor(product, warehouse._id);
+      const stock = Number(stockRows(product).find(row => row.warehouse._id === warehouse._id)?.quantity) || 0;
+      const dailySales = (sold.get(`${product._id}:${warehouse._id}`) ?? 0) / options.days;
+      const leadTimeDays = product.leadTimeDays ?? options.leadTimeDays;
+      const minQuantity = rule.minQuantity ?? options.threshold;
+      const leadDemand = Math.ceil(dailySales * leadTimeDays);
+      const reorderPoint = minQuantity + leadDemand;
+      if (stock > reorderPoint) return;
+
+      suggestions.push({
+        key: `${product._id}:${warehouse._id}`,
+        product,
+        warehouse,
+        stock,
+        minQuantity,
+        dailySales,
+        leadTimeDays,
+        reorderPoint,
+        daysOfCover: dailySales > 0 ? Math.max(stock, 0) / dailySales : null,
+        suggestedQuantity: Math.max(rule.reorderQuantity ?? 0, reorderPoint + leadDemand - stock, 1),
+      });
+    });
+  });
+
+  // Fastest to run out first; items that aren't selling go last
+  return suggestions.sort((a, b) => (a.daysOfCover ?? Infinity) - (b.daysOfCover ?? Infinity));
+};
+
+const exportName = () => `reorder-${exportDate(new Date())}`;
+
+// Product, warehouse and quantity to order, as printed or written to the spreadsheet
+const exportRows = (suggestions: ReorderSuggestion[]) =>
+  suggestions.map(s => ({
+    product: `${s.product.name}${s.product.brand ? ` ${s.product.brand}` : ''}`,
+    barcode: s.product.barcode ?? '',
+    warehouse: s.warehouse.name,
+    stock: s.stock,
+    quantity: s.suggestedQuantity,
+    unit: s.product.unit ?? '',
+  }));
+
+const buildSuggestionsHtml = (suggestions: ReorderSuggestion[], meta: ReorderExportMeta) => {
+  const t = i18n.t.bind(i18n);
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; padding: 24px; color: #1e293b; }
+          h1 { font-size: 20px; margin: 0 0 4px; }
+          .muted { color: #64748b; font-size: 12px; margin: 2px 0; }
+          table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+          th { text-align: left; border-bottom: 1px solid #cbd5e1; padding: 6px 4px; }
+          td { padding: 6px 4px; border-bottom: 1px solid #f1f5f9; }
+          .num { text-align: right; }
+        </style>
+      </head>
+      <body>
+        <h1>${t('reorder.exportTitle')}</h1>
+        ${meta.supplierName ? `<p class="muted">${t('reorder.supplier')}: ${escapeHtml(meta.supplierName)}</p>` : ''}
+        <p class="muted">${escapeHtml(meta.warehouseName ?? t('reorder.allWarehouses'))} · ${escapeHtml(new Date().toLocaleDateString())}</p>
+        <table>
+          <tr>
+            <th>${t('reorder.product')}</th>
+            <th>${t('reorder.sku')}</th>
+            <th>${t('reorder.warehouse')}</th>
+            <th class="num">${t('reorder.onHand')}</th>
+            <th class="num">${t('reorder.orderQuantity')}</th>
+          </tr>
+          ${exportRows(suggestions).map(row => `
+            <tr>
+              <td>${escapeHtml(row.product)}</td>
+              <td>${escapeHtml(row.barcode)}</td>
+              <td>${escapeHtml(row.warehouse)}</td>
+              <td class="num">${row.stock} ${escapeHtml(row.unit)}</td>
+              <td class="num">${row.quantity} ${escapeHtml(row.unit)}</td>
+            </tr>
+          `).join('')}
+        </table>
+      </body>
+    </html>
+  `;
+};
+
+const shareSuggestionsPdf = async (suggestions: ReorderSuggestion[], meta: ReorderExportMeta) => {
+  await exportService.sharePdf(exportName(), buildSuggestionsHtml(suggestions, meta));
+};
+
+const shareSuggestionsExcel = async (suggestions: ReorderSuggestion[], meta: ReorderExportMeta) => {
+  const t = i18n.t.bind(i18n);
+  const rows = exportRows(suggestions).map(row => ({
+    [t('reorder.product')]: row.product,
+    [t('reorder.sku')]: row.barcode,
+    [t('reorder.warehouse')]: row.warehouse,
+    [t('reorder.onHand')]: row.stock,
+    [t('reorder.orderQuantity')]: row.quantity,
+    [t('reorder.unit')]: row.unit,
+  }));
+  await exportService.shareSpreadsheet(exportName(), [{ name: meta.supplierName || t('reorder.sheetName'), rows }], 'xlsx');
+};
+
+export default {
+  getSalesVelocity,
+  shareSuggestionsPdf,
+  shareSuggestionsExcel,
+};
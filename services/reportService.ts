@@ -1,6 +1,25 @@
 import apiClient from '../lib/apiClient';
 import authService from '../services/authService';
 
+// Sales net of returns against the cost of goods captured on each sale line
+export interface GrossProfitRow {
+  _id: string;
+  name: string;
+  quantity: number; // base units
+  revenue: number;
+  cost: number;
+}
+
+export interface GrossProfitReport {
+  totals: { revenue: number; cost: number };
+  byProduct: GrossProfitRow[];
+  byCategory: GrossProfitRow[];
+  byWarehouse: GrossProfitRow[];
+  bySalesperson: GrossProfitRow[];
+}
+
+export type GrossProfitGroup = 'byProduct' | 'byCategory' | 'byWarehouse' | 'bySalesperson';
+
 // Get summary for a specific month (income, expense, low stock, out of stock)
 export const fetchMonthlySummary = async (year: number, month: number) => {
   const accessToken = await authService.getAccessToken();
@@ -42,11 +61,30 @@ export const getAvailableYears = async () => {
   return res.data;
 };
 
+// Get revenue and cost of goods sold for a year, or one month of it (0-based like the summary)
+export const fetchGrossProfit = async (year: number, month?: number): Promise<GrossProfitReport> => {
+  const accessToken = await authService.getAccessToken();
+
+  const res = await apiClient.get('/reports/gross-profit', {
+    params: { year, ...(month !== undefined && { month }) },
+    headers: {
+      Authorization: `Bearer ${accessToken}` // ✅ attach token
+    }
+  });
+
+  return res.data;
+};
+
+// ✅ Gross profit as a percentage of revenue (0 when nothing was sold)
+export const marginPercent = (revenue: number, cost: number) =>
+  revenue ? ((revenue - cost) / revenue) * 100 : 0;
+
 // Export as default object
 const reportService = {
   fetchMonthlySummary,
   fetchYearlyTrends,
-  getAvailableYears
+  getAvailableYears,
+  fetchGrossProfit
 };
 
 export default reportService;
@@ -1,13 +1,41 @@
 import apiClient from '../lib/apiClient';
+import { isOnline } from './networkService';
+import cacheService from './cacheService';
+import outboxService from './outboxService';
+import { idOf } from './productService';
 
-interface SaleData {
+// One product line on a sale invoice
+export interface SaleLine {
   product: string;
-  warehouse?: string; // ✅ optional
-  quantity: number;
-  price: number;
+  warehouse: string;
+  quantity: number; // in `unit`
+  unitPrice: number; // per `unit`
+  discount?: number; // off this line, as an amount or a percentage (see discountType)
+  discountType?: DiscountType; // defaults to 'amount'
+  taxRate?: number; // % captured at sale time from the product or the business default
+  unit?: string; // defaults to the product's base unit
+  unitFactor?: number; // base units per `unit`; stock moves by quantity × unitFactor
+  unitCost?: number; // cost per `unit` at sale time; the server uses the lot cost for batch-tracked products
+  listPrice?: number; // per `unit` from the customer's price list; a different unitPrice is logged as an override
+  priceList?: string;
+  // Batch-tracked products: the server picks the lots, earliest expiry first (see allocateFefo)
+}
+
+export type DiscountType = 'amount' | 'percent';
+
+export interface SaleData {
+  items: SaleLine[];
+  invoiceDiscount?: number; // off the whole invoice after line discounts
+  invoiceDiscountType?: DiscountType;
+  pricesIncludeTax?: boolean; // unit prices already contain the tax
   amountPaid: number;
+  paymentMethod?: string;
+  paymentChannel?: string;
+  salesPerson?: string;
+  receiptNumber?: string; // assigned by backend when omitted
   paymentStatus?: 'paid' | 'partial' | 'credit'; // ✅ optional
   status?: 'pending' | 'approved' | 'rejected'; // ✅ optional
+  customer?: string; // customer ID; customerName is kept for receipts and older sales
   customerName: string;
   date: string;
   creditTerm?: number;
@@ -16,10 +44,64 @@ interface SaleData {
 }
 
 
-interface PaymentData {
-  amountPaid: number;
+// One installment recorded against a sale; reversed payments stay in the history
+export interface SalePayment {
+  _id: string;
+  amount: number;
+  date: string;
+  channel?: string;
+  note?: string;
+  recordedBy?: { _id: string; name?: string } | string;
+  reversed?: boolean;
+  reversedAt?: string;
+  reversedBy?: { _id: string; name?: string } | string;
+  reversalReason?: string;
+}
+
+export interface PaymentData {
+  amount: number;
   date: string;
-  method?: string;
+  channel?: string;
+  note?: string;
+}
+
+// One returned line; quantity is in the unit the line was sold in
+export interface SaleReturnLine {
+  lineIndex: number; // position of the line in the sale's items
+  product: string;
+  quantity: number;
+  unit?: string;
+  unitFactor?: number;
+  restock: boolean; // false writes the items off as damaged
+  warehouse?: string; // where restocked items go; batch-tracked items go back to the lot they were sold from
+}
+
+export interface SaleReturnData {
+  items: SaleReturnLine[];
+  settlement: 'refund' | 'credit'; // money handed back, or taken off what the customer owes
+  refundChannel?: string;
+  reason?: string;
+  date: string;
+}
+
+// A recorded return as listed under its sale; `amount` is the value credited or refunded
+export interface SaleReturn {
+  _id: string;
+  items: (Omit<SaleReturnLine, 'product' | 'warehouse'> & { product: any; warehouse?: any; amount: number })[];
+  settlement: 'refund' | 'credit';
+  refundChannel?: string;
+  reason?: string;
+  amount: number;
+  date: string;
+  createdBy?: { _id: string; name?: string } | string;
+}
+
+export interface PaymentSummary {
+  total: number; // after returns
+  returned: number;
+  amountPaid: number; // after refunds
+  amountDue: number;
+  paymentStatus: 'paid' | 'partial' | 'credit';
 }
 
 interface GetSalesParams {
@@ -32,10 +114,189 @@ interface GetSalesParams {
   paymentStatus?: string; // Added
   paymentChannel?: string;
   warehouse?: string;
+  customer?: string;
   startDate?: string;
   endDate?: string;
 }
 
+// Normalized line used by the list and edit screens (populated product)
+export interface SaleLineView {
+  product: any;
+  warehouse: any;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  discountType: DiscountType;
+  taxRate: number;
+  lineTotal: number; // after the line discount, before invoice discount and tax
+  amount: number; // what the customer pays for the line: share of the grand total
+  unit?: string;
+  unitFactor: number;
+  unitCost?: number; // cost of goods per `unit` captured when the sale was made
+  listPrice?: number;
+  priceList?: string;
+}
+
+// Subtotal before any discount, the line and invoice discounts together, tax and the grand total
+export interface SaleTotals {
+  subtotal: number;
+  discount: number;
+  tax: number;
+  total: number;
+  lineAmounts: number[]; // grand total split across the lines, in line order
+}
+
+interface PricedLine {
+  quantity: number;
+  unitPrice: number;
+  discount?: number;
+  discountType?: DiscountType;
+  taxRate?: number;
+}
+
+// ✅ Money rounded to cents
+export const round2 = (n: number) => Math.round(n * 100) / 100;
+
+// ✅ Amount a discount takes off a base, never more than the base itself
+export const discountAmount = (base: number, discount = 0, type: DiscountType = 'amount') =>
+  Math.min(Math.max(type === 'percent' ? (base * discount) / 100 : discount, 0), Math.max(base, 0));
+
+// ✅ Line total after discount, never negative
+export const calculateLineTotal = (line: PricedLine) => {
+  const gross = (line.quantity || 0) * (line.unitPrice || 0);
+  return Math.max(gross - discountAmount(gross, line.discount, line.discountType), 0);
+};
+
+// ✅ Invoice totals: the invoice discount is spread over the lines by value so each line's tax
+// is on what was actually charged. With tax-inclusive prices the tax is already in the total.
+export const calculateSaleTotals = (
+  lines: PricedLine[],
+  options: { invoiceDiscount?: number; invoiceDiscountType?: DiscountType; pricesIncludeTax?: boolean } = {}
+): SaleTotals => {
+  const subtotal = lines.reduce((sum, l) => sum + (l.quantity || 0) * (l.unitPrice || 0), 0);
+  const lineTotals = lines.map(calculateLineTotal);
+  const afterLines = lineTotals.reduce((sum, n) => sum + n, 0);
+  const invoiceDiscount = discountAmount(afterLines, options.invoiceDiscount, options.invoiceDiscountType);
+
+  let tax = 0;
+  const lineAmounts = lines.map((line, index) => {
+    const share = afterLines > 0 ? lineTotals[index] / afterLines : 0;
+    const taxable = lineTotals[index] - invoiceDiscount * share;
+    const rate = line.taxRate || 0;
+    const lineTax = options.pricesIncludeTax ? (taxable * rate) / (100 + rate) : (taxable * rate) / 100;
+    tax += lineTax;
+    return round2(options.pricesIncludeTax ? taxable : taxable + lineTax);
+  });
+
+  return {
+    subtotal: round2(subtotal),
+    discount: round2(subtotal - afterLines + invoiceDiscount),
+    tax: round2(tax),
+    total: round2(lineAmounts.reduce((sum, n) => sum + n, 0)),
+    lineAmounts,
+  };
+};
+
+const totalsOptionsOf = (sale: any) => ({
+  invoiceDiscount: Number(sale?.invoiceDiscount) || 0,
+  invoiceDiscountType: sale?.invoiceDiscountType as DiscountType | undefined,
+  pricesIncludeTax: !!sale?.pricesIncludeTax,
+});
+
+// ✅ Totals of a saved sale; sales from before discounts and tax add up to their line totals
+export const getSaleTotals = (sale: any): SaleTotals => {
+  const lines = getSaleLines(sale);
+  return calculateSaleTotals(lines, totalsOptionsOf(sale));
+};
+
+// ✅ Read lines from a sale; older single-product sales become one line
+export const getSaleLines = (sale: any): SaleLineView[] => {
+  if (Array.isArray(sale?.items) && sale.items.length > 0) {
+    const lines: SaleLineView[] = sale.items.map((item: any) => {
+      const line = {
+        product: item.product,
+        warehouse: item.warehouse ?? item.product?.warehouse,
+        quantity: Number(item.quantity) || 0,
+        unitPrice: Number(item.unitPrice) || 0,
+        discount: Number(item.discount) || 0,
+        discountType: (item.discountType ?? 'amount') as DiscountType,
+        taxRate: Number(item.taxRate) || 0,
+        unit: item.unit ?? item.product?.unit,
+        unitFactor: Number(item.unitFactor) || 1,
+        unitCost: item.unitCost ?? undefined,
+        listPrice: item.listPrice ?? undefined,
+        priceList: idOf(item.priceList) ?? undefined,
+      };
+      return { ...line, lineTotal: calculateLineTotal(line), amount: 0 };
+    });
+    const { lineAmounts } = calculateSaleTotals(lines, totalsOptionsOf(sale));
+    return lines.map((line, index) => ({ ...line, amount: lineAmounts[index] }));
+  }
+
+  if (!sale?.product) return [];
+
+  // Legacy sales store the line total in `price`
+  const quantity = Number(sale.quantity) || 0;
+  const total = Number(sale.price) || 0;
+  return [
+    {
+      product: sale.product,
+      warehouse: sale.warehouse ?? sale.product?.warehouse,
+      quantity,
+      unitPrice: quantity > 0 ? total / quantity : total,
+      discount: 0,
+      discountType: 'amount',
+      taxRate: 0,
+      lineTotal: total,
+      amount: total,
+      unit: sale.product?.unit,
+      unitFactor: 1,
+    },
+  ];
+};
+
+// ✅ Value of returning part of a line: its share of what was charged, so discounts and tax carry over
+export const calculateReturnValue = (line: SaleLineView, quantity: number) =>
+  line.quantity > 0 ? round2((line.amount * Math.min(quantity, line.quantity)) / line.quantity) : 0;
+
+// ✅ Quantity already returned per line index, in the line's unit
+export const returnedQuantities = (returns: SaleReturn[]) => {
+  const returned = new Map<number, number>();
+  returns.forEach(r =>
+    r.items.forEach(item =>
+      returned.set(item.lineIndex, (returned.get(item.lineIndex) ?? 0) + (Number(item.quantity) || 0))
+    )
+  );
+  return returned;
+};
+
+// ✅ Whether anything was taken back; returns point at lines by position, so such a sale can't be edited
+export const hasSaleReturns = (sale: any, returns?: SaleReturn[]) =>
+  (returns ?? (Array.isArray(sale?.returns) ? sale.returns : [])).length > 0;
+
+// ✅ Paid, due and status derived from the payment history; reversed payments don't count.
+// Sales recorded before installments existed have no history and fall back to `amountPaid`.
+// Returns lower the total; refunds also lower what was paid, credits only what is due.
+export const summarizePayments = (sale: any, payments?: SalePayment[], returns?: SaleReturn[]): PaymentSummary => {
+  const gross = Number(sale?.totalAmount ?? getSaleTotals(sale).total) || 0;
+  const history: SalePayment[] = payments ?? (Array.isArray(sale?.payments) ? sale.payments : []);
+  const paid =
+    history.length > 0
+      ? history.filter(p => !p.reversed).reduce((sum, p) => sum + (Number(p.amount) || 0), 0)
+      : Number(sale?.amountPaid) || 0;
+  const returnHistory: SaleReturn[] = returns ?? (Array.isArray(sale?.returns) ? sale.returns : []);
+  const returned = returnHistory.reduce((sum, r) => sum + (Number(r.amount) || 0), 0);
+  const refunded = returnHistory
+    .filter(r => r.settlement === 'refund')
+    .reduce((sum, r) => sum + (Number(r.amount) || 0), 0);
+
+  const total = round2(Math.max(gross - returned, 0));
+  const amountPaid = round2(Math.max(paid - refunded, 0));
+  const amountDue = Math.max(round2(total - amountPaid), 0);
+  const paymentStatus = amountDue <= 0 ? 'paid' : amountPaid > 0 ? 'partial' : 'credit';
+  return { total, returned, amountPaid, amountDue, paymentStatus };
+};
+
 const saleService = {
   // Get all sales with pagination, search, sort, and filters
   getAllSales: async (params?: GetSalesParams) => {
@@ -49,6 +310,7 @@ const saleService = {
       ...(params?.paymentStatus && { paymentStatus: params.paymentStatus }), // ✅ Added
       ...(params?.paymentChannel && { paymentChannel: params.paymentChannel }), // ✅ Added
       ...(params?.warehouse && { warehouse: params.warehouse }),
+      ...(params?.customer && { customer: params.customer }),
       ...(params?.startDate && { startDate: params.startDate }),
       ...(params?.endDate && { endDate: params.endDate }),
     };
@@ -57,11 +319,15 @@ const saleService = {
     return res.data; // { sales, total, page, totalPages }
   },
 
-  // Add new sale
+  // Add new sale (one invoice, many lines)
   addSale: async (data: SaleData) => {
+    if (!isOnline()) {
+      return outboxService.enqueue({ kind: 'sale', method: 'post', url: '/sales', data });
+    }
     const res = await apiClient.post('/sales', data, {
       headers: { 'Content-Type': 'application/json' },
     });
+    await cacheService.invalidate('products', 'customers', 'receivables');
     return res.data;
   },
 
@@ -76,30 +342,64 @@ const saleService = {
     const res = await apiClient.put(`/sales/${id}`, data, {
       headers: { 'Content-Type': 'application/json' },
     });
+    await cacheService.invalidate('products', 'customers', 'receivables');
+    return res.data;
+  },
+
+  // Payment history for a sale, oldest first
+  getPayments: async (saleId: string): Promise<SalePayment[]> => {
+    const res = await apiClient.get(`/sales/${saleId}/payments`);
+    return res.data;
+  },
+
+  // Record one installment; the backend recalculates amountDue and paymentStatus
+  recordPayment: async (saleId: string, payment: PaymentData) => {
+    const res = await apiClient.post(`/sales/${saleId}/payments`, payment);
+    await cacheService.invalidate('customers', 'receivables');
     return res.data;
   },
 
-  // Mark as paid
-  markAsPaid: async (saleId: string, paymentData: PaymentData) => {
-    const res = await apiClient.put(`/sales/${saleId}/mark-paid`, paymentData);
+  // Reverse a mistaken payment; it stays in the history marked as reversed
+  reversePayment: async (saleId: string, paymentId: string, reason?: string) => {
+    const res = await apiClient.post(`/sales/${saleId}/payments/${paymentId}/reverse`, { reason });
+    await cacheService.invalidate('customers', 'receivables');
+    return res.data;
+  },
+
+  // Returns recorded against a sale, oldest first
+  getReturns: async (saleId: string): Promise<SaleReturn[]> => {
+    const res = await apiClient.get(`/sales/${saleId}/returns`);
+    return res.data;
+  },
+
+  // Return items from an approved sale; the backend restocks or writes them off and
+  // refunds or credits the customer, leaving the original sale as it was
+  createReturn: async (saleId: string, data: SaleReturnData) => {
+    const res = await apiClient.post(`/sales/${saleId}/returns`, data, {
+      headers: { 'Content-Type': 'application/json' },
+    });
+    await cacheService.invalidate('products', 'customers', 'receivables');
     return res.data;
   },
 
   // Delete a sale
   deleteSale: async (id: string) => {
     const res = await apiClient.delete(`/sales/${id}`);
+    await cacheService.invalidate('products', 'customers', 'receivables');
     return res.data;
   },
 
   // Approve a sale
   approveSale: async (id: string) => {
     const res = await apiClient.put(`/sales/${id}/approve`);
+    await cacheService.invalidate('products', 'customers', 'receivables');
     return res.data;
   },
 
   // Reject a sale
   rejectSale: async (id: string) => {
     const res = await apiClient.put(`/sales/${id}/reject`);
+    await cacheService.invalidate('products', 'customers', 'receivables');
     return res.data;
   },
 };
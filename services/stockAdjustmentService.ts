@@ -0,0 +1,76 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import { isOnline } from './networkService';
+import outboxService from './outboxService';
+
+export type AdjustmentReason = 'damaged' | 'expired' | 'lost' | 'found' | 'count_correction';
+
+export const ADJUSTMENT_REASONS: AdjustmentReason[] = ['damaged', 'expired', 'lost', 'found', 'count_correction'];
+
+export interface StockAdjustmentData {
+  product: string;
+  warehouse: string; // the stock row being adjusted
+  reason: AdjustmentReason;
+  change: number; // signed: negative removes stock
+  note: string;
+  photo?: string; // uploaded image URL
+  date: string;
+}
+
+export interface StockAdjustment extends Omit<StockAdjustmentData, 'product' | 'warehouse'> {
+  _id: string;
+  product: { _id: string; name: string; unit?: string } | string;
+  warehouse?: { _id: string; name: string } | string;
+  quantityBefore: number;
+  quantityAfter: number;
+  createdBy?: { _id: string; name?: string };
+  createdAt: string;
+}
+
+// ✅ Signed quantity change for a reason; a count correction takes the counted quantity
+export const adjustmentChange = (reason: AdjustmentReason, amount: number, currentQuantity: number) => {
+  switch (reason) {
+    case 'found':
+      return amount;
+    case 'count_correction':
+      return amount - currentQuantity;
+    default:
+      return -amount;
+  }
+};
+
+// Changes stock through an audited record instead of editing the quantity
+const createAdjustment = async (data: StockAdjustmentData) => {
+  if (!isOnline()) {
+    return outboxService.enqueue({
+      kind: 'adjustment',
+      method: 'post',
+      url: '/stock-adjustments',
+      data,
+      targetId: data.product,
+    });
+  }
+  const res = await apiClient.post('/stock-adjustments', data);
+  await cacheService.invalidate('products', 'adjustments');
+  return res.data;
+};
+
+// Several adjustments posted together, e.g. the approved variances of a stocktake
+const createAdjustments = async (adjustments: StockAdjustmentData[], reference?: string) => {
+  const res = await apiClient.post('/stock-adjustments/batch', { adjustments, reference });
+  await cacheService.invalidate('products', 'adjustments');
+  return res.data;
+};
+
+const getAdjustments = async (productId: string, options?: CacheOptions<any>): Promise<StockAdjustment[]> => {
+  return cacheService.swr(`adjustments:${productId}`, async () => {
+    const res = await apiClient.get('/stock-adjustments', { params: { product: productId } });
+    return res.data;
+  }, options);
+};
+
+export default {
+  createAdjustment,
+  createAdjustments,
+  getAdjustments,
+};
@@ -0,0 +1,70 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+
+export type MovementType =
+  | 'initial'
+  | 'sale'
+  | 'sale_edit'
+  | 'transfer_in'
+  | 'transfer_out'
+  | 'receipt'
+  | 'adjustment'
+  | 'import'
+  | 'edit';
+
+// Document that caused a movement
+export interface MovementSource {
+  kind: 'sale' | 'transfer' | 'goodsReceipt' | 'adjustment' | 'import' | 'product';
+  id: string;
+  number?: string; // receipt, GRN or order number when the document has one
+  purchaseOrder?: string; // for goods received against an order
+}
+
+export interface StockMovement {
+  _id: string;
+  date: string;
+  type: MovementType;
+  change: number; // signed: negative is stock out
+  warehouse?: { _id: string; name: string };
+  user?: { _id: string; name?: string };
+  source?: MovementSource;
+  note?: string;
+}
+
+export interface MovementWithBalance extends StockMovement {
+  balance: number;
+}
+
+export interface MovementLedger {
+  openingBalance: number; // stock before the first movement in range
+  movements: StockMovement[]; // oldest first
+}
+
+interface MovementParams {
+  from?: string; // YYYY-MM-DD
+  to?: string;
+}
+
+// ✅ Running balance after each movement, starting from the opening balance
+export const withRunningBalance = (ledger: MovementLedger): MovementWithBalance[] => {
+  let balance = ledger.openingBalance ?? 0;
+  return (ledger.movements ?? []).map(movement => {
+    balance += movement.change;
+    return { ...movement, balance };
+  });
+};
+
+const getProductMovements = async (
+  productId: string,
+  params?: MovementParams,
+  options?: CacheOptions<MovementLedger>
+): Promise<MovementLedger> => {
+  return cacheService.swr(`products:movements:${productId}:${JSON.stringify(params ?? {})}`, async () => {
+    const res = await apiClient.get(`/products/${productId}/movements`, { params });
+    return res.data;
+  }, options);
+};
+
+export default {
+  getProductMovements,
+};
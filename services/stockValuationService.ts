@@ -0,0 +1,158 @@
+import i18n from '../i18n';
+import apiClient from '../lib/apiClient';
+import exportService, { escapeHtml, exportDate } from './exportService';
+
+/**
+ * What the stock on hand cost, per product and warehouse, as of a date. The server replays
+ * receipts and sales up to that date and costs the remaining units either from the oldest
+ * purchase layers still in stock (FIFO) or at the running weighted-average buying price.
+ */
+
+export type CostingMethod = 'fifo' | 'average';
+export type ValuationGrouping = 'warehouse' | 'category';
+
+export interface StockValuationRow {
+  product: { _id: string; name: string; brand?: string; unit?: string; category?: { _id: string; name: string } | null };
+  warehouse: { _id: string; name: string };
+  quantity: number; // base units on hand at the date
+  unitCost: number; // value / quantity
+  value: number;
+}
+
+export interface StockValuation {
+  asOf: string;
+  method: CostingMethod;
+  rows: StockValuationRow[];
+}
+
+export interface ValuationGroup {
+  key: string;
+  name: string;
+  quantity: number;
+  value: number;
+  rows: StockValuationRow[];
+}
+
+const getStockValuation = async (asOf: Date, method: CostingMethod): Promise<StockValuation> => {
+  const res = await apiClient.get('/reports/stock-valuation', {
+    params: { asOf: exportDate(asOf), method },
+  });
+  return res.data;
+};
+
+// ✅ Total value of the rows
+export const valuationTotal = (rows: StockValuationRow[]) => rows.reduce((sum, row) => sum + (Number(row.value) || 0), 0);
+
+// ✅ Rows per warehouse or category, most valuable first
+export const groupValuation = (rows: StockValuationRow[], by: ValuationGrouping): ValuationGroup[] => {
+  const t = i18n.t.bind(i18n);
+  const groups = new Map<string, ValuationGroup>();
+  rows.forEach(row => {
+    const ref = by === 'warehouse' ? row.warehouse : row.product.category;
+    const key = ref?._id ?? 'none';
+    const group = groups.get(key) ?? {
+      key,
+      name: ref?.name ?? t('valuation.noCategory'),
+      quantity: 0,
+      value: 0,
+      rows: [],
+    };
+    group.quantity += Number(row.quantity) || 0;
+    group.value += Number(row.value) || 0;
+    group.rows.push(row);
+    groups.set(key, group);
+  });
+  return Array.from(groups.values()).sort((a, b) => b.value - a.value);
+};
+
+const money = (n: number) => `ETB ${(Number(n) || 0).toLocaleString(undefined, { maximumFractionDigits: 2 })}`;
+
+const exportName = (valuation: StockValuation) => `stock-valuation-${valuation.asOf}-${valuation.method}`;
+
+const productLabel = (row: StockValuationRow) => `${row.product.name}${row.product.brand ? ` ${row.product.brand}` : ''}`;
+
+const buildValuationHtml = (valuation: StockValuation, by: ValuationGrouping) => {
+  const t = i18n.t.bind(i18n);
+  const groups = groupValuation(valuation.rows, by);
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; padding: 24px; color: #1e293b; }
+          h1 { font-size: 20px; margin: 0 0 4px; color: #0f766e; }
+          .muted { color: #64748b; font-size: 12px; margin: 2px 0; }
+          .group { background: #e2e8f0; padding: 6px 8px; font-weight: bold; margin-top: 18px; display: flex; justify-content: space-between; }
+          table { width: 100%; border-collapse: collapse; margin-top: 6px; font-size: 12px; }
+          th { text-align: left; border-bottom: 1px solid #cbd5e1; padding: 6px 4px; }
+          td { padding: 6px 4px; border-bottom: 1px solid #f1f5f9; }
+          .num { text-align: right; }
+          .total { text-align: right; font-weight: bold; font-size: 14px; margin-top: 18px; }
+        </style>
+      </head>
+      <body>
+        <h1>${t('valuation.reportTitle')}</h1>
+        <p class="muted">${t('valuation.asOf', { date: escapeHtml(new Date(valuation.asOf).toLocaleDateString()) })} · ${t(`valuation.method_${valuation.method}`)}</p>
+        ${groups.map(group => `
+          <div class="group"><span>${escapeHtml(group.name)}</span><span>${money(group.value)}</span></div>
+          <table>
+            <tr>
+              <th>${t('valuation.product')}</th>
+              ${by === 'category' ? `<th>${t('valuation.warehouse')}</th>` : `<th>${t('valuation.category')}</th>`}
+              <th class="num">${t('valuation.quantity')}</th>
+              <th class="num">${t('valuation.unitCost')}</th>
+              <th class="num">${t('valuation.value')}</th>
+            </tr>
+            ${group.rows.map(row => `
+              <tr>
+                <td>${escapeHtml(productLabel(row))}</td>
+                <td>${escapeHtml(by === 'category' ? row.warehouse.name : row.product.category?.name ?? '-')}</td>
+                <td class="num">${row.quantity} ${escapeHtml(row.product.unit ?? '')}</td>
+                <td class="num">${money(row.unitCost)}</td>
+                <td class="num">${money(row.value)}</td>
+              </tr>
+            `).join('')}
+          </table>
+        `).join('')}
+        <p class="total">${t('valuation.totalValue')}: ${money(valuationTotal(valuation.rows))}</p>
+      </body>
+    </html>
+  `;
+};
+
+const shareValuationPdf = async (valuation: StockValuation, by: ValuationGrouping) => {
+  await exportService.sharePdf(exportName(valuation), buildValuationHtml(valuation, by));
+};
+
+// Detail rows plus a summary sheet for each grouping
+const shareValuationExcel = async (valuation: StockValuation) => {
+  const t = i18n.t.bind(i18n);
+  const detail = valuation.rows.map(row => ({
+    [t('valuation.product')]: productLabel(row),
+    [t('valuation.category')]: row.product.category?.name ?? '',
+    [t('valuation.warehouse')]: row.warehouse.name,
+    [t('valuation.quantity')]: row.quantity,
+    [t('valuation.unit')]: row.product.unit ?? '',
+    [t('valuation.unitCost')]: row.unitCost,
+    [t('valuation.value')]: row.value,
+  }));
+  const summaries = (['warehouse', 'category'] as const).map(by => ({
+    name: t(`valuation.by_${by}`),
+    rows: groupValuation(valuation.rows, by).map(group => ({
+      [t(`valuation.${by}`)]: group.name,
+      [t('valuation.quantity')]: group.quantity,
+      [t('valuation.value')]: group.value,
+    })),
+  }));
+  await exportService.shareSpreadsheet(
+    exportName(valuation),
+    [{ name: t('valuation.sheetDetail'), rows: detail }, ...summaries],
+    'xlsx'
+  );
+};
+
+export default {
+  getStockValuation,
+  shareValuationPdf,
+  shareValuationExcel,
+};
@@ -0,0 +1,215 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Print from 'expo-print';
+import { store } from '../app/store/index';
+import i18n from '../i18n';
+import exportService, { escapeHtml } from './exportService';
+import productService from './productService';
+import stockAdjustmentService from './stockAdjustmentService';
+
+/**
+ * Physical stock counts, kept on the device so counting works without a connection.
+ * A session freezes the warehouse's quantities when it starts; approved variances
+ * are posted as count-correction adjustments relative to that snapshot.
+ */
+
+export interface StocktakeLine {
+  product: string;
+  name: string;
+  brand?: string;
+  unit?: string;
+  barcode?: string;
+  expected: number; // quantity in the snapshot
+  counted: number | null; // null until counted
+  approved: boolean;
+}
+
+export interface StocktakeSession {
+  id: string;
+  warehouse: { _id: string; name: string };
+  status: 'counting' | 'posted';
+  lines: StocktakeLine[];
+  businessId?: string;
+  startedAt: string;
+  startedBy?: string;
+  postedAt?: string;
+}
+
+const SESSIONS_KEY = 'stocktake:sessions';
+
+let sessionsCache: StocktakeSession[] | null = null;
+
+const currentBusinessId = () => store.getState().auth.user?.businessId;
+
+const loadAll = async (): Promise<StocktakeSession[]> => {
+  if (sessionsCache) return sessionsCache;
+  try {
+    const raw = await AsyncStorage.getItem(SESSIONS_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    sessionsCache = Array.isArray(parsed) ? parsed : [];
+  } catch {
+    sessionsCache = [];
+  }
+  return sessionsCache;
+};
+
+const saveAll = async (sessions: StocktakeSession[]) => {
+  sessionsCache = sessions;
+  await AsyncStorage.setItem(SESSIONS_KEY, JSON.stringify(sessions));
+};
+
+// ✅ Counted minus expected; null while the line is uncounted
+export const lineVariance = (line: StocktakeLine) => (line.counted === null ? null : line.counted - line.expected);
+
+// ✅ Progress and variance totals for a session
+export const summarizeSession = (session: StocktakeSession) => {
+  const counted = session.lines.filter(l => l.counted !== null);
+  const variances = counted.filter(l => lineVariance(l) !== 0);
+  return {
+    total: session.lines.length,
+    counted: counted.length,
+    variances: variances.length,
+    approved: variances.filter(l => l.approved).length,
+  };
+};
+
+// Sessions of the current business, newest first
+const getSessions = async () => {
+  const businessId = currentBusinessId();
+  const sessions = await loadAll();
+  return sessions
+    .filter(s => !s.businessId || s.businessId === businessId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+};
+
+const getSession = async (id: string) => (await loadAll()).find(s => s.id === id) ?? null;
+
+const saveSession = async (session: StocktakeSession) => {
+  const sessions = await loadAll();
+  await saveAll(sessions.map(s => (s.id === session.id ? session : s)));
+};
+
+// Snapshot the warehouse's current quantities; needs a connection for fresh numbers
+const startSession = async (warehouse: { _id: string; name: string }) => {
+  const products = await productService.getByWarehouse(warehouse._id, { force: true });
+  const session: StocktakeSession = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 10)}`,
+    warehouse: { _id: warehouse._id, name: warehouse.name },
+    status: 'counting',
+    lines: (Array.isArray(products) ? products : []).map((p: any) => ({
+      product: p._id,
+      name: p.name,
+      brand: p.brand,
+      unit: p.unit,
+      barcode: p.barcode,
+      expected: Number(p.quantity) || 0,
+      counted: null,
+      approved: true,
+    })),
+    businessId: currentBusinessId(),
+    startedAt: new Date().toISOString(),
+    startedBy: store.getState().auth.user?.name,
+  };
+  await saveAll([...(await loadAll()), session]);
+  return session;
+};
+
+const discardSession = async (id: string) => {
+  const sessions = await loadAll();
+  await saveAll(sessions.filter(s => s.id !== id));
+};
+
+// Post approved variances in one batch and close the session
+const postVariances = async (session: StocktakeSession) => {
+  const date = new Date().toISOString();
+  const adjustments = session.lines
+    .filter(line => line.approved && (lineVariance(line) ?? 0) !== 0)
+    .map(line => ({
+      product: line.product,
+      warehouse: session.warehouse._id,
+      reason: 'count_correction' as const,
+      change: lineVariance(line) as number,
+      note: i18n.t('stocktake.adjustmentNote', { warehouse: session.warehouse.name }),
+      date,
+    }));
+
+  if (adjustments.length > 0) {
+    await stockAdjustmentService.createAdjustments(adjustments, `stocktake:${session.id}`);
+  }
+  const posted: StocktakeSession = { ...session, status: 'posted', postedAt: date };
+  await saveSession(posted);
+  return posted;
+};
+
+const buildVarianceReportHtml = (session: StocktakeSession) => {
+  const t = i18n.t.bind(i18n);
+  const summary = summarizeSession(session);
+  const rows = session.lines.filter(l => l.counted === null || lineVariance(l) !== 0);
+
+  return `
+    <html>
+      <head>
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <style>
+          body { font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif; padding: 24px; color: #1e293b; }
+          h1 { font-size: 20px; margin: 0 0 4px; }
+          .muted { color: #64748b; font-size: 12px; margin: 2px 0; }
+          table { width: 100%; border-collapse: collapse; margin-top: 16px; font-size: 12px; }
+          th { text-align: left; border-bottom: 1px solid #cbd5e1; padding: 6px 4px; }
+          td { padding: 6px 4px; border-bottom: 1px solid #f1f5f9; }
+          .num { text-align: right; }
+          .neg { color: #dc2626; }
+          .pos { color: #059669; }
+          .signature { margin-top: 40px; display: flex; justify-content: space-between; font-size: 12px; }
+        </style>
+      </head>
+      <body>
+        <h1>${t('stocktake.reportTitle')}</h1>
+        <p class="muted">${escapeHtml(session.warehouse.name)} · ${escapeHtml(new Date(session.startedAt).toLocaleString())}</p>
+        <p class="muted">${t('stocktake.progress', { counted: summary.counted, total: summary.total })} · ${t('stocktake.varianceCount', { count: summary.variances })}</p>
+        <table>
+          <tr>
+            <th>${t('stocktake.product')}</th>
+            <th class="num">${t('stocktake.expected')}</th>
+            <th class="num">${t('stocktake.counted')}</th>
+            <th class="num">${t('stocktake.variance')}</th>
+          </tr>
+          ${rows.map(line => {
+            const variance = lineVariance(line);
+            const cls = variance === null ? '' : variance < 0 ? 'neg' : 'pos';
+            return `
+              <tr>
+                <td>${escapeHtml(line.name)} ${escapeHtml(line.brand ?? '')}</td>
+                <td class="num">${line.expected} ${escapeHtml(line.unit ?? '')}</td>
+                <td class="num">${line.counted === null ? t('stocktake.notCounted') : line.counted}</td>
+                <td class="num ${cls}">${variance === null ? '-' : `${variance > 0 ? '+' : ''}${variance}`}</td>
+              </tr>
+            `;
+          }).join('')}
+        </table>
+        <div class="signature">
+          <span>${t('stocktake.countedBy')}: ____________________</span>
+          <span>${t('stocktake.approvedBy')}: ____________________</span>
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+const shareVarianceReport = async (session: StocktakeSession) => {
+  await exportService.sharePdf(`stocktake-${session.id}`, buildVarianceReportHtml(session));
+};
+
+const printVarianceReport = async (session: StocktakeSession) => {
+  await Print.printAsync({ html: buildVarianceReportHtml(session) });
+};
+
+export default {
+  getSessions,
+  getSession,
+  saveSession,
+  startSession,
+  discardSession,
+  postVariances,
+  shareVarianceReport,
+  printVarianceReport,
+};
@@ -0,0 +1,95 @@
+import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
+import { PaymentData } from './saleService';
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  balance?: number; // what we owe across received goods not yet paid
+  createdAt?: string;
+}
+
+export interface SupplierData {
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+}
+
+// One row on the supplier statement
+export interface SupplierLedgerEntry {
+  _id: string;
+  type: 'receipt' | 'payment';
+  date: string;
+  amount: number;
+  receiptId?: string;
+  grnNumber?: string;
+  channel?: string;
+  note?: string;
+  balance: number; // running balance owed after this entry
+}
+
+export interface SupplierLedger {
+  supplier: Supplier;
+  entries: SupplierLedgerEntry[];
+  totalReceived: number;
+  totalPaid: number;
+  outstanding: number;
+}
+
+// Get all suppliers (cached for the purchase screens)
+const getAllSuppliers = async (options?: CacheOptions<Supplier[]>): Promise<Supplier[]> => {
+  return cacheService.swr('suppliers', async () => {
+    const res = await apiClient.get('/suppliers');
+    return res.data;
+  }, options);
+};
+
+const getSupplierById = async (id: string): Promise<Supplier> => {
+  const res = await apiClient.get(`/suppliers/${id}`);
+  return res.data;
+};
+
+// Goods received, payments made and running balance for one supplier, oldest first
+const getSupplierLedger = async (id: string): Promise<SupplierLedger> => {
+  const res = await apiClient.get(`/suppliers/${id}/ledger`);
+  return res.data;
+};
+
+const addSupplier = async (data: SupplierData): Promise<Supplier> => {
+  const res = await apiClient.post('/suppliers', data);
+  await cacheService.invalidate('suppliers');
+  return res.data;
+};
+
+const updateSupplier = async (id: string, data: SupplierData): Promise<Supplier> => {
+  const res = await apiClient.put(`/suppliers/${id}`, data);
+  await cacheService.invalidate('suppliers');
+  return res.data;
+};
+
+const deleteSupplier = async (id: string) => {
+  const res = await apiClient.delete(`/suppliers/${id}`);
+  await cacheService.invalidate('suppliers');
+  return res.data;
+};
+
+// Record money paid to a supplier against their balance
+const recordPayment = async (id: string, payment: PaymentData) => {
+  const res = await apiClient.post(`/suppliers/${id}/payments`, payment);
+  await cacheService.invalidate('suppliers');
+  return res.data;
+};
+
+export default {
+  getAllSuppliers,
+  getSupplierById,
+  getSupplierLedger,
+  addSupplier,
+  updateSupplier,
+  deleteSupplier,
+  recordPayment,
+};
@@ -1,4 +1,7 @@
 import axios from '../lib/apiClient';
+import cacheService from './cacheService';
+import { isOnline } from './networkService';
+import outboxService from './outboxService';
 
 const getAllTransfers = async () => {
   const response = await axios.get('/transfers');
@@ -10,14 +13,21 @@ const getTransferById = async (id: string) => {
   return response.data;
 };
 
+// Moves quantity from the product's source-warehouse row to its destination row
 const addTransfer = async (transferData: {
   sourceWarehouse: string;
   destinationWarehouse: string;
   product: string;
-  quantity: number;
+  quantity: number; // in `unit`
+  unit?: string;
+  unitFactor?: number; // base units per `unit`
   date: string;
 }) => {
+  if (!isOnline()) {
+    return outboxService.enqueue({ kind: 'transfer', method: 'post', url: '/transfers', data: transferData });
+  }
   const response = await axios.post('/transfers', transferData);
+  await cacheService.invalidate('products');
   return response.data;
 };
 
@@ -32,11 +42,13 @@ const updateTransfer = async (
   }
 ) => {
   const response = await axios.put(`/transfers/${id}`, transferData);
+  await cacheService.invalidate('products');
   return response.data;
 };
 
 const deleteTransfer = async (id: string) => {
   const response = await axios.delete(`/transfers/${id}`);
+  await cacheService.invalidate('products');
   return response.data;
 };
 
@@ -1,31 +1,37 @@
 import apiClient from '../lib/apiClient';
+import cacheService, { CacheOptions } from './cacheService';
 
 interface WarehouseData {
   name: string;
   location?: string;
 }
 
-// Get all warehouses
-const getAllWarehouses = async () => {
-  const response = await apiClient.get('/warehouses');
-  return response.data;
+// Get all warehouses (cached, works offline)
+const getAllWarehouses = async (options?: CacheOptions<any>) => {
+  return cacheService.swr('warehouses', async () => {
+    const response = await apiClient.get('/warehouses');
+    return response.data;
+  }, options);
 };
 
 // Add a new warehouse
 const addWarehouse = async (warehouseData: WarehouseData) => {
   const response = await apiClient.post('/warehouses', warehouseData);
+  await cacheService.invalidate('warehouses');
   return response.data;
 };
 
 // Update a warehouse
 const updateWarehouse = async (warehouseId: string, updatedData: WarehouseData) => {
   const response = await apiClient.put(`/warehouses/${warehouseId}`, updatedData);
+  await cacheService.invalidate('warehouses', 'products');
   return response.data;
 };
 
 // Delete a warehouse
 const deleteWarehouse = async (warehouseId: string) => {
   const response = await apiClient.delete(`/warehouses/${warehouseId}`);
+  await cacheService.invalidate('warehouses', 'products');
   return response.data;
 };
 